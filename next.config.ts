@@ -6,6 +6,10 @@ const nextConfig: NextConfig = {
   // This tells Next.js to treat this directory as the root for file tracing
   outputFileTracingRoot: path.join(__dirname),
   output: 'standalone',
+  // Prompt templates are read from disk at runtime (see src/lib/prompt-registry.ts)
+  outputFileTracingIncludes: {
+    '/api/simulab/**': ['./prompts/**/*'],
+  },
   eslint: {
     ignoreDuringBuilds: true,
   },
@@ -0,0 +1,355 @@
+/**
+ * SimuLab Mock Agents
+ *
+ * Stand-in Orchestrator, Simulator and Judge servers implementing the agent
+ * HTTP contracts (see src/lib/agent-contracts), so the AGENT_MODE=dev path
+ * and the route fallbacks can be exercised offline:
+ *
+ *   npm run mock-agents
+ *
+ * Agents, ports and endpoints follow the agent registry (agents.json) as the
+ * dev-mode client sees it: the port of each dev URL, or SIMULATOR_PORT,
+ * JUDGE_PORT and ORCHESTRATOR_PORT; endpoints an agent does not list answer
+ * 404. Answers are computed with the app's own
+ * libraries: local descriptors for the Simulator, the scoring engine for the
+ * Judge and the bundled reference snapshot for the Orchestrator's scenarios.
+ *
+ * Behaviour (env):
+ *   MOCK_AGENT_LATENCY_MS    delay before each response, ±50% jitter (default 150)
+ *   MOCK_AGENT_JOB_MS        time a polled design/verdict job takes (default 4000)
+ *   MOCK_AGENT_FAILURE_RATE  share of requests answered 503, 0-1 (default 0)
+ *   MOCK_AGENT_SCRIPT        JSON file of scripted responses (below)
+ *
+ * Scripted responses are queued per agent and route and used in order before
+ * the generated behaviour applies. Routes with an id are keyed without it:
+ *
+ *   { "simulab-judge": {
+ *       "/start_verdict": [{ "status": 503 }, { "hang": true }],
+ *       "/verdict_status": [{ "body": { "status": "error", "error": "Judge crashed" } }] } }
+ *
+ * A step is { status?, body?, raw?, delay_ms?, hang? }: `raw` is sent as-is
+ * (malformed JSON), `hang` never answers (client timeouts).
+ *
+ * Control endpoints on every port: GET /__mock/calls (that agent's request
+ * log), PUT /__mock/script (replace that agent's script) and POST
+ * /__mock/reset (clear every script, job and log).
+ */
+
+import http from 'http';
+import { promises as fs } from 'fs';
+import { AGENTS, getAgent, getAgentDevUrl, isAgentName, isDeclaredEndpoint, type AgentName } from '../src/lib/agent-registry';
+import type {
+  DesignExperimentRequest,
+  DesignExperimentResponse,
+  EvaluateMoleculeResult,
+  GenerateVerdictRequest,
+  GenerateVerdictResponse,
+  ProcessEditRequest,
+  ProcessEditResponse,
+} from '../src/lib/agent-contracts';
+import { simulateLocally } from '../src/lib/descriptors';
+import { scoreCandidates, formatRejectionReason, roundObjectives, ScoringCriteria } from '../src/lib/scoring';
+import { FilterId, FilterMode } from '../src/lib/filters';
+import { REFERENCE_SNAPSHOT } from '../src/lib/reference-snapshot';
+
+interface ScriptStep {
+  status?: number;
+  body?: unknown;
+  raw?: string;
+  delay_ms?: number;
+  hang?: boolean;
+}
+
+type AgentScript = Record<string, ScriptStep[]>;
+
+interface MockJob {
+  started_at: number;
+  data: unknown;
+}
+
+interface Reply {
+  status: number;
+  body: unknown;
+}
+
+const LATENCY_MS = Number(process.env.MOCK_AGENT_LATENCY_MS ?? 150);
+const JOB_MS = Number(process.env.MOCK_AGENT_JOB_MS ?? 4000);
+const FAILURE_RATE = Math.min(1, Math.max(0, Number(process.env.MOCK_AGENT_FAILURE_RATE ?? 0)));
+
+function portOf(agent: AgentName): number {
+  return Number(new URL(getAgentDevUrl(getAgent(agent)!)!).port);
+}
+
+const scripts = new Map<AgentName, AgentScript>();
+const calls: Array<{ at: string; agent: AgentName; method: string; route: string; status: number | 'hang' }> = [];
+const jobs = new Map<string, MockJob>();
+
+// Drug-like fallback scaffolds for targets the snapshot does not cover
+const FALLBACK_SCENARIOS = [
+  { scaffold: 'Anilinoquinazoline', smiles: 'COc1cc2ncnc(Nc3ccc(F)c(Cl)c3)c2cc1OC' },
+  { scaffold: 'Aminopyrimidine', smiles: 'Cc1ccc(NC(=O)c2ccc(CN3CCN(C)CC3)cc2)cc1Nc1nccc(-c2cccnc2)n1' },
+  { scaffold: 'Indolinone', smiles: 'CCN(CC)CCNC(=O)c1c(C)[nH]c(C=C2C(=O)Nc3ccc(F)cc32)c1C' },
+];
+
+// -----------------------------------------------------------------------------
+// Orchestrator
+// -----------------------------------------------------------------------------
+
+function designExperiment(request: DesignExperimentRequest): DesignExperimentResponse {
+  const prompt = request.prompt || '';
+  const targets = [...new Set(REFERENCE_SNAPSHOT.map(r => r.protein_target))];
+  const target = targets.find(t => prompt.toLowerCase().includes(t.toLowerCase()));
+  const rows = target ? REFERENCE_SNAPSHOT.filter(r => r.protein_target === target).slice(0, 5) : [];
+  const picks = rows.length
+    ? rows.map(r => ({ scaffold: r.scaffold_hypothesis, smiles: r.smiles }))
+    : FALLBACK_SCENARIOS;
+
+  return {
+    success: true,
+    goal: `Identify a potent, safe and synthesizable lead: ${prompt.trim() || 'unspecified goal'}`,
+    protein_target: target || prompt.match(/\b[A-Z][A-Z0-9-]{2,}\b/)?.[0] || 'EGFR',
+    constraints: (request.constraints || '').split(/[\n;]+/).map(c => c.trim()).filter(Boolean),
+    scenarios: picks.map((p, i) => ({
+      scenario_id: `scenario_${i + 1}`,
+      scaffold: p.scaffold,
+      smiles: p.smiles,
+      rationale: `Mock Orchestrator hypothesis ${i + 1} (${p.scaffold})`,
+    })),
+    suggested_num_scenarios: picks.length,
+    data_source: rows.length ? 'database' : 'mock_agent',
+    confidence: rows.length ? 'high' : 'medium',
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Simulator
+// -----------------------------------------------------------------------------
+
+function evaluateMolecule(request: { smiles?: string; protein_target?: string }): Reply {
+  const simulated = request.smiles ? simulateLocally(request.smiles) : null;
+  if (!simulated) {
+    return { status: 422, body: { detail: `Could not parse SMILES: ${request.smiles ?? '(missing)'}` } };
+  }
+  const result: EvaluateMoleculeResult = {
+    success: true,
+    smiles: request.smiles,
+    protein_target: request.protein_target,
+    metrics: { ...simulated.metrics, _source: 'mock_agent' },
+  };
+  return { status: 200, body: result };
+}
+
+function processEdit(request: ProcessEditRequest): ProcessEditResponse {
+  const report = request.current_report || {};
+  const note = `Edited by the mock Simulator: ${request.edit_instruction}`;
+  return {
+    success: true,
+    updated_report: {
+      ...report,
+      executive_summary: [report.executive_summary, note].filter(Boolean).join('\n\n'),
+    },
+    summary: note,
+    changes: ['executive_summary'],
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Judge
+// -----------------------------------------------------------------------------
+
+function generateVerdict(request: GenerateVerdictRequest): GenerateVerdictResponse {
+  const c = request.decision_criteria;
+  const criteria: ScoringCriteria = {
+    docking: { hardFailThreshold: c.potency_threshold },
+    admet: { hardFailHERG: c.herg_veto, filters: c.rule_filters as Partial<Record<FilterId, FilterMode>> | undefined },
+    synthesis: { hardFailSa: c.sa_threshold, hardFailSteps: c.steps_threshold },
+    scoring: c.scoring_strategy ? { strategy: c.scoring_strategy as NonNullable<ScoringCriteria['scoring']>['strategy'] } : undefined,
+  };
+  const scoring = scoreCandidates(request.scenarios, criteria);
+  const entry = (s: (typeof scoring.passing)[number]) => ({
+    ...s.candidate,
+    score: Number(s.score.toFixed(3)),
+    rank: s.rank,
+    desirability: roundObjectives(s.objectives),
+  });
+
+  const [best, ...rest] = scoring.passing;
+  const rejected = scoring.rejected.map(s => ({ ...s.candidate, rejection_reason: formatRejectionReason(s.vetoes) }));
+  return {
+    success: true,
+    verdict: {
+      winner: best ? { ...entry(best), rationale: `Top ranked by the mock Judge (${best.explanation}).` } : null,
+      selected: rest.map(s => ({ ...entry(s), selection_reason: `Passes all criteria; ranked #${s.rank}.` })),
+      rejected,
+    },
+    executive_summary: best
+      ? `${best.candidate.scenario_id} is the lead candidate for ${request.protein_target}; ${rest.length} backup(s), ${rejected.length} rejected.`
+      : `No candidate for ${request.protein_target} passed the decision criteria.`,
+    comparative_analysis: scoring.passing.map(s => `#${s.rank} ${s.candidate.scenario_id}: ${s.explanation}`)
+      .concat(rejected.map(r => `${r.scenario_id}: ${r.rejection_reason}`))
+      .join('\n'),
+    data_source: 'mock_agent',
+    confidence: 'high',
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Polling jobs
+// -----------------------------------------------------------------------------
+
+function startJob(data: unknown): Reply {
+  const jobId = `mock-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  jobs.set(jobId, { started_at: Date.now(), data });
+  return { status: 200, body: { job_id: jobId, status: 'pending' } };
+}
+
+function jobStatus(jobId: string): Reply {
+  const job = jobs.get(jobId);
+  if (!job) return { status: 404, body: { detail: `Unknown job: ${jobId}` } };
+
+  const progress = Math.min(100, Math.round(((Date.now() - job.started_at) / Math.max(JOB_MS, 1)) * 100));
+  if (progress < 100) {
+    return { status: 200, body: { status: 'running', progress, message: `Mock job ${progress}% done` } };
+  }
+  jobs.delete(jobId);
+  return { status: 200, body: { status: 'completed', progress: 100, data: job.data } };
+}
+
+// -----------------------------------------------------------------------------
+// Routing
+// -----------------------------------------------------------------------------
+
+function route(agent: AgentName, method: string, path: string, body: Record<string, unknown>): Reply | null {
+  if (!isDeclaredEndpoint(agent, path)) return null;
+  const [, name, id] = path.split('/');
+  const post = method === 'POST';
+
+  switch (agent) {
+    case AGENTS.ORCHESTRATOR:
+      if (post && name === 'start_design') return startJob(designExperiment(body as DesignExperimentRequest));
+      if (post && name === 'design_experiment') return { status: 200, body: designExperiment(body as DesignExperimentRequest) };
+      if (name === 'design_status' && id) return jobStatus(id);
+      break;
+    case AGENTS.SIMULATOR:
+      if (post && name === 'evaluate_molecule') return evaluateMolecule(body);
+      if (post && name === 'process_edit') return { status: 200, body: processEdit(body as ProcessEditRequest) };
+      break;
+    case AGENTS.JUDGE:
+      if (post && name === 'start_verdict') return startJob(generateVerdict(body as GenerateVerdictRequest));
+      if (post && (name === 'generate_verdict' || name === 'reevaluate')) {
+        return { status: 200, body: generateVerdict(body as GenerateVerdictRequest) };
+      }
+      if (name === 'verdict_status' && id) return jobStatus(id);
+      break;
+  }
+  return null;
+}
+
+function nextScriptStep(agent: AgentName, routeKey: string): ScriptStep | undefined {
+  return scripts.get(agent)?.[routeKey]?.shift();
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return {};
+  const parsed = JSON.parse(text);
+  return parsed && typeof parsed === 'object' ? parsed : {};
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown, raw?: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(raw ?? JSON.stringify(body));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function jittered(ms: number): number {
+  return Math.max(0, Math.round(ms * (0.5 + Math.random())));
+}
+
+async function handle(agent: AgentName, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const method = req.method || 'GET';
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await readJson(req);
+  } catch {
+    send(res, 400, { detail: 'Invalid JSON body' });
+    return;
+  }
+
+  // Control endpoints
+  if (path === '/__mock/calls') return send(res, 200, { calls: calls.filter(c => c.agent === agent) });
+  if (path === '/__mock/reset' && method === 'POST') {
+    scripts.clear();
+    jobs.clear();
+    calls.length = 0;
+    return send(res, 200, { success: true });
+  }
+  if (path === '/__mock/script' && method === 'PUT') {
+    scripts.set(agent, body as AgentScript);
+    return send(res, 200, { success: true, routes: Object.keys(body) });
+  }
+
+  const routeKey = path.replace(/^(\/(?:design|verdict)_status)\/.+$/, '$1');
+  const log = (status: number | 'hang') => {
+    calls.push({ at: new Date().toISOString(), agent, method, route: path, status });
+    console.log(`[mock ${agent}] ${method} ${path} -> ${status}`);
+  };
+
+  const step = nextScriptStep(agent, routeKey);
+  if (step?.hang) {
+    log('hang');
+    return; // never answered; the client's timeout or cancellation closes it
+  }
+  await sleep(step?.delay_ms ?? jittered(LATENCY_MS));
+
+  if (step && (step.status !== undefined || step.body !== undefined || step.raw !== undefined)) {
+    const status = step.status ?? 200;
+    log(status);
+    return send(res, status, step.body ?? {}, step.raw);
+  }
+  if (Math.random() < FAILURE_RATE) {
+    log(503);
+    return send(res, 503, { detail: 'Injected failure' });
+  }
+
+  const reply = route(agent, method, path, body);
+  if (!reply) {
+    log(404);
+    return send(res, 404, { detail: 'Not Found' });
+  }
+  log(reply.status);
+  send(res, reply.status, reply.body);
+}
+
+async function main(): Promise<void> {
+  const scriptPath = process.env.MOCK_AGENT_SCRIPT;
+  if (scriptPath) {
+    const loaded = JSON.parse(await fs.readFile(scriptPath, 'utf8')) as Record<string, AgentScript | undefined>;
+    for (const [agent, script] of Object.entries(loaded)) {
+      if (!isAgentName(agent)) console.warn(`[mock] Ignoring script for unknown agent ${agent}`);
+      else if (script) scripts.set(agent, script);
+    }
+    console.log(`[mock] Loaded scripted responses from ${scriptPath}`);
+  }
+
+  for (const agent of Object.values(AGENTS)) {
+    const server = http.createServer((req, res) => {
+      handle(agent, req, res).catch(error => {
+        console.error(`[mock ${agent}] Handler failed:`, error);
+        if (!res.headersSent) send(res, 500, { detail: String(error) });
+      });
+    });
+    server.listen(portOf(agent), () => console.log(`[mock] ${agent} listening on :${portOf(agent)}`));
+  }
+  console.log(`[mock] latency ~${LATENCY_MS} ms, jobs ${JOB_MS} ms, failure rate ${FAILURE_RATE}`);
+}
+
+main().catch(error => {
+  console.error('[mock] Failed to start:', error);
+  process.exit(1);
+});
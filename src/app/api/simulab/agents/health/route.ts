@@ -1,9 +1,11 @@
 import { NextResponse } from 'next/server';
+import { listAgents } from '@/lib/agent-registry';
 
 /**
  * SimuLab Agents Health Check API Route
  * 
- * Checks the health status of all SimuLab agents via the AgentEx backend.
+ * Checks the health status of every agent in the agent registry (agents.json),
+ * sub-agents included, via the AgentEx backend.
  * Returns registry status and ACP health for each agent.
  */
 
@@ -14,21 +16,11 @@ export const dynamic = 'force-dynamic';
 // Environment configuration
 const AGENTEX_BASE_URL = process.env.AGENTEX_BASE_URL || 'http://localhost:5003';
 
-// SimuLab agent names
-const SIMULAB_AGENTS = [
-  'simulab-orchestrator',
-  'simulab-simulator',
-  'simu-docking',
-  'simu-admet',
-  'simu-synthesis',
-  'simulab-judge',
-] as const;
-
-type AgentName = typeof SIMULAB_AGENTS[number];
-
 /** Agent health status */
 interface AgentHealthStatus {
   name: string;
+  role: string;
+  parent?: string;
   status?: string;
   acp_url?: string;
   acp_healthy?: boolean;
@@ -119,8 +111,8 @@ export async function GET() {
     // Check each SimuLab agent
     const results: AgentHealthStatus[] = [];
     
-    for (const name of SIMULAB_AGENTS) {
-      const status: AgentHealthStatus = { name };
+    for (const { name, role, parent } of listAgents()) {
+      const status: AgentHealthStatus = { name, role, ...(parent ? { parent } : {}) };
       const key = name.toLowerCase();
       
       let agent = agentsByName.get(key);
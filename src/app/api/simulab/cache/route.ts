@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clearCache, getCacheStats, getCacheTtlMs, isCacheEnabled } from "@/lib/response-cache";
+
+/**
+ * SimuLab Response Cache API
+ *
+ * GET    /api/simulab/cache              - entry count, size and expired entries of the LLM/agent response cache
+ * DELETE /api/simulab/cache              - delete every entry
+ * DELETE /api/simulab/cache?expired=1    - delete only expired entries
+ *
+ * A single request skips the cache with `cache: "bypass"` (or re-fetches and
+ * overwrites it with `cache: "refresh"`) in its body; see lib/response-cache.
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      enabled: isCacheEnabled(),
+      ttl_seconds: getCacheTtlMs() / 1000,
+      ...(await getCacheStats()),
+    });
+  } catch (error) {
+    console.error("[SimuLab/Cache] Stats failed:", error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const expiredOnly = request.nextUrl.searchParams.get("expired") === "1";
+    const removed = await clearCache({ expiredOnly });
+    console.log(`[SimuLab/Cache] Removed ${removed} ${expiredOnly ? "expired " : ""}entries`);
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    console.error("[SimuLab/Cache] Clear failed:", error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
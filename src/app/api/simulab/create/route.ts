@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AGENTS, hasCapability } from '@/lib/agent-registry';
 
 /**
  * SimuLab Task Creation API Route
@@ -12,7 +13,7 @@ export const maxDuration = 60;
 
 // Environment configuration
 const AGENTEX_BASE_URL = process.env.AGENTEX_BASE_URL || 'http://localhost:5003';
-const ORCH_AGENT_NAME = process.env.SIMULAB_ORCH_AGENT_NAME || 'simulab-orchestrator';
+const ORCH_AGENT_NAME = AGENTS.ORCHESTRATOR;
 
 /** Request body interface for task creation */
 interface CreateTaskRequest {
@@ -59,6 +60,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!hasCapability(ORCH_AGENT_NAME, 'task_rpc')) {
+      return NextResponse.json(
+        { error: `${ORCH_AGENT_NAME} does not accept task/create (no task_rpc capability in agents.json)` },
+        { status: 501 }
+      );
+    }
+
     console.log(`[SimuLab/Create] Creating task for target: ${protein_target}`);
     console.log(`[SimuLab/Create] Orchestrator: ${ORCH_AGENT_NAME}`);
     console.log(`[SimuLab/Create] Scenarios: ${scenarios?.length || num_scenarios}`);
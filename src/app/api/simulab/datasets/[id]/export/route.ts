@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDataset, isValidDatasetId } from "@/lib/reference-store";
+import { exportReferenceRows } from "@/lib/reference-import";
+
+/**
+ * GET /api/simulab/datasets/:id/export?format=csv|sdf|json&version=2
+ *
+ * Downloads one version (current by default) as CSV, SDF (zero-coordinate
+ * molblocks with every field as a data item) or JSON. All three re-import
+ * through /api/simulab/datasets/:id/import.
+ */
+
+export const dynamic = "force-dynamic";
+
+const CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  sdf: "chemical/x-mdl-sdfile",
+  json: "application/json",
+} as const;
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isValidDatasetId(id)) {
+    return NextResponse.json({ success: false, error: `Invalid dataset id: ${id}` }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const format = (searchParams.get("format") || "csv").toLowerCase();
+  if (!(format in CONTENT_TYPES)) {
+    return NextResponse.json({ success: false, error: "format must be csv, sdf or json" }, { status: 400 });
+  }
+
+  try {
+    const dataset = await getDataset(id);
+    if (!dataset) {
+      return NextResponse.json({ success: false, error: `Dataset not found: ${id}` }, { status: 404 });
+    }
+    const versionParam = searchParams.get("version");
+    const wanted = versionParam ? parseInt(versionParam, 10) : dataset.current_version;
+    const version = dataset.versions.find(v => v.version === wanted);
+    if (!version) {
+      return NextResponse.json({ success: false, error: `Version ${wanted} not found in ${id}` }, { status: 404 });
+    }
+
+    const key = format as keyof typeof CONTENT_TYPES;
+    const filename = `${id}-v${version.version}.${key}`;
+    return new NextResponse(exportReferenceRows(version.rows, key), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[key],
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error(`[SimuLab/Datasets] Export ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { addDatasetVersion, getDataset, isValidDatasetId, summarizeVersion } from "@/lib/reference-store";
+import { detectReferenceFormat, importReferenceFile, REFERENCE_FILE_FORMATS, ReferenceFileFormat } from "@/lib/reference-import";
+
+/**
+ * POST /api/simulab/datasets/:id/import
+ *
+ * Multipart upload of a CSV, XLSX, SDF or JSON file (field `file`) that
+ * becomes the dataset's new current version. Optional fields: `format`
+ * (otherwise taken from the file extension), `sheet` (XLSX worksheet name)
+ * and `note`. Rows failing validation are dropped and listed in `issues`;
+ * a file with no valid rows is rejected.
+ */
+
+export const dynamic = "force-dynamic";
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isValidDatasetId(id)) {
+    return NextResponse.json({ success: false, error: `Invalid dataset id: ${id}` }, { status: 400 });
+  }
+
+  try {
+    if (!(await getDataset(id))) {
+      return NextResponse.json({ success: false, error: `Dataset not found: ${id}` }, { status: 404 });
+    }
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!form || !file || typeof file === "string") {
+      return NextResponse.json({ success: false, error: "Expected multipart/form-data with a file field" }, { status: 400 });
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({ success: false, error: `File exceeds ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` }, { status: 413 });
+    }
+
+    const requested = form.get("format");
+    const format = typeof requested === "string" && REFERENCE_FILE_FORMATS.includes(requested as ReferenceFileFormat)
+      ? (requested as ReferenceFileFormat)
+      : detectReferenceFormat(file.name, file.type);
+    if (!format) {
+      return NextResponse.json(
+        { success: false, error: `Unrecognized file type for ${file.name} (expected ${REFERENCE_FILE_FORMATS.join(", ")})` },
+        { status: 400 }
+      );
+    }
+
+    const sheet = form.get("sheet");
+    const note = form.get("note");
+    let result;
+    try {
+      result = importReferenceFile(Buffer.from(await file.arrayBuffer()), format, {
+        sheet: typeof sheet === "string" && sheet.trim() ? sheet.trim() : undefined,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: `Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}` },
+        { status: 400 }
+      );
+    }
+
+    if (result.rows.length === 0) {
+      const fileIssue = result.issues.find(issue => issue.row === 0)
+      return NextResponse.json({
+        success: false,
+        error: fileIssue ? `Could not import ${file.name}: ${fileIssue.message}`
+          : result.total === 0 ? `No data rows found in ${file.name}` : `None of the ${result.total} rows in ${file.name} passed validation`,
+        total: result.total,
+        issues: result.issues,
+      }, { status: 400 });
+    }
+
+    const saved = await addDatasetVersion(id, {
+      source: "import",
+      filename: file.name,
+      format,
+      rows: result.rows,
+      issues: result.issues,
+      note: typeof note === "string" && note.trim() ? note.trim() : undefined,
+    });
+    if (!saved) {
+      return NextResponse.json({ success: false, error: `Dataset not found: ${id}` }, { status: 404 });
+    }
+
+    console.log(`[SimuLab/Datasets] Imported ${file.name} into ${id} v${saved.version.version}: ${result.rows.length}/${result.total} rows`);
+    return NextResponse.json({
+      success: true,
+      version: summarizeVersion(saved.version),
+      total: result.total,
+      imported: result.rows.length,
+      issues: result.issues,
+    }, { status: 201 });
+  } catch (error) {
+    console.error(`[SimuLab/Datasets] Import into ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidDatasetId, restoreDatasetVersion, summarizeVersion } from "@/lib/reference-store";
+
+/**
+ * POST /api/simulab/datasets/:id/restore
+ *
+ * Copies an earlier version forward as the new current version, so the
+ * history stays append-only. Body: { version: number }
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isValidDatasetId(id)) {
+    return NextResponse.json({ success: false, error: `Invalid dataset id: ${id}` }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({})) as { version?: unknown };
+    const version = typeof body?.version === "number" ? body.version : NaN;
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json({ success: false, error: "version must be a positive integer" }, { status: 400 });
+    }
+
+    const restored = await restoreDatasetVersion(id, version);
+    if (!restored) {
+      return NextResponse.json({ success: false, error: `Version ${version} of ${id} not found` }, { status: 404 });
+    }
+
+    console.log(`[SimuLab/Datasets] Restored ${id} v${version} as v${restored.version.version}`);
+    return NextResponse.json({ success: true, version: summarizeVersion(restored.version) }, { status: 201 });
+  } catch (error) {
+    console.error(`[SimuLab/Datasets] Restore ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
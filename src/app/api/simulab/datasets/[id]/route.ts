@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getDataset,
+  updateDatasetInfo,
+  addDatasetVersion,
+  deleteDataset,
+  isValidDatasetId,
+  summarizeVersion,
+} from "@/lib/reference-store";
+import { validateReferenceRecords } from "@/lib/reference-import";
+
+/**
+ * SimuLab Reference Dataset API
+ *
+ * GET    /api/simulab/datasets/:id?version=2 - metadata, version history and the rows of one version (current by default)
+ * PATCH  /api/simulab/datasets/:id           - { name?, description? } and/or { rows, note? } to save edited rows as a new version
+ * DELETE /api/simulab/datasets/:id           - remove the dataset and all its versions
+ *
+ * Edited rows are validated like imports, but any invalid row rejects the
+ * whole save (400 with `issues`) instead of being dropped.
+ */
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function invalidId(id: string) {
+  return NextResponse.json({ success: false, error: `Invalid dataset id: ${id}` }, { status: 400 });
+}
+
+function notFound(id: string) {
+  return NextResponse.json({ success: false, error: `Dataset not found: ${id}` }, { status: 404 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidDatasetId(id)) return invalidId(id);
+
+  try {
+    const dataset = await getDataset(id);
+    if (!dataset) return notFound(id);
+
+    const versionParam = new URL(request.url).searchParams.get("version");
+    const wanted = versionParam ? parseInt(versionParam, 10) : dataset.current_version;
+    const version = dataset.versions.find(v => v.version === wanted) || null;
+    if (versionParam && !version) {
+      return NextResponse.json({ success: false, error: `Version ${versionParam} not found in ${id}` }, { status: 404 });
+    }
+
+    const { versions, ...meta } = dataset;
+    return NextResponse.json({
+      success: true,
+      dataset: { ...meta, versions: versions.map(summarizeVersion) },
+      version: version ? version.version : null,
+      rows: version?.rows || [],
+      issues: version?.issues || [],
+    });
+  } catch (error) {
+    console.error(`[SimuLab/Datasets] Read ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidDatasetId(id)) return invalidId(id);
+
+  try {
+    const patch = (await request.json()) as { name?: unknown; description?: unknown; rows?: unknown; note?: unknown };
+    if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+      return NextResponse.json({ success: false, error: "Expected a JSON object" }, { status: 400 });
+    }
+
+    if (patch.rows !== undefined) {
+      if (!Array.isArray(patch.rows)) {
+        return NextResponse.json({ success: false, error: "rows must be an array" }, { status: 400 });
+      }
+      const { rows, issues } = validateReferenceRecords(patch.rows.map(r => (r && typeof r === "object" ? r : {})));
+      if (issues.length > 0) {
+        return NextResponse.json({ success: false, error: `${issues.length} invalid row value(s)`, issues }, { status: 400 });
+      }
+      const saved = await addDatasetVersion(id, {
+        source: "edit",
+        rows,
+        note: typeof patch.note === "string" && patch.note.trim() ? patch.note.trim() : undefined,
+      });
+      if (!saved) return notFound(id);
+      console.log(`[SimuLab/Datasets] Saved ${id} v${saved.version.version} (${rows.length} rows, edit)`);
+    }
+
+    const dataset = await updateDatasetInfo(id, {
+      name: typeof patch.name === "string" ? patch.name : undefined,
+      description: typeof patch.description === "string" ? patch.description : undefined,
+    });
+    if (!dataset) return notFound(id);
+
+    const { versions, ...meta } = dataset;
+    return NextResponse.json({ success: true, dataset: { ...meta, versions: versions.map(summarizeVersion) } });
+  } catch (error) {
+    console.error(`[SimuLab/Datasets] Update ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidDatasetId(id)) return invalidId(id);
+
+  try {
+    const deleted = await deleteDataset(id);
+    if (!deleted) return notFound(id);
+    console.log(`[SimuLab/Datasets] Deleted ${id}`);
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error(`[SimuLab/Datasets] Delete ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listDatasets, createDataset } from "@/lib/reference-store";
+
+/**
+ * SimuLab Reference Datasets API
+ *
+ * GET  /api/simulab/datasets - list local reference datasets (newest first)
+ * POST /api/simulab/datasets - create an empty dataset: { name?, description? }
+ *
+ * Rows are added with POST /api/simulab/datasets/:id/import.
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const datasets = await listDatasets();
+    return NextResponse.json({ success: true, count: datasets.length, datasets });
+  } catch (error) {
+    console.error("[SimuLab/Datasets] List failed:", error);
+    return NextResponse.json({ success: false, error: String(error), datasets: [] }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as { name?: unknown; description?: unknown };
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return NextResponse.json({ success: false, error: "Expected a JSON object" }, { status: 400 });
+    }
+
+    const dataset = await createDataset({
+      name: typeof body.name === "string" ? body.name : undefined,
+      description: typeof body.description === "string" ? body.description : undefined,
+    });
+    console.log(`[SimuLab/Datasets] Created ${dataset.id} (${dataset.name})`);
+    return NextResponse.json({ success: true, dataset }, { status: 201 });
+  } catch (error) {
+    console.error("[SimuLab/Datasets] Create failed:", error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
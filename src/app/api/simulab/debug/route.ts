@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 import { isDevMode, isAgentexConfigured, AGENTS } from '@/lib/agent-client';
+import { agentForRole, getAgentDevUrl, listAgents } from '@/lib/agent-registry';
+import { getAgentPolicy, getCircuitState } from '@/lib/agent-transport';
+import { describeLlmConfig } from '@/lib/llm-client';
 
 /**
  * Debug endpoint to check environment configuration
@@ -25,12 +28,21 @@ export async function GET() {
       OPENAI_API_KEY: process.env.OPENAI_API_KEY ? 'set' : '(not set)',
     },
     
-    // Agent names
-    agents: AGENTS,
+    // Agent registry (agents.json), with the dev URLs after port overrides
+    agents: listAgents().map(agent => ({ ...agent, dev_url: getAgentDevUrl(agent) })),
+
+    // Timeout/retry policy and circuit breaker state per called agent
+    transport: Object.fromEntries(Object.values(AGENTS).map(agent => [
+      agent,
+      { policy: getAgentPolicy(agent), circuit: getCircuitState(agent) },
+    ])),
+
+    // LLM provider used by the local fallbacks
+    llm: describeLlmConfig(),
     
     // What URL would be called
     example_url: isAgentexConfigured() 
-      ? `${process.env.NEXT_PUBLIC_AGENTEX_API_BASE_URL || 'https://agentex.agentex.azure.workspace.egp.scale.com'}/agents/forward/name/${AGENTS.SIMULATOR}/process_edit`
+      ? `${process.env.NEXT_PUBLIC_AGENTEX_API_BASE_URL || 'https://agentex.agentex.azure.workspace.egp.scale.com'}${agentForRole('simulator').prod_path}/process_edit`
       : 'Would use local LLM fallback',
   };
 
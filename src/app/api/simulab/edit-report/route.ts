@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from "next/server"
 import { processReportEdit, isDevMode, isAgentexConfigured, AGENTS, traceReportEdit } from "@/lib/agent-client"
+import { completeJson, isLlmConfigured, LlmUsage } from "@/lib/llm-client"
+import { LlmVerdictSchema } from "@/lib/llm-contracts"
+import { renderPrompt } from "@/lib/prompt-registry"
+import { resolveCacheMode, CacheMode, CacheStatus } from "@/lib/response-cache"
+import { openUsageMeter, UsageMeter } from "@/lib/usage-ledger"
+import { endRouteSpan, SpanHandle, startRouteSpan } from "@/lib/span-recorder"
 
 /**
  * SimuLab Edit Report API Route
@@ -13,15 +19,20 @@ import { processReportEdit, isDevMode, isAgentexConfigured, AGENTS, traceReportE
  * 3. Returns updated report
  * 
  * Fallback (if agent unavailable):
- * 1. Call LLM directly (limited tracing)
+ * 1. Call LLM directly (limited tracing); the same edit of the same report is
+ *    answered from the response cache unless `cache` is "bypass" or "refresh"
+ *
+ * Calls are metered as the "edits" stage and reported in `usage`, recorded on
+ * `experiment_id` when given. Once the run budget is spent, edits are refused.
+ *
+ * Each edit is traced locally as an "edit-report" span with the agent or LLM
+ * call under it (see lib/span-recorder); `?trace_id=` and `?parent_span_id=`
+ * place it in an existing trace.
  */
 
 export const maxDuration = 240; // 4 minutes for agent processing
 export const dynamic = "force-dynamic"
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY;
-const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o";
-
 interface ScenarioData {
   scenario_id: string;
   scaffold: string;
@@ -47,6 +58,12 @@ interface StructuredReport {
 interface EditReportRequest {
   structuredReport: StructuredReport;
   editInstruction: string;
+  /** "bypass" skips the response cache, "refresh" re-asks the LLM and overwrites it */
+  cache?: CacheMode;
+  /** Experiment the calls are charged to */
+  experiment_id?: string | null;
+  /** Run budget in USD (default SIMULAB_RUN_BUDGET_USD) */
+  budget_usd?: number;
   context?: {
     protein_target?: string;
     goal?: string;
@@ -59,10 +76,14 @@ interface EditReportRequest {
  */
 async function processEditWithLLM(
   structuredReport: StructuredReport,
-  editInstruction: string
-): Promise<StructuredReport> {
-  if (!OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured");
+  editInstruction: string,
+  signal?: AbortSignal,
+  cacheMode?: CacheMode,
+  meter?: UsageMeter,
+  span?: SpanHandle
+): Promise<{ report: StructuredReport; usage: LlmUsage; promptVersion: string; cache?: CacheStatus }> {
+  if (!isLlmConfigured()) {
+    throw new Error("LLM not configured");
   }
 
   const currentWinner = structuredReport.winner;
@@ -70,85 +91,32 @@ async function processEditWithLLM(
   const currentRejected = structuredReport.rejected || [];
   const totalScenarios = (currentWinner ? 1 : 0) + currentSelected.length + currentRejected.length;
 
-  const systemPrompt = `You are an expert drug discovery scientist. Edit the report based on user instructions.
-
-CRITICAL: Preserve ALL ${totalScenarios} scenarios. Every scenario must appear in winner, selected, or rejected.
-
-Current state:
-- Winner: ${currentWinner?.scenario_id || "none"}
-- Selected: ${currentSelected.map(s => s.scenario_id).join(", ") || "none"}
-- Rejected: ${currentRejected.map(r => r.scenario_id).join(", ") || "none"}
-
-After editing:
-1. Apply the requested change
-2. Re-evaluate categories based on decision criteria
-3. Update executive_summary, comparative_analysis, rationale/rejection_reason
-4. Ensure all ${totalScenarios} scenarios are present
-
-Return ONLY valid JSON:
-{
-  "executive_summary": "...",
-  "winner": {...} or null,
-  "selected": [...],
-  "rejected": [...],
-  "comparative_analysis": "...",
-  "recommendation": "..."
-}`;
-
-  const userPrompt = `Edit instruction: "${editInstruction}"
-
-Current report:
-${JSON.stringify(structuredReport, null, 2)}
-
-Apply the edit and return complete updated JSON.`;
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: OPENAI_MODEL,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
-      temperature: 0.1,
-      max_tokens: 3000,
-    }),
+  const rendered = await renderPrompt("edit", {
+    total_scenarios: totalScenarios,
+    winner_id: currentWinner?.scenario_id || "none",
+    selected_ids: currentSelected.map(s => s.scenario_id).join(", ") || "none",
+    rejected_ids: currentRejected.map(r => r.scenario_id).join(", ") || "none",
+    edit_instruction: editInstruction,
+    current_report: JSON.stringify(structuredReport, null, 2),
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`LLM error: ${response.status} - ${errorText}`);
+  const result = await completeJson({
+    label: "edit",
+    messages: rendered.messages,
+    temperature: 0.1,
+    maxTokens: 3000,
+    signal,
+    promptVersion: rendered.id,
+    cache: cacheMode,
+    meter,
+    span,
+  }, LlmVerdictSchema);
+
+  if (!result.success) {
+    throw new Error(result.error);
   }
 
-  const data = await response.json();
-  const content = data?.choices?.[0]?.message?.content;
-
-  if (!content) {
-    throw new Error("No content in LLM response");
-  }
-
-  let jsonStr = content.trim();
-  
-  if (jsonStr.startsWith("```json")) {
-    jsonStr = jsonStr.slice(7);
-  } else if (jsonStr.startsWith("```")) {
-    jsonStr = jsonStr.slice(3);
-  }
-  if (jsonStr.endsWith("```")) {
-    jsonStr = jsonStr.slice(0, -3);
-  }
-  jsonStr = jsonStr.trim();
-  
-  const jsonMatch = jsonStr.match(/\{[\s\S]*\}/);
-  if (jsonMatch) {
-    jsonStr = jsonMatch[0];
-  }
-  
-  return JSON.parse(jsonStr);
+  return { report: result.data as unknown as StructuredReport, usage: result.usage, promptVersion: rendered.id, cache: result.cache };
 }
 
 /**
@@ -205,9 +173,15 @@ function generateChangeSummary(
 }
 
 export async function POST(request: NextRequest) {
+  const span = startRouteSpan("edit-report", request)
+  return endRouteSpan(span, editReport(request, span))
+}
+
+async function editReport(request: NextRequest, span: SpanHandle) {
   try {
     const body: EditReportRequest = await request.json()
     const { structuredReport, editInstruction, context } = body
+    span.setAttributes({ edit_instruction: editInstruction ?? null, experiment_id: body.experiment_id ?? null })
 
     if (!editInstruction?.trim()) {
       return NextResponse.json(
@@ -229,6 +203,16 @@ export async function POST(request: NextRequest) {
     console.log(`[EditReport] Mode: ${isDevMode() ? 'DEV (local agent)' : 'PROD (deployed agent)'}`)
     
     const experimentId = context?.taskId || `edit-${Date.now()}`;
+    const meter = await openUsageMeter("edits", { experimentId: body.experiment_id, budgetUsd: body.budget_usd });
+
+    if (!meter.allows()) {
+      return NextResponse.json({
+        error: "Run budget exceeded",
+        updatedReport: null,
+        summary: "⚠️ Run budget exceeded - edit not applied.",
+        usage: await meter.finish(),
+      }, { status: 200 })
+    }
 
     // =========================================================================
     // TRY DEPLOYED AGENT FIRST (Full Integration)
@@ -240,9 +224,10 @@ export async function POST(request: NextRequest) {
         experiment_id: experimentId,
         edit_instruction: editInstruction,
         current_report: structuredReport as unknown as Record<string, unknown>,
-      });
+      }, { signal: request.signal, span });
 
       if (agentResult.success && agentResult.data) {
+        meter.chargeAgent(`${AGENTS.SIMULATOR} /process_edit`, agentResult.data.usage);
         console.log(`[EditReport] Agent processed edit successfully`);
         console.log("[EditReport] ========================================")
         
@@ -255,10 +240,16 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
           updatedReport,
           summary,
+          usage: await meter.finish(),
           _via: "deployed_agent",
         });
       }
 
+      if (request.signal.aborted) {
+        console.log(`[EditReport] Request cancelled by the client, skipping fallback`);
+        return NextResponse.json({ error: "Request cancelled" }, { status: 499 });
+      }
+
       console.log(`[EditReport] Agent call failed: ${agentResult.error}, falling back to local LLM`);
       console.log(`[EditReport] Agent error details:`, JSON.stringify(agentResult.data || agentResult));
       // Include agent error in response for debugging
@@ -271,24 +262,28 @@ export async function POST(request: NextRequest) {
     // =========================================================================
     // FALLBACK: Local LLM processing (limited tracing)
     // =========================================================================
-    if (!OPENAI_API_KEY) {
+    if (!isLlmConfigured()) {
       return NextResponse.json({
-        error: "LLM not configured. Please set OPENAI_API_KEY.",
+        error: "LLM not configured. Please set OPENAI_API_KEY or SIMULAB_LLM_BASE_URL.",
         updatedReport: null,
         summary: "⚠️ Cannot process edit - LLM not configured."
       }, { status: 200 })
     }
 
     let updatedReport: StructuredReport;
+    let llmUsage: LlmUsage;
+    let promptVersion: string;
+    let cache: CacheStatus | undefined;
     try {
-      updatedReport = await processEditWithLLM(structuredReport, editInstruction);
+      ({ report: updatedReport, usage: llmUsage, promptVersion, cache } = await processEditWithLLM(structuredReport, editInstruction, request.signal, resolveCacheMode(body.cache), meter, span));
       console.log("[EditReport] LLM processed edit successfully");
     } catch (parseError) {
       console.error("[EditReport] Failed to process edit:", parseError);
       return NextResponse.json({
         error: "Failed to process edit",
         updatedReport: null,
-        summary: "⚠️ Error processing edit. Please try again."
+        summary: "⚠️ Error processing edit. Please try again.",
+        usage: await meter.finish(),
       }, { status: 200 })
     }
 
@@ -314,7 +309,8 @@ export async function POST(request: NextRequest) {
       editInstruction,
       structuredReport as unknown as Record<string, unknown>,
       updatedReport as unknown as Record<string, unknown>,
-      changes
+      changes,
+      promptVersion
     ).catch(err => {
       console.warn("[EditReport] Trace failed (non-blocking):", err);
     });
@@ -322,6 +318,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       updatedReport,
       summary,
+      llm_usage: llmUsage,
+      prompt_version: promptVersion,
+      cache,
+      usage: await meter.finish(),
       _via: "local_llm_fallback",
       _agent_error: agentError || null,
       _agent_error_details: agentErrorDetails || null,
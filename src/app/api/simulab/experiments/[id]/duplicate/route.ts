@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { duplicateExperiment, isValidExperimentId } from "@/lib/experiment-store";
+
+/**
+ * POST /api/simulab/experiments/:id/duplicate
+ *
+ * Copies a run under a new id so it can be re-run with different criteria.
+ * Optional body: { name?: string }
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isValidExperimentId(id)) {
+    return NextResponse.json({ success: false, error: `Invalid experiment id: ${id}` }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({})) as { name?: string };
+    const experiment = await duplicateExperiment(id, typeof body?.name === "string" ? body.name : undefined);
+    if (!experiment) {
+      return NextResponse.json({ success: false, error: `Experiment not found: ${id}` }, { status: 404 });
+    }
+
+    console.log(`[SimuLab/Experiments] Duplicated ${id} -> ${experiment.id}`);
+    return NextResponse.json({ success: true, experiment }, { status: 201 });
+  } catch (error) {
+    console.error(`[SimuLab/Experiments] Duplicate ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
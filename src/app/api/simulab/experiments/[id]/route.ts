@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getExperiment, updateExperiment, deleteExperiment, isValidExperimentId, ExperimentInput } from "@/lib/experiment-store";
+
+/**
+ * SimuLab Experiment API
+ *
+ * GET    /api/simulab/experiments/:id - full experiment record
+ * PATCH  /api/simulab/experiments/:id - merge fields (design, criteria, metrics, verdict, edits, feedback; not usage)
+ * DELETE /api/simulab/experiments/:id - remove the run
+ */
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function invalidId(id: string) {
+  return NextResponse.json({ success: false, error: `Invalid experiment id: ${id}` }, { status: 400 });
+}
+
+function notFound(id: string) {
+  return NextResponse.json({ success: false, error: `Experiment not found: ${id}` }, { status: 404 });
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidExperimentId(id)) return invalidId(id);
+
+  try {
+    const experiment = await getExperiment(id);
+    if (!experiment) return notFound(id);
+    return NextResponse.json({ success: true, experiment });
+  } catch (error) {
+    console.error(`[SimuLab/Experiments] Read ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidExperimentId(id)) return invalidId(id);
+
+  try {
+    const patch = (await request.json().catch(() => null)) as ExperimentInput | null;
+    if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+      return NextResponse.json({ success: false, error: "Expected a JSON object" }, { status: 400 });
+    }
+
+    const experiment = await updateExperiment(id, patch);
+    if (!experiment) return notFound(id);
+    return NextResponse.json({ success: true, experiment });
+  } catch (error) {
+    console.error(`[SimuLab/Experiments] Update ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidExperimentId(id)) return invalidId(id);
+
+  try {
+    const deleted = await deleteExperiment(id);
+    if (!deleted) return notFound(id);
+    console.log(`[SimuLab/Experiments] Deleted ${id}`);
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error(`[SimuLab/Experiments] Delete ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
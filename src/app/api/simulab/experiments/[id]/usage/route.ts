@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getExperiment, isValidExperimentId } from "@/lib/experiment-store";
+import { resolveRunBudget, summarizeUsage } from "@/lib/usage-ledger";
+
+/**
+ * GET /api/simulab/experiments/:id/usage
+ *
+ * Tokens and estimated cost of the agent and LLM calls recorded for a run, in
+ * total and per stage (design, metrics, verdict, report, edits), with the
+ * configured run budget and the raw ledger entries.
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isValidExperimentId(id)) {
+    return NextResponse.json({ success: false, error: `Invalid experiment id: ${id}` }, { status: 400 });
+  }
+
+  try {
+    const experiment = await getExperiment(id);
+    if (!experiment) {
+      return NextResponse.json({ success: false, error: `Experiment not found: ${id}` }, { status: 404 });
+    }
+
+    const entries = experiment.usage || [];
+    const usage = summarizeUsage(entries);
+    const budget = resolveRunBudget();
+    return NextResponse.json({
+      success: true,
+      experiment_id: id,
+      usage,
+      budget_usd: budget,
+      budget_exceeded: budget !== null && usage.total.cost_usd >= budget,
+      entries,
+    });
+  } catch (error) {
+    console.error(`[SimuLab/Experiments] Usage of ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listExperiments, createExperiment, ExperimentInput } from "@/lib/experiment-store";
+
+/**
+ * SimuLab Experiments API
+ *
+ * GET  /api/simulab/experiments?protein_target=EGFR  - list saved runs (newest first)
+ * POST /api/simulab/experiments                      - create a run from the given fields
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const proteinTarget = searchParams.get("protein_target") || undefined;
+
+    const experiments = await listExperiments({ protein_target: proteinTarget });
+    return NextResponse.json({ success: true, count: experiments.length, experiments });
+  } catch (error) {
+    console.error("[SimuLab/Experiments] List failed:", error);
+    return NextResponse.json({ success: false, error: String(error), experiments: [] }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as ExperimentInput;
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return NextResponse.json({ success: false, error: "Expected a JSON object" }, { status: 400 });
+    }
+
+    const experiment = await createExperiment(body);
+    console.log(`[SimuLab/Experiments] Created ${experiment.id} (${experiment.protein_target || "no target"})`);
+    return NextResponse.json({ success: true, experiment }, { status: 201 });
+  } catch (error) {
+    console.error("[SimuLab/Experiments] Create failed:", error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
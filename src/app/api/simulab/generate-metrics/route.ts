@@ -1,6 +1,20 @@
 import { NextRequest, NextResponse } from "next/server"
-import { getScenariosByProteinTarget, findScenarioBySmiles, findScenarioByScaffold, SheetScenario, ensureSheetLoaded } from "../sheets/data"
-import { evaluateMolecules, isDevMode, isAgentexConfigured, AGENTS } from "@/lib/agent-client"
+import { findScenarioBySmiles, matchReference, isReferenceHint, summarizeReferenceMatch, describeReferenceMatch, SheetScenario, ReferenceMatch, ReferenceData, loadReferenceData } from "../sheets/data"
+import { evaluateMolecules, isDevMode, isAgentexConfigured, AGENTS, EvaluatedMolecule } from "@/lib/agent-client"
+import { partitionBySmiles, SmilesError } from "@/lib/smiles"
+import { mapWithConcurrency, resolveConcurrency } from "@/lib/concurrency"
+import { ndjsonResponse } from "@/lib/ndjson"
+import { noStages, StageEmitter, StageEvent } from "@/lib/stage-events"
+import { simulateLocally, MolecularDescriptors } from "@/lib/descriptors"
+import { scoreCandidates, evaluateVetoes, resolveCriteria, formatRejectionReason, roundObjectives, estimateCostFromSa, ObjectiveKey, ScoringCandidate, ScoringCriteria } from "@/lib/scoring"
+import { MetricOrigin, MetricProvenance, MetricProvenanceMap, trackReplacement, uniformProvenance } from "@/lib/provenance"
+import type { ReferenceFreshness } from "@/lib/reference-provider"
+import { addUsage, completeJson, isLlmConfigured, EMPTY_USAGE, LlmUsage } from "@/lib/llm-client"
+import { PredictedMetricsSchema } from "@/lib/llm-contracts"
+import { renderPrompt } from "@/lib/prompt-registry"
+import { resolveCacheMode, CacheMode, CacheStatus } from "@/lib/response-cache"
+import { openUsageMeter, RunUsageReport, UsageMeter } from "@/lib/usage-ledger"
+import { endRouteSpan, SpanHandle, startRouteSpan, withChildSpan } from "@/lib/span-recorder"
 
 /**
  * SimuLab Generate Metrics API Route (Simulator Agent)
@@ -14,15 +28,59 @@ import { evaluateMolecules, isDevMode, isAgentexConfigured, AGENTS } from "@/lib
  * 3. Returns metrics with confidence level
  * 
  * Fallback (if agent unavailable):
- * 1. Call LLM directly (no tracing)
+ * 1. Call LLM directly (no SGP tracing; spans are recorded locally)
  * 2. Cross-check with local database
+ *
+ * Scenario SMILES are validated locally first; invalid molecules are returned
+ * in `invalid_scenarios` and never sent to the agent or LLM.
+ *
+ * Offline mode (`simulator_mode: "local_descriptors"`, SIMULAB_SIMULATOR_MODE,
+ * or no LLM configured): metrics come from the local descriptor engine instead
+ * of the LLM, tagged `data_source: "local_descriptors"`; in local descriptor
+ * mode a scenario without a SMILES is listed in `failed`. Tokens spent on LLM
+ * metrics are reported per result and in total as `llm_usage`.
+ *
+ * `reference_dataset` cross-checks against a curated local dataset (see
+ * /api/simulab/datasets) instead of the Google Sheet. Responses report which
+ * reference rows were used in `reference_freshness`.
+ *
+ * Each result's `provenance` records, per metric field, whether the value came
+ * from the agent, LLM, heuristic, local descriptors or a reference row, and
+ * keeps the generated value when a reference value contradicts it. A route
+ * length no source reported is left undefined and marked `missing`, so the
+ * step veto only ever applies to reported counts.
+ *
+ * Scenarios are evaluated `concurrency` at a time. Scenarios the agent fails
+ * on go through the fallback; any that still fail are listed in `failed` with
+ * the reason. With `batch: true` the response is an NDJSON stream: a `start`
+ * line, a `scenario` line per status change (running / complete with its
+ * result / error), then a `done` line carrying the usual response body.
+ * `?stream=1` selects the same stream; it also carries `stage` lines (agent
+ * started / failed, fallback engaged, database cross-checks).
+ *
+ * Agent evaluations and LLM metrics go through the response cache (see
+ * lib/response-cache): `cache: "bypass" | "refresh"` skips it, each result
+ * reports its `cache` outcome and `cache_hits` counts the scenarios answered
+ * from it.
+ *
+ * Agent and LLM calls are metered as the run's "metrics" stage and reported in
+ * `usage` (see lib/usage-ledger), recorded on `experiment_id` when given. Once
+ * `budget_usd` is spent, the remaining scenarios skip the agent and LLM and
+ * use local descriptors (or fail without a SMILES).
+ *
+ * Each request is traced locally as a "generate-metrics" span with a span per
+ * scenario evaluation and its agent or LLM call under it (see
+ * lib/span-recorder); `?trace_id=` and `?parent_span_id=` place it in an
+ * existing trace.
  */
 
 export const maxDuration = 240; // 4 minutes for agent processing
 export const dynamic = "force-dynamic"
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY;
-const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o";
+const SIMULATOR_MODE = process.env.SIMULAB_SIMULATOR_MODE === "local_descriptors" ? "local_descriptors" : "auto";
+const SIMULATOR_CONCURRENCY = resolveConcurrency(Number(process.env.SIMULAB_SIMULATOR_CONCURRENCY) || undefined, 8);
+
+type SimulatorMode = "auto" | "local_descriptors";
 
 interface Scenario {
   scenario_id: string;
@@ -37,13 +95,15 @@ interface GeneratedMetrics {
   };
   admet: {
     toxicity_risk: "LOW" | "MED" | "HIGH";
-    toxicity_prob: number;
+    /** Undefined when the agent reported none (never derived from the hERG flag) */
+    toxicity_prob?: number;
     herg_flag: boolean;
     is_safe: boolean;
   };
   synthesis: {
     sa_score: number;
-    num_steps: number;
+    /** Route length; undefined unless a source reported it (never derived from SA) */
+    num_steps?: number;
     estimated_cost_usd: number;
   };
 }
@@ -55,25 +115,58 @@ interface ScenarioResult {
   metrics: GeneratedMetrics;
   is_winner: boolean;
   rejection_reason?: string;
-  data_source: "agent" | "llm" | "llm_validated";
+  score?: number;
+  rank?: number | null;
+  desirability?: Record<ObjectiveKey, number>;
+  score_explanation?: string;
+  descriptors?: MolecularDescriptors;
+  /** Reference row whose measured values replaced the generated ones; a "scaffold" match is only a hint and replaced nothing */
+  reference_match?: ReturnType<typeof summarizeReferenceMatch> | null;
+  /** Where each metric value came from, per field */
+  provenance: MetricProvenanceMap;
+  data_source: "agent" | "llm" | "llm_validated" | "local_descriptors";
   confidence: "high" | "medium";
+  /** Tokens spent on this scenario's LLM metrics */
+  llm_usage?: LlmUsage;
+  /** Prompt template behind LLM metrics, e.g. "metrics.molecule@v1" */
+  prompt_version?: string;
+  /** Response cache outcome of the agent or LLM call behind the metrics */
+  cache?: CacheStatus;
 }
 
 interface GenerateMetricsRequest {
   scenarios: Scenario[];
   protein_target: string;
+  /** "local_descriptors" skips the agent and LLM entirely */
+  simulator_mode?: SimulatorMode;
+  /** Minimum Tanimoto similarity for a reference row to override metrics (default 0.7) */
+  similarity_threshold?: number;
+  /** Local reference dataset id; omitted uses the Google Sheet */
+  reference_dataset?: string | null;
+  /** Stream per-scenario progress as NDJSON (see BatchEvent) instead of one JSON response */
+  batch?: boolean;
+  /** Scenarios evaluated at once (default SIMULAB_SIMULATOR_CONCURRENCY or 8, max 32) */
+  concurrency?: number;
+  /** "bypass" skips the response cache, "refresh" re-evaluates and overwrites it */
+  cache?: CacheMode;
+  /** Experiment the calls are charged to */
+  experiment_id?: string | null;
+  /** Run budget in USD (default SIMULAB_RUN_BUDGET_USD) */
+  budget_usd?: number;
   goal?: string;
   constraints?: string[];
   decision_criteria?: {
     docking?: { idealMin?: number; idealMax?: number; hardFailThreshold?: number };
-    admet?: { idealMin?: number; idealMax?: number; hardFailHERG?: boolean };
+    admet?: ScoringCriteria["admet"];
     synthesis?: { idealSaMax?: number; idealStepsMax?: number; hardFailSa?: number; hardFailSteps?: number };
+    scoring?: ScoringCriteria["scoring"];
   };
 }
 
 /**
- * Heuristic generator used when OPENAI_API_KEY is not present.
+ * Heuristic generator used when no LLM is configured.
  * Produces reasonable, deterministic-ish metrics within expected ranges.
+ * Leaves the route length out: it cannot be guessed from these values.
  */
 function generateHeuristicMetrics(
   scenario: Scenario,
@@ -113,7 +206,6 @@ function generateHeuristicMetrics(
     },
     synthesis: {
       sa_score: sa,
-      num_steps: Math.max(2, Math.min(12, Math.round(sa) + 2)),
       estimated_cost_usd: Math.round(700 + sa * 300),
     },
   };
@@ -126,142 +218,117 @@ async function calculateMetricsWithLLM(
   smiles: string, 
   scaffold: string, 
   proteinTarget: string,
-  decisionCriteria: Record<string, unknown>
-): Promise<GeneratedMetrics> {
-  if (!OPENAI_API_KEY) {
-    // Without OpenAI, fall back to heuristic generator
-    return generateHeuristicMetrics(
-      { scenario_id: `scenario_${Math.random().toString(36).slice(2, 7)}`, smiles, scaffold },
-      proteinTarget,
-      decisionCriteria
-    );
+  decisionCriteria: Record<string, unknown>,
+  signal?: AbortSignal,
+  cacheMode?: CacheMode,
+  meter?: UsageMeter,
+  span?: SpanHandle
+): Promise<{ metrics: GeneratedMetrics; usage: LlmUsage; promptVersion?: string; cache?: CacheStatus }> {
+  if (!isLlmConfigured()) {
+    // Without an LLM, fall back to heuristic generator
+    return {
+      metrics: generateHeuristicMetrics(
+        { scenario_id: `scenario_${Math.random().toString(36).slice(2, 7)}`, smiles, scaffold },
+        proteinTarget,
+        decisionCriteria
+      ),
+      usage: EMPTY_USAGE,
+    };
   }
 
-  const systemPrompt = `You are a PhD-level computational chemist with 20+ years of experience in molecular docking, ADMET prediction, and synthetic chemistry.
-
-You are the Simulator agent for a multi-agent virtual drug discovery lab. Your job is to evaluate molecular candidates and predict their properties.
-
-TASK: Given a molecule (SMILES) and target protein, calculate:
-
-1. BINDING AFFINITY (ΔG in kcal/mol):
-   - Analyze molecular features for target binding
-   - Typical range: -6 to -12 kcal/mol (more negative = stronger binding)
-   - Potency threshold: < -7 kcal/mol passes
-
-2. ADMET PROFILE:
-   - Toxicity risk: LOW/MED/HIGH based on structural alerts
-   - hERG flag: true if cardiac toxicity risk
-   - is_safe: true only if LOW toxicity AND no hERG flag
-
-3. SYNTHESIS FEASIBILITY:
-   - SA Score (1-10): synthetic accessibility (lower = easier)
-   - num_steps: estimated synthesis steps (2-12)
-   - estimated_cost_usd: synthesis cost for 1g ($500-5000)
-
-Return ONLY valid JSON:
-{
-  "binding_affinity_kcal_per_mol": -9.5,
-  "potency_pass": true,
-  "toxicity_risk": "LOW",
-  "toxicity_prob": 0.15,
-  "herg_flag": false,
-  "is_safe": true,
-  "sa_score": 3.5,
-  "num_steps": 4,
-  "estimated_cost_usd": 1200
-}`;
-
   const dockingCriteria = decisionCriteria?.docking as Record<string, unknown> | undefined;
   const admetCriteria = decisionCriteria?.admet as Record<string, unknown> | undefined;
   const synthesisCriteria = decisionCriteria?.synthesis as Record<string, unknown> | undefined;
 
-  const userPrompt = `Evaluate this molecule:
-
-SMILES: ${smiles}
-SCAFFOLD CLASS: ${scaffold}
-TARGET PROTEIN: ${proteinTarget}
-
-Decision Criteria:
-- Potency threshold: ΔG < ${dockingCriteria?.hardFailThreshold || -7} kcal/mol
-- hERG veto: ${admetCriteria?.hardFailHERG !== false ? "Yes" : "No"}
-- SA hard fail: > ${synthesisCriteria?.hardFailSa || 6}
-
-Calculate all metrics based on the molecular structure. Be scientifically rigorous.`;
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: OPENAI_MODEL,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.2,
-      max_tokens: 500,
-    }),
+  const rendered = await renderPrompt("metrics.molecule", {
+    smiles,
+    scaffold,
+    protein_target: proteinTarget,
+    potency_threshold: String(dockingCriteria?.hardFailThreshold || -7),
+    herg_veto: admetCriteria?.hardFailHERG !== false ? "Yes" : "No",
+    sa_hard_fail: String(synthesisCriteria?.hardFailSa || 6),
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`LLM call failed (${response.status}): ${error}`);
+  const result = await completeJson({
+    label: "metrics.molecule",
+    messages: rendered.messages,
+    temperature: 0.2,
+    maxTokens: 500,
+    signal,
+    promptVersion: rendered.id,
+    cache: cacheMode,
+    meter,
+    span,
+  }, PredictedMetricsSchema);
+
+  if (!result.success) {
+    throw new Error(result.error);
   }
 
-  const data = await response.json();
-  const content = data?.choices?.[0]?.message?.content || "";
-
-  const jsonMatch = content.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error("LLM did not return valid JSON");
-  }
-
-  const parsed = JSON.parse(jsonMatch[0]);
+  const parsed = result.data;
 
   return {
-    docking: {
-      binding_affinity_kcal_per_mol: parsed.binding_affinity_kcal_per_mol || -7.0,
-      potency_pass: parsed.potency_pass ?? (parsed.binding_affinity_kcal_per_mol < -7),
-    },
-    admet: {
-      toxicity_risk: parsed.toxicity_risk || "MED",
-      toxicity_prob: parsed.toxicity_prob || 0.3,
-      herg_flag: parsed.herg_flag || false,
-      is_safe: parsed.is_safe ?? (!parsed.herg_flag && parsed.toxicity_risk === "LOW"),
-    },
-    synthesis: {
-      sa_score: parsed.sa_score || 4.0,
-      num_steps: parsed.num_steps || 5,
-      estimated_cost_usd: parsed.estimated_cost_usd || 1500,
+    metrics: {
+      docking: {
+        binding_affinity_kcal_per_mol: parsed.binding_affinity_kcal_per_mol || -7.0,
+        potency_pass: parsed.potency_pass ?? (parsed.binding_affinity_kcal_per_mol < -7),
+      },
+      admet: {
+        toxicity_risk: (parsed.toxicity_risk as GeneratedMetrics["admet"]["toxicity_risk"]) || "MED",
+        toxicity_prob: parsed.toxicity_prob ?? 0.3,
+        herg_flag: parsed.herg_flag || false,
+        is_safe: parsed.is_safe ?? (!parsed.herg_flag && parsed.toxicity_risk === "LOW"),
+      },
+      synthesis: {
+        sa_score: parsed.sa_score || 4.0,
+        num_steps: parsed.num_steps ?? undefined,
+        estimated_cost_usd: parsed.estimated_cost_usd || 1500,
+      },
     },
+    usage: result.usage,
+    promptVersion: rendered.id,
+    cache: result.cache,
   };
 }
 
 /**
- * Cross-check LLM metrics with database and override if match found
+ * Cross-check LLM metrics with database and override if match found.
+ * Only exact / canonical SMILES matches carry the reference row's recorded
+ * verdict (`dbMatch`); similar rows contribute measured values. Same-scaffold
+ * rows below the similarity threshold are returned as hints and change nothing.
+ * Provenance records which fields the row supplied and keeps any generated
+ * value it contradicted.
  */
 function crossCheckWithDatabase(
   scenario: Scenario,
   llmMetrics: GeneratedMetrics,
-  decisionCriteria: Record<string, unknown>
-): { metrics: GeneratedMetrics; wasOverridden: boolean; dbMatch: SheetScenario | null } {
-  
-  let dbMatch: SheetScenario | null = null;
+  llmProvenance: MetricProvenanceMap,
+  decisionCriteria: Record<string, unknown>,
+  proteinTarget: string,
+  referenceRows: SheetScenario[],
+  referenceFreshness: ReferenceFreshness,
+  similarityThreshold?: number
+): {
+  metrics: GeneratedMetrics;
+  provenance: MetricProvenanceMap;
+  wasOverridden: boolean;
+  dbMatch: SheetScenario | null;
+  referenceMatch: ReferenceMatch | null;
+} {
   
-  if (scenario.smiles) {
-    dbMatch = findScenarioBySmiles(scenario.smiles);
-  }
-  if (!dbMatch && scenario.scaffold) {
-    dbMatch = findScenarioByScaffold(scenario.scaffold);
-  }
+  const referenceMatch = matchReference(scenario, { proteinTarget, threshold: similarityThreshold, rows: referenceRows });
 
-  if (!dbMatch) {
-    return { metrics: llmMetrics, wasOverridden: false, dbMatch: null };
+  if (!referenceMatch) {
+    return { metrics: llmMetrics, provenance: llmProvenance, wasOverridden: false, dbMatch: null, referenceMatch: null };
+  }
+  if (isReferenceHint(referenceMatch)) {
+    console.log(`[Simulator] Scaffold hint for ${scenario.scenario_id}: ${describeReferenceMatch(referenceMatch)}, metrics kept`);
+    return { metrics: llmMetrics, provenance: llmProvenance, wasOverridden: false, dbMatch: null, referenceMatch };
   }
 
-  console.log(`[Simulator] ✓ Database match found for ${scenario.scenario_id}`);
+  const dbMatch = referenceMatch.row;
+  const sameMolecule = referenceMatch.method === "exact" || referenceMatch.method === "canonical";
+  console.log(`[Simulator] ✓ Database match for ${scenario.scenario_id}: ${describeReferenceMatch(referenceMatch)}`);
 
   const dockingCriteria = decisionCriteria?.docking as Record<string, unknown> | undefined;
   const hardFailThreshold = (dockingCriteria?.hardFailThreshold as number) ?? -7;
@@ -274,20 +341,65 @@ function crossCheckWithDatabase(
       binding_affinity_kcal_per_mol: bindingAffinity,
       potency_pass: bindingAffinity < hardFailThreshold,
     },
+    // Rows carry no toxicity estimate, so the generated ones stand beside the measured hERG flag
     admet: {
-      toxicity_risk: hergFlag ? "HIGH" : "LOW",
-      toxicity_prob: hergFlag ? 0.8 : 0.1,
+      toxicity_risk: llmMetrics.admet.toxicity_risk,
+      toxicity_prob: llmMetrics.admet.toxicity_prob,
       herg_flag: hergFlag,
       is_safe: !hergFlag,
     },
     synthesis: {
       sa_score: saScore,
-      num_steps: Math.floor(saScore) + 2,
-      estimated_cost_usd: Math.floor(500 + saScore * 300),
+      // The sheet rarely carries a route length; keep the model's estimate rather than inventing one from SA
+      num_steps: dbMatch.reference_num_steps ?? llmMetrics.synthesis.num_steps,
+      estimated_cost_usd: estimateCostFromSa(saScore),
+    },
+  };
+
+  const fromReference: MetricProvenance = {
+    origin: "reference",
+    reference: {
+      row_id: dbMatch.scenario_id,
+      source: referenceFreshness.source,
+      dataset_id: referenceFreshness.dataset_id,
+      dataset_version: referenceFreshness.dataset_version,
+      method: referenceMatch.method,
+      similarity: referenceMatch.similarity,
+    },
+  };
+  // A measured field comes from the row when the row has it; derived fields follow their source field
+  const measured = (present: boolean, generated: MetricProvenance) => (present ? fromReference : generated);
+  const derived = (source: MetricProvenance, field: string): MetricProvenance => ({ ...source, replaced: undefined, derived_from: field });
+  const affinitySource = measured(dbMatch.reference_binding_affinity != null, llmProvenance.docking.binding_affinity_kcal_per_mol);
+  const hergSource = measured(dbMatch.reference_herg_flag != null, llmProvenance.admet.herg_flag);
+  const saSource = measured(dbMatch.reference_sa_score != null, llmProvenance.synthesis.sa_score);
+  const track = <G extends keyof GeneratedMetrics>(group: G, field: keyof GeneratedMetrics[G] & keyof MetricProvenanceMap[G], source: MetricProvenance) =>
+    trackReplacement(
+      overriddenMetrics[group][field] as string | number | boolean,
+      source,
+      llmMetrics[group][field] as string | number | boolean,
+      llmProvenance[group][field] as MetricProvenance
+    );
+
+  const provenance: MetricProvenanceMap = {
+    docking: {
+      binding_affinity_kcal_per_mol: track("docking", "binding_affinity_kcal_per_mol", affinitySource),
+      potency_pass: track("docking", "potency_pass", derived(affinitySource, "binding_affinity_kcal_per_mol")),
+    },
+    admet: {
+      toxicity_risk: llmProvenance.admet.toxicity_risk,
+      toxicity_prob: llmProvenance.admet.toxicity_prob,
+      herg_flag: track("admet", "herg_flag", hergSource),
+      is_safe: track("admet", "is_safe", derived(hergSource, "herg_flag")),
+    },
+    synthesis: {
+      sa_score: track("synthesis", "sa_score", saSource),
+      num_steps: track("synthesis", "num_steps", measured(dbMatch.reference_num_steps != null, llmProvenance.synthesis.num_steps)),
+      estimated_cost_usd: track("synthesis", "estimated_cost_usd", derived(saSource, "sa_score")),
     },
   };
 
-  return { metrics: overriddenMetrics, wasOverridden: true, dbMatch };
+  return { metrics: overriddenMetrics, provenance, wasOverridden: true, dbMatch: sameMolecule ? dbMatch : null, referenceMatch };
 }
 
 /**
@@ -296,7 +408,8 @@ function crossCheckWithDatabase(
 function determineWinnerStatus(
   metrics: GeneratedMetrics,
   decisionCriteria: Record<string, unknown>,
-  dbMatch: SheetScenario | null
+  dbMatch: SheetScenario | null,
+  smiles?: string
 ): { isWinner: boolean; rejectionReason?: string } {
   
   if (dbMatch?.target_result) {
@@ -312,41 +425,408 @@ function determineWinnerStatus(
     return { isWinner: true };
   }
 
-  const dockingCriteria = decisionCriteria?.docking as Record<string, unknown> | undefined;
-  const synthesisCriteria = decisionCriteria?.synthesis as Record<string, unknown> | undefined;
-  const admetCriteria = decisionCriteria?.admet as Record<string, unknown> | undefined;
-  
-  const hardFailThreshold = (dockingCriteria?.hardFailThreshold as number) ?? -7;
-  const hardFailSa = (synthesisCriteria?.hardFailSa as number) ?? 6;
-  const hardFailHERG = admetCriteria?.hardFailHERG !== false;
+  const vetoes = evaluateVetoes(toScoringCandidate("", metrics, smiles), resolveCriteria(decisionCriteria));
+  if (vetoes.length > 0) {
+    return { isWinner: false, rejectionReason: formatRejectionReason(vetoes) };
+  }
+
+  return { isWinner: true };
+}
+
+/**
+ * Project generated metrics onto the scoring engine's candidate shape
+ */
+function toScoringCandidate(scenarioId: string, metrics: GeneratedMetrics, smiles?: string): ScoringCandidate {
+  return {
+    scenario_id: scenarioId,
+    smiles,
+    binding_affinity: metrics.docking.binding_affinity_kcal_per_mol,
+    herg_flag: metrics.admet.herg_flag,
+    sa_score: metrics.synthesis.sa_score,
+    cost_usd: metrics.synthesis.estimated_cost_usd,
+    toxicity_prob: metrics.admet.toxicity_prob,
+    num_steps: metrics.synthesis.num_steps,
+  };
+}
+
+type ScenarioStatus = "pending" | "running" | "complete" | "error";
+
+/** Progress of one scenario, streamed in batch mode */
+interface ScenarioUpdate {
+  scenario_id: string;
+  status: ScenarioStatus;
+  result?: ScenarioResult;
+  error?: string;
+}
+
+/** A scenario that produced no metrics, with the reason */
+interface FailedScenario {
+  scenario_id: string;
+  smiles: string;
+  scaffold: string;
+  error: string;
+}
+
+interface InvalidScenario {
+  scenario_id: string;
+  smiles: string;
+  scaffold: string;
+  errors: SmilesError[];
+  rejection_reason: string;
+}
+
+/** Everything a Simulator run needs besides the scenarios */
+interface SimulatorRun {
+  experimentId: string;
+  proteinTarget: string;
+  decisionCriteria: NonNullable<GenerateMetricsRequest["decision_criteria"]>;
+  similarityThreshold?: number;
+  simulatorMode: SimulatorMode;
+  reference: ReferenceData;
+  concurrency: number;
+  cacheMode: CacheMode;
+  meter: UsageMeter;
+  /** Span calls are traced under: the request's, or a scenario's in evaluateLocally */
+  span: SpanHandle;
+  signal: AbortSignal;
+  onUpdate?: (update: ScenarioUpdate) => void;
+  emit: StageEmitter;
+}
+
+interface SimulatorOutcome {
+  results: ScenarioResult[];
+  failed: FailedScenario[];
+  source: "agent" | "llm" | "llm_validated" | "local_descriptors";
+  confidence: "high" | "medium";
+  /** Tokens spent on LLM metrics across all results */
+  llm_usage: LlmUsage;
+  /** Results answered from the response cache */
+  cache_hits: number;
+  /** Agent and LLM calls of this request, with the run's spend and budget */
+  usage: RunUsageReport;
+  _via: "deployed_agent" | "deployed_agent_partial" | "local_descriptors" | "local_llm_fallback";
+}
 
-  const reasons: string[] = [];
+/** Lines of the `batch: true` NDJSON stream */
+type BatchEvent =
+  | { type: "start"; experiment_id: string; total: number; concurrency: number; invalid_scenarios: InvalidScenario[] }
+  | ({ type: "scenario" } & ScenarioUpdate)
+  | StageEvent
+  | ({ type: "done"; invalid_scenarios: InvalidScenario[]; reference_freshness: ReferenceFreshness } & SimulatorOutcome)
+  | { type: "error"; error: string };
 
-  if (!metrics.docking.potency_pass) {
-    reasons.push(`Weak binding (ΔG ${metrics.docking.binding_affinity_kcal_per_mol} > ${hardFailThreshold} kcal/mol)`);
+/**
+ * Map one Simulator agent result to the route's result shape. The Judge
+ * decides winners for agent results.
+ */
+function fromAgentResult(r: EvaluatedMolecule): ScenarioResult {
+  return {
+    scenario_id: r.scenario_id,
+    smiles: r.smiles,
+    scaffold: r.scaffold || "Unknown",
+    metrics: {
+      docking: {
+        binding_affinity_kcal_per_mol: r.docking.binding_affinity_kcal_per_mol,
+        potency_pass: r.docking.potency_pass,
+      },
+      admet: {
+        toxicity_risk: (r.admet.toxicity_risk as "LOW" | "MED" | "HIGH") || "MED",
+        toxicity_prob: r.admet.toxicity_prob ?? undefined,
+        herg_flag: r.admet.herg_flag,
+        is_safe: r.admet.is_safe,
+      },
+      synthesis: {
+        sa_score: r.synthesis.sa_score,
+        num_steps: r.synthesis.num_steps ?? undefined,
+        estimated_cost_usd: r.synthesis.estimated_cost_usd,
+      },
+    },
+    is_winner: false, // Will be determined by Judge
+    provenance: uniformProvenance("agent", {}, [
+      ...(r.admet.toxicity_prob == null ? ["toxicity_prob"] : []),
+      ...(r.synthesis.num_steps == null ? ["num_steps"] : []),
+    ]),
+    data_source: "agent" as const,
+    confidence: (r.confidence === "HIGH" ? "high" : "medium") as "high" | "medium",
+    cache: r.cache as CacheStatus | undefined,
+  };
+}
+
+/**
+ * Evaluate one scenario without the agent: LLM (or heuristics without a key)
+ * or local descriptors, then the reference cross-check and veto check
+ */
+async function evaluateLocally(run: SimulatorRun, scenario: Scenario): Promise<ScenarioResult> {
+  const { proteinTarget: protein_target, decisionCriteria: decision_criteria } = run;
+  console.log(`[Simulator] Processing ${scenario.scenario_id}: ${scenario.scaffold}`);
+
+  // Offline: compute metrics from the molecular graph instead of asking an LLM
+  const offline = run.simulatorMode === "local_descriptors" ? "Local descriptor mode"
+    : !run.meter.allows() ? "Run budget exceeded" : null;
+  const useLocal = offline !== null || !isLlmConfigured();
+  const local = scenario.smiles ? simulateLocally(scenario.smiles, {
+    potencyThreshold: decision_criteria?.docking?.hardFailThreshold,
+  }) : null;
+  // The LLM is ruled out, so without descriptors there is nothing to evaluate with
+  if (offline && !local) {
+    throw new Error(`${offline}: no SMILES to compute local descriptors from`);
+  }
+
+  let llmMetrics: GeneratedMetrics;
+  let llmUsage: LlmUsage | undefined;
+  let promptVersion: string | undefined;
+  let cache: CacheStatus | undefined;
+  let metricsSource: "llm" | "local_descriptors" = "llm";
+  // Finer than metricsSource: heuristic metrics are still reported as "llm" in data_source
+  let metricsOrigin: MetricOrigin = "llm";
+  if (useLocal && local) {
+    llmMetrics = local.metrics;
+    metricsSource = metricsOrigin = "local_descriptors";
+    console.log(`[Simulator] Local descriptors: ΔG=${llmMetrics.docking.binding_affinity_kcal_per_mol}, hERG=${llmMetrics.admet.herg_flag}, SA=${llmMetrics.synthesis.sa_score} (MW ${local.descriptors.molecular_weight}, cLogP ${local.descriptors.clogp})`);
+  } else {
+    try {
+      ({ metrics: llmMetrics, usage: llmUsage, promptVersion, cache } = await calculateMetricsWithLLM(
+        scenario.smiles || "",
+        scenario.scaffold || "",
+        protein_target,
+        decision_criteria,
+        run.signal,
+        run.cacheMode,
+        run.meter,
+        run.span
+      ));
+      // Without an LLM calculateMetricsWithLLM returns heuristic metrics
+      if (!isLlmConfigured()) metricsOrigin = "heuristic";
+      console.log(`[Simulator] LLM calculated: ΔG=${llmMetrics.docking.binding_affinity_kcal_per_mol}, hERG=${llmMetrics.admet.herg_flag}, SA=${llmMetrics.synthesis.sa_score}`);
+    } catch (llmError) {
+      console.error(`[Simulator] LLM error for ${scenario.scenario_id}:`, llmError);
+      // Fall back to local descriptors (or heuristics without a SMILES) instead of failing request
+      if (local) {
+        llmMetrics = local.metrics;
+        metricsSource = metricsOrigin = "local_descriptors";
+        console.log(`[Simulator] Local descriptor metrics used for ${scenario.scenario_id}`);
+      } else {
+        llmMetrics = generateHeuristicMetrics(scenario, protein_target, decision_criteria);
+        metricsOrigin = "heuristic";
+        console.log(`[Simulator] Heuristic metrics used for ${scenario.scenario_id}`);
+      }
+    }
   }
-  if (hardFailHERG && metrics.admet.herg_flag) {
-    reasons.push("hERG cardiac toxicity flag");
+
+  run.span.setAttributes({ metrics_origin: metricsOrigin });
+  const { metrics, provenance, wasOverridden, dbMatch, referenceMatch } = await withChildSpan(run.span, "database cross-check", { type: "search" },
+    () => crossCheckWithDatabase(
+      scenario,
+      llmMetrics,
+      uniformProvenance(metricsOrigin, {}, llmMetrics.synthesis.num_steps == null ? ["num_steps"] : []),
+      decision_criteria,
+      protein_target,
+      run.reference.rows,
+      run.reference.freshness,
+      run.similarityThreshold
+    ),
+    checked => ({ overridden: checked.wasOverridden, reference_row: checked.referenceMatch?.row.scenario_id ?? null }));
+
+  if (wasOverridden) {
+    console.log(`[Simulator] Overridden with DB: ΔG=${metrics.docking.binding_affinity_kcal_per_mol}, hERG=${metrics.admet.herg_flag}, SA=${metrics.synthesis.sa_score}`);
+    if (referenceMatch) {
+      run.emit("cross_check", `${scenario.scenario_id}: reference row ${referenceMatch.row.scenario_id} (${describeReferenceMatch(referenceMatch)})`, { scenario_id: scenario.scenario_id });
+    }
   }
-  if (metrics.synthesis.sa_score > hardFailSa) {
-    reasons.push(`Poor synthetic accessibility (SA ${metrics.synthesis.sa_score} > ${hardFailSa})`);
+
+  const { isWinner, rejectionReason } = determineWinnerStatus(metrics, decision_criteria, dbMatch, scenario.smiles);
+
+  return {
+    scenario_id: scenario.scenario_id,
+    smiles: scenario.smiles || "",
+    scaffold: scenario.scaffold || "Unknown",
+    metrics,
+    is_winner: isWinner,
+    rejection_reason: rejectionReason,
+    descriptors: local?.descriptors,
+    reference_match: referenceMatch ? summarizeReferenceMatch(referenceMatch) : null,
+    provenance,
+    data_source: wasOverridden ? "llm_validated" : metricsSource,
+    confidence: wasOverridden ? "high" : "medium",
+    llm_usage: llmUsage,
+    prompt_version: promptVersion,
+    cache,
+  };
+}
+
+/**
+ * Evaluate the scenarios: the deployed agent first (when configured), then
+ * the local path for anything the agent didn't return, `concurrency` at a
+ * time. Returns null when the request was cancelled.
+ */
+async function runSimulator(run: SimulatorRun, scenarios: Scenario[]): Promise<SimulatorOutcome | null> {
+  const results: ScenarioResult[] = [];
+  const failed: FailedScenario[] = [];
+  let remaining = scenarios;
+
+  // =========================================================================
+  // TRY DEPLOYED AGENT FIRST (Full Integration)
+  // =========================================================================
+  if (run.simulatorMode === "auto" && (isDevMode() || isAgentexConfigured()) && run.meter.allows()) {
+    console.log(`[Simulator] Calling ${AGENTS.SIMULATOR} agent...`);
+    run.emit("agent_started", `Simulator agent evaluating ${scenarios.length} scenarios...`, { agent: AGENTS.SIMULATOR });
+    
+    const agentResult = await evaluateMolecules({
+      experiment_id: run.experimentId,
+      protein_target: run.proteinTarget,
+      scenarios: scenarios.map(s => ({
+        scenario_id: s.scenario_id,
+        smiles: s.smiles || "",
+        scaffold: s.scaffold || "Unknown",
+      })),
+    }, {
+      signal: run.signal,
+      span: run.span,
+      concurrency: run.concurrency,
+      cache: run.cacheMode,
+      // Agent failures are retried locally below, so only starts and results are reported
+      onUpdate: update => {
+        if (update.status === "running") run.onUpdate?.({ scenario_id: update.scenario_id, status: "running" });
+        if (update.result) run.onUpdate?.({ scenario_id: update.scenario_id, status: "complete", result: fromAgentResult(update.result) });
+      },
+    });
+
+    if (run.signal.aborted) {
+      console.log(`[Simulator] Request cancelled by the client, skipping fallback`);
+      return null;
+    }
+
+    if (agentResult.success && agentResult.data) {
+      console.log(`[Simulator] Agent returned ${agentResult.data.results.length} results`);
+      agentResult.data.results.forEach(r => run.meter.chargeAgent(`${AGENTS.SIMULATOR} /evaluate_molecule`, r.usage, r.cache as CacheStatus | undefined));
+      results.push(...agentResult.data.results.map(fromAgentResult));
+      const evaluated = new Set(results.map(r => r.scenario_id));
+      remaining = scenarios.filter(s => !evaluated.has(s.scenario_id));
+      run.emit("agent_done", `Simulator agent evaluated ${agentResult.data.results.length} of ${scenarios.length} scenarios`, { agent: AGENTS.SIMULATOR });
+      if (remaining.length > 0) {
+        console.log(`[Simulator] Agent failed on ${remaining.length} scenario(s), evaluating them locally`);
+        run.emit("fallback", `Evaluating ${remaining.length} scenario(s) the agent missed locally`);
+      }
+    } else {
+      console.log(`[Simulator] Agent call failed: ${agentResult.error}, falling back to local LLM`);
+      run.emit("agent_failed", `Simulator agent failed: ${agentResult.error}`, { agent: AGENTS.SIMULATOR });
+      run.emit("fallback", isLlmConfigured() ? "LLM fallback engaged" : "Local descriptor fallback engaged");
+    }
+  } else if (run.simulatorMode === "auto" && !run.meter.allows()) {
+    console.log(`[Simulator] Run budget exceeded, skipping agent and LLM`);
+    run.emit("fallback", "Run budget exceeded; computing metrics from local descriptors");
+  } else if (run.simulatorMode === "local_descriptors") {
+    console.log(`[Simulator] Local descriptor mode, skipping agent and LLM`);
+    run.emit("fallback", "Computing metrics from local descriptors");
+  } else {
+    console.log(`[Simulator] Agentex not configured, using local LLM fallback`);
+    run.emit("fallback", isLlmConfigured() ? "LLM fallback engaged (agent not configured)" : "Local descriptor fallback engaged (agent not configured)");
   }
 
-  if (reasons.length > 0) {
-    return { isWinner: false, rejectionReason: reasons.join("; ") };
+  // =========================================================================
+  // FALLBACK: Local LLM processing (no SGP tracing; spans are recorded locally)
+  // =========================================================================
+  const outcomes = await mapWithConcurrency(remaining, run.concurrency, async scenario => {
+    run.onUpdate?.({ scenario_id: scenario.scenario_id, status: "running" });
+    const span = run.span.child(`evaluate ${scenario.scenario_id}`, {
+      type: "processing",
+      input: { smiles: scenario.smiles ?? null, scaffold: scenario.scaffold ?? null },
+    });
+    try {
+      const result = await evaluateLocally({ ...run, span }, scenario);
+      void span.end({ data_source: result.data_source, is_winner: result.is_winner, metrics: result.metrics });
+      run.onUpdate?.({ scenario_id: scenario.scenario_id, status: "complete", result });
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`[Simulator] ✗ ${scenario.scenario_id} failed:`, error);
+      void span.end(null, error);
+      run.onUpdate?.({ scenario_id: scenario.scenario_id, status: "error", error: message });
+      throw error;
+    }
+  }, run.signal);
+
+  if (run.signal.aborted) {
+    console.log(`[Simulator] Request cancelled by the client`);
+    return null;
   }
 
-  return { isWinner: true };
+  outcomes.forEach((outcome, idx) => {
+    const scenario = remaining[idx];
+    if (outcome.status === "fulfilled") {
+      results.push(outcome.value);
+    } else {
+      failed.push({
+        scenario_id: scenario.scenario_id,
+        smiles: scenario.smiles || "",
+        scaffold: scenario.scaffold || "Unknown",
+        error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+      });
+    }
+  });
+
+  // Keep the request's order regardless of which source answered first
+  const order = new Map(scenarios.map((s, idx) => [s.scenario_id, idx]));
+  results.sort((a, b) => (order.get(a.scenario_id) ?? 0) - (order.get(b.scenario_id) ?? 0));
+
+  // Rank the passing candidates so the UI can show the same ordering the Judge will apply
+  const scoring = scoreCandidates(
+    results.filter(r => r.is_winner).map(r => toScoringCandidate(r.scenario_id, r.metrics, r.smiles)),
+    run.decisionCriteria
+  );
+  for (const scored of scoring.passing) {
+    const result = results.find(r => r.scenario_id === scored.candidate.scenario_id);
+    if (!result) continue;
+    result.score = Number(scored.score.toFixed(3));
+    result.rank = scored.rank;
+    result.desirability = roundObjectives(scored.objectives);
+    result.score_explanation = scored.explanation;
+  }
+
+  const agentCount = results.filter(r => r.data_source === "agent").length;
+  const validatedCount = results.filter(r => r.data_source === "llm_validated").length;
+  const localCount = results.filter(r => r.data_source === "local_descriptors").length;
+  const cacheHits = results.filter(r => r.cache === "hit").length;
+  console.log(`[Simulator] Complete: ${results.length} scenarios (${agentCount} from agent), ${validatedCount} validated against database, ${failed.length} failed`);
+  if (agentCount < results.length) {
+    run.emit("cross_check", `Database cross-check done: ${validatedCount} of ${results.length - agentCount} locally evaluated scenarios matched reference rows`);
+  }
+  if (cacheHits > 0) {
+    run.emit("cache", `${cacheHits} of ${results.length} scenarios served from cache`);
+  }
+  console.log(`[Simulator] ========================================`);
+
+  return {
+    results,
+    failed,
+    source: agentCount === results.length ? "agent" : validatedCount > 0 ? "llm_validated" : localCount === results.length ? "local_descriptors" : "llm",
+    confidence: results.every(r => r.confidence === "high") ? "high" : "medium",
+    llm_usage: results.reduce((total, r) => addUsage(total, r.llm_usage), EMPTY_USAGE),
+    cache_hits: cacheHits,
+    usage: await run.meter.finish(),
+    _via: agentCount === results.length ? "deployed_agent"
+      : agentCount > 0 ? "deployed_agent_partial"
+      : localCount === results.length ? "local_descriptors" : "local_llm_fallback",
+  };
 }
 
 export async function POST(request: NextRequest) {
+  const span = startRouteSpan("generate-metrics", request);
+  return endRouteSpan(span, evaluate(request, span));
+}
+
+async function evaluate(request: NextRequest, span: SpanHandle) {
   try {
     const body: GenerateMetricsRequest = await request.json();
     const { 
       scenarios = [], 
       protein_target = "Unknown",
-      decision_criteria = {}
+      decision_criteria = {},
+      similarity_threshold,
+      reference_dataset,
+      batch = false,
     } = body;
+    const simulatorMode: SimulatorMode = body.simulator_mode === "local_descriptors" ? "local_descriptors" : SIMULATOR_MODE;
 
     console.log(`[Simulator] ========================================`);
     console.log(`[Simulator] Evaluating ${scenarios.length} scenarios for ${protein_target}`);
@@ -357,164 +837,80 @@ export async function POST(request: NextRequest) {
     }
 
     const experimentId = `exp-${Date.now()}`;
-    // Preload sheet data for this protein target to allow index-based fallback mapping
-    await ensureSheetLoaded();
-    const targetRows = getScenariosByProteinTarget(protein_target);
+    span.setAttributes({ protein_target, scenarios: scenarios.length, batch, simulator_mode: simulatorMode, experiment_id: body.experiment_id ?? null });
+    const reference = await withChildSpan(span, "load reference data", { type: "knowledge" },
+      () => loadReferenceData(reference_dataset),
+      loaded => loaded && { rows: loaded.rows.length, source: loaded.freshness.source });
+    if (!reference) {
+      return NextResponse.json({ error: `Reference dataset not found: ${reference_dataset}` }, { status: 404 });
+    }
+    const referenceRows = reference.rows;
+
+    // Reject malformed SMILES before any agent/LLM call (curated database SMILES are trusted)
+    const { valid: validScenarios, invalid } = partitionBySmiles(scenarios, smiles => findScenarioBySmiles(smiles, referenceRows) !== null);
+    const invalidScenarios: InvalidScenario[] = invalid.map(s => ({
+      scenario_id: s.scenario_id,
+      smiles: s.smiles || "",
+      scaffold: s.scaffold || "Unknown",
+      errors: s.errors,
+      rejection_reason: s.rejection_reason,
+    }));
+    invalidScenarios.forEach(s => {
+      console.warn(`[Simulator] ✗ Skipping ${s.scenario_id}: ${s.rejection_reason}`);
+    });
+    if (!validScenarios.length) {
+      return NextResponse.json({
+        error: "All scenarios have invalid SMILES",
+        invalid_scenarios: invalidScenarios,
+      }, { status: 400 });
+    }
 
-    // =========================================================================
-    // TRY DEPLOYED AGENT FIRST (Full Integration)
-    // =========================================================================
-    if (isDevMode() || isAgentexConfigured()) {
-      console.log(`[Simulator] Calling ${AGENTS.SIMULATOR} agent...`);
-      
-      const agentResult = await evaluateMolecules({
-        experiment_id: experimentId,
-        protein_target,
-        scenarios: scenarios.map(s => ({
-          scenario_id: s.scenario_id,
-          smiles: s.smiles || "",
-          scaffold: s.scaffold || "Unknown",
-        })),
-      });
 
-      if (agentResult.success && agentResult.data) {
-        console.log(`[Simulator] Agent returned ${agentResult.data.results?.length || 0} results`);
-        
-        // Map agent response to our format
-        const results: ScenarioResult[] = (agentResult.data.results || []).map(r => ({
-          scenario_id: r.scenario_id,
-          smiles: r.smiles,
-          scaffold: r.scaffold || "Unknown",
-          metrics: {
-            docking: {
-              binding_affinity_kcal_per_mol: r.docking.binding_affinity_kcal_per_mol,
-              potency_pass: r.docking.potency_pass,
-            },
-            admet: {
-              toxicity_risk: (r.admet.toxicity_risk as "LOW" | "MED" | "HIGH") || "MED",
-              toxicity_prob: r.admet.herg_flag ? 0.8 : 0.2,
-              herg_flag: r.admet.herg_flag,
-              is_safe: r.admet.is_safe,
-            },
-            synthesis: {
-              sa_score: r.synthesis.sa_score,
-              num_steps: Math.floor(r.synthesis.sa_score) + 2,
-              estimated_cost_usd: r.synthesis.estimated_cost_usd,
-            },
-          },
-          is_winner: false, // Will be determined by Judge
-          data_source: "agent" as const,
-          confidence: (r.confidence === "HIGH" ? "high" : "medium") as "high" | "medium",
-        }));
-
-        console.log(`[Simulator] ========================================`);
-        
-        return NextResponse.json({
-          results,
-          source: "agent",
-          confidence: "high",
-          _via: "deployed_agent",
-        });
+    const run: SimulatorRun = {
+      experimentId,
+      proteinTarget: protein_target,
+      decisionCriteria: decision_criteria,
+      similarityThreshold: similarity_threshold,
+      simulatorMode,
+      reference,
+      concurrency: resolveConcurrency(body.concurrency, SIMULATOR_CONCURRENCY),
+      cacheMode: resolveCacheMode(body.cache),
+      meter: await openUsageMeter("metrics", { experimentId: body.experiment_id, budgetUsd: body.budget_usd }),
+      span,
+      signal: request.signal,
+      emit: noStages,
+    };
+
+    if (!batch && request.nextUrl.searchParams.get("stream") !== "1") {
+      const outcome = await runSimulator(run, validScenarios);
+      if (!outcome) {
+        return NextResponse.json({ error: "Request cancelled" }, { status: 499 });
       }
-
-      console.log(`[Simulator] Agent call failed: ${agentResult.error}, falling back to local LLM`);
-    } else {
-      console.log(`[Simulator] Agentex not configured, using local LLM fallback`);
+      return NextResponse.json({
+        ...outcome,
+        invalid_scenarios: invalidScenarios,
+        reference_freshness: reference.freshness,
+      });
     }
 
     // =========================================================================
-    // FALLBACK: Local LLM processing (no tracing)
+    // BATCH: stream per-scenario status as NDJSON, then the full response
     // =========================================================================
-    const results: ScenarioResult[] = [];
-
-    // Ensure live sheet is loaded before matching
-    await ensureSheetLoaded();
-
-    for (let i = 0; i < scenarios.length; i++) {
-      const scenario = scenarios[i];
-      console.log(`[Simulator] Processing ${scenario.scenario_id}: ${scenario.scaffold}`);
-
-      let llmMetrics: GeneratedMetrics;
-      try {
-        llmMetrics = await calculateMetricsWithLLM(
-          scenario.smiles || "",
-          scenario.scaffold || "",
-          protein_target,
-          decision_criteria
-        );
-        console.log(`[Simulator] LLM calculated: ΔG=${llmMetrics.docking.binding_affinity_kcal_per_mol}, hERG=${llmMetrics.admet.herg_flag}, SA=${llmMetrics.synthesis.sa_score}`);
-      } catch (llmError) {
-        console.error(`[Simulator] LLM error for ${scenario.scenario_id}:`, llmError);
-    // Fall back to heuristic generation instead of failing request
-    const metrics = generateHeuristicMetrics(scenario, protein_target, decision_criteria);
-    console.log(`[Simulator] Heuristic metrics used for ${scenario.scenario_id}`);
-    llmMetrics = metrics;
+    return ndjsonResponse<BatchEvent>(async send => {
+      send({ type: "start", experiment_id: experimentId, total: validScenarios.length, concurrency: run.concurrency, invalid_scenarios: invalidScenarios });
+      const emit: StageEmitter = (stage, message, details) => send({ type: "stage", stage, message, ...details });
+      emit("reference_loaded", `Reference data ready (${referenceRows.length} rows, ${reference.freshness.source})`);
+      const outcome = await runSimulator({
+        ...run,
+        emit,
+        onUpdate: update => send({ type: "scenario", ...update }),
+      }, validScenarios);
+      if (outcome) {
+        send({ type: "done", ...outcome, invalid_scenarios: invalidScenarios, reference_freshness: reference.freshness });
       }
-
-      let { metrics, wasOverridden, dbMatch } = crossCheckWithDatabase(
-        scenario,
-        llmMetrics,
-        decision_criteria
-      );
-
-      // Fallback: if no match by SMILES/scaffold, map by index against sheet rows for the same protein target
-      if (!wasOverridden && !dbMatch && targetRows.length >= (i + 1)) {
-        const dockingCriteria = decision_criteria?.docking as Record<string, unknown> | undefined;
-        const admetCriteria = decision_criteria?.admet as Record<string, unknown> | undefined;
-        const synthesisCriteria = decision_criteria?.synthesis as Record<string, unknown> | undefined;
-        const hardFailThreshold = (dockingCriteria?.hardFailThreshold as number) ?? -7;
-        const row = targetRows[i];
-        const bindingAffinity = row.reference_binding_affinity ?? llmMetrics.docking.binding_affinity_kcal_per_mol;
-        const hergFlag = row.reference_herg_flag ?? llmMetrics.admet.herg_flag;
-        const saScore = row.reference_sa_score ?? llmMetrics.synthesis.sa_score;
-        metrics = {
-          docking: {
-            binding_affinity_kcal_per_mol: bindingAffinity as number,
-            potency_pass: (bindingAffinity as number) < hardFailThreshold,
-          },
-          admet: {
-            toxicity_risk: hergFlag ? "HIGH" as const : "LOW" as const,
-            toxicity_prob: hergFlag ? 0.8 : 0.1,
-            herg_flag: Boolean(hergFlag),
-            is_safe: !hergFlag,
-          },
-          synthesis: {
-            sa_score: saScore as number,
-            num_steps: Math.floor((saScore as number) || 0) + 2,
-            estimated_cost_usd: Math.floor(500 + ((saScore as number) || 0) * 300),
-          },
-        };
-        wasOverridden = true;
-        dbMatch = row;
-      }
-
-      if (wasOverridden || dbMatch) {
-        console.log(`[Simulator] Overridden with DB: ΔG=${metrics.docking.binding_affinity_kcal_per_mol}, hERG=${metrics.admet.herg_flag}, SA=${metrics.synthesis.sa_score}`);
-      }
-
-      const { isWinner, rejectionReason } = determineWinnerStatus(metrics, decision_criteria, dbMatch);
-
-      results.push({
-        scenario_id: scenario.scenario_id,
-        smiles: scenario.smiles || "",
-        scaffold: scenario.scaffold || "Unknown",
-        metrics,
-        is_winner: isWinner,
-        rejection_reason: rejectionReason,
-        data_source: wasOverridden ? "llm_validated" : "llm",
-        confidence: wasOverridden ? "high" : "medium",
-      });
-    }
-
-    const validatedCount = results.filter(r => r.data_source === "llm_validated").length;
-    console.log(`[Simulator] Complete: ${results.length} scenarios, ${validatedCount} validated against database`);
-    console.log(`[Simulator] ========================================`);
-
-    return NextResponse.json({
-      results,
-      source: validatedCount > 0 ? "llm_validated" : "llm",
-      confidence: validatedCount === results.length ? "high" : "medium",
-      _via: "local_llm_fallback",
+    }, error => {
+      console.error("[Simulator] Batch run failed:", error);
+      return `Simulator failed: ${error instanceof Error ? error.message : "Unknown"}`;
     });
 
   } catch (error: unknown) {
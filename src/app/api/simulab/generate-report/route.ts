@@ -1,17 +1,26 @@
 import { NextRequest, NextResponse } from "next/server"
+import { computeObjectives, resolveCriteria, roundObjectives, ObjectiveKey, ScoringCriteria } from "@/lib/scoring"
+import { evaluateFilters } from "@/lib/filters"
+import { completeJson, getLlmModel, isLlmConfigured } from "@/lib/llm-client"
+import { LlmReportSchema } from "@/lib/llm-contracts"
+import { renderPrompt } from "@/lib/prompt-registry"
+import { resolveCacheMode, CacheMode } from "@/lib/response-cache"
+import { openUsageMeter } from "@/lib/usage-ledger"
 
 /**
  * SimuLab Generate Report API Route
  * 
  * Uses LLM to generate a structured report with all data extracted into JSON format.
  * This allows the frontend to populate existing UI components dynamically.
+ * Identical report requests are answered from the response cache unless
+ * `cache` is "bypass" or "refresh"; the response reports the outcome in `cache`.
+ * The LLM call is metered as the "report" stage (`usage`, recorded on
+ * `experiment_id` when given); past the run budget the fallback report is used.
  */
 
 export const maxDuration = 120;
 export const dynamic = "force-dynamic"
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY;
-const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o";
 
 interface ScenarioAnalysis {
   scenario_id: string;
@@ -26,9 +35,14 @@ interface ScenarioAnalysis {
     herg_flag: boolean;
     is_safe: boolean;
     sa_score: number;
-    num_steps: number;
+    /** Undefined when no source reported a route length */
+    num_steps?: number;
     estimated_cost_usd: number;
   };
+  /** Per-objective desirability (0-1) against the ideal bands in the decision criteria */
+  desirability: Record<ObjectiveKey, number>;
+  /** Failed drug-likeness filters under the run's filter modes */
+  filter_alerts: string[];
   pros: string[];
   cons: string[];
   rejection_reason?: string;
@@ -68,9 +82,16 @@ interface GenerateReportRequest {
   };
   decisionCriteria: {
     docking?: { idealMin?: number; idealMax?: number; hardFailThreshold?: number };
-    admet?: { idealMin?: number; idealMax?: number; hardFailHERG?: boolean };
+    admet?: ScoringCriteria["admet"];
     synthesis?: { idealSaMax?: number; idealStepsMax?: number; hardFailSa?: number; hardFailSteps?: number };
+    scoring?: ScoringCriteria["scoring"];
   };
+  /** "bypass" skips the response cache, "refresh" re-asks the LLM and overwrites it */
+  cache?: CacheMode;
+  /** Experiment the call is charged to */
+  experiment_id?: string | null;
+  /** Run budget in USD (default SIMULAB_RUN_BUDGET_USD) */
+  budget_usd?: number;
 }
 
 export async function POST(request: NextRequest) {
@@ -86,6 +107,7 @@ export async function POST(request: NextRequest) {
     } = body
 
     console.log(`[SimuLab/GenerateReport] Generating structured report for ${scenarios.length} scenarios`);
+    const resolvedCriteria = resolveCriteria(decisionCriteria);
 
     // Build enriched scenario data
     const enrichedScenarios: ScenarioAnalysis[] = scenarios.map((s) => {
@@ -118,142 +140,107 @@ export async function POST(request: NextRequest) {
           herg_flag: metrics.admet?.herg_flag ?? false,
           is_safe: metrics.admet?.is_safe ?? true,
           sa_score: metrics.synthesis?.sa_score ?? 0,
-          num_steps: metrics.synthesis?.num_steps ?? 0,
+          num_steps: metrics.synthesis?.num_steps,
           estimated_cost_usd: metrics.synthesis?.estimated_cost_usd ?? 0,
         },
+        desirability: roundObjectives(computeObjectives({
+          scenario_id: s.scenario_id,
+          smiles: s.smiles,
+          binding_affinity: metrics.docking?.binding_affinity_kcal_per_mol ?? 0,
+          herg_flag: metrics.admet?.herg_flag ?? false,
+          sa_score: metrics.synthesis?.sa_score ?? 0,
+          cost_usd: metrics.synthesis?.estimated_cost_usd,
+          toxicity_prob: metrics.admet?.toxicity_prob,
+          num_steps: metrics.synthesis?.num_steps,
+        }, resolvedCriteria)),
+        filter_alerts: evaluateFilters(s.smiles, resolvedCriteria.filters)
+          .map(v => `${v.message} (${v.mode} filter)`),
         pros: [],
         cons: [],
         rejection_reason: rejectionInfo?.veto_reason,
       };
     });
 
-    if (!OPENAI_API_KEY) {
-      console.warn('[SimuLab/GenerateReport] No OpenAI API key, using fallback structured report');
+    if (!isLlmConfigured()) {
+      console.warn('[SimuLab/GenerateReport] No LLM configured, using fallback structured report');
       return NextResponse.json({ 
         report: generateFallbackReport(enrichedScenarios, context, winners, rejected),
         source: "fallback"
       });
     }
 
-    const systemPrompt = `You are a senior medicinal chemist generating a structured drug discovery report.
-Your response must be ONLY valid JSON matching this exact schema:
-
-{
-  "executive_summary": "2-3 sentence professional summary of the screening experiment results",
-  "target_protein": "Name of the protein target",
-  "goal_achieved": true/false,
-  "goal_summary": "Brief statement on how well the goal was met",
-  "scenarios": [
-    {
-      "scenario_id": "scenario_1",
-      "smiles": "SMILES string",
-      "scaffold": "Scaffold name",
-      "status": "winner" | "selected" | "rejected",
-      "pros": ["Pro 1", "Pro 2"],
-      "cons": ["Con 1", "Con 2"],
-      "rejection_reason": "Only for rejected molecules - specific reason",
-      "selection_reason": "Only for selected (non-winner passing) molecules - why it passed"
+    const meter = await openUsageMeter("report", { experimentId: body.experiment_id, budgetUsd: body.budget_usd });
+    if (!meter.allows()) {
+      return NextResponse.json({
+        report: generateFallbackReport(enrichedScenarios, context, winners, rejected),
+        source: "fallback",
+        error: "Run budget exceeded",
+        usage: await meter.finish(),
+      });
     }
-  ],
-  "comparative_analysis": "Professional paragraph comparing all candidates, discussing trade-offs",
-  "winner_justification": "Scientific justification for the winning molecule selection",
-  "recommendations": ["Recommendation 1", "Recommendation 2"],
-  "next_steps": ["Next step 1", "Next step 2"]
-}
-
-STATUS MEANINGS:
-- "winner": The best molecule that passes all criteria
-- "selected": Molecules that pass all criteria but aren't the best (viable backup candidates)
-- "rejected": Molecules that fail one or more hard criteria (safety veto, potency fail, cost veto)
-
-IMPORTANT:
-- Use professional scientific language
-- Be specific with data and metrics
-- Do NOT include markdown formatting
-- Response must be valid JSON only`;
-
-    const userPrompt = `Generate a structured report for this drug discovery screening:
-
-Target Protein: ${context.protein_target}
-Goal: ${context.goal}
-Constraints: ${context.constraints.join("; ") || "Standard drug-like properties"}
-
-Scenarios evaluated:
-${JSON.stringify(enrichedScenarios, null, 2)}
-
-Decision Criteria:
-- Docking: ideal ΔG ${decisionCriteria.docking?.idealMin || -12} to ${decisionCriteria.docking?.idealMax || -8} kcal/mol
-- ADMET: ideal toxicity 0-0.3, hERG veto: ${decisionCriteria.admet?.hardFailHERG ? "Yes" : "No"}
-- Synthesis: ideal SA ≤ ${decisionCriteria.synthesis?.idealSaMax || 4}
 
-Winners: ${winners.map(w => w.scenario_id).join(", ") || "None"}
-Rejected: ${rejected.map(r => `${r.scenario_id} (${r.veto_reason || "criteria not met"})`).join(", ") || "None"}
-
-Generate the structured JSON report with professional analysis.`;
-
-    console.log(`[SimuLab/GenerateReport] Calling OpenAI ${OPENAI_MODEL}...`);
-
-    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: OPENAI_MODEL,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        temperature: 0.3,
-        max_tokens: 2000,
-        response_format: { type: "json_object" },
-      }),
+    const rendered = await renderPrompt("report", {
+      protein_target: context.protein_target || "Unknown",
+      goal: context.goal || "",
+      constraints: context.constraints.join("; ") || "Standard drug-like properties",
+      scenarios_json: JSON.stringify(enrichedScenarios, null, 2),
+      potency_min: resolvedCriteria.idealPotency.min,
+      potency_max: resolvedCriteria.idealPotency.max,
+      toxicity_min: resolvedCriteria.idealToxicity.min,
+      toxicity_max: resolvedCriteria.idealToxicity.max,
+      herg_veto: decisionCriteria.admet?.hardFailHERG ? "Yes" : "No",
+      ideal_sa_max: resolvedCriteria.idealSaMax,
+      ideal_steps_max: resolvedCriteria.idealStepsMax,
+      winners: winners.map(w => w.scenario_id).join(", ") || "None",
+      rejected: rejected.map(r => `${r.scenario_id} (${r.veto_reason || "criteria not met"})`).join(", ") || "None",
     });
 
-    if (!resp.ok) {
-      const errorText = await resp.text();
-      console.error(`[SimuLab/GenerateReport] OpenAI error (${resp.status}):`, errorText);
+    console.log(`[SimuLab/GenerateReport] Calling LLM ${getLlmModel()} with ${rendered.id}...`);
+
+    const result = await completeJson({
+      label: "report",
+      messages: rendered.messages,
+      temperature: 0.3,
+      maxTokens: 2000,
+      signal: request.signal,
+      promptVersion: rendered.id,
+      cache: resolveCacheMode(body.cache),
+      meter,
+    }, LlmReportSchema);
+
+    if (!result.success) {
+      console.error(`[SimuLab/GenerateReport] LLM error:`, result.error);
       return NextResponse.json({ 
         report: generateFallbackReport(enrichedScenarios, context, winners, rejected),
         source: "fallback",
-        error: `LLM error: ${resp.status}`
+        error: `LLM error: ${result.error}`,
+        llm_usage: result.usage,
+        prompt_version: rendered.id,
+        cache: result.cache,
+        usage: await meter.finish(),
       });
     }
 
-    const data = await resp.json();
-    const content = data?.choices?.[0]?.message?.content || "";
+    const report = result.data as unknown as StructuredReport;
 
-    try {
-      const report = JSON.parse(content) as StructuredReport;
-      
-      // Merge LLM analysis with actual metrics data
-      const mergedScenarios = enrichedScenarios.map(s => {
-        const llmScenario = report.scenarios?.find(rs => rs.scenario_id === s.scenario_id);
-        return {
-          ...s,
-          pros: llmScenario?.pros || generateDefaultPros(s),
-          cons: llmScenario?.cons || generateDefaultCons(s),
-          rejection_reason: s.rejection_reason || llmScenario?.rejection_reason,
-        };
-      });
-
-      const finalReport: StructuredReport = {
-        ...report,
-        scenarios: mergedScenarios,
+    // Merge LLM analysis with actual metrics data
+    const mergedScenarios = enrichedScenarios.map(s => {
+      const llmScenario = report.scenarios?.find(rs => rs.scenario_id === s.scenario_id);
+      return {
+        ...s,
+        pros: llmScenario?.pros || generateDefaultPros(s),
+        cons: llmScenario?.cons || generateDefaultCons(s),
+        rejection_reason: s.rejection_reason || llmScenario?.rejection_reason,
       };
+    });
 
-      console.log(`[SimuLab/GenerateReport] Report generated successfully`);
-      return NextResponse.json({ report: finalReport, source: "llm" });
+    const finalReport: StructuredReport = {
+      ...report,
+      scenarios: mergedScenarios,
+    };
 
-    } catch (parseError) {
-      console.error('[SimuLab/GenerateReport] Failed to parse LLM response:', parseError);
-      return NextResponse.json({ 
-        report: generateFallbackReport(enrichedScenarios, context, winners, rejected),
-        source: "fallback",
-        parseError: String(parseError)
-      });
-    }
+    console.log(`[SimuLab/GenerateReport] Report generated successfully`);
+    return NextResponse.json({ report: finalReport, source: "llm", llm_usage: result.usage, prompt_version: rendered.id, cache: result.cache, usage: await meter.finish() });
 
   } catch (error: unknown) {
     console.error('[SimuLab/GenerateReport] Unexpected error:', error);
@@ -352,6 +339,7 @@ function generateDefaultCons(scenario: any): string[] {
   if (m.estimated_cost_usd > 3000) {
     cons.push(`High synthesis cost ($${m.estimated_cost_usd})`);
   }
+  cons.push(...(scenario.filter_alerts || []));
   
   return cons.length > 0 ? cons : ["No significant concerns identified"];
 }
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelPipelineJob, isValidPipelineId } from "@/lib/pipeline-store";
+
+/**
+ * POST /api/simulab/pipeline/:id/cancel
+ *
+ * Stops a queued or running job. The step in flight is aborted at the
+ * runner's next heartbeat; finished steps keep their checkpoints, so the job
+ * can be resumed later.
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isValidPipelineId(id)) {
+    return NextResponse.json({ success: false, error: `Invalid pipeline id: ${id}` }, { status: 400 });
+  }
+
+  try {
+    const result = await cancelPipelineJob(id);
+    if (!result) {
+      return NextResponse.json({ success: false, error: `Pipeline job not found: ${id}` }, { status: 404 });
+    }
+    if (!result.cancelled) {
+      return NextResponse.json({ success: false, error: `Pipeline job is ${result.job.status}`, job: result.job }, { status: 409 });
+    }
+
+    console.log(`[Pipeline] Cancel requested for ${id}`);
+    return NextResponse.json({ success: true, job: result.job });
+  } catch (error) {
+    console.error(`[Pipeline] Cancel ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { queuePipelineResume, isValidPipelineId } from "@/lib/pipeline-store";
+import { runPipeline } from "../../runner";
+
+/**
+ * POST /api/simulab/pipeline/:id/resume
+ *
+ * Runs a failed, cancelled or interrupted job again from its first unfinished
+ * step; checkpointed steps are not repeated.
+ */
+
+export const maxDuration = 600;
+export const dynamic = "force-dynamic";
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isValidPipelineId(id)) {
+    return NextResponse.json({ success: false, error: `Invalid pipeline id: ${id}` }, { status: 400 });
+  }
+
+  try {
+    const result = await queuePipelineResume(id);
+    if (!result) {
+      return NextResponse.json({ success: false, error: `Pipeline job not found: ${id}` }, { status: 404 });
+    }
+    if (!result.queued) {
+      return NextResponse.json({ success: false, error: `Pipeline job is ${result.job.status}`, job: result.job }, { status: 409 });
+    }
+    after(() => runPipeline(id));
+
+    console.log(`[Pipeline] Resuming ${id}`);
+    return NextResponse.json({ success: true, job: result.job }, { status: 202 });
+  } catch (error) {
+    console.error(`[Pipeline] Resume ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPipelineJob, isValidPipelineId } from "@/lib/pipeline-store";
+
+/**
+ * GET /api/simulab/pipeline/:id
+ *
+ * Job status: step states, checkpoints, recent stages and per-scenario
+ * Simulator status. A running job whose server stopped reports 'interrupted'.
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isValidPipelineId(id)) {
+    return NextResponse.json({ success: false, error: `Invalid pipeline id: ${id}` }, { status: 400 });
+  }
+
+  try {
+    const job = await getPipelineJob(id);
+    if (!job) {
+      return NextResponse.json({ success: false, error: `Pipeline job not found: ${id}` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error(`[Pipeline] Read ${id} failed:`, error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { createPipelineJob, PipelineInput } from "@/lib/pipeline-store";
+import { isValidExperimentId } from "@/lib/experiment-store";
+import { resolveCacheMode } from "@/lib/response-cache";
+import { runPipeline } from "./runner";
+
+/**
+ * SimuLab Pipeline API
+ *
+ * POST /api/simulab/pipeline - start refine → metrics → verdict → report as one server-side job
+ *
+ * Body: { prompt, constraints?, protein_target?, reference_dataset?, decision_criteria?, design?, experiment_id?, cache?, budget_usd? }
+ * With `design` (a reviewed Orchestrator output) the refine step is skipped.
+ * `cache` ("bypass" | "refresh") is passed to every step's response cache;
+ * `budget_usd` caps the run's estimated LLM spend (see lib/usage-ledger).
+ * Responds 202 with the queued job; follow it with GET /api/simulab/pipeline/:id.
+ */
+
+export const maxDuration = 600; // the job runs after the response, within this budget
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as PipelineInput;
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return NextResponse.json({ success: false, error: "Expected a JSON object" }, { status: 400 });
+    }
+    const hasDesign = Array.isArray(body.design?.scenarios) && (body.design.scenarios as unknown[]).length > 0;
+    if (!hasDesign && !body.prompt?.trim()) {
+      return NextResponse.json({ success: false, error: "Provide a prompt or a design with scenarios" }, { status: 400 });
+    }
+    if (body.experiment_id && !isValidExperimentId(body.experiment_id)) {
+      return NextResponse.json({ success: false, error: `Invalid experiment id: ${body.experiment_id}` }, { status: 400 });
+    }
+
+    const job = await createPipelineJob({
+      prompt: body.prompt,
+      constraints: body.constraints,
+      protein_target: body.protein_target,
+      reference_dataset: body.reference_dataset ?? null,
+      decision_criteria: body.decision_criteria,
+      design: hasDesign ? body.design : null,
+      experiment_id: body.experiment_id ?? null,
+      cache: resolveCacheMode(body.cache),
+      budget_usd: typeof body.budget_usd === "number" ? body.budget_usd : null,
+    });
+    after(() => runPipeline(job.id));
+
+    console.log(`[Pipeline] Queued ${job.id} (${hasDesign ? "from design" : "from prompt"})`);
+    return NextResponse.json({ success: true, job }, { status: 202 });
+  } catch (error) {
+    console.error("[Pipeline] Start failed:", error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * SimuLab Pipeline Runner
+ *
+ * Runs Orchestrator → Simulator → Judge as one server-side job: refine,
+ * generate-metrics and reason are invoked in-process through their route
+ * handlers (streaming variants, so their stages land in the job record), and
+ * the report step saves the finished run to the experiment store.
+ *
+ * Each step charges its agent and LLM calls to the job's experiment; until the
+ * report step creates one, the steps' usage is kept in `checkpoints.usage`
+ * (and counted against the run budget) and recorded on it then.
+ *
+ * Every finished step is checkpointed in @/lib/pipeline-store before the next
+ * one starts; runPipeline skips steps that are already done, which is all a
+ * resume needs. Cancellation goes through the store too: the cancel route
+ * marks the job cancelled and the running job's heartbeat sees it and aborts
+ * the step in flight, whichever process or route bundle that is.
+ *
+ * Each run is traced locally with the job id as trace id: a "pipeline" span
+ * with the refine, generate-metrics and reason route spans under it (see
+ * @/lib/span-recorder), so GET /api/simulab/spans?trace_id=<job id> shows the
+ * whole job, resumes included.
+ */
+
+import { NextRequest } from "next/server";
+import { POST as refinePOST } from "../refine/route";
+import { POST as generateMetricsPOST } from "../generate-metrics/route";
+import { POST as reasonPOST } from "../reason/route";
+import { appendExperimentUsage, createExperiment, updateExperiment, ExperimentInput } from "@/lib/experiment-store";
+import { PIPELINE_STEPS, PipelineJob, PipelineStep, getPipelineJob, updatePipelineJob } from "@/lib/pipeline-store";
+import { readStages, StageEvent } from "@/lib/stage-events";
+import { readNdjson } from "@/lib/ndjson";
+import type { CacheStatus } from "@/lib/response-cache";
+import { resolveRunBudget, summarizeUsage, RunUsageReport } from "@/lib/usage-ledger";
+import { startSpan, SpanHandle } from "@/lib/span-recorder";
+
+const HEARTBEAT_MS = 5_000;
+
+type Row = Record<string, unknown>;
+
+/** Lines of the generate-metrics batch stream the runner reads */
+type MetricsStreamEvent = {
+  type: "start" | "scenario" | "stage" | "done" | "error";
+  scenario_id?: string;
+  status?: "running" | "complete" | "error";
+  result?: Row;
+  stage?: string;
+  message?: string;
+  error?: string;
+  results?: Row[];
+  invalid_scenarios?: Row[];
+  failed?: Row[];
+};
+
+const CANCELLED = "Pipeline cancelled";
+
+/**
+ * Request for a route handler, as if the browser had sent it, traced under
+ * the run's span
+ */
+function internalRequest(path: string, body: unknown, signal: AbortSignal, trace: SpanHandle): NextRequest {
+  const url = new URL(path, "http://simulab.internal");
+  if (trace.recording) {
+    url.searchParams.set("trace_id", trace.traceId);
+    url.searchParams.set("parent_span_id", trace.id);
+  }
+  return new NextRequest(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+async function readBody(response: Response, step: PipelineStep): Promise<Row> {
+  const body = await response.json().catch(() => null) as Row | null;
+  if (!response.ok || !body) {
+    const invalid = (body?.invalid_scenarios as Row[] | undefined) || [];
+    const details = invalid.length ? `: ${invalid.map(s => `${s.scenario_id}: ${s.rejection_reason}`).join("; ")}` : "";
+    throw new Error(`${(body?.error as string) || `${step} failed with status ${response.status}`}${details}`);
+  }
+  return body;
+}
+
+/**
+ * Run a job from its first unfinished step. Resolves when the job completes,
+ * fails or is cancelled; never throws.
+ */
+export async function runPipeline(jobId: string): Promise<void> {
+  const controller = new AbortController();
+  // Only a queued job starts, so a double resume or a cancel that got there first is a no-op
+  const started = await updatePipelineJob(jobId, job => {
+    if (job.status !== "queued") return;
+    job.status = "running";
+    job.error = null;
+    job.runs++;
+    job.heartbeat_at = new Date().toISOString();
+  });
+  if (started?.status !== "running") return;
+  console.log(`[Pipeline] ${jobId}: run ${started.runs} starting`);
+  const trace = startSpan("pipeline", { traceId: jobId, type: "processing", attributes: { job_id: jobId, run: started.runs } });
+
+  const heartbeat = setInterval(() => {
+    updatePipelineJob(jobId, job => {
+      if (job.status === "cancelled") controller.abort();
+      else job.heartbeat_at = new Date().toISOString();
+    }).catch(error => console.warn(`[Pipeline] ${jobId}: heartbeat failed:`, error));
+  }, HEARTBEAT_MS);
+
+  let step: PipelineStep | null = null;
+  try {
+    for (step of PIPELINE_STEPS) {
+      const job = await getPipelineJob(jobId);
+      if (!job || job.status === "cancelled" || controller.signal.aborted) throw new Error(CANCELLED);
+      const state = job.steps[step];
+      if (state.status === "done" || state.status === "skipped") continue;
+
+      const current: PipelineStep = step;
+      await updatePipelineJob(jobId, j => {
+        j.current_step = current;
+        j.steps[current] = { status: "running", started_at: new Date().toISOString() };
+      });
+      console.log(`[Pipeline] ${jobId}: ${step}`);
+
+      await STEP_RUNNERS[step](job, controller.signal, trace);
+
+      await updatePipelineJob(jobId, j => {
+        j.steps[current] = { ...j.steps[current], status: "done", finished_at: new Date().toISOString() };
+      });
+    }
+
+    // A cancel that lands after the last step still wins over completion
+    step = null;
+    const finished = await updatePipelineJob(jobId, job => {
+      if (job.status !== "running") return;
+      job.status = "completed";
+      job.current_step = null;
+      job.message = "Pipeline complete";
+    });
+    if (finished?.status !== "completed") throw new Error(CANCELLED);
+    console.log(`[Pipeline] ${jobId}: completed`);
+    await trace.end({ status: "completed" });
+  } catch (error) {
+    const failedStep = step;
+    const cancelled = controller.signal.aborted || (error instanceof Error && error.message === CANCELLED);
+    const message = error instanceof Error ? error.message : String(error);
+    await updatePipelineJob(jobId, job => {
+      if (failedStep) {
+        job.steps[failedStep] = cancelled
+          ? { status: "pending" }
+          : { ...job.steps[failedStep], status: "failed", finished_at: new Date().toISOString(), error: message };
+      }
+      job.status = cancelled ? "cancelled" : "failed";
+      job.error = cancelled ? null : message;
+      job.message = cancelled ? "Cancelled" : `${failedStep ?? "pipeline"} failed: ${message}`;
+    }).catch(writeError => console.error(`[Pipeline] ${jobId}: could not record the outcome:`, writeError));
+    console.log(`[Pipeline] ${jobId}: ${cancelled ? "cancelled" : `failed at ${failedStep}: ${message}`}`);
+    await trace.end({ status: cancelled ? "cancelled" : "failed", step: failedStep }, cancelled ? undefined : message);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Record a stage event from the step in flight
+ */
+function recordStage(jobId: string, step: PipelineStep, event: Pick<StageEvent, "stage" | "message" | "progress">): void {
+  const message = event.progress != null ? `${event.message} (${Math.round(event.progress)}%)` : event.message;
+  updatePipelineJob(jobId, job => {
+    job.message = message;
+    job.stages.push({ at: new Date().toISOString(), step, stage: event.stage, message });
+  }).catch(error => console.warn(`[Pipeline] ${jobId}: could not record stage:`, error));
+}
+
+function cancelledOr(signal: AbortSignal, error: Error): Error {
+  return signal.aborted ? new Error(CANCELLED) : error;
+}
+
+/**
+ * Experiment and budget fields of a step's request. The budget left is the
+ * run budget minus what earlier steps spent before the experiment existed;
+ * spend recorded on the experiment is counted by the step itself.
+ */
+function usageFields(job: PipelineJob): { experiment_id: string | null; budget_usd?: number } {
+  const budget = resolveRunBudget(job.input.budget_usd);
+  const unrecorded = summarizeUsage(job.checkpoints.usage || []).total.cost_usd;
+  return {
+    experiment_id: job.input.experiment_id ?? null,
+    ...(budget !== null ? { budget_usd: Math.max(0, budget - unrecorded) } : {}),
+  };
+}
+
+/**
+ * Keep a step's usage for the report step when it could not be recorded yet
+ */
+function keepUsage(job: PipelineJob, usage: unknown): void {
+  const report = usage as RunUsageReport | undefined;
+  if (!report || report.recorded || !report.entries?.length) return;
+  job.checkpoints.usage = [...(job.checkpoints.usage || []), ...report.entries];
+}
+
+// -----------------------------------------------------------------------------
+// Steps
+// -----------------------------------------------------------------------------
+
+const STEP_RUNNERS: Record<PipelineStep, (job: PipelineJob, signal: AbortSignal, trace: SpanHandle) => Promise<void>> = {
+  refine: runRefine,
+  metrics: runMetrics,
+  verdict: runVerdict,
+  report: runReport,
+};
+
+async function runRefine(job: PipelineJob, signal: AbortSignal, trace: SpanHandle): Promise<void> {
+  const { prompt, constraints, reference_dataset } = job.input;
+  if (!prompt?.trim()) throw new Error("A prompt or a design is required");
+
+  const response = await readStages(
+    await refinePOST(internalRequest("/api/simulab/refine?stream=1", { prompt, constraints: constraints || "", reference_dataset, cache: job.input.cache, ...usageFields(job) }, signal, trace)),
+    event => recordStage(job.id, "refine", event)
+  );
+  if (signal.aborted) throw new Error(CANCELLED);
+  const design = await readBody(response, "refine");
+
+  await updatePipelineJob(job.id, j => {
+    j.checkpoints.design = design;
+    keepUsage(j, design.usage);
+  });
+}
+
+async function runMetrics(job: PipelineJob, signal: AbortSignal, trace: SpanHandle): Promise<void> {
+  const design = job.checkpoints.design || {};
+  const scenarios = (design.scenarios as Row[] | undefined) || [];
+  if (!scenarios.length) throw new Error("The design has no scenarios to evaluate");
+
+  const payload = {
+    scenarios: scenarios.map((s, idx) => ({
+      scenario_id: (s.scenario_id as string) || `scenario_${idx + 1}`,
+      scaffold: (s.scaffold as string) || (s.name as string) || `Scenario ${idx + 1}`,
+      smiles: (s.smiles as string) || "",
+    })),
+    protein_target: (design.protein_target as string) || job.input.protein_target || "Unknown",
+    goal: (design.goal as string) || job.input.prompt || "",
+    constraints: (design.constraints as string[]) || [],
+    decision_criteria: job.input.decision_criteria || {},
+    reference_dataset: job.input.reference_dataset,
+    cache: job.input.cache,
+    ...usageFields(job),
+    batch: true,
+  };
+  await updatePipelineJob(job.id, j => {
+    j.scenario_statuses = Object.fromEntries(payload.scenarios.map(s => [s.scenario_id, "pending"]));
+    j.scenario_cache = {};
+  });
+
+  const response = await generateMetricsPOST(internalRequest("/api/simulab/generate-metrics", payload, signal, trace));
+  let metrics: Row | null = null;
+  if (!response.headers.get("content-type")?.includes("ndjson")) {
+    metrics = await readBody(response, "metrics");
+  } else {
+    await readNdjson<MetricsStreamEvent>(response, event => {
+      if (event.type === "error") throw new Error(event.error || "Metrics generation failed");
+      if (event.type === "stage" && event.stage && event.message) {
+        recordStage(job.id, "metrics", { stage: event.stage as StageEvent["stage"], message: event.message });
+      } else if (event.type === "scenario" && event.scenario_id && event.status) {
+        const { scenario_id, status } = event;
+        const cache = event.result?.cache as CacheStatus | undefined;
+        updatePipelineJob(job.id, j => {
+          j.scenario_statuses[scenario_id] = status;
+          if (cache) j.scenario_cache = { ...j.scenario_cache, [scenario_id]: cache };
+        }).catch(() => undefined);
+      } else if (event.type === "done") {
+        metrics = event;
+      }
+    }).catch(error => {
+      throw cancelledOr(signal, error);
+    });
+  }
+  const data = metrics as MetricsStreamEvent | null;
+  if (!data) throw cancelledOr(signal, new Error("Metrics stream ended before the results arrived"));
+
+  // Same split the UI applies: scored scenarios, then invalid SMILES, then scenarios no Simulator path could evaluate
+  const winners: Row[] = [];
+  const rejected: Row[] = [];
+  const statuses: PipelineJob["scenario_statuses"] = {};
+  const cache: Record<string, CacheStatus> = {};
+  data.results?.forEach(r => {
+    statuses[r.scenario_id as string] = "complete";
+    if (r.cache) cache[r.scenario_id as string] = r.cache as CacheStatus;
+    if (r.is_winner) winners.push({ scenario_id: r.scenario_id, smiles: r.smiles, scaffold: r.scaffold });
+    else rejected.push({ scenario_id: r.scenario_id, smiles: r.smiles, scaffold: r.scaffold, veto_reason: r.rejection_reason });
+  });
+  data.invalid_scenarios?.forEach(r => {
+    statuses[r.scenario_id as string] = "error";
+    rejected.push({ scenario_id: r.scenario_id, smiles: r.smiles, scaffold: r.scaffold, veto_reason: r.rejection_reason });
+  });
+  data.failed?.forEach(r => {
+    statuses[r.scenario_id as string] = "error";
+    rejected.push({ scenario_id: r.scenario_id, smiles: r.smiles, scaffold: r.scaffold, veto_reason: `Evaluation failed: ${r.error}` });
+  });
+
+  const body: Row = { ...data };
+  delete body.type;
+  await updatePipelineJob(job.id, j => {
+    j.checkpoints.metrics = body;
+    keepUsage(j, body.usage);
+    j.checkpoints.winners = winners;
+    j.checkpoints.rejected = rejected;
+    j.scenario_statuses = statuses;
+    j.scenario_cache = cache;
+  });
+}
+
+async function runVerdict(job: PipelineJob, signal: AbortSignal, trace: SpanHandle): Promise<void> {
+  const { design = {}, metrics = {}, winners = [] } = job.checkpoints;
+  const scenarioMetrics: Record<string, Row> = {};
+  ((metrics.results as Row[] | undefined) || []).forEach(r => {
+    if (r.metrics) scenarioMetrics[r.scenario_id as string] = r.metrics as Row;
+  });
+  const decisionCriteria = job.input.decision_criteria || {};
+
+  // The Judge only sees scenarios the Simulator evaluated; any other scenario
+  // not already rejected by the metrics step is recorded as failed
+  const scenarios: Row[] = [];
+  const rejected = [...(job.checkpoints.rejected || [])];
+  const unevaluated: string[] = [];
+  ((design.scenarios as Row[] | undefined) || []).forEach((s, idx) => {
+    const scenarioId = (s.scenario_id as string) || `scenario_${idx + 1}`;
+    if (scenarioMetrics[scenarioId]) {
+      scenarios.push({ ...s, scenario_id: scenarioId });
+    } else if (!rejected.some(r => r.scenario_id === scenarioId)) {
+      unevaluated.push(scenarioId);
+      rejected.push({ scenario_id: scenarioId, smiles: s.smiles, scaffold: s.scaffold, veto_reason: "Evaluation failed: no metric results" });
+    }
+  });
+  if (unevaluated.length) {
+    await updatePipelineJob(job.id, j => {
+      j.checkpoints.rejected = rejected;
+      unevaluated.forEach(id => { j.scenario_statuses[id] = "error"; });
+    });
+  }
+  if (!scenarios.length) throw new Error("No scenario has metric results to judge");
+
+  const response = await readStages(
+    await reasonPOST(internalRequest("/api/simulab/reason?stream=1", {
+      winners,
+      rejected,
+      scenarios,
+      scenarioMetrics,
+      context: {
+        protein_target: design.protein_target || job.input.protein_target,
+        goal: design.goal || job.input.prompt,
+        constraints: design.constraints || [],
+        decision_criteria: decisionCriteria,
+      },
+      decisionCriteria,
+      reference_dataset: job.input.reference_dataset,
+      cache: job.input.cache,
+      ...usageFields(job),
+    }, signal, trace)),
+    event => recordStage(job.id, "verdict", event)
+  );
+  if (signal.aborted) throw new Error(CANCELLED);
+  const verdict = await readBody(response, "verdict");
+
+  await updatePipelineJob(job.id, j => {
+    j.checkpoints.verdict = verdict;
+    keepUsage(j, verdict.usage);
+  });
+}
+
+async function runReport(job: PipelineJob): Promise<void> {
+  const { design = {}, metrics = {}, winners = [], rejected = [], verdict = {} } = job.checkpoints;
+  const scenarioMetrics: Record<string, Record<string, unknown>> = {};
+  ((metrics.results as Row[] | undefined) || []).forEach(r => {
+    scenarioMetrics[r.scenario_id as string] = r.metrics as Row;
+  });
+
+  const record: ExperimentInput = {
+    protein_target: (design.protein_target as string) || job.input.protein_target,
+    goal: (design.goal as string) || job.input.prompt,
+    constraints: (design.constraints as string[]) || [],
+    design,
+    criteria: job.input.decision_criteria || null,
+    reference_dataset: job.input.reference_dataset ?? null,
+    scenarios: (design.scenarios as Row[]) || [],
+    metrics: scenarioMetrics,
+    winners,
+    rejected,
+    verdict: (verdict.structured as Row) || null,
+  };
+  const existing = job.input.experiment_id ? await updateExperiment(job.input.experiment_id, record) : null;
+  const experiment = existing || await createExperiment(record);
+  if (job.checkpoints.usage?.length) await appendExperimentUsage(experiment.id, job.checkpoints.usage);
+
+  await updatePipelineJob(job.id, j => {
+    j.checkpoints.experiment_id = experiment.id;
+    j.checkpoints.usage = [];
+    j.message = `Report saved to experiment ${experiment.id}`;
+  });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { listPrompts } from "@/lib/prompt-registry";
+
+/**
+ * SimuLab Prompts API
+ *
+ * GET /api/simulab/prompts - every prompt template on disk (name, version,
+ * description, variables and text), sorted by name then version. Results
+ * name the template they used in `prompt_version` (e.g. "verdict@v1").
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const prompts = await listPrompts();
+    return NextResponse.json({
+      success: true,
+      count: prompts.length,
+      prompts: prompts.map(p => ({ ...p, id: `${p.name}@v${p.version}` })),
+      pinned: process.env.SIMULAB_PROMPT_VERSIONS || null,
+    });
+  } catch (error) {
+    console.error("[SimuLab/Prompts] List failed:", error);
+    return NextResponse.json({ success: false, error: String(error), prompts: [] }, { status: 500 });
+  }
+}
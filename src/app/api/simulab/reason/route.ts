@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
-import { getScenariosByProteinTarget, findScenarioBySmiles, findScenarioByScaffold, SheetScenario, ensureSheetLoaded } from "../sheets/data"
+import { getScenariosByProteinTarget, matchReference, isReferenceHint, summarizeReferenceMatch, describeReferenceMatch, ReferenceMatch, SheetScenario, loadReferenceData } from "../sheets/data"
 import { generateVerdict, isDevMode, isAgentexConfigured, AGENTS, traceReportFeedback } from "@/lib/agent-client"
+import { scoreCandidates, resolveCriteria, formatRejectionReason, roundObjectives, estimateCostFromSa, ScoringCandidate, ScoringCriteria, ScoringResult, ScoredCandidate } from "@/lib/scoring"
+import { evaluateFilters, FILTERS } from "@/lib/filters"
+import { noStages, streamStages, StageEmitter } from "@/lib/stage-events"
+import { completeJson, getLlmModel, isLlmConfigured, EMPTY_USAGE, LlmUsage } from "@/lib/llm-client"
+import { LlmVerdictSchema } from "@/lib/llm-contracts"
+import { renderPrompt } from "@/lib/prompt-registry"
+import { resolveCacheMode, CacheMode, CacheStatus } from "@/lib/response-cache"
+import { openUsageMeter, UsageMeter } from "@/lib/usage-ledger"
+import { endRouteSpan, SpanHandle, startRouteSpan, withChildSpan, withTraceHeader } from "@/lib/span-recorder"
 
 /**
  * SimuLab Reason API Route (Judge Agent)
@@ -16,14 +25,32 @@ import { generateVerdict, isDevMode, isAgentexConfigured, AGENTS, traceReportFee
  * Fallback (if agent unavailable):
  * 1. Call LLM directly (limited tracing)
  * 2. Cross-check with local database
+ *
+ * `reference_dataset` cross-checks against a curated local dataset (see
+ * /api/simulab/datasets) instead of the Google Sheet. Responses report which
+ * reference rows were used in `reference_freshness`.
+ *
+ * `?stream=1` streams real progress as NDJSON stage events (agent started,
+ * job progress, LLM fallback, database cross-check) and ends with the usual
+ * response (see lib/stage-events).
+ *
+ * The LLM verdict goes through the response cache (see lib/response-cache);
+ * `cache: "bypass" | "refresh"` skips it and the response reports the outcome
+ * in `cache`.
+ *
+ * Agent and LLM calls are metered as the run's "verdict" stage and reported in
+ * `usage` (see lib/usage-ledger), recorded on `experiment_id` when given; past
+ * `budget_usd` the verdict comes from the heuristic judge.
+ *
+ * Each request is traced locally as a "reason" span with the agent or LLM
+ * call, heuristic verdict and database cross-check under it (see
+ * lib/span-recorder); `?trace_id=` and `?parent_span_id=` place it in an
+ * existing trace.
  */
 
 export const maxDuration = 240; // 4 minutes for agent processing
 export const dynamic = "force-dynamic"
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY;
-const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o";
-
 interface ScenarioMetrics {
   docking?: {
     binding_affinity_kcal_per_mol?: number;
@@ -31,6 +58,7 @@ interface ScenarioMetrics {
   };
   admet?: {
     toxicity_risk?: string;
+    toxicity_prob?: number;
     herg_flag?: boolean;
     is_safe?: boolean;
   };
@@ -48,6 +76,16 @@ interface ReasonRequest {
     scaffold?: string;
   }>;
   scenarioMetrics?: Record<string, ScenarioMetrics>;
+  /** Minimum Tanimoto similarity for a reference row to stand in for a scenario (default 0.7) */
+  similarity_threshold?: number;
+  /** Local reference dataset id; omitted uses the Google Sheet */
+  reference_dataset?: string | null;
+  /** "bypass" skips the response cache, "refresh" re-asks the LLM and overwrites it */
+  cache?: CacheMode;
+  /** Experiment the calls are charged to */
+  experiment_id?: string | null;
+  /** Run budget in USD (default SIMULAB_RUN_BUDGET_USD) */
+  budget_usd?: number;
   context?: {
     protein_target?: string;
     goal?: string;
@@ -55,8 +93,9 @@ interface ReasonRequest {
   };
   decisionCriteria?: {
     docking?: { idealMin?: number; idealMax?: number; hardFailThreshold?: number };
-    admet?: { idealMin?: number; idealMax?: number; hardFailHERG?: boolean };
+    admet?: ScoringCriteria["admet"];
     synthesis?: { idealSaMax?: number; idealStepsMax?: number; hardFailSa?: number; hardFailSteps?: number };
+    scoring?: ScoringCriteria["scoring"];
   };
 }
 
@@ -67,43 +106,33 @@ async function generateVerdictWithLLM(
   scenarios: Array<{ scenario_id: string; scaffold?: string; smiles?: string }>,
   scenarioMetrics: Record<string, ScenarioMetrics>,
   context: { protein_target?: string; goal?: string },
-  decisionCriteria: Record<string, unknown>
-): Promise<Record<string, unknown>> {
-  if (!OPENAI_API_KEY) {
+  decisionCriteria: Record<string, unknown>,
+  signal?: AbortSignal,
+  cacheMode?: CacheMode,
+  meter?: UsageMeter,
+  span?: SpanHandle
+): Promise<{ verdict: Record<string, unknown>; usage: LlmUsage; promptVersion: string; cache?: CacheStatus }> {
+  if (!isLlmConfigured()) {
     // Will be handled by heuristic fallback at call-site
-    throw new Error("OpenAI API key not configured");
+    throw new Error("LLM not configured");
   }
 
   const dockingCriteria = decisionCriteria?.docking as Record<string, unknown> | undefined;
   const admetCriteria = decisionCriteria?.admet as Record<string, unknown> | undefined;
   const synthesisCriteria = decisionCriteria?.synthesis as Record<string, unknown> | undefined;
+  const filterModes = resolveCriteria(decisionCriteria).filters;
+  const activeFilters = FILTERS.filter(f => filterModes[f.id] !== "off");
 
   const criteriaText = [
     `Docking: ideal ΔG ${dockingCriteria?.idealMin || -12} to ${dockingCriteria?.idealMax || -8} kcal/mol; hard fail if > ${dockingCriteria?.hardFailThreshold || -7} kcal/mol`,
-    `ADMET: ${admetCriteria?.hardFailHERG !== false ? "hERG flag triggers veto" : "hERG informational"}`,
-    `Synthesis: ideal SA ≤ ${synthesisCriteria?.idealSaMax || 4}; hard fail if SA > ${synthesisCriteria?.hardFailSa || 6}`,
+    `ADMET: ideal toxicity probability ${admetCriteria?.idealMin ?? 0} to ${admetCriteria?.idealMax ?? 0.3}; ${admetCriteria?.hardFailHERG !== false ? "hERG flag triggers veto" : "hERG informational"}`,
+    `Synthesis: ideal SA ≤ ${synthesisCriteria?.idealSaMax || 4} and ≤ ${synthesisCriteria?.idealStepsMax || 5} steps; hard fail if SA > ${synthesisCriteria?.hardFailSa || 6} or steps > ${synthesisCriteria?.hardFailSteps || 7}`,
+    activeFilters.length > 0
+      ? `Drug-likeness filters: ${activeFilters.map(f => `${f.label} (${filterModes[f.id]})`).join(", ")}; a hard filter alert is a rejection, a soft alert counts against safety`
+      : "Drug-likeness filters: none",
+    `Among passing candidates, prefer those whose values sit inside the ideal ranges.`,
   ].join("\n");
 
-  const systemPrompt = `You are a PhD-level medicinal chemist with 20+ years of experience in drug discovery.
-
-You are the Judge agent for a multi-agent virtual drug discovery lab. Categorize molecules into:
-1. **WINNER** - Best molecule from selected pool (or null if none pass)
-2. **SELECTED** - Pass all criteria but aren't winner
-3. **REJECTED** - Fail one or more criteria
-
-DECISION CRITERIA:
-${criteriaText}
-
-Return ONLY valid JSON:
-{
-  "executive_summary": "2-3 sentence overview",
-  "winner": { "scenario_id": "...", "scaffold": "...", "binding_affinity": -9.5, "herg_flag": false, "sa_score": 3.5, "cost_usd": 1200, "rationale": "..." } or null,
-  "selected": [...],
-  "rejected": [...],
-  "comparative_analysis": "Detailed comparison with specific values",
-  "recommendation": "Next steps"
-}`;
-
   const scenarioDetails = scenarios.map(s => {
     const metrics = scenarioMetrics[s.scenario_id] || {};
     return {
@@ -113,54 +142,42 @@ Return ONLY valid JSON:
       binding_affinity: metrics.docking?.binding_affinity_kcal_per_mol,
       herg_flag: metrics.admet?.herg_flag,
       sa_score: metrics.synthesis?.sa_score,
+      num_steps: metrics.synthesis?.num_steps,
       estimated_cost_usd: metrics.synthesis?.estimated_cost_usd,
+      filter_alerts: evaluateFilters(s.smiles, filterModes).map(v => `${v.message} [${v.mode}]`),
     };
   });
 
-  const userPrompt = `Analyze these candidates for ${context?.protein_target || "Unknown"}:
-
-${JSON.stringify(scenarioDetails, null, 2)}
-
-Apply decision criteria strictly.`;
-
-  console.log(`[Judge] Calling LLM (${OPENAI_MODEL}) for verdict...`);
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: OPENAI_MODEL,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.2,
-      max_tokens: 2500,
-    }),
+  const rendered = await renderPrompt("verdict", {
+    criteria_text: criteriaText,
+    protein_target: context?.protein_target || "Unknown",
+    scenario_details: JSON.stringify(scenarioDetails, null, 2),
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`LLM call failed (${response.status}): ${error}`);
-  }
-
-  const data = await response.json();
-  const content = data?.choices?.[0]?.message?.content || "";
-
-  const jsonMatch = content.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error("LLM did not return valid JSON");
+  console.log(`[Judge] Calling LLM (${getLlmModel()}) for verdict with ${rendered.id}...`);
+
+  const result = await completeJson({
+    label: "verdict",
+    messages: rendered.messages,
+    temperature: 0.2,
+    maxTokens: 2500,
+    signal,
+    promptVersion: rendered.id,
+    cache: cacheMode,
+    meter,
+    span,
+  }, LlmVerdictSchema);
+
+  if (!result.success) {
+    throw new Error(result.error);
   }
 
-  return JSON.parse(jsonMatch[0]);
+  return { verdict: result.data, usage: result.usage, promptVersion: rendered.id, cache: result.cache };
 }
 
 /**
- * Heuristic verdict generator used when OPENAI_API_KEY is not present or LLM fails.
- * Picks the best binding affinity among candidates that pass user criteria; others rejected with reasons.
+ * Heuristic verdict generator used when no LLM is configured or the LLM fails.
+ * Ranks candidates that pass user criteria with the shared scoring engine; others rejected with reasons.
  */
 function generateHeuristicVerdict(
   scenarios: Array<{ scenario_id: string; scaffold?: string; smiles?: string }>,
@@ -168,66 +185,97 @@ function generateHeuristicVerdict(
   proteinTarget: string,
   decisionCriteria: Record<string, unknown>
 ): Record<string, unknown> {
-  const dockingCriteria = decisionCriteria?.docking as Record<string, unknown> | undefined;
-  const admetCriteria = decisionCriteria?.admet as Record<string, unknown> | undefined;
-  const synthesisCriteria = decisionCriteria?.synthesis as Record<string, unknown> | undefined;
-  const potencyThreshold = (dockingCriteria?.hardFailThreshold as number) ?? -7;
-  const hergVeto = admetCriteria?.hardFailHERG !== false;
-  const saThreshold = (synthesisCriteria?.hardFailSa as number) ?? 6;
-
-  const passing: any[] = [];
-  const rejected: any[] = [];
-
-  for (const s of scenarios) {
+  const candidates = scenarios.map(s => {
     const m = scenarioMetrics[s.scenario_id] || {};
-    const ba = m.docking?.binding_affinity_kcal_per_mol ?? -7;
-    const herg = m.admet?.herg_flag ?? false;
     const sa = m.synthesis?.sa_score ?? 4;
-
-    let isRejected = false;
-    let reason = "";
-    if (ba > potencyThreshold) { isRejected = true; reason = `Potency Fail (ΔG ${ba} > ${potencyThreshold})`; }
-    if (!isRejected && hergVeto && herg) { isRejected = true; reason = "Safety Veto (hERG)"; }
-    if (!isRejected && sa > saThreshold) { isRejected = true; reason = `Cost Veto (SA ${sa} > ${saThreshold})`; }
-
-    const base = {
+    return {
       scenario_id: s.scenario_id,
       scaffold: s.scaffold || "Unknown",
-      binding_affinity: ba,
-      herg_flag: herg,
+      smiles: s.smiles,
+      binding_affinity: m.docking?.binding_affinity_kcal_per_mol ?? -7,
+      herg_flag: m.admet?.herg_flag ?? false,
       sa_score: sa,
-      cost_usd: m.synthesis?.estimated_cost_usd ?? Math.round(700 + sa * 300),
+      cost_usd: m.synthesis?.estimated_cost_usd ?? estimateCostFromSa(sa),
+      toxicity_prob: m.admet?.toxicity_prob,
+      num_steps: m.synthesis?.num_steps,
     };
+  });
 
-    if (isRejected) {
-      rejected.push({ ...base, rejection_reason: reason });
-    } else {
-      passing.push(base);
-    }
-  }
-
-  passing.sort((a, b) => a.binding_affinity - b.binding_affinity); // more negative is better
-  const winner = passing.length > 0 ? { ...passing[0], rationale: `Best binding affinity among passing candidates.` } : null;
-  const selected = passing.slice(1).map(p => ({ ...p, selection_reason: "Passes all criteria." }));
+  const scoring = scoreCandidates(candidates, decisionCriteria);
+  const { winner, selected, rejected } = toVerdictBuckets(scoring);
 
   return {
     executive_summary: `Heuristic verdict for ${proteinTarget}. ${selected.length + (winner ? 1 : 0)} selected, ${rejected.length} rejected.`,
     winner,
     selected,
     rejected,
-    comparative_analysis: "Compared candidates by potency, safety (hERG), and synthetic accessibility.",
+    scoring_strategy: scoring.strategy,
+    comparative_analysis: "Compared candidates by potency, safety (hERG and drug-likeness filters), synthetic accessibility, and route length.",
     recommendation: winner ? `Proceed with ${winner.scenario_id} for optimization.` : "No passing candidates; revisit design.",
   };
 }
 
 /**
- * Cross-check LLM verdict with database - respects user's decision criteria
+ * Score, rank and desirability fields a passing candidate carries in a verdict
+ */
+function scoreFields(s: ScoredCandidate): Record<string, unknown> {
+  return {
+    score: Number(s.score.toFixed(3)),
+    rank: s.rank,
+    desirability: roundObjectives(s.objectives),
+    score_explanation: s.explanation,
+  };
+}
+
+/**
+ * Map a scoring result onto the verdict's winner / selected / rejected buckets
+ */
+function toVerdictBuckets<T extends ScoringCandidate & Record<string, unknown>>(scoring: ScoringResult<T>): {
+  winner: Record<string, unknown> | null;
+  selected: Array<Record<string, unknown>>;
+  rejected: Array<Record<string, unknown>>;
+} {
+  const withScore = (s: ScoredCandidate<T>) => ({ ...s.candidate, ...scoreFields(s) });
+
+  const [best, ...rest] = scoring.passing;
+  return {
+    winner: best
+      ? {
+          ...withScore(best),
+          rationale: `Top ranked (ΔG ${best.candidate.binding_affinity} kcal/mol) among passing candidates. ${best.explanation}.`,
+        }
+      : null,
+    selected: rest.map(s => ({
+      ...withScore(s),
+      selection_reason: `Passes all criteria. Ranked #${s.rank}; viable backup candidate.`,
+    })),
+    rejected: scoring.rejected.map(s => ({
+      ...s.candidate,
+      desirability: roundObjectives(s.objectives),
+      rejection_reason: formatRejectionReason(s.vetoes),
+    })),
+  };
+}
+
+/**
+ * Cross-check LLM verdict with database - respects user's decision criteria.
+ * Each scenario is matched to a reference row by SMILES identity, fingerprint
+ * similarity (see matchReference); a matched scenario takes the row's values
+ * and keeps its simulated metrics where the row has none (a metric neither
+ * reports stays unreported). Unmatched scenarios keep their simulated
+ * metrics, as do scenarios that only share a scaffold name with a row. Every
+ * match and scaffold hint is reported in the validation notes. With no
+ * reference rows or no matches, the verdict is still post-checked against the
+ * scoring engine's vetoes and ranking on the simulated metrics.
  */
 function crossCheckVerdictWithDatabase(
   llmVerdict: Record<string, unknown>,
   scenarios: Array<{ scenario_id: string; smiles?: string; scaffold?: string }>,
+  scenarioMetrics: Record<string, ScenarioMetrics>,
   proteinTarget: string,
-  decisionCriteria?: Record<string, unknown>
+  referenceRows: SheetScenario[],
+  decisionCriteria?: Record<string, unknown>,
+  similarityThreshold?: number
 ): { verdict: Record<string, unknown>; wasOverridden: boolean; corrections: string[] } {
   
   const corrections: string[] = [];
@@ -235,111 +283,85 @@ function crossCheckVerdictWithDatabase(
 
   llmVerdict.selected = llmVerdict.selected || [];
 
-  const dbScenarios = getScenariosByProteinTarget(proteinTarget);
+  const simulatedCandidate = (s: { scenario_id: string; smiles?: string; scaffold?: string }): ScoringCandidate & Record<string, unknown> => {
+    const m = scenarioMetrics[s.scenario_id] || {};
+    const sa = m.synthesis?.sa_score ?? 4;
+    return {
+      scenario_id: s.scenario_id,
+      scaffold: s.scaffold || "Unknown",
+      smiles: s.smiles,
+      binding_affinity: m.docking?.binding_affinity_kcal_per_mol ?? -7,
+      toxicity_risk: m.admet?.toxicity_risk,
+      herg_flag: m.admet?.herg_flag ?? false,
+      toxicity_prob: m.admet?.toxicity_prob,
+      sa_score: sa,
+      num_steps: m.synthesis?.num_steps,
+      cost_usd: m.synthesis?.estimated_cost_usd ?? estimateCostFromSa(sa),
+      reference_match: null,
+    };
+  };
+  const postCheckOnly = () => {
+    const checked = postCheckVerdict(
+      llmVerdict as Parameters<typeof postCheckVerdict>[0],
+      scenarios.map(simulatedCandidate),
+      decisionCriteria || {}
+    );
+    return { verdict: checked.verdict, wasOverridden: checked.corrections.length > 0, corrections: [...corrections, ...checked.corrections] };
+  };
+
+  const dbScenarios = getScenariosByProteinTarget(proteinTarget, referenceRows);
   
   if (dbScenarios.length === 0) {
     console.log(`[Judge] No database validation available for ${proteinTarget}`);
-    return { verdict: llmVerdict, wasOverridden: false, corrections: [] };
+    return postCheckOnly();
   }
 
   console.log(`[Judge] Cross-checking against ${dbScenarios.length} database entries`);
 
-  const dbDataMap = new Map<string, SheetScenario>();
-  
+  const matches = new Map<string, ReferenceMatch>();
   for (const scenario of scenarios) {
-    let dbMatch: SheetScenario | null = null;
-    
-    if (scenario.smiles) {
-      dbMatch = findScenarioBySmiles(scenario.smiles);
-    }
-    if (!dbMatch && scenario.scaffold) {
-      dbMatch = findScenarioByScaffold(scenario.scaffold);
-    }
-    
-    if (dbMatch) {
-      dbDataMap.set(scenario.scenario_id, dbMatch);
+    const match = matchReference(scenario, { proteinTarget, threshold: similarityThreshold, rows: referenceRows });
+    if (match && isReferenceHint(match)) {
+      corrections.push(`${scenario.scenario_id} shares a scaffold with ${describeReferenceMatch(match)}; hint only, simulated metrics kept`);
+    } else if (match) {
+      matches.set(scenario.scenario_id, match);
+      corrections.push(`${scenario.scenario_id} matched ${describeReferenceMatch(match)}`);
     }
   }
 
-  if (dbDataMap.size === 0) {
-    return { verdict: llmVerdict, wasOverridden: false, corrections: [] };
+  if (matches.size === 0) {
+    return postCheckOnly();
   }
 
-  const admetCriteria = decisionCriteria?.admet as Record<string, unknown> | undefined;
-  const dockingCriteria = decisionCriteria?.docking as Record<string, unknown> | undefined;
-  const synthesisCriteria = decisionCriteria?.synthesis as Record<string, unknown> | undefined;
-
-  const hergVetoEnabled = admetCriteria?.hardFailHERG !== false;
-  const potencyThreshold = (dockingCriteria?.hardFailThreshold as number) ?? -7;
-  const saThreshold = (synthesisCriteria?.hardFailSa as number) ?? 6;
-
-  const newRejected: Array<Record<string, unknown>> = [];
-  const passing: Array<Record<string, unknown>> = [];
-
-  // Build ordered list of db rows for the target to allow index-based fallback
-  const targetRows = getScenariosByProteinTarget(proteinTarget);
-  scenarios.forEach((s, idx) => {
-    const db = dbDataMap.get(s.scenario_id) || targetRows[idx];
-    if (!db) return;
-    const bindingAffinity = db.reference_binding_affinity ?? -7;
-    const hergFlag = db.reference_herg_flag ?? false;
-    const saScore = db.reference_sa_score ?? 4;
-
-    let isRejected = false;
-    let rejectionReason = "";
-
-    if (bindingAffinity > potencyThreshold) {
-      isRejected = true;
-      rejectionReason = `Potency Fail (ΔG ${bindingAffinity} > ${potencyThreshold} kcal/mol)`;
-    }
-
-    if (!isRejected && hergVetoEnabled && hergFlag) {
-      isRejected = true;
-      rejectionReason = `Safety Veto (hERG cardiac toxicity flag)`;
-    }
-
-    if (!isRejected && saScore > saThreshold) {
-      isRejected = true;
-      rejectionReason = `Cost Veto (SA Score ${saScore} > ${saThreshold})`;
-    }
-
-    const scenarioData = {
+  const candidates: Array<ScoringCandidate & Record<string, unknown>> = scenarios.map(s => {
+    const match = matches.get(s.scenario_id);
+    const m = scenarioMetrics[s.scenario_id] || {};
+    if (!match) return simulatedCandidate(s);
+    const db = match.row;
+    // Values the row lacks come from the scenario's own metrics, or stay unreported
+    const hergFlag = db.reference_herg_flag ?? m.admet?.herg_flag;
+    return {
       scenario_id: s.scenario_id,
       scaffold: db.scaffold_hypothesis,
-      smiles: db.smiles,
-      binding_affinity: bindingAffinity,
-      toxicity_risk: hergFlag ? "HIGH" : "LOW",
+      // Filters run on the scenario's own molecule, not the reference row's
+      smiles: s.smiles || db.smiles,
+      binding_affinity: db.reference_binding_affinity ?? m.docking?.binding_affinity_kcal_per_mol,
       herg_flag: hergFlag,
-      sa_score: saScore,
-      cost_usd: Math.floor(500 + saScore * 300),
+      // The sheet has no toxicity estimate; keep the simulator's so the ideal band still applies
+      toxicity_risk: m.admet?.toxicity_risk,
+      toxicity_prob: m.admet?.toxicity_prob,
+      sa_score: db.reference_sa_score ?? m.synthesis?.sa_score,
+      num_steps: db.reference_num_steps ?? m.synthesis?.num_steps,
+      cost_usd: db.reference_sa_score == null ? m.synthesis?.estimated_cost_usd : estimateCostFromSa(db.reference_sa_score),
+      reference_match: summarizeReferenceMatch(match),
     };
-
-    if (isRejected) {
-      newRejected.push({ ...scenarioData, rejection_reason: rejectionReason });
-      console.log(`[Judge] ${s.scenario_id}: REJECTED - ${rejectionReason}`);
-    } else {
-      passing.push(scenarioData);
-      console.log(`[Judge] ${s.scenario_id}: PASSES all criteria`);
-    }
   });
 
-  let finalWinner: Record<string, unknown> | null = null;
-  const newSelected: Array<Record<string, unknown>> = [];
-  
-  if (passing.length > 0) {
-    passing.sort((a, b) => (a.binding_affinity as number) - (b.binding_affinity as number));
-    finalWinner = {
-      ...passing[0],
-      rationale: `Best binding affinity (ΔG ${passing[0].binding_affinity} kcal/mol) among passing candidates.`,
-    };
-    
-    for (let i = 1; i < passing.length; i++) {
-      newSelected.push({
-        ...passing[i],
-        selection_reason: `Passes all criteria. Viable backup candidate.`,
-      });
-    }
-  }
+  const scoring = scoreCandidates(candidates, decisionCriteria);
+  scoring.rejected.forEach(s => console.log(`[Judge] ${s.candidate.scenario_id}: REJECTED - ${formatRejectionReason(s.vetoes)}`));
+  scoring.passing.forEach(s => console.log(`[Judge] ${s.candidate.scenario_id}: PASSES all criteria (rank ${s.rank}, score ${s.score.toFixed(2)})`));
+
+  const { winner: finalWinner, selected: newSelected, rejected: newRejected } = toVerdictBuckets(scoring);
 
   const originalWinner = llmVerdict.winner as Record<string, unknown> | null;
   if (originalWinner?.scenario_id !== finalWinner?.scenario_id) {
@@ -350,15 +372,85 @@ function crossCheckVerdictWithDatabase(
   llmVerdict.winner = finalWinner;
   llmVerdict.selected = newSelected;
   llmVerdict.rejected = newRejected;
+  llmVerdict.scoring_strategy = scoring.strategy;
 
   if (wasOverridden) {
-    llmVerdict.executive_summary = `Re-evaluated ${dbDataMap.size} candidates. ${passing.length} passed, ${newRejected.length} rejected.${finalWinner ? ` ${finalWinner.scenario_id} selected as winner.` : ""}`;
+    llmVerdict.executive_summary = `Re-evaluated ${candidates.length} candidates (${matches.size} matched to reference data). ${scoring.passing.length} passed, ${newRejected.length} rejected.${finalWinner ? ` ${finalWinner.scenario_id} selected as winner.` : ""}`;
   }
 
   return { verdict: llmVerdict, wasOverridden, corrections };
 }
 
+/**
+ * Re-apply the user's hard-fail vetoes to a verdict from the Judge agent or
+ * the LLM. Agent builds that predate a veto (e.g. step count) and LLM verdicts
+ * can still pass a failing candidate; those are moved to rejected. The
+ * candidates left are annotated with the scoring engine's score, rank and
+ * desirability and re-ranked by it, so the winner is the top-ranked one.
+ */
+function postCheckVerdict(
+  verdict: { winner: Record<string, unknown> | null; selected: Array<Record<string, unknown>>; rejected: Array<Record<string, unknown>> },
+  candidates: Array<ScoringCandidate & Record<string, unknown>>,
+  decisionCriteria: Record<string, unknown>
+): { verdict: Record<string, unknown>; corrections: string[] } {
+  const scoring = scoreCandidates(candidates, decisionCriteria);
+  const vetoed = new Map(scoring.rejected.map(s => [s.candidate.scenario_id, s]));
+  const scored = new Map(scoring.passing.map(s => [s.candidate.scenario_id, s]));
+  const rankOf = (entry: Record<string, unknown>) => scored.get(entry.scenario_id as string)?.rank ?? Infinity;
+  const corrections: string[] = [];
+  const rejected = [...(verdict.rejected || [])];
+
+  const stillPasses = (entry: Record<string, unknown>) => {
+    const hit = vetoed.get(entry.scenario_id as string);
+    if (!hit) return true;
+    const reason = formatRejectionReason(hit.vetoes);
+    rejected.push({ ...entry, rejection_reason: reason });
+    corrections.push(`${entry.scenario_id} moved to rejected: ${reason}`);
+    return false;
+  };
+  const withScore = (entry: Record<string, unknown>) => {
+    const s = scored.get(entry.scenario_id as string);
+    return s ? { ...entry, ...scoreFields(s) } : entry;
+  };
+
+  const originalWinner = verdict.winner;
+  const passing = [...(originalWinner ? [originalWinner] : []), ...(verdict.selected || [])]
+    .filter(stillPasses)
+    .sort((a, b) => rankOf(a) - rankOf(b))
+    .map(withScore);
+
+  // Without a winner from the Judge, only the backups are re-ranked
+  if (!originalWinner || passing.length === 0) {
+    return { verdict: { ...verdict, winner: null, selected: passing, rejected }, corrections };
+  }
+
+  const [top, ...selected] = passing;
+  let winner = top;
+  if (top.scenario_id !== originalWinner.scenario_id) {
+    const winnerVetoed = vetoed.has(originalWinner.scenario_id as string);
+    winner = {
+      ...top,
+      rationale: winnerVetoed
+        ? `Promoted after ${originalWinner.scenario_id} failed the decision criteria.`
+        : `Ranked above ${originalWinner.scenario_id} by the scoring engine. ${top.score_explanation}.`,
+    };
+    corrections.push(winnerVetoed
+      ? `Winner changed to ${top.scenario_id}`
+      : `Winner changed to ${top.scenario_id}: ranked above ${originalWinner.scenario_id} by the scoring engine`);
+  }
+
+  return { verdict: { ...verdict, winner, selected, rejected }, corrections };
+}
+
 export async function POST(request: NextRequest) {
+  const span = startRouteSpan("reason", request);
+  if (request.nextUrl.searchParams.get("stream") === "1") {
+    return withTraceHeader(span, streamStages(emit => endRouteSpan(span, judge(request, emit, span))));
+  }
+  return endRouteSpan(span, judge(request, noStages, span));
+}
+
+async function judge(request: NextRequest, emit: StageEmitter, span: SpanHandle) {
   try {
     const body: ReasonRequest = await request.json();
     const { 
@@ -370,6 +462,7 @@ export async function POST(request: NextRequest) {
 
     const proteinTarget = context?.protein_target || "Unknown";
     const experimentId = `judge-${Date.now()}`;
+    span.setAttributes({ protein_target: proteinTarget, scenarios: scenarios.length, experiment_id: body.experiment_id ?? null });
 
     console.log(`[Judge] ========================================`);
     console.log(`[Judge] Analyzing ${scenarios.length} scenarios for ${proteinTarget}`);
@@ -379,11 +472,22 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "No scenarios to judge" }, { status: 400 });
     }
 
+    const reference = await withChildSpan(span, "load reference data", { type: "knowledge" },
+      () => loadReferenceData(body.reference_dataset),
+      loaded => loaded && { rows: loaded.rows.length, source: loaded.freshness.source });
+    if (!reference) {
+      return NextResponse.json({ error: `Reference dataset not found: ${body.reference_dataset}` }, { status: 404 });
+    }
+    const referenceRows = reference.rows;
+    emit("reference_loaded", `Reference data ready (${referenceRows.length} rows, ${reference.freshness.source})`);
+    const meter = await openUsageMeter("verdict", { experimentId: body.experiment_id, budgetUsd: body.budget_usd });
+
     // =========================================================================
     // TRY DEPLOYED AGENT FIRST (Full Integration)
     // =========================================================================
-    if (isDevMode() || isAgentexConfigured()) {
+    if ((isDevMode() || isAgentexConfigured()) && meter.allows()) {
       console.log(`[Judge] Calling ${AGENTS.JUDGE} agent...`);
+      emit("agent_started", `Judge agent weighing ${scenarios.length} scenarios...`, { agent: AGENTS.JUDGE });
       
       const admetCriteria = decisionCriteria?.admet as Record<string, unknown> | undefined;
       const dockingCriteria = decisionCriteria?.docking as Record<string, unknown> | undefined;
@@ -398,7 +502,9 @@ export async function POST(request: NextRequest) {
           smiles: s.smiles || "",
           binding_affinity: metrics.docking?.binding_affinity_kcal_per_mol || -7,
           herg_flag: metrics.admet?.herg_flag || false,
+          toxicity_prob: metrics.admet?.toxicity_prob,
           sa_score: metrics.synthesis?.sa_score || 4,
+          num_steps: metrics.synthesis?.num_steps,
           cost_usd: metrics.synthesis?.estimated_cost_usd || 1500,
         };
       });
@@ -411,72 +517,123 @@ export async function POST(request: NextRequest) {
           herg_veto: admetCriteria?.hardFailHERG !== false,
           potency_threshold: (dockingCriteria?.hardFailThreshold as number) ?? -7,
           sa_threshold: (synthesisCriteria?.hardFailSa as number) ?? 6,
+          steps_threshold: (synthesisCriteria?.hardFailSteps as number) ?? 7,
+          scoring_strategy: resolveCriteria(decisionCriteria).strategy,
+          rule_filters: resolveCriteria(decisionCriteria).filters,
         },
         goal: context?.goal,
         constraints: context?.constraints,
+      }, {
+        signal: request.signal,
+        span,
+        onProgress: status => emit("agent_progress", status.message || `Judge: ${status.status}`, {
+          agent: AGENTS.JUDGE,
+          progress: status.progress ?? undefined,
+        }),
       });
 
       if (agentResult.success && agentResult.data) {
+        meter.chargeAgent(`${AGENTS.JUDGE} /generate_verdict`, agentResult.data.usage);
         const winner = agentResult.data.verdict?.winner as Record<string, unknown> | null;
         console.log(`[Judge] Agent returned verdict: winner=${winner?.scenario_id || "none"}`);
+
+        const { verdict, corrections } = postCheckVerdict(
+          agentResult.data.verdict,
+          scenariosWithMetrics,
+          decisionCriteria
+        );
+        corrections.forEach(c => console.log(`[Judge]   - ${c}`));
         console.log(`[Judge] ========================================`);
+        emit("agent_done", `Judge agent picked ${winner?.scenario_id || "no winner"}`, { agent: AGENTS.JUDGE });
+        emit("cross_check", corrections.length > 0
+          ? `Verdict checked against the scoring engine: ${corrections.length} correction(s)`
+          : "Verdict checked against the scoring engine: no corrections");
         
         return NextResponse.json({
           reason: "Verdict generated successfully",
           structured: {
-            ...agentResult.data.verdict,
+            ...verdict,
             executive_summary: agentResult.data.executive_summary,
             comparative_analysis: agentResult.data.comparative_analysis,
           },
-          data_source: "agent",
+          data_source: corrections.length > 0 ? "agent_validated" : "agent",
           confidence: "high",
+          validation_notes: corrections,
+          reference_freshness: reference.freshness,
+          usage: await meter.finish(),
           _via: "deployed_agent",
         });
       }
 
+      if (request.signal.aborted) {
+        console.log(`[Judge] Request cancelled by the client, skipping fallback`);
+        return NextResponse.json({ error: "Request cancelled" }, { status: 499 });
+      }
+
       console.log(`[Judge] Agent call failed: ${agentResult.error}, falling back to local LLM`);
+      emit("agent_failed", `Judge agent failed: ${agentResult.error}`, { agent: AGENTS.JUDGE });
+    } else if (!meter.allows()) {
+      console.log(`[Judge] Run budget exceeded, using heuristic verdict`);
     } else {
       console.log(`[Judge] Agentex not configured, using local LLM fallback`);
     }
+    emit("fallback", !meter.allows() ? "Heuristic verdict (run budget exceeded)"
+      : isLlmConfigured() ? "LLM fallback engaged for the verdict" : "Heuristic verdict (no LLM configured)");
 
     // =========================================================================
     // FALLBACK: Local LLM processing (limited tracing)
     // =========================================================================
     let verdictSource: "llm" | "heuristic" = "llm";
     let llmVerdict: Record<string, unknown>;
+    let llmUsage = EMPTY_USAGE;
+    let promptVersion: string | undefined;
+    let cache: CacheStatus | undefined;
     try {
-      llmVerdict = await generateVerdictWithLLM(
+      ({ verdict: llmVerdict, usage: llmUsage, promptVersion, cache } = await generateVerdictWithLLM(
         scenarios,
         scenarioMetrics,
         context,
-        decisionCriteria
-      );
+        decisionCriteria,
+        request.signal,
+        resolveCacheMode(body.cache),
+        meter,
+        span
+      ));
       const winner = llmVerdict.winner as Record<string, unknown> | null;
       console.log(`[Judge] LLM verdict: winner=${winner?.scenario_id || "none"}`);
+      if (cache === "hit") emit("cache", "LLM verdict served from cache");
     } catch (llmError) {
       console.warn(`[Judge] LLM unavailable, using heuristic verdict:`, llmError instanceof Error ? llmError.message : llmError);
-      llmVerdict = generateHeuristicVerdict(
-        scenarios,
-        scenarioMetrics,
-        proteinTarget,
-        decisionCriteria as Record<string, unknown>
-      );
+      llmVerdict = await withChildSpan(span, "heuristic verdict", { type: "reasoning" },
+        () => generateHeuristicVerdict(
+          scenarios,
+          scenarioMetrics,
+          proteinTarget,
+          decisionCriteria as Record<string, unknown>
+        ),
+        heuristic => ({ winner: (heuristic.winner as Record<string, unknown> | null)?.scenario_id ?? null }));
       verdictSource = "heuristic";
     }
 
-    // Ensure live sheet is loaded before cross-check
-    await ensureSheetLoaded();
-    const { verdict, wasOverridden, corrections } = crossCheckVerdictWithDatabase(
-      llmVerdict,
-      scenarios,
-      proteinTarget,
-      decisionCriteria
-    );
+    const { verdict, wasOverridden, corrections } = await withChildSpan(span, "database cross-check", { type: "search" },
+      () => crossCheckVerdictWithDatabase(
+        llmVerdict,
+        scenarios,
+        scenarioMetrics,
+        proteinTarget,
+        referenceRows,
+        decisionCriteria,
+        body.similarity_threshold
+      ),
+      checked => ({ overridden: checked.wasOverridden, corrections: checked.corrections }));
 
     if (wasOverridden) {
       console.log(`[Judge] Verdict corrected based on database validation`);
       corrections.forEach(c => console.log(`[Judge]   - ${c}`));
     }
+    emit("cross_check", wasOverridden
+      ? `Database cross-check: ${corrections.length} correction(s) to the verdict`
+      : "Database cross-check: verdict confirmed");
 
     const finalWinner = verdict.winner as Record<string, unknown> | null;
     console.log(`[Judge] Final verdict: winner=${finalWinner?.scenario_id || "none"}`);
@@ -488,6 +645,11 @@ export async function POST(request: NextRequest) {
       data_source: wasOverridden ? "llm_validated" : verdictSource,
       confidence: wasOverridden ? "high" : (verdictSource === "llm" ? "medium" : "low"),
       validation_notes: corrections,
+      reference_freshness: reference.freshness,
+      llm_usage: llmUsage,
+      prompt_version: promptVersion,
+      cache,
+      usage: await meter.finish(),
       _via: "local_llm_fallback",
     });
 
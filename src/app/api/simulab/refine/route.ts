@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
-import { getScenariosByProteinTarget, SheetScenario } from "../sheets/data"
+import { getScenariosByProteinTarget, loadReferenceData, SheetScenario } from "../sheets/data"
 import { traceDesignChange as sendTraceToSGP, isTracingEnabled } from "@/lib/sgp-tracing"
 import { designExperiment, isDevMode, isAgentexConfigured, AGENTS } from "@/lib/agent-client"
+import { partitionBySmiles, SmilesError } from "@/lib/smiles"
+import { noStages, streamStages, StageEmitter } from "@/lib/stage-events"
+import { completeJson, getLlmModel, isLlmConfigured, EMPTY_USAGE, LlmUsage } from "@/lib/llm-client"
+import { GeneratedDesign, GeneratedDesignSchema, RefinedGoalSchema } from "@/lib/llm-contracts"
+import { renderPrompt, RenderedPrompt } from "@/lib/prompt-registry"
+import { resolveCacheMode, CacheMode, CacheStatus } from "@/lib/response-cache"
+import { openUsageMeter, UsageMeter } from "@/lib/usage-ledger"
+import { endRouteSpan, SpanHandle, startRouteSpan, withChildSpan, withTraceHeader } from "@/lib/span-recorder"
 
 /**
  * SimuLab Refine API Route (Orchestrator Agent)
@@ -14,17 +22,34 @@ import { designExperiment, isDevMode, isAgentexConfigured, AGENTS } from "@/lib/
  * 2. Agent extracts protein target and generates scenarios
  * 3. Frontend cross-checks with Google Sheets database for known targets
  * 
- * Database is the SINGLE SOURCE OF TRUTH for known protein targets.
+ * Database is the SINGLE SOURCE OF TRUTH for known protein targets
+ * (the Google Sheet, or the local dataset named by `reference_dataset`;
+ * responses report which in `reference_freshness`).
+ * Generated (agent/LLM) scenarios are SMILES-validated locally and invalid
+ * ones are dropped before they can reach the Simulator.
  * 
  * TRACING: Captures experiment design changes directly to SGP
+ *
+ * `?stream=1` streams real progress as NDJSON stage events (agent started,
+ * job progress, database cross-check, LLM fallback) and ends with the usual
+ * response (see lib/stage-events).
+ *
+ * LLM refinements go through the response cache (see lib/response-cache);
+ * `cache: "bypass" | "refresh"` skips it and the response reports the outcome
+ * in `cache`.
+ *
+ * Agent and LLM calls are metered as the run's "design" stage and reported in
+ * `usage` (see lib/usage-ledger); with `experiment_id` they are recorded on
+ * that experiment, and past `budget_usd` the agent and LLM are skipped.
+ *
+ * Each request is traced locally as a "refine" span with the reference load,
+ * agent and LLM calls under it (see lib/span-recorder); `?trace_id=` and
+ * `?parent_span_id=` place it in an existing trace.
  */
 
 export const maxDuration = 120; // 2 minutes for agent processing
 export const dynamic = "force-dynamic"
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY;
-const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o";
-
 /**
  * Send design change trace to SGP directly
  */
@@ -63,6 +88,14 @@ async function traceDesignChange(data: {
 interface RefineRequest {
   prompt?: string;
   constraints?: string;
+  /** Local reference dataset id; omitted uses the Google Sheet */
+  reference_dataset?: string | null;
+  /** "bypass" skips the response cache, "refresh" re-asks the LLM and overwrites it */
+  cache?: CacheMode;
+  /** Experiment the calls are charged to */
+  experiment_id?: string | null;
+  /** Run budget in USD (default SIMULAB_RUN_BUDGET_USD) */
+  budget_usd?: number;
 }
 
 interface RefinedOutput {
@@ -83,9 +116,43 @@ interface RefinedOutput {
     };
   }>;
   model_used: string;
+  /** Tokens spent by the LLM calls behind this design */
+  llm_usage?: LlmUsage;
+  /** Prompt template behind the LLM output, e.g. "refine.goal@v1" */
+  prompt_version?: string;
+  /** Response cache outcome of the LLM call */
+  cache?: CacheStatus;
   notice?: string;
   data_source: "database" | "llm";
   confidence: "high" | "medium";
+  invalid_scenarios?: Array<{
+    scenario_id: string;
+    scaffold: string;
+    smiles?: string;
+    errors: SmilesError[];
+    rejection_reason: string;
+  }>;
+}
+
+/**
+ * Drop generated scenarios whose SMILES fail local validation
+ */
+function screenGeneratedScenarios(result: RefinedOutput): RefinedOutput {
+  const { valid, invalid } = partitionBySmiles(result.scenarios);
+  if (invalid.length === 0) return result;
+
+  invalid.forEach(s => {
+    console.warn(`[Orchestrator] ✗ Dropping ${s.scenario_id} (${s.smiles}): ${s.rejection_reason}`);
+  });
+  return {
+    ...result,
+    scenarios: valid,
+    suggested_num_scenarios: valid.length,
+    invalid_scenarios: invalid.map(({ scenario_id, scaffold, smiles, errors, rejection_reason }) => ({
+      scenario_id, scaffold, smiles, errors, rejection_reason,
+    })),
+    notice: `${invalid.length} generated scenario${invalid.length === 1 ? "" : "s"} dropped for invalid SMILES`,
+  };
 }
 
 /**
@@ -135,181 +202,132 @@ async function refineGoalWithLLM(
   prompt: string, 
   constraints: string, 
   proteinTarget: string,
-  dbScenarios: SheetScenario[]
-): Promise<{ goal: string; constraints: string[] }> {
-  if (!OPENAI_API_KEY) {
-    // Return basic refinement if no API key
-    return {
-      goal: prompt || `Optimize lead molecules targeting ${proteinTarget}`,
-      constraints: constraints ? constraints.split(/[.;]/).map(s => s.trim()).filter(Boolean) : [],
-    };
+  dbScenarios: SheetScenario[],
+  cacheMode: CacheMode,
+  meter: UsageMeter,
+  span: SpanHandle
+): Promise<{ goal: string; constraints: string[]; usage: LlmUsage; model: string; promptVersion?: string; cache?: CacheStatus }> {
+  const basic = {
+    goal: prompt || `Optimize lead molecules targeting ${proteinTarget}`,
+    constraints: constraints ? constraints.split(/[.;]/).map(s => s.trim()).filter(Boolean) : [],
+    usage: EMPTY_USAGE,
+    model: getLlmModel(),
+  };
+  if (!isLlmConfigured()) {
+    // Return basic refinement if no LLM is configured
+    return basic;
   }
 
   const scenarioSummary = dbScenarios.map(s => 
     `- ${s.scaffold_hypothesis}: ΔG=${s.reference_binding_affinity} kcal/mol, hERG=${s.reference_herg_flag ? "Yes" : "No"}, SA=${s.reference_sa_score}, Result=${s.target_result}`
   ).join("\n");
 
-  const systemPrompt = `You are a PhD-level drug discovery scientist. You are refining a user's goal for a virtual drug discovery experiment.
-
-IMPORTANT: The experimental scenarios have ALREADY been determined from our validated experimental database. You do NOT need to generate new scenarios.
-
-The database contains pre-calculated values from expert scientists - these are the SINGLE SOURCE OF TRUTH.
-
-Your task is ONLY to:
-1. Refine the user's goal into a clear, scientific objective
-2. Extract any constraints the user mentioned (if none mentioned, return empty array)
-
-Return ONLY valid JSON:
-{
-  "goal": "Refined scientific objective",
-  "constraints": ["constraint1", "constraint2"] or [] if none provided
-}`;
-
-  const userPrompt = `User's goal: ${prompt}
-${constraints ? `User's constraints: ${constraints}` : "No constraints provided by user."}
-
-Target protein: ${proteinTarget}
-
-Pre-validated experimental scenarios from database:
-${scenarioSummary}
-
-Refine the goal. Only include constraints if the user explicitly mentioned them.`;
-
+  let rendered: RenderedPrompt;
   try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: OPENAI_MODEL,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        temperature: 0.2,
-        max_tokens: 500,
-      }),
+    rendered = await renderPrompt("refine.goal", {
+      prompt,
+      constraints_line: constraints ? `User's constraints: ${constraints}` : "No constraints provided by user.",
+      protein_target: proteinTarget,
+      scenario_summary: scenarioSummary,
     });
-
-    if (!response.ok) {
-      console.warn(`[Orchestrator] Goal refinement LLM failed, using basic refinement`);
-      return {
-        goal: prompt || `Optimize lead molecules targeting ${proteinTarget}`,
-        constraints: constraints ? constraints.split(/[.;]/).map(s => s.trim()).filter(Boolean) : [],
-      };
-    }
-
-    const data = await response.json();
-    const content = data?.choices?.[0]?.message?.content || "";
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        goal: parsed.goal || prompt,
-        constraints: Array.isArray(parsed.constraints) ? parsed.constraints : [],
-      };
-    }
   } catch (err) {
-    console.warn(`[Orchestrator] Goal refinement error:`, err);
+    console.warn(`[Orchestrator] Goal refinement prompt unavailable, using basic refinement:`, err);
+    return basic;
+  }
+
+  const result = await completeJson({
+    label: "refine.goal",
+    messages: rendered.messages,
+    temperature: 0.2,
+    maxTokens: 500,
+    promptVersion: rendered.id,
+    cache: cacheMode,
+    meter,
+    span,
+  }, RefinedGoalSchema);
+
+  if (!result.success) {
+    console.warn(`[Orchestrator] Goal refinement LLM failed (${result.error}), using basic refinement`);
+    return { ...basic, usage: result.usage, promptVersion: rendered.id };
   }
 
   return {
-    goal: prompt || `Optimize lead molecules targeting ${proteinTarget}`,
-    constraints: constraints ? constraints.split(/[.;]/).map(s => s.trim()).filter(Boolean) : [],
+    goal: result.data.goal || prompt,
+    constraints: result.data.constraints || [],
+    usage: result.usage,
+    model: result.model,
+    promptVersion: rendered.id,
+    cache: result.cache,
   };
 }
 
 /**
  * Call LLM to generate scenarios - ONLY when no database match
  */
-async function generateScenariosWithLLM(prompt: string, constraints: string, proteinTarget: string): Promise<any> {
-  if (!OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured - LLM is required when no database match exists");
+async function generateScenariosWithLLM(
+  prompt: string,
+  constraints: string,
+  proteinTarget: string,
+  cacheMode: CacheMode,
+  meter: UsageMeter,
+  span: SpanHandle
+): Promise<{ design: GeneratedDesign; usage: LlmUsage; model: string; promptVersion: string; cache?: CacheStatus }> {
+  if (!isLlmConfigured()) {
+    throw new Error("LLM not configured - an LLM is required when no database match exists");
   }
 
-  const systemPrompt = `You are a PhD-level drug discovery scientist with 20+ years of experience.
-
-You are the Orchestrator agent for a virtual drug discovery lab. Your job is to design experimental scenarios.
-
-TASK: Given a user's goal and constraints, generate:
-1. A refined goal statement
-2. Key constraints (ONLY if user explicitly mentioned them, otherwise empty array)
-3. 2-3 distinct molecular scaffold hypotheses to test
-
-For each scaffold scenario, provide:
-- scenario_id: "scenario_1", "scenario_2", etc.
-- scaffold: Name of the chemical scaffold class
-- smiles: A valid SMILES string for a representative molecule
-- rationale: Scientific reasoning
-
-Return ONLY valid JSON:
-{
-  "goal": "Refined objective",
-  "constraints": [],
-  "protein_target": "TARGET_NAME",
-  "scenarios": [
-    {
-      "scenario_id": "scenario_1",
-      "scaffold": "Scaffold Name",
-      "smiles": "SMILES_STRING",
-      "rationale": "Scientific reasoning"
-    }
-  ]
-}`;
-
-  const userPrompt = `Design experimental scenarios for:
-
-GOAL: ${prompt}
-${constraints ? `CONSTRAINTS: ${constraints}` : "No constraints provided."}
-TARGET PROTEIN: ${proteinTarget}
-
-Generate 2-3 distinct scaffold hypotheses. Only include constraints if explicitly provided.`;
-
-  console.log(`[Orchestrator] No database match - calling LLM for scenario generation...`);
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: OPENAI_MODEL,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.3,
-      max_tokens: 1500,
-    }),
+  const rendered = await renderPrompt("refine.scenarios", {
+    prompt,
+    constraints_line: constraints ? `CONSTRAINTS: ${constraints}` : "No constraints provided.",
+    protein_target: proteinTarget,
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`LLM call failed (${response.status}): ${error}`);
-  }
-
-  const data = await response.json();
-  const content = data?.choices?.[0]?.message?.content || "";
+  console.log(`[Orchestrator] No database match - calling LLM for scenario generation...`);
 
-  const jsonMatch = content.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error("LLM did not return valid JSON");
+  const result = await completeJson({
+    label: "refine.scenarios",
+    messages: rendered.messages,
+    temperature: 0.3,
+    maxTokens: 1500,
+    promptVersion: rendered.id,
+    cache: cacheMode,
+    meter,
+    span,
+  }, GeneratedDesignSchema);
+
+  if (!result.success) {
+    throw new Error(result.error);
   }
 
-  const parsed = JSON.parse(jsonMatch[0]);
-  console.log(`[Orchestrator] LLM generated ${parsed.scenarios?.length || 0} scenarios`);
+  console.log(`[Orchestrator] LLM generated ${result.data.scenarios.length} scenarios`);
 
-  return parsed;
+  return { design: result.data, usage: result.usage, model: result.model, promptVersion: rendered.id, cache: result.cache };
 }
 
 export async function POST(request: NextRequest) {
+  const span = startRouteSpan("refine", request);
+  if (request.nextUrl.searchParams.get("stream") === "1") {
+    return withTraceHeader(span, streamStages(emit => endRouteSpan(span, refine(request, emit, span))));
+  }
+  return endRouteSpan(span, refine(request, noStages, span));
+}
+
+async function refine(request: NextRequest, emit: StageEmitter, span: SpanHandle) {
   try {
     const body: RefineRequest = await request.json();
     const { prompt = "", constraints = "" } = body;
+    const cacheMode = resolveCacheMode(body.cache);
+    const meter = await openUsageMeter("design", { experimentId: body.experiment_id, budgetUsd: body.budget_usd });
+    span.setAttributes({ prompt, constraints, reference_dataset: body.reference_dataset ?? null, experiment_id: body.experiment_id ?? null });
+
+    const reference = await withChildSpan(span, "load reference data", { type: "knowledge" },
+      () => loadReferenceData(body.reference_dataset),
+      loaded => loaded && { rows: loaded.rows.length, source: loaded.freshness.source });
+    if (!reference) {
+      return NextResponse.json({ error: `Reference dataset not found: ${body.reference_dataset}` }, { status: 404 });
+    }
+    const referenceRows = reference.rows;
+    emit("reference_loaded", `Reference data ready (${referenceRows.length} rows, ${reference.freshness.source})`);
 
     console.log(`[Orchestrator] ========================================`);
     console.log(`[Orchestrator] Processing: ${prompt.substring(0, 80)}...`);
@@ -319,20 +337,33 @@ export async function POST(request: NextRequest) {
     // =========================================================================
     // TRY DEPLOYED ORCHESTRATOR AGENT FIRST (Full Integration)
     // =========================================================================
-    if (isDevMode() || isAgentexConfigured()) {
+    if ((isDevMode() || isAgentexConfigured()) && meter.allows()) {
       console.log(`[Orchestrator] Calling ${AGENTS.ORCHESTRATOR} agent...`);
+      emit("agent_started", "Orchestrator agent designing the experiment...", { agent: AGENTS.ORCHESTRATOR });
       
       const agentResult = await designExperiment({
         prompt,
         constraints,
+      }, {
+        signal: request.signal,
+        span,
+        onProgress: status => emit("agent_progress", status.message || `Orchestrator: ${status.status}`, {
+          agent: AGENTS.ORCHESTRATOR,
+          progress: status.progress ?? undefined,
+        }),
       });
 
       if (agentResult.success && agentResult.data) {
+        meter.chargeAgent(`${AGENTS.ORCHESTRATOR} /design_experiment`, agentResult.data.usage);
         console.log(`[Orchestrator] Agent returned ${agentResult.data.scenarios?.length || 0} scenarios`);
+        emit("agent_done", `Orchestrator proposed ${agentResult.data.scenarios.length} scenarios for ${agentResult.data.protein_target}`, { agent: AGENTS.ORCHESTRATOR });
         
         // Cross-check with database for known targets
         const proteinTarget = agentResult.data.protein_target;
-        const dbScenarios = getScenariosByProteinTarget(proteinTarget);
+        const dbScenarios = getScenariosByProteinTarget(proteinTarget, referenceRows);
+        emit("cross_check", dbScenarios.length > 0
+          ? `Database match: using ${dbScenarios.length} validated scenarios for ${proteinTarget}`
+          : `No database match for ${proteinTarget}; keeping the agent's scenarios`);
         
         if (dbScenarios.length > 0) {
           // Override with database scenarios (source of truth)
@@ -363,11 +394,11 @@ export async function POST(request: NextRequest) {
           };
 
           console.log(`[Orchestrator] ========================================`);
-          return NextResponse.json(result, { status: 200 });
+          return NextResponse.json({ ...result, reference_freshness: reference.freshness, usage: await meter.finish() }, { status: 200 });
         }
 
         // No database match - use agent's scenarios
-        const result: RefinedOutput = {
+        const result: RefinedOutput = screenGeneratedScenarios({
           goal: agentResult.data.goal,
           constraints: agentResult.data.constraints,
           protein_target: agentResult.data.protein_target,
@@ -381,15 +412,26 @@ export async function POST(request: NextRequest) {
           model_used: "agent",
           data_source: "llm",
           confidence: "medium",
-        };
+        });
 
         console.log(`[Orchestrator] ========================================`);
-        return NextResponse.json(result, { status: 200 });
+        return NextResponse.json({ ...result, reference_freshness: reference.freshness, usage: await meter.finish() }, { status: 200 });
+      }
+
+      if (request.signal.aborted) {
+        console.log(`[Orchestrator] Request cancelled by the client, skipping fallback`);
+        return NextResponse.json({ error: "Request cancelled" }, { status: 499 });
       }
 
       console.log(`[Orchestrator] Agent call failed: ${agentResult.error}, falling back to local processing`);
+      emit("agent_failed", `Orchestrator agent failed: ${agentResult.error}`, { agent: AGENTS.ORCHESTRATOR });
+      emit("fallback", "Designing the experiment locally");
+    } else if (!meter.allows()) {
+      console.log(`[Orchestrator] Run budget exceeded, using local processing`);
+      emit("fallback", "Designing the experiment locally (run budget exceeded)");
     } else {
       console.log(`[Orchestrator] Agentex not configured, using local processing`);
+      emit("fallback", "Designing the experiment locally (agent not configured)");
     }
 
     // =========================================================================
@@ -401,7 +443,10 @@ export async function POST(request: NextRequest) {
     console.log(`[Orchestrator] Detected protein target: ${proteinTarget}`);
 
     // Step 2: CHECK DATABASE FIRST (source of truth)
-    const dbScenarios = getScenariosByProteinTarget(proteinTarget);
+    const dbScenarios = getScenariosByProteinTarget(proteinTarget, referenceRows);
+    emit("cross_check", dbScenarios.length > 0
+      ? `Database match: ${dbScenarios.length} validated scenarios for ${proteinTarget}`
+      : `No database match for ${proteinTarget}`);
     
     if (dbScenarios.length > 0) {
       // DATABASE MATCH FOUND - use these scenarios directly
@@ -411,12 +456,16 @@ export async function POST(request: NextRequest) {
       });
 
       // Refine goal with LLM (but scenarios come from database)
-      const { goal, constraints: refinedConstraints } = await refineGoalWithLLM(
+      const { goal, constraints: refinedConstraints, usage, model, promptVersion, cache } = await refineGoalWithLLM(
         prompt, 
         constraints, 
         proteinTarget, 
-        dbScenarios
+        dbScenarios,
+        cacheMode,
+        meter,
+        span
       );
+      if (cache === "hit") emit("cache", "Goal refinement served from cache");
 
       // Build scenarios from database (internal - not exposed to user)
       const scenarios = dbScenarios.map((db, idx) => ({
@@ -438,7 +487,10 @@ export async function POST(request: NextRequest) {
         protein_target: proteinTarget,
         suggested_num_scenarios: scenarios.length,
         scenarios,
-        model_used: OPENAI_MODEL,
+        model_used: model,
+        llm_usage: usage,
+        prompt_version: promptVersion,
+        cache,
         data_source: "database",
         confidence: "high",
       };
@@ -458,41 +510,48 @@ export async function POST(request: NextRequest) {
         console.warn("[Orchestrator] Trace failed (non-blocking):", err)
       })
 
-      return NextResponse.json(result, { status: 200 });
+      return NextResponse.json({ ...result, reference_freshness: reference.freshness, usage: await meter.finish() }, { status: 200 });
     }
 
     // Step 3: NO DATABASE MATCH - use LLM to generate scenarios
     console.log(`[Orchestrator] ✗ No database match for ${proteinTarget} - using LLM generation`);
+    emit("fallback", "Generating scaffold hypotheses with the LLM...");
     
-    let llmOutput: any;
+    let llmOutput: Awaited<ReturnType<typeof generateScenariosWithLLM>>;
     try {
-      llmOutput = await generateScenariosWithLLM(prompt, constraints, proteinTarget);
+      llmOutput = await generateScenariosWithLLM(prompt, constraints, proteinTarget, cacheMode, meter, span);
     } catch (llmError) {
       console.error(`[Orchestrator] LLM error:`, llmError);
       return NextResponse.json({
         error: `Orchestrator LLM failed: ${llmError instanceof Error ? llmError.message : "Unknown error"}`,
-        suggestion: "Please ensure OPENAI_API_KEY is configured",
+        suggestion: "Please ensure an LLM provider is configured (OPENAI_API_KEY or SIMULAB_LLM_BASE_URL)",
+        usage: await meter.finish(),
       }, { status: 500 });
     }
 
     // Build result from LLM output
-    const scenarios = (llmOutput.scenarios || []).map((s: any, idx: number) => ({
+    const { design } = llmOutput;
+    if (llmOutput.cache === "hit") emit("cache", "Scaffold hypotheses served from cache");
+    const scenarios = design.scenarios.map((s, idx) => ({
       scenario_id: s.scenario_id || `scenario_${idx + 1}`,
       scaffold: s.scaffold,
       smiles: s.smiles,
-      rationale: s.rationale,
+      rationale: s.rationale ?? undefined,
     }));
 
-    const result: RefinedOutput = {
-      goal: llmOutput.goal || prompt,
-      constraints: Array.isArray(llmOutput.constraints) ? llmOutput.constraints : [],
+    const result: RefinedOutput = screenGeneratedScenarios({
+      goal: design.goal || prompt,
+      constraints: design.constraints || [],
       protein_target: proteinTarget,
       suggested_num_scenarios: scenarios.length,
       scenarios,
-      model_used: OPENAI_MODEL,
+      model_used: llmOutput.model,
+      llm_usage: llmOutput.usage,
+      prompt_version: llmOutput.promptVersion,
+      cache: llmOutput.cache,
       data_source: "llm",
       confidence: "medium",
-    };
+    });
 
     console.log(`[Orchestrator] Result: ${result.scenarios.length} scenarios from LLM`);
     console.log(`[Orchestrator] ========================================`);
@@ -509,7 +568,7 @@ export async function POST(request: NextRequest) {
       console.warn("[Orchestrator] Trace failed (non-blocking):", err)
     })
 
-    return NextResponse.json(result, { status: 200 });
+    return NextResponse.json({ ...result, reference_freshness: reference.freshness, usage: await meter.finish() }, { status: 200 });
 
   } catch (error: unknown) {
     console.error("[Orchestrator] Unexpected error:", error);
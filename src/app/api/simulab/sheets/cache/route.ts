@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import {
+  getCachedReferenceData,
+  getReferenceData,
+  getReferenceProviders,
+  invalidateReferenceCache,
+  REFERENCE_TTL_MS,
+} from "@/lib/reference-provider";
+
+/**
+ * SimuLab Reference Cache API
+ *
+ * GET    /api/simulab/sheets/cache - freshness of the cached reference rows and the providers in try order
+ * POST   /api/simulab/sheets/cache - drop the cache and reload now (e.g. after editing the sheet)
+ * DELETE /api/simulab/sheets/cache - drop the cache; the next request that needs reference rows reloads
+ *
+ * Local reference datasets are read from disk on every request and are not
+ * affected.
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    reference_freshness: getCachedReferenceData()?.freshness ?? null,
+    providers: getReferenceProviders().map(p => p.kind),
+    ttl_seconds: REFERENCE_TTL_MS / 1000,
+  });
+}
+
+export async function POST() {
+  try {
+    const invalidated = invalidateReferenceCache();
+    const { freshness } = await getReferenceData();
+    console.log(`[SimuLab/Sheets:cache] Reloaded ${freshness.row_count} rows from ${freshness.source}`);
+    return NextResponse.json({ success: true, invalidated, reference_freshness: freshness });
+  } catch (error) {
+    console.error("[SimuLab/Sheets:cache] Reload failed:", error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  const invalidated = invalidateReferenceCache();
+  console.log("[SimuLab/Sheets:cache] Invalidated reference cache");
+  return NextResponse.json({ success: true, invalidated });
+}
@@ -4,214 +4,63 @@
  * Shared data access for Google Sheets scenarios.
  * Used by both the sheets API route and the refine route directly.
  * 
+ * Rows come from the reference provider cache (see @/lib/reference-provider:
+ * live sheet, local file or bundled snapshot, reloaded after a TTL) or from a
+ * curated local dataset (see @/lib/reference-store). Resolve them once per
+ * request with loadReferenceData() and pass them as `rows` to the lookup and
+ * matching helpers below; without `rows` they use whatever is cached.
+ * 
  * Source of truth: https://docs.google.com/spreadsheets/d/17bd4GhtN66ekoWxff1qaGNa_SWuYPThR6zgEu215ZWQ
  */
 
-export interface SheetScenario {
-  scenario_id: string;
-  protein_target: string;
-  scaffold_hypothesis: string;
-  smiles: string;
-  pdb_id: string;
-  reference_binding_affinity: number | null;
-  reference_herg_flag: boolean | null;
-  reference_sa_score: number | null;
-  target_result: string;
-  result_category: string;
-}
+import { parseSmiles, perceiveAromaticity, writeCanonicalSmiles, SmilesMolecule } from "@/lib/smiles";
+import { computeFingerprint, tanimoto, Fingerprint } from "@/lib/fingerprints";
+import { compileQuery, hasSubstructure } from "@/lib/substructure";
+import { SheetScenario } from "@/lib/reference-import";
+import { getDataset } from "@/lib/reference-store";
+import { getCachedReferenceData, getReferenceData, ReferenceData } from "@/lib/reference-provider";
+import { REFERENCE_SNAPSHOT } from "@/lib/reference-snapshot";
 
-/**
- * Hardcoded data from the public Google Sheet
- * This ensures data is always available even if Google Sheets API fails
- * 
- * Last updated: Matches public sheet at
- * https://docs.google.com/spreadsheets/d/17bd4GhtN66ekoWxff1qaGNa_SWuYPThR6zgEu215ZWQ
- */
-export const SHEET_DATA: SheetScenario[] = [
-  {
-    scenario_id: "1",
-    protein_target: "BCR-ABL",
-    scaffold_hypothesis: "Pyrrolo-pyrimidine",
-    smiles: "CC(=O)C1=C(N)N=C(C)N=1",
-    pdb_id: "1M17",
-    reference_binding_affinity: -11.5,
-    reference_herg_flag: true,
-    reference_sa_score: 4.5,
-    target_result: "Rejected",
-    result_category: "Safety Veto",
-  },
-  {
-    scenario_id: "1",
-    protein_target: "BCR-ABL",
-    scaffold_hypothesis: "Pyrazolo-pyridine",
-    smiles: "CC1=C(C)N=C(C)C=C1N",
-    pdb_id: "1M17",
-    reference_binding_affinity: -8.8,
-    reference_herg_flag: false,
-    reference_sa_score: 3.1,
-    target_result: "WINNER",
-    result_category: "Winner",
-  },
-  {
-    scenario_id: "2",
-    protein_target: "T-Kinase",
-    scaffold_hypothesis: "Thiazole-Thiophene",
-    smiles: "C1=CC(=CN=C1)C2=CSC=C2",
-    pdb_id: "2H9T",
-    reference_binding_affinity: -9.1,
-    reference_herg_flag: false,
-    reference_sa_score: 4.1,
-    target_result: "Accepted",
-    result_category: "Non-Winner",
-  },
-  {
-    scenario_id: "2",
-    protein_target: "T-Kinase",
-    scaffold_hypothesis: "Triazole-Pyridine",
-    smiles: "CC1=NC=NC=C1C(C)C",
-    pdb_id: "2H9T",
-    reference_binding_affinity: -9.5,
-    reference_herg_flag: false,
-    reference_sa_score: 6.5,
-    target_result: "Rejected",
-    result_category: "Cost Veto",
-  },
-  {
-    scenario_id: "2",
-    protein_target: "T-Kinase",
-    scaffold_hypothesis: "Pyrimidine-Amide",
-    smiles: "C1=NC(=CN=C1)CC(=O)N",
-    pdb_id: "2H9T",
-    reference_binding_affinity: -10.2,
-    reference_herg_flag: false,
-    reference_sa_score: 3.8,
-    target_result: "WINNER",
-    result_category: "Winner",
-  },
-  {
-    scenario_id: "3",
-    protein_target: "Tox-Check",
-    scaffold_hypothesis: "Complex X-Ring",
-    smiles: "C1C(N(C)C)C(=O)C2=CC=C12",
-    pdb_id: "3V03",
-    reference_binding_affinity: -7.5,
-    reference_herg_flag: true,
-    reference_sa_score: 7.2,
-    target_result: "Rejected",
-    result_category: "Safety Veto",
-  },
-  {
-    scenario_id: "3",
-    protein_target: "Tox-Check",
-    scaffold_hypothesis: "Simple Y-Chain",
-    smiles: "CCCC(N)C(=O)O",
-    pdb_id: "3V03",
-    reference_binding_affinity: -6.8,
-    reference_herg_flag: false,
-    reference_sa_score: 1.9,
-    target_result: "Rejected",
-    result_category: "Potency Fail",
-  },
-  {
-    scenario_id: "3",
-    protein_target: "Tox-Check",
-    scaffold_hypothesis: "Mid-Range Z-Ring",
-    smiles: "C1C(N)C(=O)C=C1",
-    pdb_id: "3V03",
-    reference_binding_affinity: -8.1,
-    reference_herg_flag: false,
-    reference_sa_score: 6.2,
-    target_result: "Rejected",
-    result_category: "Cost/Risk Fail",
-  },
-  // Scenario 4: Amyloid Beta (6 scenarios) - Updated from Google Sheet
-  {
-    scenario_id: "4",
-    protein_target: "Amyloid Beta",
-    scaffold_hypothesis: "Lipophilic Diamine Core",
-    smiles: "CC1=NC(=CS1)C2=CC=C(C=C2)N(C)C",
-    pdb_id: "4B5S",
-    reference_binding_affinity: -11.2,
-    reference_herg_flag: true,
-    reference_sa_score: 4.8,
-    target_result: "Rejected",
-    result_category: "Safety Veto",
-  },
-  {
-    scenario_id: "4",
-    protein_target: "Amyloid Beta",
-    scaffold_hypothesis: "Multi-Chiral Macrocycle",
-    smiles: "C1=C(C=C(C=C1)C2=C(C)C(=O)O2)C",
-    pdb_id: "4B5S",
-    reference_binding_affinity: -10.9,
-    reference_herg_flag: false,
-    reference_sa_score: 6.9,
-    target_result: "Rejected",
-    result_category: "Cost Veto",
-  },
-  {
-    scenario_id: "4",
-    protein_target: "Amyloid Beta",
-    scaffold_hypothesis: "Simple Benzimidazole",
-    smiles: "C1=CC=C(C=C1)C(C)C(=O)O",
-    pdb_id: "4B5S",
-    reference_binding_affinity: -6.9,
-    reference_herg_flag: false,
-    reference_sa_score: 2.5,
-    target_result: "Rejected",
-    result_category: "Potency Fail",
-  },
-  {
-    scenario_id: "4",
-    protein_target: "Amyloid Beta",
-    scaffold_hypothesis: "Piperazine Amide Analogue",
-    smiles: "C1=CC(=C(C=C1)OC)C(=O)N(C)C",
-    pdb_id: "4B5S",
-    reference_binding_affinity: -10.7,
-    reference_herg_flag: false,
-    reference_sa_score: 2.2,
-    target_result: "WINNER",
-    result_category: "Winner",
-  },
-  {
-    scenario_id: "4",
-    protein_target: "Amyloid Beta",
-    scaffold_hypothesis: "Fluorinated Poly-Aromatic Ring",
-    smiles: "C1=C(C=C(C=C1)C2=NC=C(C=C2)C)C",
-    pdb_id: "4B5S",
-    reference_binding_affinity: -9.5,
-    reference_herg_flag: false,
-    reference_sa_score: 5.5,
-    target_result: "Accepted",
-    result_category: "Non-Winner",
-  },
-  {
-    scenario_id: "4",
-    protein_target: "Amyloid Beta",
-    scaffold_hypothesis: "Small Heterocycle Analogue",
-    smiles: "CC(=O)C1=CC=C(C=C1)C",
-    pdb_id: "4B5S",
-    reference_binding_affinity: -8.1,
-    reference_herg_flag: false,
-    reference_sa_score: 3.9,
-    target_result: "Accepted",
-    result_category: "Non-Winner",
-  },
-];
+export type { SheetScenario, ReferenceData };
 
 /**
  * Get all scenarios from the database
  */
 export function getAllScenarios(): SheetScenario[] {
-  return SHEET_CACHE && SHEET_CACHE.length > 0 ? SHEET_CACHE : SHEET_DATA;
+  return getCachedReferenceData()?.rows ?? REFERENCE_SNAPSHOT;
+}
+
+/**
+ * Reference rows for a run, with their freshness: the selected local
+ * dataset's current version, or the shared provider cache when none is
+ * selected. Null if the dataset does not exist.
+ */
+export async function loadReferenceData(datasetId?: string | null): Promise<ReferenceData | null> {
+  if (!datasetId) return getReferenceData();
+
+  const dataset = await getDataset(datasetId);
+  if (!dataset) return null;
+  const version = dataset.versions.find(v => v.version === dataset.current_version);
+  return {
+    rows: version?.rows ?? [],
+    freshness: {
+      source: "dataset",
+      loaded_at: version?.created_at ?? dataset.created_at,
+      expires_at: null,
+      stale: false,
+      row_count: version?.rows.length ?? 0,
+      dataset_id: dataset.id,
+      dataset_version: dataset.current_version,
+    },
+  };
 }
 
 /**
  * Get scenarios filtered by protein target (case-insensitive)
  */
-export function getScenariosByProteinTarget(proteinTarget: string): SheetScenario[] {
+export function getScenariosByProteinTarget(proteinTarget: string, rows?: SheetScenario[]): SheetScenario[] {
   const targetLower = proteinTarget.toLowerCase().trim();
-  const src = getAllScenarios();
+  const src = rows ?? getAllScenarios();
   return src.filter(s => 
     s.protein_target.toLowerCase().includes(targetLower) ||
     targetLower.includes(s.protein_target.toLowerCase())
@@ -221,25 +70,25 @@ export function getScenariosByProteinTarget(proteinTarget: string): SheetScenari
 /**
  * Get unique protein targets
  */
-export function getUniqueProteinTargets(): string[] {
-  const src = getAllScenarios();
+export function getUniqueProteinTargets(rows?: SheetScenario[]): string[] {
+  const src = rows ?? getAllScenarios();
   return Array.from(new Set(src.map(s => s.protein_target)));
 }
 
 /**
  * Find scenario by SMILES string
  */
-export function findScenarioBySmiles(smiles: string): SheetScenario | null {
-  const src = getAllScenarios();
+export function findScenarioBySmiles(smiles: string, rows?: SheetScenario[]): SheetScenario | null {
+  const src = rows ?? getAllScenarios();
   return src.find(s => s.smiles.trim() === smiles.trim()) || null;
 }
 
 /**
  * Find scenario by scaffold name (partial match)
  */
-export function findScenarioByScaffold(scaffold: string): SheetScenario | null {
+export function findScenarioByScaffold(scaffold: string, rows?: SheetScenario[]): SheetScenario | null {
   const scaffoldLower = scaffold.toLowerCase();
-  const src = getAllScenarios();
+  const src = rows ?? getAllScenarios();
   return src.find(s => {
     const dbScaffold = s.scaffold_hypothesis.toLowerCase();
     return scaffoldLower.includes(dbScaffold) || dbScaffold.includes(scaffoldLower);
@@ -247,123 +96,174 @@ export function findScenarioByScaffold(scaffold: string): SheetScenario | null {
 }
 
 // -----------------------------------------------------------------------------
-// Best-effort live sheet loader (public CSV) with module-level cache
+// Similarity and substructure search over the reference rows
 // -----------------------------------------------------------------------------
-const SHEET_ID = process.env.SIMULAB_GOOGLE_SHEET_ID || "17bd4GhtN66ekoWxff1qaGNa_SWuYPThR6zgEu215ZWQ";
-const SHEET_GID = process.env.SIMULAB_GOOGLE_SHEET_GID || "2021329128";
-let SHEET_CACHE: SheetScenario[] | null = null;
+const ENV_SIMILARITY_THRESHOLD = Number(process.env.SIMULAB_SIMILARITY_THRESHOLD);
+
+/** Minimum Tanimoto similarity for a reference row to stand in for a scenario */
+export const DEFAULT_SIMILARITY_THRESHOLD =
+  ENV_SIMILARITY_THRESHOLD > 0 && ENV_SIMILARITY_THRESHOLD <= 1 ? ENV_SIMILARITY_THRESHOLD : 0.7;
 
-function parseFloatSafe(value: any): number | null {
-  if (value === null || value === undefined || value === "") return null;
-  const num = Number(value);
-  return isNaN(num) ? null : num;
+export type ReferenceMatchMethod = "exact" | "canonical" | "similarity" | "scaffold";
+
+export interface ReferenceMatch {
+  row: SheetScenario;
+  /** A "scaffold" match is below the similarity threshold: a hint, not a source of metrics */
+  method: ReferenceMatchMethod;
+  /** Tanimoto similarity to the reference SMILES; null when either side does not parse */
+  similarity: number | null;
 }
 
-function parseBoolSafe(value: any): boolean | null {
-  if (value === null || value === undefined || value === "") return null;
-  const str = String(value).toLowerCase().trim();
-  if (str === "yes" || str === "true" || str === "1" || str === "unsafe" || str === "veto") return true;
-  if (str === "no" || str === "false" || str === "0" || str === "safe") return false;
-  return null;
+interface ParsedReference {
+  molecule: SmilesMolecule;
+  canonical: string;
+  fingerprint: Fingerprint;
 }
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = "";
-  let inQuotes = false;
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === "," && !inQuotes) {
-      result.push(current.trim());
-      current = "";
-    } else {
-      current += char;
-    }
+// Keyed by SMILES so snapshot and live rows share entries
+const PARSED_SMILES = new Map<string, ParsedReference | null>();
+
+function parseReference(smiles: string): ParsedReference | null {
+  const key = smiles.trim();
+  if (!key) return null;
+  if (!PARSED_SMILES.has(key)) {
+    const { molecule: parsed } = parseSmiles(key);
+    // Reference rows are mostly Kekulé, generated SMILES mostly aromatic
+    const molecule = parsed ? perceiveAromaticity(parsed) : null;
+    PARSED_SMILES.set(key, molecule
+      ? { molecule, canonical: writeCanonicalSmiles(molecule), fingerprint: computeFingerprint(molecule) }
+      : null);
   }
-  result.push(current.trim());
-  return result;
+  return PARSED_SMILES.get(key) ?? null;
 }
 
-async function loadSheetCSV(): Promise<SheetScenario[]> {
-  try {
-    const csvUrl = `https://docs.google.com/spreadsheets/d/${SHEET_ID}/export?format=csv&gid=${encodeURIComponent(SHEET_GID)}`;
-    const res = await fetch(csvUrl, { method: "GET", redirect: "follow", headers: { Accept: "text/csv,text/plain,*/*" } as any });
-    if (!res.ok) return [];
-    const text = await res.text();
-    if (!text || text.trim().startsWith("<")) return [];
-    const lines = text.split("\n").filter(l => l.trim());
-    if (lines.length < 2) return [];
-    const headers = parseCSVLine(lines[0]);
-    const findCol = (patterns: string[]) =>
-      headers.findIndex(h => patterns.some(p => h.toLowerCase().includes(p.toLowerCase())));
-    const colIndex = {
-      scenario_id: findCol(["scenario"]),
-      protein_target: findCol(["protein"]),
-      scaffold_hypothesis: findCol(["scaffold", "hypothesis"]),
-      smiles: findCol(["smiles"]),
-      pdb_id: findCol(["pdb"]),
-      binding_affinity: findCol(["affinity", "Δg", "dg", "delta g"]),
-      herg_flag: findCol(["herg"]),
-      sa_score: findCol(["sa score", "sa", "synthesis"]),
-      target_result: findCol(["final result", "target final", "result"]),
-      result_category: findCol(["category"]),
-    };
-    const scenarios: SheetScenario[] = [];
-    for (let i = 1; i < lines.length; i++) {
-      const row = parseCSVLine(lines[i]);
-      if (row.length === 0 || !row.some(cell => cell.trim())) continue;
-      const s: SheetScenario = {
-        scenario_id: row[colIndex.scenario_id] || `Scenario_${i}`,
-        protein_target: row[colIndex.protein_target] || "",
-        scaffold_hypothesis: row[colIndex.scaffold_hypothesis] || "",
-        smiles: row[colIndex.smiles] || "",
-        pdb_id: row[colIndex.pdb_id] || "",
-        reference_binding_affinity: parseFloatSafe(row[colIndex.binding_affinity]),
-        reference_herg_flag: parseBoolSafe(row[colIndex.herg_flag]),
-        reference_sa_score: parseFloatSafe(row[colIndex.sa_score]),
-        target_result: row[colIndex.target_result] || "",
-        result_category: row[colIndex.result_category] || "",
-      };
-      if (s.protein_target || s.smiles) scenarios.push(s);
-    }
-    return scenarios;
-  } catch {
-    return [];
-  }
+/**
+ * Rows for the protein target (none when the target has none), or every row
+ * when no target is given
+ */
+function referencePool(proteinTarget?: string, rows?: SheetScenario[]): SheetScenario[] {
+  const all = rows ?? getAllScenarios();
+  return proteinTarget ? getScenariosByProteinTarget(proteinTarget, all) : all;
 }
 
-export async function ensureSheetLoaded(): Promise<void> {
-  if (!SHEET_CACHE || SHEET_CACHE.length === 0) {
-    const live = await loadSheetCSV();
-    if (live.length > 0) {
-      SHEET_CACHE = live;
-      // eslint-disable-next-line no-console
-      console.log(`[SimuLab/Sheets:data] ensureSheetLoaded: ${live.length} rows loaded`);
-    } else {
-      // eslint-disable-next-line no-console
-      console.warn("[SimuLab/Sheets:data] ensureSheetLoaded: live sheet empty, using snapshot");
-    }
+function resolveThreshold(threshold?: number): number {
+  return threshold != null && threshold > 0 && threshold <= 1 ? threshold : DEFAULT_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Reference rows with Tanimoto similarity ≥ threshold, most similar first
+ */
+export function searchBySimilarity(
+  smiles: string,
+  options: { threshold?: number; proteinTarget?: string; limit?: number; rows?: SheetScenario[] } = {}
+): Array<{ row: SheetScenario; similarity: number }> {
+  const query = parseReference(smiles);
+  if (!query) return [];
+  const threshold = options.threshold != null && options.threshold >= 0 && options.threshold <= 1
+    ? options.threshold
+    : DEFAULT_SIMILARITY_THRESHOLD;
+
+  const hits: Array<{ row: SheetScenario; similarity: number }> = [];
+  for (const row of referencePool(options.proteinTarget, options.rows)) {
+    const ref = parseReference(row.smiles);
+    if (!ref) continue;
+    const similarity = tanimoto(query.fingerprint, ref.fingerprint);
+    if (similarity >= threshold) hits.push({ row, similarity });
   }
+  hits.sort((a, b) => b.similarity - a.similarity);
+  return hits.slice(0, options.limit ?? hits.length);
 }
 
-// Kick off background load; non-blocking for API callers
-(async () => {
-  try {
-    const live = await loadSheetCSV();
-    if (live.length > 0) {
-      SHEET_CACHE = live;
-      // eslint-disable-next-line no-console
-      console.log(`[SimuLab/Sheets:data] Loaded ${live.length} rows from live sheet`);
-    }
-  } catch {
-    // ignore
+/**
+ * Reference rows containing the query pattern (see @/lib/substructure).
+ * Throws on an unparsable pattern.
+ */
+export function searchBySubstructure(
+  pattern: string,
+  options: { proteinTarget?: string; rows?: SheetScenario[] } = {}
+): SheetScenario[] {
+  const query = compileQuery(pattern.trim());
+  return referencePool(options.proteinTarget, options.rows).filter(row => {
+    const ref = parseReference(row.smiles);
+    return ref !== null && hasSubstructure(ref.molecule, query);
+  });
+}
+
+/**
+ * Best reference row for a scenario: exact SMILES, then canonical SMILES,
+ * then the most similar row above the threshold, then scaffold name. Scaffold
+ * matches did not reach the threshold, so callers report them as hints and
+ * keep their own metrics (see isReferenceHint).
+ */
+export function matchReference(
+  scenario: { smiles?: string; scaffold?: string },
+  options: { proteinTarget?: string; threshold?: number; rows?: SheetScenario[] } = {}
+): ReferenceMatch | null {
+  const pool = referencePool(options.proteinTarget, options.rows);
+  const smiles = (scenario.smiles || "").trim();
+  const query = smiles ? parseReference(smiles) : null;
+  const similarityTo = (row: SheetScenario) => {
+    const ref = query ? parseReference(row.smiles) : null;
+    return query && ref ? Number(tanimoto(query.fingerprint, ref.fingerprint).toFixed(3)) : null;
+  };
+
+  if (smiles) {
+    const exact = pool.find(row => row.smiles.trim() === smiles);
+    if (exact) return { row: exact, method: "exact", similarity: 1 };
   }
-})();
+  if (query) {
+    const canonical = pool.find(row => parseReference(row.smiles)?.canonical === query.canonical);
+    if (canonical) return { row: canonical, method: "canonical", similarity: 1 };
+
+    const [best] = searchBySimilarity(smiles, {
+      threshold: resolveThreshold(options.threshold),
+      proteinTarget: options.proteinTarget,
+      limit: 1,
+      rows: options.rows,
+    });
+    if (best) return { row: best.row, method: "similarity", similarity: Number(best.similarity.toFixed(3)) };
+  }
+  if (scenario.scaffold) {
+    const scaffoldLower = scenario.scaffold.toLowerCase();
+    const byScaffold = pool.find(row => {
+      const dbScaffold = row.scaffold_hypothesis.toLowerCase();
+      return dbScaffold && (scaffoldLower.includes(dbScaffold) || dbScaffold.includes(scaffoldLower));
+    });
+    if (byScaffold) return { row: byScaffold, method: "scaffold", similarity: similarityTo(byScaffold) };
+  }
+  return null;
+}
+
+/**
+ * True for matches too weak to supply measured values (scaffold name only)
+ */
+export function isReferenceHint(match: ReferenceMatch): boolean {
+  return match.method === "scaffold";
+}
+
+/**
+ * JSON-friendly description of a match for API responses and validation notes
+ */
+export function summarizeReferenceMatch(match: ReferenceMatch): {
+  reference_id: string;
+  protein_target: string;
+  smiles: string;
+  method: ReferenceMatchMethod;
+  similarity: number | null;
+} {
+  return {
+    reference_id: match.row.scenario_id,
+    protein_target: match.row.protein_target,
+    smiles: match.row.smiles,
+    method: match.method,
+    similarity: match.similarity,
+  };
+}
 
+/**
+ * One-line description, e.g. "reference 7 (similarity, Tanimoto 0.82)"
+ */
+export function describeReferenceMatch(match: ReferenceMatch): string {
+  const similarity = match.similarity != null ? `, Tanimoto ${match.similarity.toFixed(2)}` : "";
+  return `reference ${match.row.scenario_id} (${match.method}${similarity})`;
+}
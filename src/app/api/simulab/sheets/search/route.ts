@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadReferenceData, searchBySimilarity, searchBySubstructure, SheetScenario } from "../data";
+import { formatSmilesError, parseSmiles } from "@/lib/smiles";
+
+/**
+ * SimuLab Reference Search API
+ *
+ * GET /api/simulab/sheets/search?smiles=...&threshold=0.7&protein_target=EGFR&limit=10
+ *     - reference rows by Tanimoto similarity (circular fingerprints), most similar first
+ * GET /api/simulab/sheets/search?substructure=...&protein_target=EGFR
+ *     - reference rows containing the pattern (SMILES with '*' wildcards)
+ *
+ * Searches the shared reference cache (live sheet, local file or bundled
+ * snapshot) or the local reference dataset given as &dataset=<id>; results
+ * carry `reference_freshness`.
+ */
+
+export const dynamic = "force-dynamic";
+
+function toResult(row: SheetScenario, similarity?: number) {
+  return {
+    scenario_id: row.scenario_id,
+    protein_target: row.protein_target,
+    scaffold: row.scaffold_hypothesis,
+    smiles: row.smiles,
+    target_result: row.target_result,
+    ...(similarity != null ? { similarity: Number(similarity.toFixed(3)) } : {}),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const smiles = searchParams.get("smiles")?.trim();
+  const substructure = searchParams.get("substructure")?.trim();
+  const proteinTarget = searchParams.get("protein_target") || undefined;
+  const datasetId = searchParams.get("dataset");
+
+  if (!smiles && !substructure) {
+    return NextResponse.json({ success: false, error: "Provide either smiles or substructure" }, { status: 400 });
+  }
+
+  const query = (smiles || substructure) as string;
+  const { errors } = parseSmiles(query);
+  if (errors.length > 0) {
+    return NextResponse.json(
+      { success: false, error: `Invalid ${smiles ? "SMILES" : "pattern"}: ${formatSmilesError(errors[0])}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const reference = await loadReferenceData(datasetId);
+    if (!reference) {
+      return NextResponse.json({ success: false, error: `Reference dataset not found: ${datasetId}` }, { status: 404 });
+    }
+    const rows = reference.rows;
+
+    if (smiles) {
+      const thresholdParam = searchParams.get("threshold");
+      const limitParam = searchParams.get("limit");
+      const threshold = thresholdParam != null ? Number(thresholdParam) : undefined;
+      if (threshold != null && (isNaN(threshold) || threshold < 0 || threshold > 1)) {
+        return NextResponse.json({ success: false, error: "threshold must be between 0 and 1" }, { status: 400 });
+      }
+      const hits = searchBySimilarity(smiles, {
+        threshold,
+        proteinTarget,
+        rows,
+        limit: limitParam ? Math.max(1, parseInt(limitParam, 10) || 10) : undefined,
+      });
+      return NextResponse.json({
+        success: true,
+        mode: "similarity",
+        count: hits.length,
+        results: hits.map(h => toResult(h.row, h.similarity)),
+        reference_freshness: reference.freshness,
+      });
+    }
+
+    const matches = searchBySubstructure(substructure as string, { proteinTarget, rows });
+    return NextResponse.json({
+      success: true,
+      mode: "substructure",
+      count: matches.length,
+      results: matches.map(row => toResult(row)),
+      reference_freshness: reference.freshness,
+    });
+  } catch (error) {
+    console.error("[SimuLab/Sheets:search] Search failed:", error);
+    return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
+  }
+}
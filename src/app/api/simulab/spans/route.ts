@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTraceSpans, isValidTraceId, listTraces } from "@/lib/span-store";
+
+/**
+ * GET /api/simulab/spans?trace_id=...
+ *
+ * Spans the SimuLab routes recorded locally for one trace (see
+ * lib/span-recorder), as an array in the `Span` shape the trace viewer's
+ * GanttChart renders. Without `trace_id`: the newest stored traces
+ * (`?limit=`, default 50) with their root span name, times, span and error
+ * counts.
+ */
+
+export const dynamic = "force-dynamic";
+
+const MAX_LIMIT = 200;
+
+export async function GET(request: NextRequest) {
+  const traceId = request.nextUrl.searchParams.get("trace_id");
+
+  try {
+    if (!traceId) {
+      const limit = Number(request.nextUrl.searchParams.get("limit")) || 50;
+      const traces = await listTraces(Math.min(Math.max(1, limit), MAX_LIMIT));
+      return NextResponse.json({ success: true, traces });
+    }
+
+    if (!isValidTraceId(traceId)) {
+      return NextResponse.json({ error: `Invalid trace id: ${traceId}` }, { status: 400 });
+    }
+    const spans = await getTraceSpans(traceId);
+    if (!spans) {
+      return NextResponse.json({ error: "No spans found for the specified trace ID" }, { status: 404 });
+    }
+    return NextResponse.json(spans, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error(`[SimuLab/Spans] Reading ${traceId || "traces"} failed:`, error);
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getTraceSpans } from '@/lib/span-store';
 
 /**
- * API route to fetch spans data from the backend service
+ * API route to fetch spans data: traces recorded locally by the SimuLab
+ * routes first, then the backend service
  */
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 export const preferredRegion = ['auto'];
 export const dynamic = 'force-dynamic';
 
@@ -19,6 +21,22 @@ export async function GET(request: Request) {
   // Log the trace ID being fetched
   console.log(`Fetching spans for trace_id: ${traceId}`);
 
+  // SimuLab routes record their spans in-process (see @/lib/span-recorder)
+  try {
+    const localSpans = await getTraceSpans(traceId);
+    if (localSpans) {
+      return NextResponse.json(localSpans, {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          Pragma: 'no-cache',
+          Expires: '0',
+        },
+      });
+    }
+  } catch (error) {
+    console.error('Error reading local spans:', error);
+  }
+
   // Construct the API URL from environment variables, defaulting to localhost
   const apiUrl = process.env.AGENTEX_BASE_URL || 'http://localhost:5003';
 
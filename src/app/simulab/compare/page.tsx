@@ -0,0 +1,447 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { motion } from "framer-motion"
+import { ArrowRight, Home, Trophy } from "lucide-react"
+import { canonicalizeSmiles } from "@/lib/smiles"
+import { ParetoChart, ParetoMetrics, ParetoScenario, ParetoSeries, SERIES_COLORS, formatScenarioLabel } from "@/components/simulab/ParetoChart"
+
+/**
+ * SimuLab run comparison
+ *
+ * Loads several stored experiments (/api/simulab/experiments), aligns their
+ * scenarios by canonical SMILES (falling back to scaffold name), and shows metric
+ * deltas against the first selected run, winner changes, decision criteria
+ * diffs and an overlaid Pareto chart. Pre-select runs with ?ids=a,b,c.
+ */
+
+type ExperimentSummary = {
+  id: string
+  name: string
+  created_at: string
+  updated_at: string
+  protein_target?: string
+  goal?: string
+  num_scenarios: number
+  winner_id: string | null
+  duplicated_from?: string
+}
+
+type Experiment = ExperimentSummary & {
+  criteria?: (Record<string, unknown> & { synthesis?: { hardFailSteps?: number } }) | null
+  scenarios?: ParetoScenario[]
+  metrics?: Record<string, ParetoMetrics>
+  winners?: { scenario_id: string }[]
+  rejected?: { scenario_id: string }[]
+  verdict?: { winner?: { scenario_id?: string } | null } | null
+}
+
+type RunCell = {
+  scenario_id: string
+  dG: number | null
+  herg: boolean | null
+  sa: number | null
+  steps: number | null
+  status: "winner" | "rejected" | "evaluated"
+}
+
+type AlignedRow = {
+  key: string
+  label: string
+  smiles: string
+  cells: (RunCell | null)[]
+}
+
+const METRIC_COLUMNS: { key: "dG" | "sa" | "steps"; label: string; digits: number; lowerIsBetter: boolean }[] = [
+  { key: "dG", label: "ΔG", digits: 2, lowerIsBetter: true },
+  { key: "sa", label: "SA", digits: 2, lowerIsBetter: true },
+  { key: "steps", label: "Steps", digits: 0, lowerIsBetter: true },
+]
+
+// Scenarios match across runs on canonical SMILES (the text as written when it
+// does not parse), otherwise on scaffold name
+function alignmentKey(s: ParetoScenario): string {
+  const smiles = typeof s.smiles === "string" ? s.smiles.trim() : ""
+  if (smiles) return `smiles:${canonicalizeSmiles(smiles) ?? smiles}`
+  const scaffold = String(s.scaffold || s.metadata?.scaffold || s.name || s.scenario_id || "").trim().toLowerCase()
+  return `scaffold:${scaffold}`
+}
+
+function toRunCell(run: Experiment, s: ParetoScenario): RunCell {
+  const sid = s.scenario_id
+  const m: ParetoMetrics = run.metrics?.[sid] || {}
+  const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : null)
+  const isWinner = (run.winners || []).some((w) => w.scenario_id === sid)
+  const isRejected = (run.rejected || []).some((r) => r.scenario_id === sid)
+  return {
+    scenario_id: sid,
+    dG: num(m?.docking?.binding_affinity_kcal_per_mol),
+    herg: typeof m?.admet?.herg_flag === "boolean" ? m.admet.herg_flag : null,
+    sa: num(m?.synthesis?.sa_score),
+    steps: num(m?.synthesis?.num_steps),
+    status: isWinner ? "winner" : isRejected ? "rejected" : "evaluated",
+  }
+}
+
+function alignScenarios(runs: Experiment[]): AlignedRow[] {
+  const rows = new Map<string, AlignedRow>()
+  runs.forEach((run, runIdx) => {
+    for (const s of run.scenarios || []) {
+      const key = alignmentKey(s)
+      if (!rows.has(key)) {
+        rows.set(key, {
+          key,
+          label: s.scaffold || s.metadata?.scaffold || s.name || formatScenarioLabel(s.scenario_id),
+          smiles: s.smiles || "",
+          cells: runs.map(() => null),
+        })
+      }
+      const row = rows.get(key)!
+      // Keep the first occurrence if a run repeats a molecule
+      if (!row.cells[runIdx]) row.cells[runIdx] = toRunCell(run, s)
+    }
+  })
+  return Array.from(rows.values())
+}
+
+function flattenCriteria(value: unknown, prefix = "", out: Record<string, unknown> = {}): Record<string, unknown> {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [k, v] of Object.entries(value)) {
+      flattenCriteria(v, prefix ? `${prefix}.${k}` : k, out)
+    }
+  } else if (prefix) {
+    out[prefix] = value
+  }
+  return out
+}
+
+function diffCriteria(runs: Experiment[]): { path: string; values: unknown[] }[] {
+  const flat = runs.map((r) => flattenCriteria(r.criteria || {}))
+  const paths = Array.from(new Set(flat.flatMap((f) => Object.keys(f)))).sort()
+  return paths
+    .map((path) => ({ path, values: flat.map((f) => f[path]) }))
+    .filter(({ values }) => new Set(values.map((v) => JSON.stringify(v ?? null))).size > 1)
+}
+
+function runWinnerId(run: Experiment): string | null {
+  return run.verdict?.winner?.scenario_id || run.winners?.[0]?.scenario_id || null
+}
+
+function formatValue(v: unknown, digits = 2) {
+  if (v === null || v === undefined) return "—"
+  if (typeof v === "number") return Number.isInteger(v) && digits === 0 ? String(v) : v.toFixed(digits)
+  return String(v)
+}
+
+function formatDelta(current: number | null, baseline: number | null, digits: number, lowerIsBetter: boolean) {
+  if (current === null || baseline === null) return null
+  const delta = current - baseline
+  if (Math.abs(delta) < Math.pow(10, -digits) / 2) return { text: "±0", color: "hsl(var(--muted-foreground))" }
+  const improved = lowerIsBetter ? delta < 0 : delta > 0
+  return {
+    text: `${delta > 0 ? "+" : ""}${delta.toFixed(digits)}`,
+    color: improved ? "#16a34a" : "#ef4444",
+  }
+}
+
+const cardStyle: React.CSSProperties = {
+  border: "1px solid hsl(var(--border))",
+  borderRadius: 12,
+  background: "hsl(var(--card))",
+  padding: 20,
+  marginBottom: 20,
+}
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  padding: "8px 10px",
+  fontSize: 12,
+  fontWeight: 600,
+  color: "hsl(var(--muted-foreground))",
+  borderBottom: "1px solid hsl(var(--border))",
+  whiteSpace: "nowrap",
+}
+
+const tdStyle: React.CSSProperties = {
+  padding: "8px 10px",
+  fontSize: 13,
+  color: "hsl(var(--foreground))",
+  borderBottom: "1px solid hsl(var(--border))",
+  verticalAlign: "top",
+}
+
+export default function SimuLabComparePage() {
+  const [experiments, setExperiments] = useState<ExperimentSummary[]>([])
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [runs, setRuns] = useState<Experiment[]>([])
+  const [loadingList, setLoadingList] = useState(true)
+  const [loadingRuns, setLoadingRuns] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const ids = (params.get("ids") || "").split(",").map((s) => s.trim()).filter(Boolean)
+    if (ids.length > 0) setSelectedIds(ids)
+
+    fetch("/api/simulab/experiments")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data?.success) throw new Error(data?.error || "Failed to load experiments")
+        setExperiments(data.experiments || [])
+      })
+      .catch((e) => setError(e?.message || "Failed to load experiments"))
+      .finally(() => setLoadingList(false))
+  }, [])
+
+  useEffect(() => {
+    if (selectedIds.length < 2) {
+      setRuns([])
+      return
+    }
+    let cancelled = false
+    setLoadingRuns(true)
+    Promise.all(
+      selectedIds.map((id) =>
+        fetch(`/api/simulab/experiments/${encodeURIComponent(id)}`)
+          .then((res) => res.json())
+          .then((data) => (data?.success ? (data.experiment as Experiment) : null))
+          .catch(() => null)
+      )
+    )
+      .then((loaded) => {
+        if (cancelled) return
+        const found = loaded.filter((r): r is Experiment => r !== null)
+        if (found.length < loaded.length) {
+          setError(`${loaded.length - found.length} selected run(s) could not be loaded`)
+        }
+        setRuns(found)
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingRuns(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [selectedIds])
+
+  const aligned = useMemo(() => alignScenarios(runs), [runs])
+  const criteriaDiffs = useMemo(() => diffCriteria(runs), [runs])
+  const series: ParetoSeries[] = useMemo(() => runs.map((run, idx) => ({
+    key: run.id,
+    label: run.name,
+    color: SERIES_COLORS[idx % SERIES_COLORS.length],
+    scenarios: run.scenarios || [],
+    scenarioMetrics: run.metrics || {},
+    winners: run.winners || [],
+    stepsThreshold: run.criteria?.synthesis?.hardFailSteps,
+  })), [runs])
+
+  const baselineWinner = runs.length > 0 ? runWinnerId(runs[0]) : null
+  const baselineWinnerKey = useMemo(() => {
+    if (!baselineWinner) return null
+    const s = (runs[0]?.scenarios || []).find((x) => x.scenario_id === baselineWinner)
+    return s ? alignmentKey(s) : null
+  }, [runs, baselineWinner])
+
+  const toggleRun = (id: string) => {
+    setError(null)
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]))
+  }
+
+  return (
+    <div style={{ minHeight: "100vh", background: "hsl(var(--background))", padding: "32px 24px" }}>
+      <div style={{ maxWidth: 1200, margin: "0 auto" }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 24 }}>
+          <button
+            onClick={() => { window.location.href = "/simulab" }}
+            title="Back to SimuLab"
+            style={{ display: "flex", alignItems: "center", gap: 6, padding: "6px 10px", border: "1px solid hsl(var(--border))", borderRadius: 8, background: "hsl(var(--card))", cursor: "pointer" }}
+          >
+            <Home size={16} color="hsl(var(--muted-foreground))" />
+          </button>
+          <h2 style={{ fontSize: 20, fontWeight: 700, color: "hsl(var(--foreground))", margin: 0, letterSpacing: "-0.01em" }}>
+            Compare Runs
+          </h2>
+        </div>
+
+        {error && (
+          <div style={{ ...cardStyle, borderColor: "#fecaca", background: "#fef2f2", color: "#b91c1c", padding: 12, fontSize: 13 }}>
+            {error}
+          </div>
+        )}
+
+        {/* Run picker */}
+        <div style={cardStyle}>
+          <h3 style={{ fontSize: 14, fontWeight: 600, color: "hsl(var(--foreground))", margin: "0 0 12px" }}>
+            Select runs (first selected is the baseline)
+          </h3>
+          {loadingList ? (
+            <div style={{ fontSize: 13, color: "hsl(var(--muted-foreground))" }}>Loading experiments...</div>
+          ) : experiments.length === 0 ? (
+            <div style={{ fontSize: 13, color: "hsl(var(--muted-foreground))" }}>No saved experiments yet. Run SimuLab to create one.</div>
+          ) : (
+            <div style={{ display: "grid", gap: 6 }}>
+              {experiments.map((exp) => {
+                const order = selectedIds.indexOf(exp.id)
+                return (
+                  <label key={exp.id} style={{ display: "flex", alignItems: "center", gap: 10, fontSize: 13, color: "hsl(var(--foreground))", cursor: "pointer" }}>
+                    <input type="checkbox" checked={order >= 0} onChange={() => toggleRun(exp.id)} />
+                    <span style={{ fontWeight: 600 }}>{exp.name}</span>
+                    <span style={{ color: "hsl(var(--muted-foreground))" }}>
+                      {exp.protein_target || "—"} · {exp.num_scenarios} scenarios · winner {exp.winner_id ? formatScenarioLabel(exp.winner_id) : "—"}
+                    </span>
+                    {order >= 0 && (
+                      <span style={{ marginLeft: "auto", fontSize: 11, fontWeight: 700, color: SERIES_COLORS[order % SERIES_COLORS.length] }}>
+                        {order === 0 ? "Baseline" : `Run ${order + 1}`}
+                      </span>
+                    )}
+                  </label>
+                )
+              })}
+            </div>
+          )}
+        </div>
+
+        {selectedIds.length < 2 && !loadingList && experiments.length > 0 && (
+          <div style={{ fontSize: 13, color: "hsl(var(--muted-foreground))" }}>Select at least two runs to compare.</div>
+        )}
+
+        {loadingRuns && (
+          <div style={{ fontSize: 13, color: "hsl(var(--muted-foreground))" }}>Loading runs...</div>
+        )}
+
+        {!loadingRuns && runs.length >= 2 && (
+          <motion.div initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }}>
+            {/* Winner changes */}
+            <div style={cardStyle}>
+              <h3 style={{ fontSize: 14, fontWeight: 600, color: "hsl(var(--foreground))", margin: "0 0 12px", display: "flex", alignItems: "center", gap: 8 }}>
+                <Trophy size={16} color="#eab308" /> Winners
+              </h3>
+              <div style={{ display: "flex", flexWrap: "wrap", gap: 12, alignItems: "center" }}>
+                {runs.map((run, idx) => {
+                  const winnerId = runWinnerId(run)
+                  const winnerScenario = (run.scenarios || []).find((s) => s.scenario_id === winnerId)
+                  const changed = idx > 0 && (winnerScenario ? alignmentKey(winnerScenario) : null) !== baselineWinnerKey
+                  return (
+                    <div key={run.id} style={{ display: "flex", alignItems: "center", gap: 12 }}>
+                      {idx > 0 && <ArrowRight size={14} color="hsl(var(--muted-foreground))" />}
+                      <div style={{ border: `1px solid ${changed ? "#f97316" : "hsl(var(--border))"}`, borderLeft: `3px solid ${SERIES_COLORS[idx % SERIES_COLORS.length]}`, borderRadius: 10, padding: "8px 12px" }}>
+                        <div style={{ fontSize: 11, color: "hsl(var(--muted-foreground))" }}>{run.name}</div>
+                        <div style={{ fontSize: 13, fontWeight: 600, color: "hsl(var(--foreground))" }}>
+                          {winnerId ? (winnerScenario?.scaffold || formatScenarioLabel(winnerId)) : "No winner"}
+                        </div>
+                        {changed && <div style={{ fontSize: 11, fontWeight: 700, color: "#f97316" }}>Winner changed</div>}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+
+            {/* Aligned scenarios with deltas vs baseline */}
+            <div style={{ ...cardStyle, overflowX: "auto" }}>
+              <h3 style={{ fontSize: 14, fontWeight: 600, color: "hsl(var(--foreground))", margin: "0 0 12px" }}>
+                Scenario metrics (Δ vs baseline)
+              </h3>
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr>
+                    <th style={thStyle}>Molecule</th>
+                    {runs.map((run, idx) => (
+                      <th key={run.id} style={{ ...thStyle, borderTop: `3px solid ${SERIES_COLORS[idx % SERIES_COLORS.length]}` }}>
+                        {run.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {aligned.map((row) => {
+                    const base = row.cells[0]
+                    return (
+                      <tr key={row.key}>
+                        <td style={tdStyle}>
+                          <div style={{ fontWeight: 600 }}>{row.label}</div>
+                          {row.smiles && (
+                            <code style={{ fontSize: 11, color: "hsl(var(--muted-foreground))", wordBreak: "break-all" }}>{row.smiles}</code>
+                          )}
+                        </td>
+                        {row.cells.map((cell, idx) => (
+                          <td key={`${row.key}-${idx}`} style={tdStyle}>
+                            {!cell ? (
+                              <span style={{ color: "hsl(var(--muted-foreground))" }}>Not in run</span>
+                            ) : (
+                              <div style={{ display: "grid", gap: 2, fontSize: 12 }}>
+                                <div style={{ fontWeight: 700, color: cell.status === "winner" ? "#16a34a" : cell.status === "rejected" ? "#ef4444" : "hsl(var(--muted-foreground))" }}>
+                                  {cell.status === "winner" ? "Winner" : cell.status === "rejected" ? "Rejected" : "Evaluated"}
+                                  {idx > 0 && base && base.status !== cell.status && <span style={{ color: "#f97316" }}> (was {base.status})</span>}
+                                </div>
+                                {METRIC_COLUMNS.map((col) => {
+                                  const delta = idx > 0 && base ? formatDelta(cell[col.key], base[col.key], col.digits, col.lowerIsBetter) : null
+                                  return (
+                                    <div key={col.key}>
+                                      {col.label}: {formatValue(cell[col.key], col.digits)}
+                                      {delta && <span style={{ marginLeft: 6, color: delta.color, fontWeight: 600 }}>{delta.text}</span>}
+                                    </div>
+                                  )
+                                })}
+                                <div style={{ color: cell.herg ? "#ef4444" : "hsl(var(--foreground))" }}>
+                                  hERG: {cell.herg === null ? "—" : cell.herg ? "Flagged" : "Clear"}
+                                  {idx > 0 && base && base.herg !== null && cell.herg !== null && base.herg !== cell.herg && (
+                                    <span style={{ marginLeft: 6, color: "#f97316", fontWeight: 600 }}>changed</span>
+                                  )}
+                                </div>
+                              </div>
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Decision criteria diff */}
+            <div style={{ ...cardStyle, overflowX: "auto" }}>
+              <h3 style={{ fontSize: 14, fontWeight: 600, color: "hsl(var(--foreground))", margin: "0 0 12px" }}>
+                Decision criteria differences
+              </h3>
+              {criteriaDiffs.length === 0 ? (
+                <div style={{ fontSize: 13, color: "hsl(var(--muted-foreground))" }}>All selected runs used the same decision criteria.</div>
+              ) : (
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr>
+                      <th style={thStyle}>Criterion</th>
+                      {runs.map((run) => <th key={run.id} style={thStyle}>{run.name}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {criteriaDiffs.map(({ path, values }) => (
+                      <tr key={path}>
+                        <td style={{ ...tdStyle, fontFamily: "monospace", fontSize: 12 }}>{path}</td>
+                        {values.map((v, idx) => (
+                          <td key={`${path}-${idx}`} style={{ ...tdStyle, fontWeight: idx > 0 && JSON.stringify(v) !== JSON.stringify(values[0]) ? 700 : 400 }}>
+                            {formatValue(v)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Overlaid Pareto chart */}
+            <div style={cardStyle}>
+              <h3 style={{ fontSize: 14, fontWeight: 600, color: "hsl(var(--foreground))", margin: "0 0 12px" }}>
+                Pareto overlay
+              </h3>
+              <ParetoChart series={series} />
+            </div>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,549 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Download, Home, Plus, RotateCcw, Trash2, Upload } from "lucide-react"
+
+/**
+ * SimuLab reference dataset manager
+ *
+ * Curates the local ground-truth datasets (/api/simulab/datasets) that runs
+ * can be checked against instead of the Google Sheet: create a dataset,
+ * import CSV / XLSX / SDF / JSON files (each import is a new version),
+ * edit rows in place, restore or export any version. Invalid rows are shown
+ * with the reason they were rejected.
+ */
+
+type DatasetSummary = {
+  id: string
+  name: string
+  description?: string
+  created_at: string
+  updated_at: string
+  current_version: number
+  num_versions: number
+  num_rows: number
+  protein_targets: string[]
+}
+
+type VersionSummary = {
+  version: number
+  created_at: string
+  source: "import" | "edit" | "restore"
+  filename?: string
+  format?: string
+  restored_from?: number
+  note?: string
+  num_rows: number
+  num_issues: number
+}
+
+type RowIssue = { row: number; field: string | null; message: string }
+
+// Values are edited as text; the server parses and validates them on save
+type EditableRow = Record<string, string>
+
+const COLUMNS: { key: string; label: string; width: number }[] = [
+  { key: "scenario_id", label: "ID", width: 60 },
+  { key: "protein_target", label: "Target", width: 100 },
+  { key: "scaffold_hypothesis", label: "Scaffold", width: 140 },
+  { key: "smiles", label: "SMILES", width: 220 },
+  { key: "pdb_id", label: "PDB", width: 60 },
+  { key: "reference_binding_affinity", label: "ΔG", width: 60 },
+  { key: "reference_herg_flag", label: "hERG", width: 60 },
+  { key: "reference_sa_score", label: "SA", width: 50 },
+  { key: "reference_num_steps", label: "Steps", width: 50 },
+  { key: "target_result", label: "Result", width: 90 },
+  { key: "result_category", label: "Category", width: 100 },
+]
+
+function toEditable(row: Record<string, unknown>): EditableRow {
+  const out: EditableRow = {}
+  for (const { key } of COLUMNS) {
+    const v = row[key]
+    out[key] = v === null || v === undefined ? "" : String(v)
+  }
+  return out
+}
+
+function formatDate(iso: string) {
+  return iso.slice(0, 16).replace("T", " ")
+}
+
+function describeSource(v: VersionSummary) {
+  if (v.source === "import") return `Import${v.filename ? ` · ${v.filename}` : ""}`
+  if (v.source === "restore") return `Restore of v${v.restored_from}`
+  return "Edit"
+}
+
+const cardStyle: React.CSSProperties = {
+  border: "1px solid hsl(var(--border))",
+  borderRadius: 12,
+  background: "hsl(var(--card))",
+  padding: 20,
+  marginBottom: 20,
+}
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  padding: "8px 10px",
+  fontSize: 12,
+  fontWeight: 600,
+  color: "hsl(var(--muted-foreground))",
+  borderBottom: "1px solid hsl(var(--border))",
+  whiteSpace: "nowrap",
+}
+
+const tdStyle: React.CSSProperties = {
+  padding: "6px 10px",
+  fontSize: 13,
+  color: "hsl(var(--foreground))",
+  borderBottom: "1px solid hsl(var(--border))",
+  verticalAlign: "top",
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: 8,
+  background: "hsl(var(--card))",
+  color: "hsl(var(--foreground))",
+  fontSize: 13,
+}
+
+const buttonStyle: React.CSSProperties = {
+  display: "inline-flex",
+  alignItems: "center",
+  gap: 6,
+  padding: "6px 10px",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: 8,
+  background: "hsl(var(--card))",
+  color: "hsl(var(--foreground))",
+  fontSize: 12,
+  fontWeight: 600,
+  cursor: "pointer",
+}
+
+const primaryButtonStyle: React.CSSProperties = {
+  ...buttonStyle,
+  border: "1px solid rgba(14,95,255,0.35)",
+  background: "rgba(14,95,255,0.14)",
+  color: "#60a5fa",
+}
+
+function IssueList({ issues }: { issues: RowIssue[] }) {
+  if (issues.length === 0) return null
+  return (
+    <div style={{ marginTop: 12, maxHeight: 200, overflowY: "auto", fontSize: 12, border: "1px solid #fed7aa", borderRadius: 8, padding: 10, background: "rgba(249,115,22,0.06)" }}>
+      {issues.map((issue, idx) => (
+        <div key={idx} style={{ color: "#c2410c" }}>
+          Row {issue.row}{issue.field ? ` · ${issue.field}` : ""}: {issue.message}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default function SimuLabDatasetsPage() {
+  const [datasets, setDatasets] = useState<DatasetSummary[]>([])
+  const [loadingList, setLoadingList] = useState(true)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [dataset, setDataset] = useState<(Omit<DatasetSummary, "num_versions" | "num_rows" | "protein_targets"> & { versions: VersionSummary[] }) | null>(null)
+  const [viewVersion, setViewVersion] = useState<number | null>(null)
+  const [rows, setRows] = useState<EditableRow[]>([])
+  const [dirty, setDirty] = useState(false)
+  const [issues, setIssues] = useState<RowIssue[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const [newName, setNewName] = useState("")
+  const [newDescription, setNewDescription] = useState("")
+  const [importFile, setImportFile] = useState<File | null>(null)
+  const [importSheet, setImportSheet] = useState("")
+  const [importNote, setImportNote] = useState("")
+  const [editNote, setEditNote] = useState("")
+
+  const loadList = useCallback(() => {
+    return fetch("/api/simulab/datasets")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data?.success) throw new Error(data?.error || "Failed to load datasets")
+        setDatasets(data.datasets || [])
+      })
+      .catch((e) => setError(e?.message || "Failed to load datasets"))
+      .finally(() => setLoadingList(false))
+  }, [])
+
+  const loadDataset = useCallback((id: string, version?: number | null) => {
+    const query = version ? `?version=${version}` : ""
+    return fetch(`/api/simulab/datasets/${encodeURIComponent(id)}${query}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data?.success) throw new Error(data?.error || "Failed to load dataset")
+        setDataset(data.dataset)
+        setViewVersion(data.version)
+        setRows((data.rows || []).map(toEditable))
+        setIssues(data.issues || [])
+        setDirty(false)
+      })
+      .catch((e) => setError(e?.message || "Failed to load dataset"))
+  }, [])
+
+  useEffect(() => {
+    loadList()
+  }, [loadList])
+
+  useEffect(() => {
+    if (selectedId) loadDataset(selectedId)
+    else setDataset(null)
+  }, [selectedId, loadDataset])
+
+  const refresh = async (version?: number | null) => {
+    await loadList()
+    if (selectedId) await loadDataset(selectedId, version)
+  }
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true)
+    setError(null)
+    setNotice(null)
+    try {
+      await task()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Request failed")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const createDataset = () => run(async () => {
+    const res = await fetch("/api/simulab/datasets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: newName, description: newDescription }),
+    })
+    const data = await res.json()
+    if (!data?.success) throw new Error(data?.error || "Failed to create dataset")
+    setNewName("")
+    setNewDescription("")
+    await loadList()
+    setSelectedId(data.dataset.id)
+  })
+
+  const importIntoDataset = () => run(async () => {
+    if (!selectedId || !importFile) return
+    const form = new FormData()
+    form.append("file", importFile)
+    if (importSheet.trim()) form.append("sheet", importSheet.trim())
+    if (importNote.trim()) form.append("note", importNote.trim())
+    const res = await fetch(`/api/simulab/datasets/${encodeURIComponent(selectedId)}/import`, { method: "POST", body: form })
+    const data = await res.json()
+    if (!data?.success) {
+      setIssues(data?.issues || [])
+      throw new Error(data?.error || "Import failed")
+    }
+    setImportFile(null)
+    setImportNote("")
+    await refresh()
+    setIssues(data.issues || [])
+    setNotice(`Imported ${data.imported} of ${data.total} rows as version ${data.version.version}${data.issues?.length ? ` (${data.issues.length} issue(s), invalid rows skipped)` : ""}`)
+  })
+
+  const saveRows = () => run(async () => {
+    if (!selectedId) return
+    const res = await fetch(`/api/simulab/datasets/${encodeURIComponent(selectedId)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rows, note: editNote }),
+    })
+    const data = await res.json()
+    if (!data?.success) {
+      setIssues(data?.issues || [])
+      throw new Error(data?.error || "Save failed")
+    }
+    setEditNote("")
+    await refresh()
+    setNotice(`Saved ${rows.length} rows as version ${data.dataset.current_version}`)
+  })
+
+  const renameDataset = (name: string, description: string) => run(async () => {
+    if (!selectedId) return
+    const res = await fetch(`/api/simulab/datasets/${encodeURIComponent(selectedId)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, description }),
+    })
+    const data = await res.json()
+    if (!data?.success) throw new Error(data?.error || "Rename failed")
+    await loadList()
+  })
+
+  const restoreVersion = (version: number) => run(async () => {
+    if (!selectedId) return
+    const res = await fetch(`/api/simulab/datasets/${encodeURIComponent(selectedId)}/restore`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ version }),
+    })
+    const data = await res.json()
+    if (!data?.success) throw new Error(data?.error || "Restore failed")
+    await refresh()
+    setNotice(`Restored version ${version} as version ${data.version.version}`)
+  })
+
+  const deleteSelected = () => run(async () => {
+    if (!selectedId || !dataset) return
+    if (!window.confirm(`Delete "${dataset.name}" and all ${dataset.versions.length} versions?`)) return
+    const res = await fetch(`/api/simulab/datasets/${encodeURIComponent(selectedId)}`, { method: "DELETE" })
+    const data = await res.json()
+    if (!data?.success) throw new Error(data?.error || "Delete failed")
+    setSelectedId(null)
+    await loadList()
+  })
+
+  const updateCell = (rowIdx: number, key: string, value: string) => {
+    setRows((prev) => prev.map((r, idx) => (idx === rowIdx ? { ...r, [key]: value } : r)))
+    setDirty(true)
+  }
+
+  const isCurrent = dataset !== null && viewVersion === dataset.current_version
+
+  return (
+    <div style={{ minHeight: "100vh", background: "hsl(var(--background))", padding: "32px 24px" }}>
+      <div style={{ maxWidth: 1200, margin: "0 auto" }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 24 }}>
+          <button
+            onClick={() => { window.location.href = "/simulab" }}
+            title="Back to SimuLab"
+            style={{ display: "flex", alignItems: "center", gap: 6, padding: "6px 10px", border: "1px solid hsl(var(--border))", borderRadius: 8, background: "hsl(var(--card))", cursor: "pointer" }}
+          >
+            <Home size={16} color="hsl(var(--muted-foreground))" />
+          </button>
+          <h2 style={{ fontSize: 20, fontWeight: 700, color: "hsl(var(--foreground))", margin: 0, letterSpacing: "-0.01em" }}>
+            Reference Datasets
+          </h2>
+        </div>
+
+        {error && (
+          <div style={{ ...cardStyle, borderColor: "#fecaca", background: "#fef2f2", color: "#b91c1c", padding: 12, fontSize: 13 }}>
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div style={{ ...cardStyle, borderColor: "#bbf7d0", background: "#f0fdf4", color: "#15803d", padding: 12, fontSize: 13 }}>
+            {notice}
+          </div>
+        )}
+
+        {/* Dataset list + create */}
+        <div style={cardStyle}>
+          <h3 style={{ fontSize: 14, fontWeight: 600, color: "hsl(var(--foreground))", margin: "0 0 12px" }}>
+            Datasets
+          </h3>
+          {loadingList ? (
+            <div style={{ fontSize: 13, color: "hsl(var(--muted-foreground))" }}>Loading datasets...</div>
+          ) : datasets.length === 0 ? (
+            <div style={{ fontSize: 13, color: "hsl(var(--muted-foreground))" }}>No local datasets yet. Runs use the Google Sheet until you create one.</div>
+          ) : (
+            <div style={{ display: "grid", gap: 6 }}>
+              {datasets.map((d) => (
+                <label key={d.id} style={{ display: "flex", alignItems: "center", gap: 10, fontSize: 13, color: "hsl(var(--foreground))", cursor: "pointer" }}>
+                  <input type="radio" name="dataset" checked={selectedId === d.id} onChange={() => setSelectedId(d.id)} />
+                  <span style={{ fontWeight: 600 }}>{d.name}</span>
+                  <span style={{ color: "hsl(var(--muted-foreground))" }}>
+                    v{d.current_version} · {d.num_rows} rows · {d.protein_targets.join(", ") || "no targets"} · updated {formatDate(d.updated_at)}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+          <div style={{ display: "flex", gap: 8, marginTop: 16, flexWrap: "wrap" }}>
+            <input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New dataset name" style={{ ...inputStyle, minWidth: 200 }} />
+            <input value={newDescription} onChange={(e) => setNewDescription(e.target.value)} placeholder="Description (optional)" style={{ ...inputStyle, flex: 1, minWidth: 200 }} />
+            <button onClick={createDataset} disabled={busy} style={primaryButtonStyle}>
+              <Plus size={14} /> Create
+            </button>
+          </div>
+        </div>
+
+        {dataset && (
+          <>
+            {/* Details */}
+            <div style={cardStyle}>
+              <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                <input
+                  key={`name-${dataset.id}`}
+                  defaultValue={dataset.name}
+                  onBlur={(e) => { if (e.target.value.trim() && e.target.value !== dataset.name) renameDataset(e.target.value, dataset.description || "") }}
+                  style={{ ...inputStyle, fontWeight: 600, minWidth: 220 }}
+                />
+                <input
+                  key={`desc-${dataset.id}`}
+                  defaultValue={dataset.description || ""}
+                  placeholder="Description"
+                  onBlur={(e) => { if (e.target.value !== (dataset.description || "")) renameDataset(dataset.name, e.target.value) }}
+                  style={{ ...inputStyle, flex: 1, minWidth: 220 }}
+                />
+                <button onClick={deleteSelected} disabled={busy} style={{ ...buttonStyle, color: "#ef4444" }}>
+                  <Trash2 size={14} /> Delete
+                </button>
+              </div>
+              <div style={{ fontSize: 11, color: "hsl(var(--muted-foreground))", marginTop: 8 }}>
+                Id {dataset.id} · select it as the reference data when starting a run
+              </div>
+            </div>
+
+            {/* Import */}
+            <div style={cardStyle}>
+              <h3 style={{ fontSize: 14, fontWeight: 600, color: "hsl(var(--foreground))", margin: "0 0 12px" }}>
+                Import file
+              </h3>
+              <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.xlsx,.sdf,.sd,.json"
+                  onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+                  style={{ fontSize: 13, color: "hsl(var(--foreground))" }}
+                />
+                {importFile?.name.toLowerCase().endsWith(".xlsx") && (
+                  <input value={importSheet} onChange={(e) => setImportSheet(e.target.value)} placeholder="Worksheet (first by default)" style={inputStyle} />
+                )}
+                <input value={importNote} onChange={(e) => setImportNote(e.target.value)} placeholder="Note (optional)" style={{ ...inputStyle, flex: 1, minWidth: 160 }} />
+                <button onClick={importIntoDataset} disabled={busy || !importFile} style={primaryButtonStyle}>
+                  <Upload size={14} /> Import as new version
+                </button>
+              </div>
+              <div style={{ fontSize: 11, color: "hsl(var(--muted-foreground))", marginTop: 8 }}>
+                CSV, XLSX, SDF or JSON. Columns match by field name or sheet-style headers (Protein, SMILES, Affinity, hERG, SA Score, Steps, Result).
+                SD files read SMILES from a SMILES data item, otherwise from the molblock.
+              </div>
+            </div>
+
+            {/* Versions */}
+            <div style={{ ...cardStyle, overflowX: "auto" }}>
+              <h3 style={{ fontSize: 14, fontWeight: 600, color: "hsl(var(--foreground))", margin: "0 0 12px" }}>
+                Versions
+              </h3>
+              {dataset.versions.length === 0 ? (
+                <div style={{ fontSize: 13, color: "hsl(var(--muted-foreground))" }}>No versions yet. Import a file to add rows.</div>
+              ) : (
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr>
+                      <th style={thStyle}>Version</th>
+                      <th style={thStyle}>Created</th>
+                      <th style={thStyle}>Source</th>
+                      <th style={thStyle}>Rows</th>
+                      <th style={thStyle}>Rejected</th>
+                      <th style={thStyle}>Note</th>
+                      <th style={thStyle}></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...dataset.versions].reverse().map((v) => (
+                      <tr key={v.version} style={{ background: v.version === viewVersion ? "rgba(14,95,255,0.06)" : undefined }}>
+                        <td style={{ ...tdStyle, fontWeight: 600 }}>
+                          v{v.version}
+                          {v.version === dataset.current_version && <span style={{ marginLeft: 6, fontSize: 11, color: "#16a34a" }}>current</span>}
+                        </td>
+                        <td style={tdStyle}>{formatDate(v.created_at)}</td>
+                        <td style={tdStyle}>{describeSource(v)}</td>
+                        <td style={tdStyle}>{v.num_rows}</td>
+                        <td style={{ ...tdStyle, color: v.num_issues > 0 ? "#f97316" : undefined }}>{v.num_issues}</td>
+                        <td style={tdStyle}>{v.note || "—"}</td>
+                        <td style={{ ...tdStyle, whiteSpace: "nowrap" }}>
+                          <div style={{ display: "flex", gap: 6 }}>
+                            <button onClick={() => loadDataset(dataset.id, v.version)} disabled={v.version === viewVersion} style={buttonStyle}>View</button>
+                            {(["csv", "sdf", "json"] as const).map((format) => (
+                              <a
+                                key={format}
+                                href={`/api/simulab/datasets/${encodeURIComponent(dataset.id)}/export?format=${format}&version=${v.version}`}
+                                style={{ ...buttonStyle, textDecoration: "none" }}
+                              >
+                                <Download size={12} /> {format.toUpperCase()}
+                              </a>
+                            ))}
+                            {v.version !== dataset.current_version && (
+                              <button onClick={() => restoreVersion(v.version)} disabled={busy} style={buttonStyle}>
+                                <RotateCcw size={12} /> Restore
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Rows */}
+            {viewVersion !== null && (
+              <div style={{ ...cardStyle, overflowX: "auto" }}>
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12, flexWrap: "wrap" }}>
+                  <h3 style={{ fontSize: 14, fontWeight: 600, color: "hsl(var(--foreground))", margin: 0 }}>
+                    Rows · v{viewVersion} {isCurrent ? "" : "(read-only, restore to edit)"}
+                  </h3>
+                  {isCurrent && (
+                    <>
+                      <button
+                        onClick={() => { setRows((prev) => [...prev, toEditable({ protein_target: prev[prev.length - 1]?.protein_target })]); setDirty(true) }}
+                        style={{ ...buttonStyle, marginLeft: "auto" }}
+                      >
+                        <Plus size={12} /> Add row
+                      </button>
+                      <input value={editNote} onChange={(e) => setEditNote(e.target.value)} placeholder="Change note (optional)" style={inputStyle} />
+                      <button onClick={saveRows} disabled={busy || !dirty} style={primaryButtonStyle}>
+                        Save as new version
+                      </button>
+                    </>
+                  )}
+                </div>
+                <IssueList issues={issues} />
+                <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 12 }}>
+                  <thead>
+                    <tr>
+                      {COLUMNS.map((c) => <th key={c.key} style={thStyle}>{c.label}</th>)}
+                      {isCurrent && <th style={thStyle}></th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row, rowIdx) => (
+                      <tr key={rowIdx}>
+                        {COLUMNS.map((c) => (
+                          <td key={c.key} style={tdStyle}>
+                            {isCurrent ? (
+                              <input
+                                value={row[c.key]}
+                                onChange={(e) => updateCell(rowIdx, c.key, e.target.value)}
+                                style={{ ...inputStyle, width: c.width, padding: "4px 6px", fontSize: 12, fontFamily: c.key === "smiles" ? "monospace" : undefined }}
+                              />
+                            ) : (
+                              <span style={{ fontSize: 12, fontFamily: c.key === "smiles" ? "monospace" : undefined, wordBreak: "break-all" }}>{row[c.key] || "—"}</span>
+                            )}
+                          </td>
+                        ))}
+                        {isCurrent && (
+                          <td style={tdStyle}>
+                            <button
+                              onClick={() => { setRows((prev) => prev.filter((_, idx) => idx !== rowIdx)); setDirty(true) }}
+                              title="Remove row"
+                              style={{ ...buttonStyle, padding: "4px 6px" }}
+                            >
+                              <Trash2 size={12} color="#ef4444" />
+                            </button>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,9 +3,34 @@
 import { useState, useEffect, useMemo, useRef } from "react"
 import { motion, AnimatePresence } from "framer-motion"
 import { FlaskConical, Shield, DollarSign, Trophy, Filter, FileDown, RefreshCcw, ArrowRight, Home, RefreshCw, CheckCircle, XCircle, X } from "lucide-react"
+import { ParetoChart, formatScenarioLabel } from "@/components/simulab/ParetoChart"
+import { RunCostPanel } from "@/components/simulab/RunCostPanel"
+import { AGENTS, listAgents } from "@/lib/agent-registry"
+import { validateSmiles, formatSmilesError } from "@/lib/smiles"
+import { simulateLocally, LocalMetrics } from "@/lib/descriptors"
+import { scoreCandidates, evaluateVetoes, resolveCriteria, formatRejectionReason, DEFAULT_STRATEGY, SCORING_STRATEGIES, OBJECTIVES, ScoringStrategy } from "@/lib/scoring"
+import { DEFAULT_FILTER_MODES, FILTERS, FILTER_MODES, FilterId, FilterMode } from "@/lib/filters"
+import { describeProvenance, uniformProvenance, MetricOrigin, MetricProvenance, MetricProvenanceMap } from "@/lib/provenance"
+import { fetchWithStages, StageEvent } from "@/lib/stage-events"
+import type { PipelineJob } from "@/lib/pipeline-store"
 // Design change tracing is done via API route: /api/simulab/trace-design-change
 
 
+// Lines of the generate-metrics batch stream (`batch: true`); "done" carries the usual response body
+// Poll interval while following a server-side pipeline job
+const PIPELINE_POLL_MS = 1500
+
+// Progress-list reporter for streamed route stages; consecutive job-progress updates replace each other
+function stageReporter(setProgress: (update: (prev: string[]) => string[]) => void) {
+  let lastWasProgress = false
+  return (event: StageEvent) => {
+    const line = event.progress != null ? `${event.message} (${Math.round(event.progress)}%)` : event.message
+    const replace = lastWasProgress && event.stage === "agent_progress"
+    lastWasProgress = event.stage === "agent_progress"
+    setProgress(prev => replace ? [...prev.slice(0, -1), line] : [...prev, line])
+  }
+}
+
 // Animation presets available module-wide
 const fadeInUp = { initial: { opacity: 0, y: 8 }, animate: { opacity: 1, y: 0 } }
 const fadeInRight = { initial: { opacity: 0, x: 10 }, animate: { opacity: 1, x: 0 } }
@@ -512,6 +537,7 @@ type DecisionCriteria = {
     idealMin: number
     idealMax: number
     hardFailHERG: boolean
+    filters: Record<FilterId, FilterMode>
   }
   synthesis: {
     idealSaMax: number
@@ -519,6 +545,9 @@ type DecisionCriteria = {
     hardFailSa: number
     hardFailSteps: number
   }
+  scoring: {
+    strategy: ScoringStrategy
+  }
 }
 
 export default function SimuLabUI() {
@@ -526,6 +555,11 @@ export default function SimuLabUI() {
   const [seedMolecule, setSeedMolecule] = useState("CC1=CC=CC=C1")
   const [numScenarios, setNumScenarios] = useState(3)
   const [taskId, setTaskId] = useState<string | null>(null)
+  // Server-side experiment record (see /api/simulab/experiments)
+  const [experimentId, setExperimentId] = useState<string | null>(null)
+  // Local reference dataset for DB cross-checks (see /simulab/datasets); null = Google Sheet
+  const [referenceDataset, setReferenceDataset] = useState<string | null>(null)
+  const [referenceDatasets, setReferenceDatasets] = useState<{ id: string; name: string; num_rows: number }[]>([])
   const [uiStage, setUiStage] = useState<"prompt" | "constraints" | "designing" | "review" | "generating" | "report">("prompt")
   const [nlPrompt, setNlPrompt] = useState<string>("")
   const [constraintsText, setConstraintsText] = useState<string>("")
@@ -560,6 +594,14 @@ export default function SimuLabUI() {
   const [editConstraints, setEditConstraints] = useState<string[]>([])
   const [editScenarios, setEditScenarios] = useState<any[]>([])
   const [editReason, setEditReason] = useState<string>("")
+  // Local SMILES check for scenarios typed or changed in the editor
+  const editSmilesErrors = useMemo(() => editScenarios.map((s) => {
+    const smiles = (s.smiles || "").trim()
+    const original = (refined?.scenarios || []).find((o: any) => o.scenario_id === s.scenario_id)
+    if (!smiles || (original && (original.smiles || "").trim() === smiles)) return null
+    return validateSmiles(smiles).errors[0] || null
+  }), [editScenarios, refined])
+  const hasEditSmilesErrors = editSmilesErrors.some(Boolean)
   // section refs for smooth navigation
   const refs = {
     phase1: (typeof window !== "undefined" ? document.getElementById("simulab-phase1") : null) as any,
@@ -607,9 +649,14 @@ export default function SimuLabUI() {
   // New states for step-by-step flow
   const [designingExperiment, setDesigningExperiment] = useState<boolean>(false)
   const [designProgress, setDesignProgress] = useState<string[]>([])
+  // Server-side pipeline job behind the current report generation (see /api/simulab/pipeline)
+  const [pipelineJobId, setPipelineJobId] = useState<string | null>(null)
+  const [pipelineResumable, setPipelineResumable] = useState<boolean>(false)
   const [generationProgress, setGenerationProgress] = useState<{
     currentStep: string;
     scenarioStatuses: Record<string, "pending" | "running" | "complete" | "error">;
+    // Response cache outcome per scenario ("hit" = metrics served from cache)
+    scenarioCache?: Record<string, string>;
     completedScenarios: number;
     totalScenarios: number;
     judgeStatus: "pending" | "running" | "complete";
@@ -630,6 +677,7 @@ export default function SimuLabUI() {
       idealMin: 0,
       idealMax: 0.3,
       hardFailHERG: true,
+      filters: { ...DEFAULT_FILTER_MODES },
     },
     synthesis: {
       idealSaMax: 4,
@@ -637,6 +685,9 @@ export default function SimuLabUI() {
       hardFailSa: 6,
       hardFailSteps: 7,
     },
+    scoring: {
+      strategy: DEFAULT_STRATEGY,
+    },
   }
   const [decisionCriteria, setDecisionCriteria] = useState<DecisionCriteria>(DEFAULT_DECISION_CRITERIA)
   const handleGoHome = () => {
@@ -689,6 +740,7 @@ export default function SimuLabUI() {
         body: JSON.stringify({
           structuredReport: structuredReport,
           editInstruction: userMessage,
+          experiment_id: experimentId,
           context: {
             protein_target: proteinTarget,
             goal: refined?.goal || nlPrompt,
@@ -858,10 +910,13 @@ export default function SimuLabUI() {
       if (s?.scenario_id) ids.add(s.scenario_id)
     })
     ids.forEach((sid) => {
+      // Missing fields are filled from local descriptors when the scenario has a SMILES
+      const smiles = (scenarios || []).find((s: any) => s?.scenario_id === sid)?.smiles
+      const local = smiles ? simulateLocally(smiles)?.metrics : undefined
       normalized[sid] = {
-        docking: normalizeDockingMetrics(sid, scenarioMetrics?.[sid]?.docking),
-        admet: normalizeAdmetMetrics(sid, scenarioMetrics?.[sid]?.admet),
-        synthesis: normalizeSynthesisMetrics(sid, scenarioMetrics?.[sid]?.synthesis),
+        docking: normalizeDockingMetrics(sid, scenarioMetrics?.[sid]?.docking, local),
+        admet: normalizeAdmetMetrics(sid, scenarioMetrics?.[sid]?.admet, local),
+        synthesis: normalizeSynthesisMetrics(sid, scenarioMetrics?.[sid]?.synthesis, local),
       }
     })
     return normalized
@@ -953,6 +1008,77 @@ export default function SimuLabUI() {
     } catch {}
   }, [taskId, feedback])
 
+  useEffect(() => {
+    fetch("/api/simulab/datasets")
+      .then((res) => res.json())
+      .then((data) => { if (data?.success) setReferenceDatasets(data.datasets || []) })
+      .catch((err) => console.warn("[SimuLab] Failed to load reference datasets:", err))
+  }, [])
+
+  // Reattach to a pipeline job started before a reload (?pipeline=<id>, or the last job started here)
+  useEffect(() => {
+    const jobId = new URLSearchParams(window.location.search).get("pipeline") || localStorage.getItem(LS_PIPELINE_JOB_KEY)
+    if (!jobId) return
+    fetch(`/api/simulab/pipeline/${encodeURIComponent(jobId)}`)
+      .then((res) => res.json())
+      .then((data) => {
+        const job: PipelineJob | undefined = data?.job
+        if (!job) {
+          localStorage.removeItem(LS_PIPELINE_JOB_KEY)
+          return
+        }
+        const design = job.checkpoints.design || job.input.design
+        if (design) setRefined(design)
+        if (job.input.prompt) setNlPrompt(job.input.prompt)
+        if (job.input.constraints) setConstraintsText(job.input.constraints)
+        if (job.input.protein_target) setProteinTarget(job.input.protein_target)
+        if (job.input.decision_criteria) setDecisionCriteria(job.input.decision_criteria as unknown as DecisionCriteria)
+        setReferenceDataset(job.input.reference_dataset ?? null)
+        if (job.input.experiment_id) setExperimentId(job.input.experiment_id)
+
+        const statuses = job.scenario_statuses
+        setGenerationProgress({
+          currentStep: job.message || "Reattaching to the pipeline job...",
+          scenarioStatuses: statuses,
+          scenarioCache: job.scenario_cache,
+          completedScenarios: Object.values(statuses).filter(status => status === "complete").length,
+          totalScenarios: Object.keys(statuses).length || ((design?.scenarios as unknown[] | undefined) || []).length,
+          judgeStatus: "pending",
+        })
+        setUiStage("generating")
+        return followPipeline(jobId)
+      })
+      .catch((err) => reportGenerationError(err))
+  }, [])
+
+  // Persist the run to the experiment store (debounced so slider drags don't flood it)
+  useEffect(() => {
+    if (!experimentId) return
+    const timeoutId = setTimeout(() => {
+      fetch(`/api/simulab/experiments/${encodeURIComponent(experimentId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          task_id: taskId,
+          protein_target: proteinTarget,
+          goal: refined?.goal || nlPrompt,
+          constraints: refined?.constraints || [],
+          design: refined,
+          criteria: decisionCriteria,
+          reference_dataset: referenceDataset,
+          scenarios: refined?.scenarios || [],
+          metrics: scenarioMetrics,
+          winners: winners || [],
+          rejected: rejected || [],
+          verdict: structuredReport,
+          edits: editAuditLog,
+          feedback,
+        }),
+      }).catch((err) => console.warn("[SimuLab] Failed to save experiment:", err))
+    }, 800)
+    return () => clearTimeout(timeoutId)
+  }, [experimentId, taskId, proteinTarget, refined, nlPrompt, decisionCriteria, referenceDataset, scenarioMetrics, winners, rejected, structuredReport, editAuditLog, feedback])
+
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (uiStage === "prompt") {
@@ -969,29 +1095,39 @@ export default function SimuLabUI() {
       // Mark Orchestrator as running in the events
       setExtraEvents((prev: any[]) => [
         ...prev,
-        { type: "agent_run", agent: "simulab-orchestrator", input: { prompt: nlPrompt, constraints: constraintsText?.trim() || null } },
+        { type: "agent_run", agent: AGENTS.ORCHESTRATOR, input: { prompt: nlPrompt, constraints: constraintsText?.trim() || null } },
       ])
       
-      const payload = { prompt: nlPrompt, constraints: constraintsText?.trim() || "" }
+      const payload = { prompt: nlPrompt, constraints: constraintsText?.trim() || "", reference_dataset: referenceDataset }
       try {
-        // Simulate step-by-step progress
-        await new Promise(r => setTimeout(r, 400))
-        setDesignProgress(prev => [...prev, "Analyzing research goal..."])
-        
-        await new Promise(r => setTimeout(r, 400))
-        setDesignProgress(prev => [...prev, "Identifying protein target and binding sites..."])
-        
-        const res = await fetch("/api/simulab/refine", {
+        // Progress lines are the Orchestrator's real stages
+        const res = await fetchWithStages("/api/simulab/refine", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify(payload),
-        })
+        }, stageReporter(setDesignProgress))
         const data = await res.json()
         
-        setDesignProgress(prev => [...prev, "Generating molecular scaffold hypotheses..."])
-        await new Promise(r => setTimeout(r, 300))
-        
         setRefined(data)
+        // Start a new experiment record for this design; later state is saved by the autosave effect
+        fetch("/api/simulab/experiments", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            protein_target: data?.protein_target || proteinTarget,
+            goal: data?.goal || nlPrompt,
+            constraints: data?.constraints || [],
+            design: data,
+            criteria: decisionCriteria,
+            reference_dataset: referenceDataset,
+            scenarios: data?.scenarios || [],
+            // The design was made before the record existed, so its calls come back unrecorded
+            usage: data?.usage?.entries || [],
+          }),
+        })
+          .then((r) => r.json())
+          .then((saved) => { if (saved?.experiment?.id) setExperimentId(saved.experiment.id) })
+          .catch((err) => console.warn("[SimuLab] Failed to create experiment:", err))
         // Track data source and confidence from API response
         if (data?.data_source) setDataSource(data.data_source === "database" ? "llm_validated" : "llm")
         if (data?.confidence) setDataConfidence(data.confidence)
@@ -1004,14 +1140,13 @@ export default function SimuLabUI() {
           }))
           setExtraEvents((prev: any[]) => [
             ...prev,
-            { type: "agent_result", agent: "simulab-orchestrator", output: { goal: data?.goal, constraints: data?.constraints, scenarios: proposed.length, model_used: data?.model_used, data_source: data?.data_source } },
+            { type: "agent_result", agent: AGENTS.ORCHESTRATOR, output: { goal: data?.goal, constraints: data?.constraints, scenarios: proposed.length, model_used: data?.model_used, data_source: data?.data_source } },
             { type: "simulation_scenarios", protein_target: data.protein_target || "", scenarios: proposed },
           ])
           setDesignProgress(prev => [...prev, `✓ Created ${proposed.length} molecular scenarios`])
         }
         if (typeof data?.suggested_num_scenarios === "number") setNumScenarios(data.suggested_num_scenarios)
         
-        await new Promise(r => setTimeout(r, 500))
         setDesignProgress(prev => [...prev, "✓ Experiment design complete!"])
         await new Promise(r => setTimeout(r, 300))
         
@@ -1167,238 +1302,149 @@ export default function SimuLabUI() {
       judgeStatus: "pending",
     })
 
-    try {
-      // Step 1: Initialize
-      await new Promise(r => setTimeout(r, 500))
-      setGenerationProgress(prev => prev ? {
-        ...prev,
-        currentStep: "Connecting to Simulator Agent...",
-      } : null)
-
-      // Push Simulator agent_run event
-      setExtraEvents(prev => [
-        ...prev,
-        { type: "agent_run", agent: "simulab-simulator", input: { scenarios: numScen, protein_target: proteinTarget } },
-        { type: "dispatch_started" },
-      ])
+    // Push Simulator agent_run event
+    setExtraEvents(prev => [
+      ...prev,
+      { type: "agent_run", agent: AGENTS.SIMULATOR, input: { scenarios: numScen, protein_target: proteinTarget } },
+      { type: "dispatch_started" },
+    ])
 
-      // Step 2: Start parallel LLM calls for each scenario
-      await new Promise(r => setTimeout(r, 500))
-      
-      // Mark all scenarios as running (parallel)
-      setGenerationProgress(prev => {
-        if (!prev) return null
-        const newStatuses = { ...prev.scenarioStatuses }
-        Object.keys(newStatuses).forEach(k => { newStatuses[k] = "running" })
-        return {
-          ...prev,
-          currentStep: `Running ${numScen} parallel LLM evaluations...`,
-          scenarioStatuses: newStatuses,
-        }
-      })
-
-      // Simulate random completion of scenarios for visual effect
-      // Some scenarios complete at the same time to show parallel execution
-      const scenarioIds = Object.keys(initialStatuses)
-      
-      // Group scenarios into batches - some complete together (parallel), some alone
-      const createRandomBatches = (ids: string[]) => {
-        const shuffled = [...ids].sort(() => Math.random() - 0.5)
-        const batches: string[][] = []
-        let i = 0
-        while (i < shuffled.length) {
-          // Randomly decide batch size: 1 (solo) or 2 (parallel pair)
-          // Higher chance of parallel completion (60% chance of pair if possible)
-          const canPair = i + 1 < shuffled.length
-          const doPair = canPair && Math.random() < 0.6
-          if (doPair) {
-            batches.push([shuffled[i], shuffled[i + 1]])
-            i += 2
-          } else {
-            batches.push([shuffled[i]])
-            i += 1
-          }
-        }
-        return batches
-      }
-      
-      const scenarioBatches = createRandomBatches(scenarioIds)
-      
-      // Start random completion simulation in background
-      const randomCompletionPromise = (async () => {
-        let completedCount = 0
-        for (const batch of scenarioBatches) {
-          // Random delay between 600ms and 2000ms before this batch completes
-          const delay = 600 + Math.random() * 1400
-          await new Promise(r => setTimeout(r, delay))
-          
-          // Complete all scenarios in this batch simultaneously
-          completedCount += batch.length
-          setGenerationProgress(prev => {
-            if (!prev) return null
-            const newStatuses = { ...prev.scenarioStatuses }
-            batch.forEach(scenarioId => {
-              newStatuses[scenarioId] = "complete"
-            })
-            return {
-              ...prev,
-              currentStep: completedCount < numScen 
-                ? `Evaluating scenarios... (${completedCount}/${numScen} complete)`
-                : `All scenarios evaluated. Sending to Judge Agent...`,
-              scenarioStatuses: newStatuses,
-              completedScenarios: completedCount,
-            }
-          })
-        }
-      })()
-
-      // Call the generate-metrics API
-      const metricsPayload = {
-        scenarios: currentScenarios.map((s: any, idx: number) => ({
-          scenario_id: s.scenario_id || `scenario_${idx + 1}`,
-          scaffold: s.scaffold || s.name || `Scenario ${idx + 1}`,
-          smiles: s.smiles || "",
-        })),
-        protein_target: proteinTarget,
-        goal: refined?.goal || nlPrompt,
-        constraints: refined?.constraints || [],
-        decision_criteria: decisionCriteria,
-      }
-
-      console.log("[SimuLab] Calling generate-metrics:", metricsPayload)
-      
-      const metricsRes = await fetch("/api/simulab/generate-metrics", {
+    try {
+      // Metrics, verdict and report run server-side as one job, so a reload can reattach to it
+      const res = await fetch("/api/simulab/pipeline", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(metricsPayload),
-      })
-
-      if (!metricsRes.ok) {
-        throw new Error(`Metrics generation failed: ${metricsRes.status}`)
-      }
-
-      const metricsData = await metricsRes.json()
-      console.log("[SimuLab] Metrics generated:", metricsData)
-
-      // Wait for the random completion animation to finish
-      await randomCompletionPromise
-
-      // Update progress - all scenarios complete, move to Judge
-      const completedStatuses: Record<string, "pending" | "running" | "complete" | "error"> = {}
-      metricsData.results?.forEach((r: any) => {
-        completedStatuses[r.scenario_id] = "complete"
-      })
-
-      // Small delay before moving to Judge for visual clarity
-      await new Promise(r => setTimeout(r, 600))
-
-      setGenerationProgress(prev => prev ? {
-        ...prev,
-        currentStep: "All scenarios evaluated. Sending to Judge Agent...",
-        scenarioStatuses: completedStatuses,
-        completedScenarios: metricsData.results?.length || 0,
-        judgeStatus: "running",
-      } : null)
-
-      // Process results and determine winners/rejected
-      const newWinners: any[] = []
-      const newRejected: any[] = []
-      const newMetrics: Record<string, any> = {}
-
-      metricsData.results?.forEach((r: any) => {
-        newMetrics[r.scenario_id] = r.metrics
-        if (r.is_winner) {
-          newWinners.push({ scenario_id: r.scenario_id, smiles: r.smiles, scaffold: r.scaffold })
-        } else {
-          newRejected.push({ scenario_id: r.scenario_id, smiles: r.smiles, scaffold: r.scaffold, veto_reason: r.rejection_reason })
-        }
+        body: JSON.stringify({
+          prompt: nlPrompt,
+          constraints: constraintsText?.trim() || "",
+          protein_target: proteinTarget,
+          reference_dataset: referenceDataset,
+          decision_criteria: decisionCriteria,
+          design: refined,
+          experiment_id: experimentId,
+        }),
       })
+      const data = await res.json().catch(() => null)
+      if (!res.ok || !data?.job?.id) throw new Error(data?.error || `Pipeline failed to start: ${res.status}`)
+      await followPipeline(data.job.id)
+    } catch (err: any) {
+      reportGenerationError(err)
+    }
+  }
 
-      setScenarioMetrics(newMetrics)
-      setWinners(newWinners)
-      setRejected(newRejected)
-      setMetricsAggregated(true)
+  const reportGenerationError = (err: any) => {
+    console.error("[SimuLab] Error generating report:", err)
+    setError(err?.message || "Failed to generate report")
+    setGenerationProgress(prev => prev ? {
+      ...prev,
+      currentStep: `Error: ${err?.message || "Generation failed"}`,
+    } : null)
+  }
 
-      // Push Simulator agent_result and metrics_aggregated events
-      setExtraEvents(prev => [
-        ...prev,
-        { type: "agent_result", agent: "simulab-simulator", output: { scenarios: metricsData.results?.length || 0, llm_calls: metricsData.results?.length || 0 } },
-        { type: "metrics_aggregated", scenarios: metricsData.results || [] },
-      ])
+  // Follow a pipeline job until it finishes, mirroring its checkpoints into the report state
+  const followPipeline = async (jobId: string) => {
+    setPipelineJobId(jobId)
+    setPipelineResumable(false)
+    localStorage.setItem(LS_PIPELINE_JOB_KEY, jobId)
+    let metricsApplied = false
+
+    for (;;) {
+      const res = await fetch(`/api/simulab/pipeline/${encodeURIComponent(jobId)}`)
+      const data = await res.json().catch(() => null)
+      if (!res.ok || !data?.job) throw new Error(data?.error || `Pipeline status failed: ${res.status}`)
+      const job: PipelineJob = data.job
+      const { metrics, winners: jobWinners = [], rejected: jobRejected = [], verdict } = job.checkpoints
+      const statuses = job.scenario_statuses
+      const verdictStatus = job.steps.verdict.status
 
-      // Step 3: Call Judge Agent (LLM reasoning)
-      await new Promise(r => setTimeout(r, 500))
-      
-      // Push Judge agent_run event
-      setExtraEvents(prev => [
-        ...prev,
-        { type: "agent_run", agent: "simulab-judge", input: { winners: newWinners.length, rejected: newRejected.length } },
-      ])
-      
       setGenerationProgress(prev => prev ? {
         ...prev,
-        currentStep: "Judge Agent analyzing results...",
+        currentStep: job.message || prev.currentStep,
+        scenarioStatuses: Object.keys(statuses).length ? statuses : prev.scenarioStatuses,
+        scenarioCache: job.scenario_cache || prev.scenarioCache,
+        completedScenarios: Object.values(statuses).filter(status => status === "complete").length,
+        totalScenarios: Object.keys(statuses).length || prev.totalScenarios,
+        judgeStatus: verdictStatus === "done" ? "complete" : verdictStatus === "running" ? "running" : "pending",
       } : null)
 
-      // Call reason API for final report
-      const reasonPayload = {
-        winners: newWinners,
-        rejected: newRejected,
-        scenarios: currentScenarios,
-        scenarioMetrics: newMetrics,
-        context: {
-          protein_target: proteinTarget,
-          goal: refined?.goal || nlPrompt,
-          constraints: refined?.constraints || [],
-          decision_criteria: decisionCriteria,
-        },
-        decisionCriteria,
+      if (metrics && !metricsApplied) {
+        metricsApplied = true
+        const results = (metrics.results as any[] | undefined) || []
+        const newMetrics: Record<string, any> = {}
+        results.forEach((r: any) => {
+          newMetrics[r.scenario_id] = withProvenance(r.metrics, r.provenance)
+        })
+        setScenarioMetrics(newMetrics)
+        setWinners(jobWinners)
+        setRejected(jobRejected)
+        setMetricsAggregated(true)
+        setExtraEvents(prev => [
+          ...prev,
+          { type: "agent_result", agent: AGENTS.SIMULATOR, output: { scenarios: results.length, llm_calls: results.length } },
+          { type: "metrics_aggregated", scenarios: results },
+          { type: "agent_run", agent: AGENTS.JUDGE, input: { winners: jobWinners.length, rejected: jobRejected.length } },
+        ])
       }
 
-      const reasonRes = await fetch("/api/simulab/reason", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(reasonPayload),
-      })
-
-      if (reasonRes.ok) {
-        const reasonData = await reasonRes.json()
-        if (reasonData?.reason) setLlmReason(reasonData.reason)
-        if (reasonData?.structured) {
-          setStructuredReport(reasonData.structured)
+      if (job.status === "completed") {
+        if (typeof verdict?.reason === "string") setLlmReason(verdict.reason)
+        if (verdict?.structured) {
+          setStructuredReport(verdict.structured)
           // Reset audit log for fresh report
           setEditAuditLog([])
           // SAVE the original report so user can revert after edits
-          setOriginalReport(JSON.parse(JSON.stringify(reasonData.structured)))
+          setOriginalReport(JSON.parse(JSON.stringify(verdict.structured)))
           setEditChatHistory([])
         }
+        if (job.checkpoints.experiment_id) setExperimentId(job.checkpoints.experiment_id)
+
+        // Push Judge agent_result and judgement_complete events
+        setExtraEvents(prev => [
+          ...prev,
+          { type: "agent_result", agent: AGENTS.JUDGE, output: { winners: jobWinners.length, rejected: jobRejected.length } },
+          { type: "judgement_complete", winners: jobWinners, rejected: jobRejected },
+        ])
+
+        localStorage.removeItem(LS_PIPELINE_JOB_KEY)
+        setPipelineJobId(null)
+        setGenerationProgress(prev => prev ? {
+          ...prev,
+          currentStep: "✓ Report generation complete!",
+          judgeStatus: "complete",
+        } : null)
+
+        await new Promise(r => setTimeout(r, 500))
+        setUiStage("report")
+        setReportLaunched(true)
+        return
       }
 
-      // Push Judge agent_result and judgement_complete events
-      setExtraEvents(prev => [
-        ...prev,
-        { type: "agent_result", agent: "simulab-judge", output: { winners: newWinners.length, rejected: newRejected.length } },
-        { type: "judgement_complete", winners: newWinners, rejected: newRejected },
-      ])
+      if (job.status === "failed" || job.status === "cancelled" || job.status === "interrupted") {
+        setPipelineResumable(true)
+        throw new Error(job.error || (job.status === "interrupted" ? "Pipeline interrupted (the server stopped)" : `Pipeline ${job.status}`))
+      }
 
-      // Complete
-      setGenerationProgress(prev => prev ? {
-        ...prev,
-        currentStep: "✓ Report generation complete!",
-        judgeStatus: "complete",
-      } : null)
+      await new Promise(r => setTimeout(r, PIPELINE_POLL_MS))
+    }
+  }
 
-      await new Promise(r => setTimeout(r, 500))
-      setUiStage("report")
-      setReportLaunched(true)
+  const cancelPipeline = async () => {
+    if (!pipelineJobId) return
+    const res = await fetch(`/api/simulab/pipeline/${encodeURIComponent(pipelineJobId)}/cancel`, { method: "POST" })
+    if (!res.ok) console.warn("[SimuLab] Cancel failed:", res.status)
+  }
 
+  // Re-run a failed, cancelled or interrupted job from its last checkpoint
+  const resumePipeline = async () => {
+    if (!pipelineJobId) return
+    setError(null)
+    try {
+      const res = await fetch(`/api/simulab/pipeline/${encodeURIComponent(pipelineJobId)}/resume`, { method: "POST" })
+      const data = await res.json().catch(() => null)
+      if (!res.ok) throw new Error(data?.error || `Resume failed: ${res.status}`)
+      await followPipeline(pipelineJobId)
     } catch (err: any) {
-      console.error("[SimuLab] Error generating report:", err)
-      setError(err?.message || "Failed to generate report")
-      setGenerationProgress(prev => prev ? {
-        ...prev,
-        currentStep: `Error: ${err?.message || "Generation failed"}`,
-      } : null)
+      reportGenerationError(err)
     }
   }
 
@@ -1437,16 +1483,14 @@ export default function SimuLabUI() {
         existingMetrics,
       })
 
-      await new Promise(r => setTimeout(r, 400))
       setRegenerateProgress(prev => [...prev, `Orchestrator: Sending ${numScen} scenarios to Judge Agent...`])
 
       // Push Judge agent_run event (Orchestrator dispatches to Judge)
       setExtraEvents(prev => [
         ...prev,
-        { type: "agent_run", agent: "simulab-judge", input: { scenarios: numScen, criteria_update: true } },
+        { type: "agent_run", agent: AGENTS.JUDGE, input: { scenarios: numScen, criteria_update: true } },
       ])
 
-      await new Promise(r => setTimeout(r, 300))
       setRegenerateProgress(prev => [...prev, "Judge Agent: Applying new decision criteria..."])
 
       // Re-evaluate pass/fail based on new criteria using existing metrics
@@ -1461,29 +1505,16 @@ export default function SimuLabUI() {
         const bindingAffinity = metrics?.docking?.binding_affinity_kcal_per_mol ?? metrics?.binding_affinity_kcal_per_mol ?? -7
         const hergFlag = metrics?.admet?.herg_flag ?? metrics?.herg_flag ?? false
         const saScore = metrics?.synthesis?.sa_score ?? metrics?.sa_score ?? 4
+        const numSteps = metrics?.synthesis?.num_steps ?? metrics?.num_steps
         const toxRisk = metrics?.admet?.toxicity_risk ?? metrics?.toxicity_risk ?? "LOW"
         
-        // Apply decision criteria thresholds
-        let isRejected = false
-        let vetoReason = ""
-        
-        // Potency check
-        if (bindingAffinity > decisionCriteria.docking.hardFailThreshold) {
-          isRejected = true
-          vetoReason = "Potency Fail"
-        }
-        
-        // Safety check (hERG)
-        if (!isRejected && decisionCriteria.admet.hardFailHERG && hergFlag) {
-          isRejected = true
-          vetoReason = "Safety Veto (hERG)"
-        }
-        
-        // Synthesis check (SA score)
-        if (!isRejected && saScore > decisionCriteria.synthesis.hardFailSa) {
-          isRejected = true
-          vetoReason = "Cost Veto (SA Score)"
-        }
+        // Apply decision criteria thresholds via the shared scoring engine
+        const vetoes = evaluateVetoes(
+          { scenario_id: scenarioId, smiles: scenario.smiles, binding_affinity: bindingAffinity, herg_flag: hergFlag, sa_score: saScore, num_steps: numSteps },
+          resolveCriteria(decisionCriteria)
+        )
+        const isRejected = vetoes.length > 0
+        const vetoReason = formatRejectionReason(vetoes)
         
         if (isRejected) {
           newRejected.push({
@@ -1501,14 +1532,12 @@ export default function SimuLabUI() {
         }
       })
 
-      await new Promise(r => setTimeout(r, 300))
       setRegenerateProgress(prev => [...prev, `Judge Agent: Evaluated ${numScen} scenarios`])
       setRegenerateProgress(prev => [...prev, `Judge Agent: ${newWinners.length} passed, ${newRejected.length} rejected`])
 
       setWinners(newWinners)
       setRejected(newRejected)
 
-      await new Promise(r => setTimeout(r, 300))
       setRegenerateProgress(prev => [...prev, "Judge Agent: Generating final verdict..."])
 
       // Call reason API for final report with updated winners/rejected
@@ -1524,13 +1553,15 @@ export default function SimuLabUI() {
           decision_criteria: decisionCriteria,
         },
         decisionCriteria,
+        reference_dataset: referenceDataset,
+        experiment_id: experimentId,
       }
 
-      const reasonRes = await fetch("/api/simulab/reason", {
+      const reasonRes = await fetchWithStages("/api/simulab/reason", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(reasonPayload),
-      })
+      }, stageReporter(setRegenerateProgress))
 
       if (reasonRes.ok) {
         const reasonData = await reasonRes.json()
@@ -1548,7 +1579,7 @@ export default function SimuLabUI() {
       // Push Judge agent_result and judgement_complete events
       setExtraEvents(prev => [
         ...prev,
-        { type: "agent_result", agent: "simulab-judge", output: { winners: newWinners.length, rejected: newRejected.length } },
+        { type: "agent_result", agent: AGENTS.JUDGE, output: { winners: newWinners.length, rejected: newRejected.length } },
         { type: "judgement_complete", winners: newWinners, rejected: newRejected },
       ])
 
@@ -1688,6 +1719,8 @@ export default function SimuLabUI() {
           goal: currentGoal,
           constraints: currentConstraints,
           decision_criteria: decisionCriteria,
+          reference_dataset: referenceDataset,
+          experiment_id: experimentId,
         }),
       })
       
@@ -1719,6 +1752,7 @@ export default function SimuLabUI() {
             output: {
               binding_affinity_kcal_per_mol: metrics.docking.binding_affinity_kcal_per_mol,
               potency_pass: metrics.docking.potency_pass,
+              provenance: r.provenance?.docking,
             },
           })
         }
@@ -1734,6 +1768,7 @@ export default function SimuLabUI() {
               toxicity_prob: metrics.admet.toxicity_prob,
               herg_flag: metrics.admet.herg_flag,
               is_safe: metrics.admet.is_safe,
+              provenance: r.provenance?.admet,
             },
           })
         }
@@ -1748,6 +1783,7 @@ export default function SimuLabUI() {
               sa_score: metrics.synthesis.sa_score,
               num_steps: metrics.synthesis.num_steps,
               estimated_cost_usd: metrics.synthesis.estimated_cost_usd,
+              provenance: r.provenance?.synthesis,
             },
           })
         }
@@ -1759,6 +1795,9 @@ export default function SimuLabUI() {
           rejected.push({ scenario_id: sid, smiles: r.smiles, veto_reason: r.rejection_reason || "Did not meet criteria" })
         }
       })
+      data.invalid_scenarios?.forEach((r: any) => {
+        rejected.push({ scenario_id: r.scenario_id, smiles: r.smiles, veto_reason: r.rejection_reason })
+      })
       
       // Add metrics aggregated event
       results.push({ 
@@ -1794,6 +1833,7 @@ export default function SimuLabUI() {
     const winners: any[] = []
     const rejected: any[] = []
     
+    const provenance = uniformProvenance("heuristic")
     scenarios.forEach((s: any, idx: number) => {
       const sid = s.scenario_id
       const scaffold = (s.metadata?.scaffold || s.scaffold || "").toLowerCase()
@@ -1815,21 +1855,21 @@ export default function SimuLabUI() {
         type: "agent_result",
         agent: "simu-docking",
         scenario_id: sid,
-        output: { binding_affinity_kcal_per_mol: Math.round(bindingAffinity * 10) / 10, potency_pass: potencyPass },
+        output: { binding_affinity_kcal_per_mol: Math.round(bindingAffinity * 10) / 10, potency_pass: potencyPass, provenance: provenance.docking },
       })
       
       results.push({
         type: "agent_result",
         agent: "simu-admet",
         scenario_id: sid,
-        output: { toxicity_risk: toxicityRisk, herg_flag: hergFlag, is_safe: isSafe },
+        output: { toxicity_risk: toxicityRisk, herg_flag: hergFlag, is_safe: isSafe, provenance: provenance.admet },
       })
       
       results.push({
         type: "agent_result",
         agent: "simu-synthesis",
         scenario_id: sid,
-        output: { sa_score: Math.round(saScore * 10) / 10, estimated_cost_usd: estimatedCost },
+        output: { sa_score: Math.round(saScore * 10) / 10, estimated_cost_usd: estimatedCost, provenance: provenance.synthesis },
       })
       
       const passes = potencyPass && isSafe && saScore < decisionCriteria.synthesis.hardFailSa
@@ -1929,6 +1969,8 @@ export default function SimuLabUI() {
             decision_criteria: decisionCriteria,
           },
           decisionCriteria,
+          reference_dataset: referenceDataset,
+          experiment_id: experimentId,
         }
         console.log("[SimuLab] Fetching LLM rationale with:", reasonPayload)
         
@@ -2112,7 +2154,7 @@ export default function SimuLabUI() {
 
     // Generating screen - show while running N parallel LLM calls with visual diagram
     if (uiStage === "generating" && generationProgress) {
-      const { currentStep, scenarioStatuses, completedScenarios, totalScenarios, judgeStatus } = generationProgress
+      const { currentStep, scenarioStatuses, scenarioCache, completedScenarios, totalScenarios, judgeStatus } = generationProgress
       const scenarioEntries = Object.entries(scenarioStatuses)
       const allScenariosComplete = completedScenarios >= totalScenarios
       
@@ -2353,6 +2395,7 @@ export default function SimuLabUI() {
                   const isComplete = status === "complete"
                   const isRunning = status === "running"
                   const isPending = status === "pending"
+                  const isCached = scenarioCache?.[scenarioId] === "hit"
                   
                   const metrics = ["Potency", "Safety", "Cost"]
                   const total = scenarioEntries.length
@@ -2399,6 +2442,14 @@ export default function SimuLabUI() {
                         }}>
                           S{scenarioNum}
                         </span>
+                        {isCached && (
+                          <span
+                            title="Metrics served from the response cache"
+                            style={{ fontSize: isVeryCompact ? 7 : 8, fontWeight: 600, color: "hsl(var(--muted-foreground))" }}
+                          >
+                            · cached
+                          </span>
+                        )}
                       </div>
                       
                       {/* Metric boxes - same color, turn green when complete */}
@@ -2527,9 +2578,30 @@ export default function SimuLabUI() {
               </div>
             </div>
 
+            {pipelineJobId && !error && (
+              <div style={{ marginTop: 16, display: "flex", justifyContent: "center" }}>
+                <button
+                  type="button"
+                  onClick={cancelPipeline}
+                  style={{ padding: "6px 14px", borderRadius: 8, border: "1px solid hsl(var(--border))", background: "hsl(var(--card))", color: "hsl(var(--muted-foreground))", fontSize: 12, cursor: "pointer" }}
+                >
+                  Cancel run
+                </button>
+              </div>
+            )}
+
             {error && (
               <div style={{ marginTop: 16, padding: 12, background: "#fef2f2", border: "1px solid #fecaca", borderRadius: 8, color: "#991b1b", fontSize: 13 }}>
                 {error}
+                {pipelineResumable && (
+                  <button
+                    type="button"
+                    onClick={resumePipeline}
+                    style={{ marginLeft: 12, padding: "4px 12px", borderRadius: 6, border: "1px solid #fecaca", background: "#fff", color: "#991b1b", fontSize: 12, fontWeight: 600, cursor: "pointer" }}
+                  >
+                    Resume from last checkpoint
+                  </button>
+                )}
               </div>
             )}
           </motion.div>
@@ -2695,6 +2767,29 @@ export default function SimuLabUI() {
                     resize: "vertical",
                   }}
                 />
+                <div style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13, color: "hsl(var(--muted-foreground))" }}>
+                  <label htmlFor="simulab-reference-dataset">Reference data</label>
+                  <select
+                    id="simulab-reference-dataset"
+                    value={referenceDataset || ""}
+                    onChange={(e) => setReferenceDataset(e.target.value || null)}
+                    style={{
+                      flex: 1,
+                      padding: "6px 8px",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: 8,
+                      background: "hsl(var(--card))",
+                      color: "hsl(var(--foreground))",
+                      fontSize: 13,
+                    }}
+                  >
+                    <option value="">Google Sheet (default)</option>
+                    {referenceDatasets.map((d) => (
+                      <option key={d.id} value={d.id}>{d.name} · {d.num_rows} rows</option>
+                    ))}
+                  </select>
+                  <a href="/simulab/datasets" style={{ color: "#60a5fa", whiteSpace: "nowrap" }}>Manage datasets</a>
+                </div>
                 <div style={{ display: "flex", justifyContent: "center", gap: 8, marginTop: 4 }}>
                   <button
                     type="button"
@@ -2886,7 +2981,8 @@ export default function SimuLabUI() {
                     <div style={{ marginBottom: 14 }}>
                       <label style={{ fontSize: 12, color: "hsl(var(--muted-foreground))", display: "block", marginBottom: 4 }}>Proposed Scenarios</label>
                       {editScenarios.map((s, idx) => (
-                        <div key={idx} style={{ display: "flex", gap: 6, marginBottom: 6, alignItems: "center" }}>
+                        <div key={idx} style={{ marginBottom: 6 }}>
+                        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
                           <input
                             type="text"
                             value={s.scaffold || s.name || s.scenario_id || ""}
@@ -2907,7 +3003,7 @@ export default function SimuLabUI() {
                               setEditScenarios(updated)
                             }}
                             placeholder="SMILES"
-                            style={{ flex: 1, padding: 8, border: "1px solid hsl(var(--border))", background: "hsl(var(--card))", color: "hsl(var(--foreground))", borderRadius: 6, fontSize: 13, fontFamily: "monospace" }}
+                            style={{ flex: 1, padding: 8, border: `1px solid ${editSmilesErrors[idx] ? "#ef4444" : "hsl(var(--border))"}`, background: "hsl(var(--card))", color: "hsl(var(--foreground))", borderRadius: 6, fontSize: 13, fontFamily: "monospace" }}
                           />
                           <button
                             type="button"
@@ -2917,6 +3013,15 @@ export default function SimuLabUI() {
                             Remove
                           </button>
                         </div>
+                        {editSmilesErrors[idx] && (
+                          <div style={{ marginTop: 4, fontSize: 11, color: "#ef4444" }}>
+                            <div>Invalid SMILES: {formatSmilesError(editSmilesErrors[idx]!)}</div>
+                            <pre style={{ margin: "2px 0 0", fontFamily: "monospace", whiteSpace: "pre", overflowX: "auto" }}>
+                              {`${(s.smiles || "").trim()}\n${" ".repeat(editSmilesErrors[idx]!.position)}^`}
+                            </pre>
+                          </div>
+                        )}
+                        </div>
                       ))}
                       <button
                         type="button"
@@ -2950,7 +3055,7 @@ export default function SimuLabUI() {
                       </button>
                       <button
                         type="button"
-                        disabled={!editReason.trim()}
+                        disabled={!editReason.trim() || hasEditSmilesErrors}
                         onClick={async () => {
                           // Capture original values before applying changes
                           const originalValue = {
@@ -3006,10 +3111,10 @@ export default function SimuLabUI() {
                           padding: "8px 14px",
                           border: "1px solid rgba(14,95,255,0.35)",
                           borderRadius: 8,
-                          background: editReason.trim() ? "rgba(14,95,255,0.14)" : "rgba(96,165,250,0.12)",
+                          background: editReason.trim() && !hasEditSmilesErrors ? "rgba(14,95,255,0.14)" : "rgba(96,165,250,0.12)",
                           color: "#60a5fa",
                           fontWeight: 700,
-                          cursor: editReason.trim() ? "pointer" : "not-allowed",
+                          cursor: editReason.trim() && !hasEditSmilesErrors ? "pointer" : "not-allowed",
                           boxShadow: "0 2px 10px rgba(14,95,255,0.18)",
                         }}
                       >
@@ -3464,6 +3569,7 @@ export default function SimuLabUI() {
             scenarios={scenarios}
             scenarioMetrics={normalizedMetrics}
             winners={winners || []}
+            stepsThreshold={decisionCriteria.synthesis.hardFailSteps}
           />
         </motion.div>
       )}
@@ -3522,11 +3628,11 @@ export default function SimuLabUI() {
                     >
                       <div style={{ fontWeight: 700, marginBottom: 6, color: isWinner ? "#60a5fa" : "hsl(var(--muted-foreground))" }}>Metrics Analysis:</div>
                       <div style={{ display: "grid", gap: 3 }}>
-                        <div>• <strong>Binding Affinity (ΔG):</strong> {docking.binding_affinity_kcal_per_mol != null ? `${docking.binding_affinity_kcal_per_mol} kcal/mol` : "N/A"} {potencyPass ? "✓" : "✗"}</div>
-                        <div>• <strong>Potency Pass:</strong> {docking.potency_pass != null ? (docking.potency_pass ? "✓ Yes" : "✗ No") : "N/A"}</div>
-                        <div>• <strong>hERG Flag:</strong> {admet.herg_flag != null ? (admet.herg_flag ? "✗ Yes (Cardiotoxic)" : "✓ No") : "N/A"}</div>
-                        <div>• <strong>SA Score:</strong> {synthesis.sa_score != null ? synthesis.sa_score : "N/A"} {synthesisPass ? "✓" : "✗"}</div>
-                        <div>• <strong>Estimated Cost:</strong> {synthesis.estimated_cost_usd != null ? `$${synthesis.estimated_cost_usd}` : "N/A"}</div>
+                        <div>• <strong>Binding Affinity (ΔG):</strong> {docking.binding_affinity_kcal_per_mol != null ? `${docking.binding_affinity_kcal_per_mol} kcal/mol` : "N/A"} {potencyPass ? "✓" : "✗"}<MetricSource provenance={docking.provenance?.binding_affinity_kcal_per_mol} /></div>
+                        <div>• <strong>Potency Pass:</strong> {docking.potency_pass != null ? (docking.potency_pass ? "✓ Yes" : "✗ No") : "N/A"}<MetricSource provenance={docking.provenance?.potency_pass} /></div>
+                        <div>• <strong>hERG Flag:</strong> {admet.herg_flag != null ? (admet.herg_flag ? "✗ Yes (Cardiotoxic)" : "✓ No") : "N/A"}<MetricSource provenance={admet.provenance?.herg_flag} /></div>
+                        <div>• <strong>SA Score:</strong> {synthesis.sa_score != null ? synthesis.sa_score : "N/A"} {synthesisPass ? "✓" : "✗"}<MetricSource provenance={synthesis.provenance?.sa_score} /></div>
+                        <div>• <strong>Estimated Cost:</strong> {synthesis.estimated_cost_usd != null ? `$${synthesis.estimated_cost_usd}` : "N/A"}<MetricSource provenance={synthesis.provenance?.estimated_cost_usd} /></div>
                       </div>
                     </div>
                     
@@ -3595,11 +3701,11 @@ export default function SimuLabUI() {
                     >
                       <div style={{ fontWeight: 600, marginBottom: 6, color: "#166534" }}>Metrics Analysis:</div>
                       <div style={{ display: "grid", gap: 3 }}>
-                        <div>• <strong>Binding Affinity (ΔG):</strong> {docking.binding_affinity_kcal_per_mol != null ? `${docking.binding_affinity_kcal_per_mol} kcal/mol` : "N/A"} {docking.potency_pass ? "✓" : ""}</div>
-                        <div>• <strong>Potency Pass:</strong> {docking.potency_pass != null ? (docking.potency_pass ? "✓ Yes" : "✗ No") : "N/A"}</div>
-                        <div>• <strong>hERG Flag:</strong> {admet.herg_flag != null ? (admet.herg_flag ? "✗ Yes (Cardiotoxic)" : "✓ No") : "N/A"}</div>
-                        <div>• <strong>SA Score:</strong> {synthesis.sa_score != null ? synthesis.sa_score : "N/A"} {synthesis.sa_score != null && synthesis.sa_score < 5 ? "✓" : ""}</div>
-                        <div>• <strong>Estimated Cost:</strong> {synthesis.estimated_cost_usd != null ? `$${synthesis.estimated_cost_usd}` : "N/A"}</div>
+                        <div>• <strong>Binding Affinity (ΔG):</strong> {docking.binding_affinity_kcal_per_mol != null ? `${docking.binding_affinity_kcal_per_mol} kcal/mol` : "N/A"} {docking.potency_pass ? "✓" : ""}<MetricSource provenance={docking.provenance?.binding_affinity_kcal_per_mol} /></div>
+                        <div>• <strong>Potency Pass:</strong> {docking.potency_pass != null ? (docking.potency_pass ? "✓ Yes" : "✗ No") : "N/A"}<MetricSource provenance={docking.provenance?.potency_pass} /></div>
+                        <div>• <strong>hERG Flag:</strong> {admet.herg_flag != null ? (admet.herg_flag ? "✗ Yes (Cardiotoxic)" : "✓ No") : "N/A"}<MetricSource provenance={admet.provenance?.herg_flag} /></div>
+                        <div>• <strong>SA Score:</strong> {synthesis.sa_score != null ? synthesis.sa_score : "N/A"} {synthesis.sa_score != null && synthesis.sa_score < 5 ? "✓" : ""}<MetricSource provenance={synthesis.provenance?.sa_score} /></div>
+                        <div>• <strong>Estimated Cost:</strong> {synthesis.estimated_cost_usd != null ? `$${synthesis.estimated_cost_usd}` : "N/A"}<MetricSource provenance={synthesis.provenance?.estimated_cost_usd} /></div>
                       </div>
                     </div>
                     
@@ -3694,11 +3800,11 @@ export default function SimuLabUI() {
                       }}>
                         <div style={{ fontWeight: 600, marginBottom: 6, color: "#991b1b" }}>Metrics Analysis:</div>
                         <div style={{ display: "grid", gap: 3 }}>
-                          <div>• <strong>Binding Affinity (ΔG):</strong> {docking.binding_affinity_kcal_per_mol != null ? `${docking.binding_affinity_kcal_per_mol} kcal/mol` : "N/A"}</div>
-                          <div>• <strong>Potency Pass:</strong> {docking.potency_pass != null ? (docking.potency_pass ? "✓ Yes" : "✗ No") : "N/A"}</div>
-                          <div>• <strong>hERG Flag:</strong> {admet.herg_flag != null ? (admet.herg_flag ? "✗ Yes (Cardiotoxic)" : "✓ No") : "N/A"}</div>
-                          <div>• <strong>SA Score:</strong> {synthesis.sa_score != null ? synthesis.sa_score : "N/A"}</div>
-                          <div>• <strong>Estimated Cost:</strong> {synthesis.estimated_cost_usd != null ? `$${synthesis.estimated_cost_usd}` : "N/A"}</div>
+                          <div>• <strong>Binding Affinity (ΔG):</strong> {docking.binding_affinity_kcal_per_mol != null ? `${docking.binding_affinity_kcal_per_mol} kcal/mol` : "N/A"}<MetricSource provenance={docking.provenance?.binding_affinity_kcal_per_mol} /></div>
+                          <div>• <strong>Potency Pass:</strong> {docking.potency_pass != null ? (docking.potency_pass ? "✓ Yes" : "✗ No") : "N/A"}<MetricSource provenance={docking.provenance?.potency_pass} /></div>
+                          <div>• <strong>hERG Flag:</strong> {admet.herg_flag != null ? (admet.herg_flag ? "✗ Yes (Cardiotoxic)" : "✓ No") : "N/A"}<MetricSource provenance={admet.provenance?.herg_flag} /></div>
+                          <div>• <strong>SA Score:</strong> {synthesis.sa_score != null ? synthesis.sa_score : "N/A"}<MetricSource provenance={synthesis.provenance?.sa_score} /></div>
+                          <div>• <strong>Estimated Cost:</strong> {synthesis.estimated_cost_usd != null ? `$${synthesis.estimated_cost_usd}` : "N/A"}<MetricSource provenance={synthesis.provenance?.estimated_cost_usd} /></div>
                         </div>
                       </div>
                       
@@ -3809,6 +3915,7 @@ export default function SimuLabUI() {
             rejected={rejected || []} 
             normalizedMetrics={normalizedMetrics}
             structuredReport={structuredReport}
+            decisionCriteria={decisionCriteria}
           />
           <AssumptionsList
             conciseConstraints={conciseConstraints}
@@ -3858,8 +3965,22 @@ export default function SimuLabUI() {
             >
               Export Report as PDF
             </button>
+            {experimentId && (
+              <span
+                title="Saved to the experiment store (/api/simulab/experiments)"
+                style={{ alignSelf: "center", marginLeft: "auto", fontSize: 11, color: "hsl(var(--muted-foreground))" }}
+              >
+                Saved as {experimentId}
+                {" · "}
+                <a href={`/simulab/compare?ids=${encodeURIComponent(experimentId)}`} style={{ color: "#60a5fa" }}>
+                  Compare runs
+                </a>
+              </span>
+            )}
           </div>
 
+          {experimentId && <RunCostPanel experimentId={experimentId} refreshKey={structuredReport} />}
+
           {showEditChat && (
           <motion.div
             initial={{ opacity: 0, y: -8 }}
@@ -4968,12 +5089,14 @@ function CalculationBreakdown({
   winners, 
   rejected, 
   normalizedMetrics,
-  structuredReport 
+  structuredReport,
+  decisionCriteria
 }: { 
   winners: any[]; 
   rejected: any[]; 
   normalizedMetrics: Record<string, any>;
   structuredReport?: any;
+  decisionCriteria: DecisionCriteria;
 }) {
   // If we have a structured report (from LLM), use that data - it reflects edits
   // Otherwise fall back to normalizedMetrics
@@ -4986,13 +5109,16 @@ function CalculationBreakdown({
         allCandidates.push({
           id: structuredReport.winner.scenario_id,
           label: formatScenarioLabel(structuredReport.winner.scenario_id),
+          smiles: structuredReport.winner.smiles,
           binding: structuredReport.winner.binding_affinity ?? "—",
-          potencyPass: structuredReport.winner.binding_affinity < -7,
+          potencyPass: structuredReport.winner.binding_affinity <= decisionCriteria.docking.hardFailThreshold,
           toxicity: structuredReport.winner.toxicity_risk ?? "—",
           herg: structuredReport.winner.herg_flag,
           safe: structuredReport.winner.toxicity_risk === "LOW" && !structuredReport.winner.herg_flag,
           sa: structuredReport.winner.sa_score ?? "—",
+          steps: structuredReport.winner.num_steps ?? "—",
           cost: structuredReport.winner.cost_usd != null ? `$${structuredReport.winner.cost_usd.toLocaleString()}` : "—",
+          costValue: structuredReport.winner.cost_usd,
           tag: "Winner",
         })
       }
@@ -5003,13 +5129,16 @@ function CalculationBreakdown({
           allCandidates.push({
             id: s.scenario_id,
             label: formatScenarioLabel(s.scenario_id),
+            smiles: s.smiles,
             binding: s.binding_affinity ?? "—",
-            potencyPass: s.binding_affinity < -7,
+            potencyPass: s.binding_affinity <= decisionCriteria.docking.hardFailThreshold,
             toxicity: s.toxicity_risk ?? "—",
             herg: s.herg_flag,
             safe: s.toxicity_risk === "LOW" && !s.herg_flag,
             sa: s.sa_score ?? "—",
+            steps: s.num_steps ?? "—",
             cost: s.cost_usd != null ? `$${s.cost_usd.toLocaleString()}` : "—",
+            costValue: s.cost_usd,
             tag: "Selected",
           })
         })
@@ -5021,13 +5150,16 @@ function CalculationBreakdown({
           allCandidates.push({
             id: r.scenario_id,
             label: formatScenarioLabel(r.scenario_id),
+            smiles: r.smiles,
             binding: r.binding_affinity ?? "—",
-            potencyPass: r.binding_affinity < -7,
+            potencyPass: r.binding_affinity <= decisionCriteria.docking.hardFailThreshold,
             toxicity: r.toxicity_risk ?? "—",
             herg: r.herg_flag,
             safe: r.toxicity_risk === "LOW" && !r.herg_flag,
             sa: r.sa_score ?? "—",
+            steps: r.num_steps ?? "—",
             cost: r.cost_usd != null ? `$${r.cost_usd.toLocaleString()}` : "—",
+            costValue: r.cost_usd,
             tag: "Rejected",
           })
         })
@@ -5054,17 +5186,40 @@ function CalculationBreakdown({
         return {
           id: candidate.scenario_id,
           label: formatScenarioLabel(candidate.scenario_id),
+          smiles: candidate.smiles,
           binding: docking.binding_affinity_kcal_per_mol ?? "—",
           potencyPass: docking.potency_pass,
           toxicity: admet.toxicity_risk ?? "—",
           herg: admet.herg_flag,
           safe: admet.is_safe,
           sa: synthesis.sa_score ?? "—",
+          steps: synthesis.num_steps ?? "—",
           cost: synthesis.estimated_cost_usd != null ? `$${synthesis.estimated_cost_usd}` : "—",
+          costValue: synthesis.estimated_cost_usd,
           tag: candidate.tag,
         }
       })
-  }, [structuredReport, winners, rejected, normalizedMetrics])
+  }, [structuredReport, winners, rejected, normalizedMetrics, decisionCriteria])
+
+  // Score every row with the same engine the Judge uses so each rank can be explained
+  const scoring = useMemo(() => {
+    const candidates = rows
+      .filter((row) => typeof row.binding === "number" && typeof row.sa === "number")
+      .map((row) => ({
+        scenario_id: row.id,
+        smiles: row.smiles || undefined,
+        binding_affinity: row.binding as number,
+        herg_flag: Boolean(row.herg),
+        sa_score: row.sa as number,
+        num_steps: typeof row.steps === "number" ? row.steps : undefined,
+        cost_usd: typeof row.costValue === "number" ? row.costValue : undefined,
+      }))
+    const result = scoreCandidates(candidates, decisionCriteria)
+    return {
+      strategy: result.strategy,
+      byId: new Map([...result.passing, ...result.rejected].map((s) => [s.candidate.scenario_id, s])),
+    }
+  }, [rows, decisionCriteria])
 
   if (rows.length === 0) {
     return null
@@ -5075,11 +5230,14 @@ function CalculationBreakdown({
       <div style={{ fontSize: 13, fontWeight: 700, color: "hsl(var(--foreground))", marginBottom: 12, textTransform: "uppercase", letterSpacing: "0.5px" }}>
         Calculation Breakdown
       </div>
+      <div style={{ fontSize: 11, color: "hsl(var(--muted-foreground))", marginBottom: 8 }}>
+        Ranking strategy: {SCORING_STRATEGIES.find((s) => s.value === scoring.strategy)?.label ?? scoring.strategy} (hover a score for its breakdown)
+      </div>
       <div style={{ overflowX: "auto" }}>
         <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12 }}>
           <thead>
             <tr style={{ borderBottom: "2px solid hsl(var(--border))" }}>
-              {["Scenario", "Status", "ΔG (kcal/mol)", "Potency", "hERG", "SA Score", "Est. Cost"].map((heading) => (
+              {["Scenario", "Status", "ΔG (kcal/mol)", "Potency", "hERG", "SA Score", "Steps", "Est. Cost", "Desirability", "Score"].map((heading) => (
                 <th key={heading} style={{ padding: "8px 0", textAlign: heading === "Scenario" ? "left" : "center", fontWeight: 700, color: "hsl(var(--foreground))" }}>
                   {heading}
                 </th>
@@ -5088,6 +5246,7 @@ function CalculationBreakdown({
           </thead>
           <tbody>
             {rows.map((row) => {
+              const scored = scoring.byId.get(row.id)
               const statusColor = row.tag === "Winner" ? "#60a5fa" : row.tag === "Selected" ? "#8b5cf6" : "#9ca3af";
               const statusBg = row.tag === "Winner" ? "rgba(96,165,250,0.12)" : row.tag === "Selected" ? "rgba(139,92,246,0.12)" : "rgba(156,163,175,0.12)";
               return (
@@ -5112,7 +5271,20 @@ function CalculationBreakdown({
                   <td style={{ padding: "10px 0", textAlign: "center", color: "hsl(var(--foreground))" }}>{row.potencyPass != null ? (row.potencyPass ? "Pass" : "Fail") : "—"}</td>
                   <td style={{ padding: "10px 0", textAlign: "center", color: "hsl(var(--foreground))" }}>{row.herg != null ? (row.herg ? "Flag" : "Clear") : "—"}</td>
                   <td style={{ padding: "10px 0", textAlign: "center", color: "hsl(var(--foreground))" }}>{row.sa}</td>
+                  <td style={{ padding: "10px 0", textAlign: "center", color: typeof row.steps === "number" && row.steps > decisionCriteria.synthesis.hardFailSteps ? "#ef4444" : "hsl(var(--foreground))" }}>{row.steps}</td>
                   <td style={{ padding: "10px 0", textAlign: "center", color: "hsl(var(--foreground))" }}>{row.cost}</td>
+                  <td
+                    title={scored ? "Desirability vs. ideal bands: potency / safety / synthesis / cost" : undefined}
+                    style={{ padding: "10px 0", textAlign: "center", color: "hsl(var(--muted-foreground))", fontVariantNumeric: "tabular-nums" }}
+                  >
+                    {scored ? OBJECTIVES.map((k) => scored.objectives[k].toFixed(2)).join(" / ") : "—"}
+                  </td>
+                  <td
+                    title={scored?.explanation}
+                    style={{ padding: "10px 0", textAlign: "center", color: "hsl(var(--foreground))", cursor: scored ? "help" : undefined }}
+                  >
+                    {scored ? (scored.passed ? `#${scored.rank} · ${scored.score.toFixed(2)}` : "Vetoed") : "—"}
+                  </td>
                 </tr>
               )
             })}
@@ -5138,7 +5310,7 @@ const DecisionCriteriaControls = ({
 }) => {
   const [hasChanges, setHasChanges] = useState(false)
   
-  const updateField = (path: string[], value: number | boolean) => {
+  const updateField = (path: string[], value: number | boolean | string) => {
     const updater = (prev: DecisionCriteria) => {
       const next = JSON.parse(JSON.stringify(prev)) as DecisionCriteria
       let cursor: Record<string, unknown> = next as unknown as Record<string, unknown>
@@ -5387,6 +5559,47 @@ const DecisionCriteriaControls = ({
           </div>
         </div>
 
+        {/* Drug-likeness Filters Section */}
+        <div style={{ marginBottom: 12 }}>
+          <CategoryLabel>Drug-likeness Filters</CategoryLabel>
+          <div style={{ 
+            display: "grid", 
+            gridTemplateColumns: "repeat(auto-fit, minmax(110px, 1fr))", 
+            gap: 8,
+            background: "hsl(var(--card))",
+            padding: 10,
+            borderRadius: 6,
+            border: "1px solid hsl(var(--border))",
+          }}>
+            {FILTERS.map((filter) => {
+              const mode = decisionCriteria.admet.filters?.[filter.id] ?? DEFAULT_FILTER_MODES[filter.id]
+              return (
+                <div key={filter.id} style={{ display: "flex", flexDirection: "column", gap: 2 }} title={filter.description}>
+                  <label style={{ fontSize: 10, color: "hsl(var(--muted-foreground))", fontWeight: 500 }}>{filter.label}</label>
+                  <select
+                    value={mode}
+                    onChange={(e) => updateField(["admet", "filters", filter.id], e.target.value)}
+                    style={{
+                      padding: "5px 8px",
+                      fontSize: 12,
+                      fontWeight: 600,
+                      color: mode === "hard" ? "#ef4444" : mode === "soft" ? "#f59e0b" : "hsl(var(--muted-foreground))",
+                      background: "hsl(var(--card))",
+                      border: `1px solid ${mode === "hard" ? "rgba(239,68,68,0.35)" : "hsl(var(--border))"}`,
+                      borderRadius: 5,
+                      cursor: "pointer",
+                    }}
+                  >
+                    {FILTER_MODES.map((m) => (
+                      <option key={m} value={m}>{m === "off" ? "Off" : m === "soft" ? "Soft" : "Hard veto"}</option>
+                    ))}
+                  </select>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+
         {/* Cost / Synthesis Section */}
         <div>
           <CategoryLabel>Cost (Synthesis)</CategoryLabel>
@@ -5421,6 +5634,40 @@ const DecisionCriteriaControls = ({
             />
           </div>
         </div>
+
+        {/* Ranking Section */}
+        <div style={{ marginTop: 12 }}>
+          <CategoryLabel>Ranking</CategoryLabel>
+          <div style={{ 
+            display: "flex", 
+            alignItems: "center",
+            gap: 8,
+            background: "hsl(var(--card))",
+            padding: 10,
+            borderRadius: 6,
+            border: "1px solid hsl(var(--border))",
+          }}>
+            <label style={{ fontSize: 11, color: "hsl(var(--muted-foreground))", fontWeight: 600 }}>Strategy</label>
+            <select
+              value={decisionCriteria.scoring?.strategy ?? DEFAULT_STRATEGY}
+              onChange={(e) => updateField(["scoring", "strategy"], e.target.value)}
+              style={{
+                padding: "5px 8px",
+                fontSize: 12,
+                fontWeight: 600,
+                color: "hsl(var(--foreground))",
+                background: "hsl(var(--card))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: 5,
+                cursor: "pointer",
+              }}
+            >
+              {SCORING_STRATEGIES.map((s) => (
+                <option key={s.value} value={s.value}>{s.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
       </div>
     </div>
   )
@@ -5452,9 +5699,20 @@ function AssumptionsList({
             <li>
               ADMET (Safety): toxicity target {decisionCriteria.admet.idealMin}–{decisionCriteria.admet.idealMax}; {decisionCriteria.admet.hardFailHERG ? "any hERG flag triggers veto" : "hERG flag informational"}
             </li>
+            {FILTERS.some((f) => (decisionCriteria.admet.filters?.[f.id] ?? DEFAULT_FILTER_MODES[f.id]) !== "off") && (
+              <li>
+                Drug-likeness filters: {FILTERS
+                  .filter((f) => (decisionCriteria.admet.filters?.[f.id] ?? DEFAULT_FILTER_MODES[f.id]) !== "off")
+                  .map((f) => `${f.label} (${decisionCriteria.admet.filters?.[f.id] ?? DEFAULT_FILTER_MODES[f.id]})`)
+                  .join(", ")}; hard alerts veto, soft alerts lower the safety score
+              </li>
+            )}
             <li>
               Synthesis: SA ≤ {decisionCriteria.synthesis.idealSaMax} and ≤ {decisionCriteria.synthesis.idealStepsMax} steps; Hard fail if SA &gt; {decisionCriteria.synthesis.hardFailSa} or steps &gt; {decisionCriteria.synthesis.hardFailSteps}
             </li>
+            <li>
+              Ranking: passing candidates ordered by {SCORING_STRATEGIES.find((s) => s.value === (decisionCriteria.scoring?.strategy ?? DEFAULT_STRATEGY))?.label} scoring; values inside the ideal bands score highest
+            </li>
           </>
         )}
       </ul>
@@ -5615,6 +5873,25 @@ function timelineMeta(e: any): { label: string; color: string; summary?: string
   }
 }
 
+// Where a metric value came from; amber when a reference value overrode a disagreeing generated one
+function MetricSource({ provenance, block }: { provenance?: MetricProvenance; block?: boolean }) {
+  if (!provenance) return null
+  const text = describeProvenance(provenance)
+  return (
+    <span
+      title={text}
+      style={{
+        display: block ? "block" : "inline",
+        marginLeft: block ? 0 : 6,
+        fontSize: 10,
+        color: provenance.replaced ? "#b45309" : "#6b7280",
+      }}
+    >
+      {block ? text : `[${text}]`}
+    </span>
+  )
+}
+
 function MetricCard({ title, data, fallback }: { title: string; data?: any; fallback: string }) {
   const has = data && Object.keys(data).length > 0
   
@@ -5667,19 +5944,19 @@ function MetricCard({ title, data, fallback }: { title: string; data?: any; fall
         <div className="animate-fadeIn" style={{ fontSize: 12, marginTop: 8, color: "#111827" }}>
           {title.toLowerCase().includes("docking") && (
             <div style={{ display: "grid", gap: 4 }}>
-              <div><strong>Binding Affinity</strong>: {data?.binding_affinity_kcal_per_mol != null ? `${data.binding_affinity_kcal_per_mol} kcal/mol` : "—"}</div>
-              <div><strong>Potency Pass</strong>: {data?.potency_pass != null ? (data.potency_pass ? "Yes" : "No") : "—"}</div>
+              <div><strong>Binding Affinity</strong>: {data?.binding_affinity_kcal_per_mol != null ? `${data.binding_affinity_kcal_per_mol} kcal/mol` : "—"}<MetricSource provenance={data?.provenance?.binding_affinity_kcal_per_mol} block /></div>
+              <div><strong>Potency Pass</strong>: {data?.potency_pass != null ? (data.potency_pass ? "Yes" : "No") : "—"}<MetricSource provenance={data?.provenance?.potency_pass} block /></div>
             </div>
           )}
           {title.toLowerCase().includes("admet") && (
             <div style={{ display: "grid", gap: 4 }}>
-              <div><strong>hERG Flag</strong>: {data?.herg_flag != null ? (data.herg_flag ? "Yes (Cardiotoxic)" : "No") : "—"}</div>
+              <div><strong>hERG Flag</strong>: {data?.herg_flag != null ? (data.herg_flag ? "Yes (Cardiotoxic)" : "No") : "—"}<MetricSource provenance={data?.provenance?.herg_flag} block /></div>
             </div>
           )}
           {title.toLowerCase().includes("synthesis") && (
             <div style={{ display: "grid", gap: 4 }}>
-              <div><strong>SA Score</strong>: {data?.sa_score != null ? data.sa_score : "—"}</div>
-              <div><strong>Estimated Cost</strong>: {data?.estimated_cost_usd != null ? `$${data.estimated_cost_usd}` : "—"}</div>
+              <div><strong>SA Score</strong>: {data?.sa_score != null ? data.sa_score : "—"}<MetricSource provenance={data?.provenance?.sa_score} block /></div>
+              <div><strong>Estimated Cost</strong>: {data?.estimated_cost_usd != null ? `$${data.estimated_cost_usd}` : "—"}<MetricSource provenance={data?.provenance?.estimated_cost_usd} block /></div>
             </div>
           )}
         </div>
@@ -5785,211 +6062,6 @@ function Divider() {
   return <div style={{ height: 2, width: 140, background: "linear-gradient(90deg,#e5e7eb 0%, #cbd5e1 60%, #e5e7eb 100%)", borderRadius: 999, margin: "6px auto 16px" }} />
 }
 
-function ParetoChart({
-  scenarios,
-  scenarioMetrics,
-  winners
-}: {
-  scenarios: any[]
-  scenarioMetrics: Record<string, any>
-  winners: any[]
-}) {
-  const width = 600
-  const height = 400
-  const pad = 60
-  const potencyMin = 6
-  const potencyMax = 12
-  const saMin = 1
-  const saMax = 10
-  const sdsMin = 1
-  const sdsMax = 10
-  
-  const clamp = (val: number, min: number, max: number) => Math.min(Math.max(val, min), max)
-  const toSDS = (sa: number) => {
-    const normalized = (saMax - clamp(sa, saMin, saMax)) / (saMax - saMin)
-    return sdsMin + normalized * (sdsMax - sdsMin)
-  }
-  
-  // Extract data points: x = potency magnitude (|ΔG|), y = Synthetic Desirability Score (SDS)
-  const points = scenarios.map((s: any) => {
-    const sid = s.scenario_id
-    const metrics = scenarioMetrics[sid] || {}
-    const rawPotency = metrics?.docking?.binding_affinity_kcal_per_mol
-    const potencyMag = typeof rawPotency === "number" ? Math.abs(rawPotency) : null
-    const potency = potencyMag != null ? clamp(potencyMag, potencyMin, potencyMax) : null
-    const saRaw = metrics?.synthesis?.sa_score
-    const saScore = typeof saRaw === "number" ? clamp(saRaw, saMin, saMax) : null
-    const sds = saScore != null ? Number(toSDS(saScore).toFixed(2)) : null
-    const isWinner = winners.some((w: any) => w.scenario_id === sid)
-    return {
-      scenario_id: sid,
-      rawPotency,
-      potency,
-      saScore,
-      sds,
-      isWinner,
-      valid: potency !== null && sds !== null
-    }
-  }).filter((p: any) => p.valid)
-
-  if (points.length === 0) {
-    return (
-      <div style={{ 
-        border: "1px solid #e5e7eb", 
-        borderRadius: 8, 
-        background: "#fff", 
-        padding: 20,
-        textAlign: "center",
-        color: "#6b7280"
-      }}>
-        Insufficient data for Pareto analysis
-      </div>
-    )
-  }
-
-  const scaleX = (x: number) => pad + ((x - potencyMin) / Math.max(1, potencyMax - potencyMin)) * (width - pad * 2)
-  const scaleY = (y: number) => pad + ((sdsMax - y) / Math.max(1, sdsMax - sdsMin)) * (height - pad * 2)
-
-  return (
-    <div style={{ border: "1px solid #e5e7eb", borderRadius: 8, background: "#fff", padding: "0 16px 16px", display: "flex", gap: 20, alignItems: "flex-start" }}>
-      <svg width={width} height={height} style={{ flexShrink: 0, padding: "0 4px 4px" }}>
-        <rect x={0} y={0} width={width} height={height} fill="#ffffff" />
-        
-        {/* Zones */}
-        <rect
-          x={scaleX(potencyMin)}
-          y={scaleY(sdsMin)}
-          width={scaleX((potencyMin + potencyMax) / 2) - scaleX(potencyMin)}
-          height={scaleY(sdsMax) - scaleY(sdsMin)}
-          fill="#fee2e2"
-          opacity={0.25}
-        />
-        <rect
-          x={scaleX((potencyMin + potencyMax) / 2)}
-          y={scaleY(sdsMin)}
-          width={scaleX(potencyMax) - scaleX((potencyMin + potencyMax) / 2)}
-          height={scaleY((sdsMin + sdsMax) / 2) - scaleY(sdsMin)}
-          fill="#fef9c3"
-          opacity={0.35}
-        />
-        <rect
-          x={scaleX(potencyMin)}
-          y={scaleY((sdsMin + sdsMax) / 2)}
-          width={scaleX((potencyMin + potencyMax) / 2) - scaleX(potencyMin)}
-          height={scaleY(sdsMax) - scaleY((sdsMin + sdsMax) / 2)}
-          fill="#fef9c3"
-          opacity={0.35}
-        />
-        <rect
-          x={scaleX((potencyMin + potencyMax) / 2)}
-          y={scaleY((sdsMin + sdsMax) / 2)}
-          width={scaleX(potencyMax) - scaleX((potencyMin + potencyMax) / 2)}
-          height={scaleY(sdsMax) - scaleY((sdsMin + sdsMax) / 2)}
-          fill="#bbf7d0"
-          opacity={0.35}
-        />
-        
-        {/* Grid lines */}
-        <g opacity={0.2}>
-          {[0, 0.25, 0.5, 0.75, 1].map((t) => {
-            const potencyValue = potencyMin + (potencyMax - potencyMin) * t
-            const sdsValue = sdsMin + (sdsMax - sdsMin) * t
-            const x = scaleX(potencyValue)
-            const y = scaleY(sdsValue)
-            return (
-              <g key={t}>
-                <line x1={x} y1={pad} x2={x} y2={height - pad} stroke="#e5e7eb" strokeDasharray="4,4" />
-                <line x1={pad} y1={y} x2={width - pad} y2={y} stroke="#e5e7eb" strokeDasharray="4,4" />
-                <text x={x} y={height - pad + 28} fontSize={11} fontWeight={600} textAnchor="middle" fill="#0b1120">
-                  {potencyValue.toFixed(1)}
-                </text>
-                <text x={pad - 18} y={y + 4} fontSize={11} fontWeight={600} textAnchor="end" fill="#0b1120">
-                  {sdsValue.toFixed(1)}
-                </text>
-              </g>
-            )
-          })}
-        </g>
-        
-        {/* Axes */}
-        <line x1={pad} y1={height - pad} x2={width - pad} y2={height - pad} stroke="#111827" strokeWidth={2} />
-        <line x1={pad} y1={pad} x2={pad} y2={height - pad} stroke="#111827" strokeWidth={2} />
-        
-        {/* Axis labels */}
-        <text 
-          x={width / 2} 
-          y={height - 10} 
-          textAnchor="middle" 
-          fontSize={13} 
-          fontWeight={600}
-          fill="hsl(var(--foreground))"
-        >
-          Potency Strength (|ΔG|, kcal/mol)
-        </text>
-        <text 
-          x={15} 
-          y={height / 2} 
-          textAnchor="middle" 
-          fontSize={13} 
-          fontWeight={600}
-          fill="hsl(var(--foreground))"
-          transform={`rotate(-90, 15, ${height / 2})`}
-        >
-          Synthetic Accessibility (SA) Score
-        </text>
-        
-        {/* Data points */}
-        {points.map((p: any, idx: number) => {
-          const cx = scaleX(p.potency)
-          const cy = scaleY(p.sds)
-          const fill = p.isWinner ? "#60a5fa" : "#6b7280"
-          const stroke = p.isWinner ? "#2563eb" : "#374151"
-          const radius = p.isWinner ? 7 : 5
-          
-          return (
-            <motion.g
-              key={p.scenario_id}
-              initial={{ scale: 0, opacity: 0 }}
-              animate={{ scale: 1, opacity: 1 }}
-              transition={{ duration: 0.3, delay: idx * 0.05 }}
-            >
-              <circle
-                cx={cx}
-                cy={cy}
-                r={radius}
-                fill={fill}
-                stroke={stroke}
-                strokeWidth={1.5}
-              />
-              <text
-                x={cx + 10}
-                y={cy + 2}
-                fontSize={10}
-                fill={p.isWinner ? "#60a5fa" : "hsl(var(--muted-foreground))"}
-              >
-                {formatScenarioLabel(p.scenario_id)}
-              </text>
-              <title>{`${formatScenarioLabel(p.scenario_id)}${p.isWinner ? " (Winner)" : ""}\nΔG: ${p.rawPotency ?? "—"}\nSDS: ${p.sds}\nSA Score: ${p.saScore}`}</title>
-            </motion.g>
-          )
-        })}
-      </svg>
-      <div style={{ minWidth: 220, paddingTop: 12 }}>
-        <div style={{ display: "grid", gap: 8 }}>
-          {points.map((p: any) => (
-            <div key={`legend-${p.scenario_id}`} style={{ border: "1px solid hsl(var(--border))", borderRadius: 10, padding: 10, background: "hsl(var(--card))" }}>
-              <div style={{ fontWeight: 600, color: p.isWinner ? "#60a5fa" : "hsl(var(--foreground))" }}>{formatScenarioLabel(p.scenario_id)}</div>
-              <div style={{ fontSize: 12, color: "hsl(var(--foreground))" }}>ΔG: {p.rawPotency ?? "—"} kcal/mol</div>
-              <div style={{ fontSize: 12, color: "hsl(var(--foreground))" }}>SA Score: {p.saScore ?? "—"}</div>
-            </div>
-          ))}
-        </div>
-      </div>
-    </div>
-  )
-}
-
-
 function AgentFlow({ messages }: { messages: MessageEntry[] }) {
   // Parse message events and pass to the agent status panel
   const structured = messages
@@ -6010,21 +6082,21 @@ function AgentFlow({ messages }: { messages: MessageEntry[] }) {
 
 function AgentStatusPanel({ events }: { events: any[] }) {
   // Agent status and model connection panel
-  // SimuLab has 3 active agents (Orchestrator, Simulator, Judge)
-  // The legacy agents (simu_docking, simu_admet, simu_synthesis) were consolidated into Simulator
+  // Shows the called agents of the agent registry (Orchestrator, Simulator, Judge);
+  // its "tool" entries (legacy docking, ADMET and synthesis agents) were consolidated into Simulator
   
-  type AgentKey = "simulab-orchestrator" | "simulab-simulator" | "simulab-judge"
+  type AgentKey = string
   type AgentState = { 
     status: "offline" | "online" | "running" | "done"; 
     llmCalls?: number;
   }
+  const registryAgents = listAgents().filter(a => a.role !== "tool")
   
   // Base state - all agents start as online (ready)
-  const base: Record<AgentKey, AgentState> = {
-    "simulab-orchestrator": { status: "online" },
-    "simulab-simulator": { status: "online", llmCalls: 0 },
-    "simulab-judge": { status: "online" },
-  }
+  const base: Record<AgentKey, AgentState> = Object.fromEntries(registryAgents.map(a => [
+    a.name,
+    a.name === AGENTS.SIMULATOR ? { status: "online", llmCalls: 0 } : { status: "online" },
+  ]))
   
   // Track scenario results received by orchestrator
   let scenarioResultsReceived = 0
@@ -6039,33 +6111,33 @@ function AgentStatusPanel({ events }: { events: any[] }) {
     if (p?.type === "agent_result" && typeof p?.agent === "string") {
       const a = p.agent as AgentKey
       // Simulator results go back to Orchestrator (don't mark Orchestrator as done yet)
-      if (a === "simulab-simulator") {
+      if (a === AGENTS.SIMULATOR) {
         acc[a] = { ...acc[a], status: "done" }
         // Orchestrator stays running while receiving results
-      } else if (a === "simulab-judge") {
+      } else if (a === AGENTS.JUDGE) {
         acc[a] = { ...acc[a], status: "done" }
       }
     }
     if (p?.type === "judgement_complete") {
-      acc["simulab-judge"] = { ...acc["simulab-judge"], status: "done" }
+      acc[AGENTS.JUDGE] = { ...acc[AGENTS.JUDGE], status: "done" }
       // Only NOW is Orchestrator done (after Judge completes)
-      acc["simulab-orchestrator"] = { ...acc["simulab-orchestrator"], status: "done" }
+      acc[AGENTS.ORCHESTRATOR] = { ...acc[AGENTS.ORCHESTRATOR], status: "done" }
     }
     if (p?.type === "metrics_aggregated") {
       const scenarios = p.scenarios || []
       totalScenarios = scenarios.length
       scenarioResultsReceived = scenarios.length
-      acc["simulab-simulator"] = { 
-        ...acc["simulab-simulator"], 
+      acc[AGENTS.SIMULATOR] = { 
+        ...acc[AGENTS.SIMULATOR], 
         status: "done",
         llmCalls: scenarios.length
       }
       // Orchestrator received all results, now sending to Judge
     }
     if (p?.type === "dispatch_started") {
-      acc["simulab-simulator"] = { ...acc["simulab-simulator"], status: "running" }
+      acc[AGENTS.SIMULATOR] = { ...acc[AGENTS.SIMULATOR], status: "running" }
       // Orchestrator stays running throughout the entire process
-      acc["simulab-orchestrator"] = { ...acc["simulab-orchestrator"], status: "running" }
+      acc[AGENTS.ORCHESTRATOR] = { ...acc[AGENTS.ORCHESTRATOR], status: "running" }
     }
     if (p?.type === "simulation_scenarios") {
       totalScenarios = (p.scenarios || []).length
@@ -6073,13 +6145,14 @@ function AgentStatusPanel({ events }: { events: any[] }) {
     return acc
   }, base)
   
-  // Agent configuration - 3 agents, each connected to GPT-4o
-  // Updated roles to reflect the async flow: Simulator → Orchestrator → Judge
-  const agents: { key: AgentKey; name: string; model: string | null; provider: string | null; role: string }[] = [
-    { key: "simulab-orchestrator", name: "Orchestrator", model: "GPT-4o", provider: "OpenAI", role: "Coordinates workflow, receives async results, dispatches to Judge" },
-    { key: "simulab-simulator", name: "Simulator", model: "GPT-4o", provider: "OpenAI", role: "Evaluates molecules, sends results back to Orchestrator" },
-    { key: "simulab-judge", name: "Judge", model: "GPT-4o", provider: "OpenAI", role: "Receives aggregated results from Orchestrator, produces verdict" },
-  ]
+  // Agent configuration from the registry; roles reflect the async flow: Simulator → Orchestrator → Judge
+  const agents: { key: AgentKey; name: string; model: string | null; provider: string | null; role: string }[] = registryAgents.map(a => ({
+    key: a.name,
+    name: a.label,
+    model: a.model ?? null,
+    provider: a.provider ?? null,
+    role: a.description ?? "",
+  }))
   
   // Count agents by status
   const stateValues = Object.values(state) as AgentState[]
@@ -6111,7 +6184,7 @@ function AgentStatusPanel({ events }: { events: any[] }) {
           color: "#166534"
         }}>
           <span style={{ width: 6, height: 6, borderRadius: "50%", background: "#22c55e" }}></span>
-          {onlineCount}/3 online
+          {onlineCount}/{agents.length} online
         </div>
       </div>
       
@@ -6210,7 +6283,7 @@ function AgentStatusPanel({ events }: { events: any[] }) {
               </div>
               
               {/* LLM calls count for simulator */}
-              {agent.key === "simulab-simulator" && st.llmCalls !== undefined && st.llmCalls > 0 && (
+              {agent.key === AGENTS.SIMULATOR && st.llmCalls !== undefined && st.llmCalls > 0 && (
                 <div style={{ 
                   marginTop: 6,
                   padding: "4px 8px",
@@ -6247,6 +6320,8 @@ function safeStringify(v: any) {
   }
 }
 
+const LS_PIPELINE_JOB_KEY = "simulab_pipeline_job"
+
 function lsFeedbackKey(taskId: string) {
   return `simulab_feedback_${taskId}`
 }
@@ -6295,6 +6370,10 @@ function exportCSV(scenarios: any[] | null, scenarioMetrics: Record<string, any>
     "admet.toxicity_risk",
     "admet.is_safe",
     "synthesis.estimated_cost_usd",
+    "docking.binding_affinity_kcal_per_mol.source",
+    "admet.toxicity_risk.source",
+    "admet.is_safe.source",
+    "synthesis.estimated_cost_usd.source",
     "overall_rating",
     "notes",
   ].join(","))
@@ -6310,6 +6389,12 @@ function exportCSV(scenarios: any[] | null, scenarioMetrics: Record<string, any>
       wrapCsv(m?.admet?.toxicity_risk ?? ""),
       m?.admet?.is_safe ?? "",
       m?.synthesis?.estimated_cost_usd ?? "",
+      ...[
+        m?.docking?.provenance?.binding_affinity_kcal_per_mol,
+        m?.admet?.provenance?.toxicity_risk,
+        m?.admet?.provenance?.is_safe,
+        m?.synthesis?.provenance?.estimated_cost_usd,
+      ].map((p) => wrapCsv(p ? describeProvenance(p) : "")),
       fb?.overall ?? "",
       wrapCsv(fb?.notes ?? ""),
     ]
@@ -6335,16 +6420,6 @@ function wrapCsv(v: any) {
   return s
 }
 
-function formatScenarioLabel(id?: string) {
-  if (!id) return "Scenario"
-  const match = id.match(/scenario[_\-\s]*(\d+)/i)
-  if (match && match[1]) {
-    return `Scenario ${match[1]}`
-  }
-  const cleaned = id.replace(/[_\-]+/g, " ").replace(/\s+/g, " ").trim()
-  return cleaned.charAt(0).toUpperCase() + cleaned.slice(1)
-}
-
 function ProgressBar({ percent }: { percent: number }) {
   const p = Math.max(0, Math.min(100, percent || 0))
   return (
@@ -6437,24 +6512,58 @@ function seededRandom(id: string, salt: string) {
   return x - Math.floor(x)
 }
 
-function normalizeDockingMetrics(id: string, docking?: any) {
-  const out: any = { ...(docking || {}) }
+// Record where a value filled in on the client came from
+function markFilled(out: { provenance: Record<string, MetricProvenance> }, field: string, origin: MetricOrigin, derivedFrom?: string) {
+  out.provenance[field] = derivedFrom ? { origin, derived_from: derivedFrom } : { origin }
+}
+
+// Carry each metric group's per-field provenance next to its values
+function withProvenance(metrics: { docking?: object; admet?: object; synthesis?: object } | undefined, provenance?: MetricProvenanceMap) {
+  if (!metrics || !provenance) return metrics
+  return {
+    ...metrics,
+    docking: metrics.docking && { ...metrics.docking, provenance: provenance.docking },
+    admet: metrics.admet && { ...metrics.admet, provenance: provenance.admet },
+    synthesis: metrics.synthesis && { ...metrics.synthesis, provenance: provenance.synthesis },
+  }
+}
+
+function normalizeDockingMetrics(id: string, docking?: any, local?: LocalMetrics) {
+  const out: any = { ...(docking || {}), provenance: { ...(docking?.provenance || {}) } }
+  if (out.binding_affinity_kcal_per_mol == null && local) {
+    out.binding_affinity_kcal_per_mol = local.docking.binding_affinity_kcal_per_mol
+    markFilled(out, "binding_affinity_kcal_per_mol", "local_descriptors")
+  }
   if (out.binding_affinity_kcal_per_mol == null) {
     const rand = seededRandom(id, "dock-ba")
     const value = -6 - rand * 6 // range roughly -6 to -12
     out.binding_affinity_kcal_per_mol = Number(value.toFixed(2))
+    markFilled(out, "binding_affinity_kcal_per_mol", "heuristic")
   }
   if (out.potency_pass == null) {
     out.potency_pass = Number(out.binding_affinity_kcal_per_mol) <= -8
+    const source = out.provenance.binding_affinity_kcal_per_mol
+    if (source) markFilled(out, "potency_pass", source.origin, "binding_affinity_kcal_per_mol")
   }
   return out
 }
 
-function normalizeAdmetMetrics(id: string, admet?: any) {
-  const out: any = { ...(admet || {}) }
+function normalizeAdmetMetrics(id: string, admet?: any, local?: LocalMetrics) {
+  const out: any = { ...(admet || {}), provenance: { ...(admet?.provenance || {}) } }
+  if (local) {
+    if (!out.toxicity_risk) {
+      out.toxicity_risk = local.admet.toxicity_risk
+      markFilled(out, "toxicity_risk", "local_descriptors")
+    }
+    if (out.herg_flag == null) {
+      out.herg_flag = local.admet.herg_flag
+      markFilled(out, "herg_flag", "local_descriptors")
+    }
+  }
   if (!out.toxicity_risk) {
     const rand = seededRandom(id, "admet-risk")
     out.toxicity_risk = rand < 0.6 ? "LOW" : rand < 0.85 ? "MED" : "HIGH"
+    markFilled(out, "toxicity_risk", "heuristic")
   }
   if (out.herg_flag == null) {
     const rand = seededRandom(id, "admet-herg")
@@ -6465,23 +6574,38 @@ function normalizeAdmetMetrics(id: string, admet?: any) {
     } else {
       out.herg_flag = rand < 0.1
     }
+    markFilled(out, "herg_flag", "heuristic")
   }
   if (out.is_safe == null) {
     out.is_safe = out.toxicity_risk !== "HIGH" && !out.herg_flag
+    const source = out.provenance.herg_flag
+    if (source) markFilled(out, "is_safe", source.origin, "herg_flag")
   }
   return out
 }
 
-function normalizeSynthesisMetrics(id: string, synthesis?: any) {
-  const out: any = { ...(synthesis || {}) }
+function normalizeSynthesisMetrics(id: string, synthesis?: any, local?: LocalMetrics) {
+  const out: any = { ...(synthesis || {}), provenance: { ...(synthesis?.provenance || {}) } }
+  if (local) {
+    if (out.sa_score == null) {
+      out.sa_score = local.synthesis.sa_score
+      markFilled(out, "sa_score", "local_descriptors")
+    }
+    if (out.estimated_cost_usd == null) {
+      out.estimated_cost_usd = local.synthesis.estimated_cost_usd
+      markFilled(out, "estimated_cost_usd", "local_descriptors")
+    }
+  }
   if (out.sa_score == null) {
     const rand = seededRandom(id, "syn-sa")
     const value = 2.2 + rand * 4.0 // approx 2.2 to 6.2
     out.sa_score = Number(value.toFixed(2))
+    markFilled(out, "sa_score", "heuristic")
   }
   if (out.estimated_cost_usd == null) {
     const rand = seededRandom(id, "syn-cost")
     out.estimated_cost_usd = Math.round(1200 + rand * 2300) // 1200-3500
+    markFilled(out, "estimated_cost_usd", "heuristic")
   }
   return out
 }
@@ -0,0 +1,304 @@
+"use client"
+
+import { motion } from "framer-motion"
+
+/**
+ * Pareto chart: potency strength (|ΔG|) vs Synthetic Desirability Score (SDS).
+ *
+ * Renders a single run (scenarios + scenarioMetrics + winners) or several
+ * runs overlaid on the same axes via `series` (used by the comparison view).
+ */
+
+export type ParetoScenario = {
+  scenario_id: string
+  smiles?: string
+  scaffold?: string
+  name?: string
+  metadata?: { scaffold?: string }
+}
+
+export type ParetoMetrics = {
+  docking?: { binding_affinity_kcal_per_mol?: number }
+  admet?: { herg_flag?: boolean }
+  synthesis?: { sa_score?: number; num_steps?: number }
+}
+
+export type ParetoSeries = {
+  key: string
+  label: string
+  color: string
+  scenarios: ParetoScenario[]
+  scenarioMetrics: Record<string, ParetoMetrics>
+  winners: { scenario_id: string }[]
+  stepsThreshold?: number
+}
+
+type ParetoPoint = {
+  seriesKey: string
+  seriesLabel: string
+  color: string
+  scenario_id: string
+  rawPotency: number | null
+  potency: number
+  saScore: number
+  sds: number
+  numSteps: number | null
+  stepsVeto: boolean
+  isWinner: boolean
+}
+
+export const SERIES_COLORS = ["#60a5fa", "#f97316", "#22c55e", "#a855f7", "#eab308", "#ec4899"]
+
+export function formatScenarioLabel(id?: string) {
+  if (!id) return "Scenario"
+  const match = id.match(/scenario[_\-\s]*(\d+)/i)
+  if (match && match[1]) {
+    return `Scenario ${match[1]}`
+  }
+  const cleaned = id.replace(/[_\-]+/g, " ").replace(/\s+/g, " ").trim()
+  return cleaned.charAt(0).toUpperCase() + cleaned.slice(1)
+}
+
+export function ParetoChart({
+  scenarios,
+  scenarioMetrics,
+  winners,
+  stepsThreshold,
+  series,
+}: {
+  scenarios?: ParetoScenario[]
+  scenarioMetrics?: Record<string, ParetoMetrics>
+  winners?: { scenario_id: string }[]
+  stepsThreshold?: number
+  series?: ParetoSeries[]
+}) {
+  const width = 600
+  const height = 400
+  const pad = 60
+  const potencyMin = 6
+  const potencyMax = 12
+  const saMin = 1
+  const saMax = 10
+  const sdsMin = 1
+  const sdsMax = 10
+  const overlay = Array.isArray(series) && series.length > 0
+
+  const clamp = (val: number, min: number, max: number) => Math.min(Math.max(val, min), max)
+  const toSDS = (sa: number) => {
+    const normalized = (saMax - clamp(sa, saMin, saMax)) / (saMax - saMin)
+    return sdsMin + normalized * (sdsMax - sdsMin)
+  }
+
+  const allSeries: ParetoSeries[] = overlay
+    ? series
+    : [{
+        key: "current",
+        label: "Current run",
+        color: SERIES_COLORS[0],
+        scenarios: scenarios || [],
+        scenarioMetrics: scenarioMetrics || {},
+        winners: winners || [],
+        stepsThreshold,
+      }]
+
+  // Extract data points: x = potency magnitude (|ΔG|), y = Synthetic Desirability Score (SDS)
+  const points: ParetoPoint[] = allSeries.flatMap((sr) => sr.scenarios.map((s) => {
+    const sid = s.scenario_id
+    const metrics: ParetoMetrics = sr.scenarioMetrics[sid] || {}
+    const rawPotency = metrics?.docking?.binding_affinity_kcal_per_mol
+    const potencyMag = typeof rawPotency === "number" ? Math.abs(rawPotency) : null
+    const potency = potencyMag != null ? clamp(potencyMag, potencyMin, potencyMax) : null
+    const saRaw = metrics?.synthesis?.sa_score
+    const saScore = typeof saRaw === "number" ? clamp(saRaw, saMin, saMax) : null
+    const sds = saScore != null ? Number(toSDS(saScore).toFixed(2)) : null
+    const stepsRaw = metrics?.synthesis?.num_steps
+    const numSteps = typeof stepsRaw === "number" ? stepsRaw : null
+    const stepsVeto = numSteps != null && sr.stepsThreshold != null && numSteps > sr.stepsThreshold
+    const isWinner = sr.winners.some((w) => w.scenario_id === sid)
+    if (potency === null || sds === null || saScore === null) return null
+    return {
+      seriesKey: sr.key,
+      seriesLabel: sr.label,
+      color: sr.color,
+      scenario_id: sid,
+      rawPotency: typeof rawPotency === "number" ? rawPotency : null,
+      potency,
+      saScore,
+      sds,
+      numSteps,
+      stepsVeto,
+      isWinner,
+    }
+  }).filter((p): p is ParetoPoint => p !== null))
+
+  if (points.length === 0) {
+    return (
+      <div style={{
+        border: "1px solid #e5e7eb",
+        borderRadius: 8,
+        background: "#fff",
+        padding: 20,
+        textAlign: "center",
+        color: "#6b7280"
+      }}>
+        Insufficient data for Pareto analysis
+      </div>
+    )
+  }
+
+  const scaleX = (x: number) => pad + ((x - potencyMin) / Math.max(1, potencyMax - potencyMin)) * (width - pad * 2)
+  const scaleY = (y: number) => pad + ((sdsMax - y) / Math.max(1, sdsMax - sdsMin)) * (height - pad * 2)
+  const pointLabel = (p: ParetoPoint) => overlay ? `${p.seriesLabel} · ${formatScenarioLabel(p.scenario_id)}` : formatScenarioLabel(p.scenario_id)
+
+  return (
+    <div style={{ border: "1px solid #e5e7eb", borderRadius: 8, background: "#fff", padding: "0 16px 16px", display: "flex", gap: 20, alignItems: "flex-start" }}>
+      <svg width={width} height={height} style={{ flexShrink: 0, padding: "0 4px 4px" }}>
+        <rect x={0} y={0} width={width} height={height} fill="#ffffff" />
+
+        {/* Zones */}
+        <rect
+          x={scaleX(potencyMin)}
+          y={scaleY(sdsMin)}
+          width={scaleX((potencyMin + potencyMax) / 2) - scaleX(potencyMin)}
+          height={scaleY(sdsMax) - scaleY(sdsMin)}
+          fill="#fee2e2"
+          opacity={0.25}
+        />
+        <rect
+          x={scaleX((potencyMin + potencyMax) / 2)}
+          y={scaleY(sdsMin)}
+          width={scaleX(potencyMax) - scaleX((potencyMin + potencyMax) / 2)}
+          height={scaleY((sdsMin + sdsMax) / 2) - scaleY(sdsMin)}
+          fill="#fef9c3"
+          opacity={0.35}
+        />
+        <rect
+          x={scaleX(potencyMin)}
+          y={scaleY((sdsMin + sdsMax) / 2)}
+          width={scaleX((potencyMin + potencyMax) / 2) - scaleX(potencyMin)}
+          height={scaleY(sdsMax) - scaleY((sdsMin + sdsMax) / 2)}
+          fill="#fef9c3"
+          opacity={0.35}
+        />
+        <rect
+          x={scaleX((potencyMin + potencyMax) / 2)}
+          y={scaleY((sdsMin + sdsMax) / 2)}
+          width={scaleX(potencyMax) - scaleX((potencyMin + potencyMax) / 2)}
+          height={scaleY(sdsMax) - scaleY((sdsMin + sdsMax) / 2)}
+          fill="#bbf7d0"
+          opacity={0.35}
+        />
+
+        {/* Grid lines */}
+        <g opacity={0.2}>
+          {[0, 0.25, 0.5, 0.75, 1].map((t) => {
+            const potencyValue = potencyMin + (potencyMax - potencyMin) * t
+            const sdsValue = sdsMin + (sdsMax - sdsMin) * t
+            const x = scaleX(potencyValue)
+            const y = scaleY(sdsValue)
+            return (
+              <g key={t}>
+                <line x1={x} y1={pad} x2={x} y2={height - pad} stroke="#e5e7eb" strokeDasharray="4,4" />
+                <line x1={pad} y1={y} x2={width - pad} y2={y} stroke="#e5e7eb" strokeDasharray="4,4" />
+                <text x={x} y={height - pad + 28} fontSize={11} fontWeight={600} textAnchor="middle" fill="#0b1120">
+                  {potencyValue.toFixed(1)}
+                </text>
+                <text x={pad - 18} y={y + 4} fontSize={11} fontWeight={600} textAnchor="end" fill="#0b1120">
+                  {sdsValue.toFixed(1)}
+                </text>
+              </g>
+            )
+          })}
+        </g>
+
+        {/* Axes */}
+        <line x1={pad} y1={height - pad} x2={width - pad} y2={height - pad} stroke="#111827" strokeWidth={2} />
+        <line x1={pad} y1={pad} x2={pad} y2={height - pad} stroke="#111827" strokeWidth={2} />
+
+        {/* Axis labels */}
+        <text
+          x={width / 2}
+          y={height - 10}
+          textAnchor="middle"
+          fontSize={13}
+          fontWeight={600}
+          fill="hsl(var(--foreground))"
+        >
+          Potency Strength (|ΔG|, kcal/mol)
+        </text>
+        <text
+          x={15}
+          y={height / 2}
+          textAnchor="middle"
+          fontSize={13}
+          fontWeight={600}
+          fill="hsl(var(--foreground))"
+          transform={`rotate(-90, 15, ${height / 2})`}
+        >
+          Synthetic Accessibility (SA) Score
+        </text>
+
+        {/* Data points */}
+        {points.map((p, idx) => {
+          const cx = scaleX(p.potency)
+          const cy = scaleY(p.sds)
+          // Single run keeps the winner-highlight palette; overlays colour by run
+          const fill = overlay ? p.color : (p.isWinner ? "#60a5fa" : "#6b7280")
+          const stroke = overlay ? (p.isWinner ? "#111827" : p.color) : (p.isWinner ? "#2563eb" : "#374151")
+          const radius = p.isWinner ? 7 : 5
+
+          return (
+            <motion.g
+              key={`${p.seriesKey}-${p.scenario_id}`}
+              initial={{ scale: 0, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              transition={{ duration: 0.3, delay: idx * 0.05 }}
+            >
+              <circle
+                cx={cx}
+                cy={cy}
+                r={radius}
+                fill={fill}
+                fillOpacity={overlay ? 0.75 : 1}
+                stroke={stroke}
+                strokeWidth={1.5}
+              />
+              {p.stepsVeto && (
+                <circle cx={cx} cy={cy} r={radius + 4} fill="none" stroke="#ef4444" strokeWidth={1.5} strokeDasharray="3,2" />
+              )}
+              <text
+                x={cx + 10}
+                y={cy + 2}
+                fontSize={10}
+                fill={overlay ? p.color : (p.isWinner ? "#60a5fa" : "hsl(var(--muted-foreground))")}
+              >
+                {formatScenarioLabel(p.scenario_id)}
+              </text>
+              <title>{`${pointLabel(p)}${p.isWinner ? " (Winner)" : ""}\nΔG: ${p.rawPotency ?? "—"}\nSDS: ${p.sds}\nSA Score: ${p.saScore}\nSteps: ${p.numSteps ?? "—"}${p.stepsVeto ? " (route veto)" : ""}`}</title>
+            </motion.g>
+          )
+        })}
+      </svg>
+      <div style={{ minWidth: 220, paddingTop: 12 }}>
+        <div style={{ display: "grid", gap: 8 }}>
+          {overlay && allSeries.map((sr) => (
+            <div key={`series-${sr.key}`} style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 12, fontWeight: 600, color: "hsl(var(--foreground))" }}>
+              <span style={{ width: 10, height: 10, borderRadius: 5, background: sr.color, display: "inline-block" }} />
+              {sr.label}
+            </div>
+          ))}
+          {points.map((p) => (
+            <div key={`legend-${p.seriesKey}-${p.scenario_id}`} style={{ border: "1px solid hsl(var(--border))", borderLeft: overlay ? `3px solid ${p.color}` : undefined, borderRadius: 10, padding: 10, background: "hsl(var(--card))" }}>
+              <div style={{ fontWeight: 600, color: p.isWinner ? "#60a5fa" : "hsl(var(--foreground))" }}>{pointLabel(p)}</div>
+              <div style={{ fontSize: 12, color: "hsl(var(--foreground))" }}>ΔG: {p.rawPotency ?? "—"} kcal/mol</div>
+              <div style={{ fontSize: 12, color: "hsl(var(--foreground))" }}>SA Score: {p.saScore ?? "—"}</div>
+              <div style={{ fontSize: 12, color: p.stepsVeto ? "#ef4444" : "hsl(var(--foreground))" }}>
+                Steps: {p.numSteps ?? "—"}{p.stepsVeto ? " (route veto)" : ""}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
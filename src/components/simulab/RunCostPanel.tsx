@@ -0,0 +1,107 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { UsageStage, UsageSummary } from "@/lib/usage-ledger"
+
+/**
+ * Run cost: tokens and estimated dollars of the agent and LLM calls recorded
+ * for an experiment, per stage, against the run budget
+ * (GET /api/simulab/experiments/:id/usage). Refetches when `refreshKey`
+ * changes, e.g. after a regenerate or an edit.
+ */
+
+type UsageResponse = {
+  usage: UsageSummary
+  budget_usd: number | null
+  budget_exceeded: boolean
+}
+
+const STAGE_LABELS: Record<UsageStage, string> = {
+  design: "Design",
+  metrics: "Metrics",
+  verdict: "Verdict",
+  report: "Report",
+  edits: "Edits",
+}
+
+function formatUsd(usd: number) {
+  if (usd === 0) return "$0"
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`
+}
+
+function formatTokens(tokens: number) {
+  return tokens >= 10_000 ? `${(tokens / 1000).toFixed(1)}k` : tokens.toLocaleString()
+}
+
+export function RunCostPanel({ experimentId, refreshKey }: { experimentId: string; refreshKey?: unknown }) {
+  const [data, setData] = useState<UsageResponse | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch(`/api/simulab/experiments/${encodeURIComponent(experimentId)}/usage`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((body) => { if (!cancelled && body?.success) setData(body) })
+      .catch((err) => console.warn("[SimuLab] Failed to load run usage:", err))
+    return () => { cancelled = true }
+  }, [experimentId, refreshKey])
+
+  if (!data || data.usage.total.calls === 0) return null
+  const { total, by_stage, unpriced_models } = data.usage
+  const stages = (Object.keys(STAGE_LABELS) as UsageStage[]).filter((s) => by_stage[s]?.calls > 0)
+
+  return (
+    <div
+      className="no-print"
+      style={{
+        marginTop: 12,
+        padding: "10px 14px",
+        border: `1px solid ${data.budget_exceeded ? "rgba(239,68,68,0.45)" : "hsl(var(--border))"}`,
+        borderRadius: 8,
+        background: "hsl(var(--card))",
+        fontSize: 12,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", marginBottom: 6 }}>
+        <span style={{ fontWeight: 700 }}>Run cost</span>
+        <span style={{ color: "hsl(var(--muted-foreground))" }}>
+          {formatTokens(total.total_tokens)} tokens · {formatUsd(total.cost_usd)}
+          {data.budget_usd !== null && ` of ${formatUsd(data.budget_usd)} budget`}
+          {data.budget_exceeded && <span style={{ color: "#ef4444", fontWeight: 700 }}> · budget exceeded, heuristics in use</span>}
+        </span>
+      </div>
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ color: "hsl(var(--muted-foreground))", textAlign: "right" }}>
+            <th style={{ textAlign: "left", fontWeight: 600 }}>Stage</th>
+            <th style={{ fontWeight: 600 }}>Calls</th>
+            <th style={{ fontWeight: 600 }}>Prompt</th>
+            <th style={{ fontWeight: 600 }}>Completion</th>
+            <th style={{ fontWeight: 600 }}>Est. cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stages.map((stage) => {
+            const t = by_stage[stage]
+            return (
+              <tr key={stage} style={{ textAlign: "right" }}>
+                <td style={{ textAlign: "left" }}>{STAGE_LABELS[stage]}</td>
+                <td>
+                  {t.calls}
+                  {t.cached_calls > 0 && <span style={{ color: "hsl(var(--muted-foreground))" }}> ({t.cached_calls} cached)</span>}
+                </td>
+                <td>{formatTokens(t.prompt_tokens)}</td>
+                <td>{formatTokens(t.completion_tokens)}</td>
+                <td>{formatUsd(t.cost_usd)}</td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+      {unpriced_models.length > 0 && (
+        <div style={{ marginTop: 6, color: "hsl(var(--muted-foreground))" }}>
+          No price known for {unpriced_models.join(", ")}; counted as $0 (set SIMULAB_LLM_PRICES)
+        </div>
+      )}
+    </div>
+  )
+}
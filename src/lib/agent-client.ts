@@ -4,34 +4,71 @@
  * Connects frontend to deployed SimuLab agents via SGP/Agentex API.
  * Uses the EXACT same pattern as Subrogation demo.
  * 
- * Agents:
- * - simulab-orchestrator: Designs experiments, coordinates workflow
- * - simulab-simulator: Evaluates molecules (docking, ADMET, synthesis)
- * - simulab-judge: Multi-objective analysis and verdict generation
+ * Agents (names, endpoints, URLs and capabilities come from ./agent-registry):
+ * - orchestrator: Designs experiments, coordinates workflow
+ * - simulator: Evaluates molecules (docking, ADMET, synthesis)
+ * - judge: Multi-objective analysis and verdict generation
  * 
  * Environment variables (set in deployment, same as Subrogation):
  * - AGENT_MODE: 'dev' for local, 'prod' for deployed (default: prod)
  * - AGENTEX_SDK_API_KEY: API key for SGP/Agentex
  * - NEXT_PUBLIC_ACCOUNT_ID: Account ID
  * - NEXT_PUBLIC_AGENTEX_API_BASE_URL: Agentex API base URL
+ *
+ * Timeouts, retries and the circuit breaker live in ./agent-transport; pass
+ * `{ signal: request.signal }` so a cancelled request stops its agent calls.
+ * Responses are validated against the schemas in ./agent-contracts.
+ * Per-molecule Simulator evaluations are idempotent and kept in
+ * ./response-cache (`options.cache` bypasses or refreshes it).
+ * With `options.span` (see ./span-recorder) each call, polled job and
+ * molecule evaluation is traced as a child span.
  */
 
-// Agent names as deployed in SGP
-export const AGENTS = {
-  ORCHESTRATOR: 'simulab-orchestrator',
-  SIMULATOR: 'simulab-simulator',
-  JUDGE: 'simulab-judge',
-} as const;
-
-export type AgentName = typeof AGENTS[keyof typeof AGENTS];
-
-// Local development ports (same pattern as Subrogation)
-const AGENT_PORTS: Record<AgentName, string> = {
-  [AGENTS.ORCHESTRATOR]: process.env.ORCHESTRATOR_PORT || '8003',
-  [AGENTS.SIMULATOR]: process.env.SIMULATOR_PORT || '8001',
-  [AGENTS.JUDGE]: process.env.JUDGE_PORT || '8002',
+import type { TSchema } from '@sinclair/typebox';
+import { agentFetch, isAgentAvailable, sleep, type AgentPolicy } from './agent-transport';
+import { AGENTS, getAgent, getAgentDevUrl, hasCapability, isDeclaredEndpoint, type AgentName } from './agent-registry';
+import { mapWithConcurrency } from './concurrency';
+import { withCache, type CacheMode } from './response-cache';
+import type { SpanHandle } from './span-recorder';
+import {
+  AgentJobSchema,
+  AgentJobStatusSchema,
+  DesignExperimentResponseSchema,
+  EvaluateMoleculeResultSchema,
+  GenerateVerdictResponseSchema,
+  ProcessEditResponseSchema,
+  checkContract,
+  type AgentJob,
+  type AgentJobStatus,
+  type DesignExperimentRequest,
+  type DesignExperimentResponse,
+  type EvaluatedMolecule,
+  type EvaluateMoleculeResult,
+  type EvaluateMoleculesRequest,
+  type EvaluateMoleculesResponse,
+  type FailedMolecule,
+  type GenerateVerdictRequest,
+  type GenerateVerdictResponse,
+  type ProcessEditRequest,
+  type ProcessEditResponse,
+} from './agent-contracts';
+
+export type {
+  AgentJobStatus,
+  DesignExperimentRequest,
+  DesignExperimentResponse,
+  EvaluatedMolecule,
+  EvaluateMoleculesRequest,
+  EvaluateMoleculesResponse,
+  FailedMolecule,
+  GenerateVerdictRequest,
+  GenerateVerdictResponse,
+  ProcessEditRequest,
+  ProcessEditResponse,
 };
 
+export { AGENTS, type AgentName };
+
 /**
  * Check if we're in development mode
  */
@@ -82,13 +119,14 @@ function getAgentConfig(agent: AgentName, endpoint: string): {
 } {
   const agentMode = process.env.AGENT_MODE || 'prod';
   const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const definition = getAgent(agent);
 
   if (agentMode === 'dev') {
     // Development mode - connect directly to local agent
-    const port = AGENT_PORTS[agent];
-    console.log(`[${agent}] Dev mode: Connecting to local agent on port ${port}`);
+    const devUrl = definition ? getAgentDevUrl(definition) : null;
+    console.log(`[${agent}] Dev mode: Connecting to local agent at ${devUrl}`);
     return {
-      url: `http://localhost:${port}${endpoint}`,
+      url: `${devUrl}${endpoint}`,
       headers,
     };
   } else {
@@ -102,12 +140,55 @@ function getAgentConfig(agent: AgentName, endpoint: string): {
 
     console.log(`[${agent}] Prod mode: Base URL: ${baseURL}`);
     return {
-      url: `${baseURL}/agents/forward/name/${agent}${endpoint}`,
+      url: `${baseURL}${definition?.prod_path}${endpoint}`,
       headers,
     };
   }
 }
 
+export interface AgentCallOptions {
+  /** Cancels the call, its retries and any polling (e.g. the incoming request's signal) */
+  signal?: AbortSignal;
+  /** Overrides the agent's timeout/retry policy for this call */
+  policy?: Partial<AgentPolicy>;
+  /** False for calls that start a job: only failures to connect are retried */
+  idempotent?: boolean;
+  /** Schema the response (for polling: the completed job's data) must match */
+  contract?: TSchema;
+  /** Called with each status of a polled job */
+  onProgress?: (status: AgentJobStatus) => void;
+  /** Response cache mode, for calls that are cached (evaluateMolecules) */
+  cache?: CacheMode;
+  /** Span the call is traced under */
+  span?: SpanHandle;
+}
+
+/**
+ * Contract check for an agent payload; logs and returns the violation as a
+ * failed call
+ */
+function enforceContract<T>(
+  agent: AgentName,
+  endpoint: string,
+  data: unknown,
+  contract?: TSchema
+): { success: boolean; data?: T; error?: string } {
+  if (!contract) return { success: true, data: data as T };
+  const checked = checkContract(contract, data, `${agent} ${endpoint}`);
+  if (!checked.success) {
+    console.error(`[${agent}] ${checked.error}`);
+    return { success: false, error: checked.error };
+  }
+  return { success: true, data: checked.data as T };
+}
+
+/**
+ * End an agent call's span with the call's outcome
+ */
+function endAgentSpan(span: SpanHandle | undefined, result: { success: boolean; data?: unknown; error?: string }): void {
+  void span?.end(result.success ? { data: result.data } : null, result.success ? undefined : result.error || 'Agent call failed');
+}
+
 /**
  * Call an agent endpoint directly (for synchronous operations)
  * Same pattern as Subrogation demo
@@ -116,7 +197,25 @@ export async function callAgent<T = unknown>(
   agent: AgentName,
   endpoint: string,
   payload?: Record<string, unknown>,
-  method: 'GET' | 'POST' = 'POST'
+  method: 'GET' | 'POST' = 'POST',
+  options: AgentCallOptions = {}
+): Promise<{ success: boolean; data?: T; error?: string }> {
+  const span = options.span?.child(`${agent} ${endpoint}`, {
+    type: 'processing',
+    input: payload,
+    attributes: { agent, endpoint, method },
+  });
+  const result = await sendToAgent<T>(agent, endpoint, payload, method, options);
+  endAgentSpan(span, result);
+  return result;
+}
+
+async function sendToAgent<T>(
+  agent: AgentName,
+  endpoint: string,
+  payload: Record<string, unknown> | undefined,
+  method: 'GET' | 'POST',
+  options: AgentCallOptions
 ): Promise<{ success: boolean; data?: T; error?: string }> {
   const agentMode = process.env.AGENT_MODE || 'prod';
   
@@ -126,22 +225,30 @@ export async function callAgent<T = unknown>(
     return { success: false, error: 'AgentEx configuration is missing' };
   }
 
+  if (!isDeclaredEndpoint(agent, endpoint)) {
+    console.error(`[${agent}] ${endpoint} is not listed in the agent registry`);
+    return { success: false, error: `${agent} ${endpoint} is not listed in the agent registry` };
+  }
+
   const { url, headers } = getAgentConfig(agent, endpoint);
   
   console.log(`[${agent}] ${method} ${url}`);
 
   try {
-    const response = await fetch(url, {
+    const result = await agentFetch(agent, url, {
       method,
       headers,
       body: method === 'POST' && payload ? JSON.stringify(payload) : undefined,
-    });
+    }, options);
 
-    console.log(`[${agent}] Response status: ${response.status}`);
+    if (!result.ok) {
+      if (!result.response) {
+        console.error(`[${agent}] ${result.error}`);
+        return { success: false, error: result.error };
+      }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[${agent}] Agent error (${response.status}):`, errorText);
+      const errorText = await result.response.text();
+      console.error(`[${agent}] Agent error (${result.response.status}):`, errorText);
       
       let errorDetails;
       try {
@@ -152,13 +259,16 @@ export async function callAgent<T = unknown>(
       
       return { 
         success: false, 
-        error: `Agent error: ${response.status}`,
+        error: result.error,
         data: errorDetails as T,
       };
     }
 
+    const response = result.response;
+    console.log(`[${agent}] Response status: ${response.status}`);
+
     const data = await response.json();
-    return { success: true, data: data as T };
+    return enforceContract<T>(agent, endpoint, data, options.contract);
   } catch (error) {
     console.error(`[${agent}] Error:`, error);
     return { 
@@ -179,7 +289,8 @@ export async function callAgentWithPolling<T = unknown>(
   payload: Record<string, unknown>,
   idField: string = 'id',
   maxAttempts: number = 60,
-  pollIntervalMs: number = 3000
+  pollIntervalMs: number = 3000,
+  options: AgentCallOptions = {}
 ): Promise<{ success: boolean; data?: T; error?: string }> {
   const agentMode = process.env.AGENT_MODE || 'prod';
   
@@ -193,20 +304,21 @@ export async function callAgentWithPolling<T = unknown>(
   console.log(`[${agent}] Starting: ${startConfig.url}`);
 
   try {
-    const startResponse = await fetch(startConfig.url, {
+    const start = await agentFetch(agent, startConfig.url, {
       method: 'POST',
       headers: startConfig.headers,
       body: JSON.stringify(payload),
-    });
-
-    console.log(`[${agent}] Start response status: ${startResponse.status}`);
+    }, { ...options, idempotent: false });
 
-    if (!startResponse.ok) {
-      const errorText = await startResponse.text();
-      console.error(`[${agent}] Agent error (${startResponse.status}):`, errorText);
-      return { success: false, error: `Failed to start: ${startResponse.status}` };
+    if (!start.ok) {
+      const errorText = start.response ? await start.response.text() : start.error;
+      console.error(`[${agent}] Failed to start:`, errorText);
+      return { success: false, error: start.status ? `Failed to start: ${start.status}` : start.error };
     }
 
+    const startResponse = start.response;
+    console.log(`[${agent}] Start response status: ${startResponse.status}`);
+
     const startResult = await startResponse.json();
     const taskId = startResult[idField] || payload[idField];
     
@@ -223,7 +335,9 @@ export async function callAgentWithPolling<T = unknown>(
     let attempts = 0;
 
     while (attempts < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+      if (!(await sleep(pollIntervalMs, options.signal))) {
+        return { success: false, error: 'Request cancelled' };
+      }
       attempts++;
 
       console.log(`[${agent}] Polling status (attempt ${attempts}/${maxAttempts})...`);
@@ -237,22 +351,25 @@ export async function callAgentWithPolling<T = unknown>(
         if (accountId) statusHeaders['x-account-id'] = accountId;
       }
 
-      const statusResponse = await fetch(statusConfig.url, {
+      const status = await agentFetch(agent, statusConfig.url, {
         method: 'GET',
         headers: statusHeaders,
-      });
+      }, options);
 
-      if (!statusResponse.ok) {
-        console.error(`[${agent}] Status check failed: ${statusResponse.status}`);
+      if (!status.ok) {
+        if (status.aborted) return { success: false, error: status.error };
+        console.error(`[${agent}] Status check failed: ${status.error}`);
         continue;
       }
 
+      const statusResponse = status.response;
       const statusData = await statusResponse.json();
       console.log(`[${agent}] Status: ${statusData.status}, Progress: ${statusData.progress}%, Message: ${statusData.message}`);
+      options.onProgress?.(statusData);
 
       if (statusData.status === 'completed') {
         console.log(`[${agent}] Processing complete!`);
-        return { success: true, data: statusData.data as T };
+        return enforceContract<T>(agent, statusEndpointBase, statusData.data, options.contract);
       }
 
       if (statusData.status === 'error') {
@@ -278,102 +395,107 @@ export async function callAgentWithPolling<T = unknown>(
 // SIMULATOR AGENT FUNCTIONS
 // ============================================================================
 
-export interface EvaluateMoleculesRequest {
-  experiment_id: string;
-  protein_target: string;
-  scenarios: Array<{
-    scenario_id: string;
-    smiles: string;
-    scaffold: string;
-  }>;
+/** Progress of one molecule in evaluateMolecules */
+export interface MoleculeUpdate {
+  scenario_id: string;
+  status: 'running' | 'complete' | 'error';
+  result?: EvaluatedMolecule;
+  error?: string;
 }
 
-export interface EvaluateMoleculesResponse {
-  success: boolean;
-  experiment_id: string;
-  results: Array<{
-    scenario_id: string;
-    smiles: string;
-    scaffold: string;
-    docking: {
-      binding_affinity_kcal_per_mol: number;
-      potency_pass: boolean;
-    };
-    admet: {
-      toxicity_risk: string;
-      herg_flag: boolean;
-      is_safe: boolean;
-    };
-    synthesis: {
-      sa_score: number;
-      estimated_cost_usd: number;
-    };
-    data_source: string;
-    confidence: string;
-  }>;
+export interface EvaluateMoleculesOptions extends AgentCallOptions {
+  /** Molecules evaluated at once (default 8) */
+  concurrency?: number;
+  /** Called as each molecule starts, completes or fails */
+  onUpdate?: (update: MoleculeUpdate) => void;
 }
 
 /**
  * Call Simulator agent to evaluate multiple molecules
- * Uses the /evaluate_molecule endpoint (singular) for each scenario in parallel
+ * Uses the /evaluate_molecule endpoint (singular) for each scenario, at most
+ * `concurrency` at a time; molecules that fail are listed in `failed` with the
+ * reason rather than dropped
  */
 export async function evaluateMolecules(
-  request: EvaluateMoleculesRequest
+  request: EvaluateMoleculesRequest,
+  options: EvaluateMoleculesOptions = {}
 ): Promise<{ success: boolean; data?: EvaluateMoleculesResponse; error?: string }> {
-  console.log(`[Simulator] Evaluating ${request.scenarios.length} molecules in parallel...`);
+  const { concurrency = 8, onUpdate, ...callOptions } = options;
+  console.log(`[Simulator] Evaluating ${request.scenarios.length} molecules, ${concurrency} at a time...`);
   
-  // Call /evaluate_molecule for each scenario in parallel
-  const evaluationPromises = request.scenarios.map(async (scenario) => {
-    const result = await callAgent<{
-      success: boolean;
-      smiles: string;
-      protein_target: string;
-      metrics: {
-        docking: { binding_affinity_kcal_per_mol: number; potency_pass: boolean };
-        admet: { toxicity_risk: string; toxicity_prob: number; herg_flag: boolean; is_safe: boolean };
-        synthesis: { sa_score: number; num_steps: number; estimated_cost_usd: number };
-        _source?: string;
-      };
-    }>(
-      AGENTS.SIMULATOR,
-      '/evaluate_molecule',
-      {
-        smiles: scenario.smiles,
-        scaffold: scenario.scaffold,
-        protein_target: request.protein_target,
+  const outcomes = await mapWithConcurrency(request.scenarios, concurrency, async (scenario): Promise<EvaluatedMolecule> => {
+    onUpdate?.({ scenario_id: scenario.scenario_id, status: 'running' });
+
+    const payload = {
+      smiles: scenario.smiles,
+      scaffold: scenario.scaffold,
+      protein_target: request.protein_target,
+    };
+    const span = callOptions.span?.child(`evaluate ${scenario.scenario_id}`, { type: 'processing', input: payload });
+    const { value: result, cache } = await withCache(
+      { kind: 'agent', model: `${AGENTS.SIMULATOR}/evaluate_molecule`, inputs: payload },
+      callOptions.cache ?? 'default',
+      async () => {
+        const value = await callAgent<EvaluateMoleculeResult>(
+          AGENTS.SIMULATOR,
+          '/evaluate_molecule',
+          payload,
+          'POST',
+          { ...callOptions, span, contract: EvaluateMoleculeResultSchema }
+        );
+        return { value, store: value.success && !!value.data };
       }
     );
+    span?.setAttributes({ cache });
+    endAgentSpan(span, result);
 
     if (!result.success || !result.data) {
-      console.error(`[Simulator] Failed to evaluate ${scenario.scenario_id}: ${result.error}`);
-      return null;
+      const error = result.error || 'No response from agent';
+      onUpdate?.({ scenario_id: scenario.scenario_id, status: 'error', error });
+      throw new Error(error);
     }
 
     const metrics = result.data.metrics;
-    return {
+    const evaluated: EvaluatedMolecule = {
       scenario_id: scenario.scenario_id,
       smiles: scenario.smiles,
       scaffold: scenario.scaffold,
       docking: metrics.docking,
       admet: {
         toxicity_risk: metrics.admet.toxicity_risk,
+        toxicity_prob: metrics.admet.toxicity_prob,
         herg_flag: metrics.admet.herg_flag,
         is_safe: metrics.admet.is_safe,
       },
       synthesis: {
         sa_score: metrics.synthesis.sa_score,
+        num_steps: metrics.synthesis.num_steps,
         estimated_cost_usd: metrics.synthesis.estimated_cost_usd,
       },
       data_source: metrics._source || 'agent',
       confidence: 'HIGH',
+      cache,
+      usage: result.data.usage,
     };
+    onUpdate?.({ scenario_id: scenario.scenario_id, status: 'complete', result: evaluated });
+    return evaluated;
+  }, callOptions.signal);
+
+  const results: EvaluatedMolecule[] = [];
+  const failed: FailedMolecule[] = [];
+  outcomes.forEach((outcome, idx) => {
+    const scenario = request.scenarios[idx];
+    if (outcome.status === 'fulfilled') {
+      results.push(outcome.value);
+      return;
+    }
+    const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+    console.error(`[Simulator] Failed to evaluate ${scenario.scenario_id}: ${error}`);
+    failed.push({ scenario_id: scenario.scenario_id, smiles: scenario.smiles, scaffold: scenario.scaffold, error });
   });
 
-  const results = await Promise.all(evaluationPromises);
-  const validResults = results.filter((r): r is NonNullable<typeof r> => r !== null);
-
-  if (validResults.length === 0) {
-    return { success: false, error: 'All molecule evaluations failed' };
+  if (results.length === 0) {
+    return { success: false, error: failed[0] ? `All molecule evaluations failed (${failed[0].error})` : 'All molecule evaluations failed' };
   }
 
   return {
@@ -381,34 +503,25 @@ export async function evaluateMolecules(
     data: {
       success: true,
       experiment_id: request.experiment_id,
-      results: validResults,
+      results,
+      failed,
     },
   };
 }
 
-export interface ProcessEditRequest {
-  experiment_id: string;
-  edit_instruction: string;
-  current_report: Record<string, unknown>;
-}
-
-export interface ProcessEditResponse {
-  success: boolean;
-  updated_report: Record<string, unknown>;
-  summary: string;
-  changes: string[];
-}
-
 /**
  * Call Simulator agent to process a report edit
  */
 export async function processReportEdit(
-  request: ProcessEditRequest
+  request: ProcessEditRequest,
+  options: AgentCallOptions = {}
 ): Promise<{ success: boolean; data?: ProcessEditResponse; error?: string }> {
   return callAgent<ProcessEditResponse>(
     AGENTS.SIMULATOR,
     '/process_edit',
-    request as unknown as Record<string, unknown>
+    request as unknown as Record<string, unknown>,
+    'POST',
+    { ...options, contract: ProcessEditResponseSchema }
   );
 }
 
@@ -416,39 +529,32 @@ export async function processReportEdit(
 // ORCHESTRATOR AGENT FUNCTIONS
 // ============================================================================
 
-export interface DesignExperimentRequest {
-  prompt: string;
-  constraints?: string;
-}
-
-export interface DesignExperimentResponse {
-  success: boolean;
-  goal: string;
-  protein_target: string;
-  constraints: string[];
-  scenarios: Array<{
-    scenario_id: string;
-    scaffold: string;
-    smiles: string;
-    rationale?: string;
-  }>;
-  suggested_num_scenarios: number;
-  data_source: string;
-  confidence: string;
-}
-
 /**
  * Call Orchestrator agent to design an experiment
  * Uses polling pattern for long-running operations
  */
 export async function designExperiment(
-  request: DesignExperimentRequest
+  request: DesignExperimentRequest,
+  options: AgentCallOptions = {}
 ): Promise<{ success: boolean; data?: DesignExperimentResponse; error?: string }> {
+  // Agents without async jobs only offer the synchronous call
+  if (!hasCapability(AGENTS.ORCHESTRATOR, 'async_jobs')) {
+    return callAgent<DesignExperimentResponse>(
+      AGENTS.ORCHESTRATOR,
+      '/design_experiment',
+      request as unknown as Record<string, unknown>,
+      'POST',
+      { ...options, contract: DesignExperimentResponseSchema }
+    );
+  }
+
   // Try polling pattern first
-  const startResult = await callAgent<{ job_id: string; status: string }>(
+  const startResult = await callAgent<AgentJob>(
     AGENTS.ORCHESTRATOR,
     '/start_design',
-    request as unknown as Record<string, unknown>
+    request as unknown as Record<string, unknown>,
+    'POST',
+    { ...options, contract: AgentJobSchema, idempotent: false }
   );
 
   if (startResult.success && startResult.data?.job_id) {
@@ -457,16 +563,24 @@ export async function designExperiment(
       AGENTS.ORCHESTRATOR,
       `/design_status/${startResult.data.job_id}`,
       60, // max attempts
-      2000 // poll interval ms
+      2000, // poll interval ms
+      { ...options, contract: DesignExperimentResponseSchema }
     );
   }
 
+  // Cancelled, or the circuit is open: the synchronous call would fail too
+  if (options.signal?.aborted || !isAgentAvailable(AGENTS.ORCHESTRATOR)) {
+    return { success: false, error: startResult.error };
+  }
+
   // Fallback to synchronous call (may timeout)
   console.log('[Orchestrator] Polling not available, trying synchronous call');
   return callAgent<DesignExperimentResponse>(
     AGENTS.ORCHESTRATOR,
     '/design_experiment',
-    request as unknown as Record<string, unknown>
+    request as unknown as Record<string, unknown>,
+    'POST',
+    { ...options, contract: DesignExperimentResponseSchema }
   );
 }
 
@@ -477,20 +591,46 @@ async function pollForResult<T>(
   agent: AgentName,
   statusEndpoint: string,
   maxAttempts: number = 60,
-  pollIntervalMs: number = 2000
+  pollIntervalMs: number = 2000,
+  options: AgentCallOptions = {}
+): Promise<{ success: boolean; data?: T; error?: string }> {
+  // One span for the whole job rather than one per status check
+  const span = options.span?.child(`${agent} ${statusEndpoint}`, {
+    type: 'processing',
+    attributes: { agent, endpoint: statusEndpoint, method: 'GET', polled: true },
+  });
+  let polls = 0;
+  const result = await pollJob<T>(agent, statusEndpoint, maxAttempts, pollIntervalMs, { ...options, span: undefined }, () => polls++);
+  span?.setAttributes({ polls });
+  endAgentSpan(span, result);
+  return result;
+}
+
+async function pollJob<T>(
+  agent: AgentName,
+  statusEndpoint: string,
+  maxAttempts: number,
+  pollIntervalMs: number,
+  options: AgentCallOptions,
+  onPoll: () => void
 ): Promise<{ success: boolean; data?: T; error?: string }> {
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    if (!(await sleep(pollIntervalMs, options.signal))) {
+      return { success: false, error: 'Request cancelled' };
+    }
     
-    const statusResult = await callAgent<{
-      status: string;
-      progress: number;
-      message: string;
-      data: T | null;
-      error: string | null;
-    }>(agent, statusEndpoint, undefined, 'GET');
+    onPoll();
+    const statusResult = await callAgent<AgentJobStatus>(
+      agent,
+      statusEndpoint,
+      undefined,
+      'GET',
+      { ...options, contract: AgentJobStatusSchema }
+    );
 
     if (!statusResult.success) {
+      if (options.signal?.aborted) return { success: false, error: 'Request cancelled' };
+      if (!isAgentAvailable(agent)) return { success: false, error: statusResult.error };
       console.log(`[${agent}] Status check failed, retrying...`);
       continue;
     }
@@ -499,13 +639,14 @@ async function pollForResult<T>(
     if (!status) continue;
 
     console.log(`[${agent}] Status: ${status.status}, Progress: ${status.progress}%`);
+    options.onProgress?.(status);
 
     if (status.status === 'completed' && status.data) {
-      return { success: true, data: status.data };
+      return enforceContract<T>(agent, statusEndpoint, status.data, options.contract);
     }
 
     if (status.status === 'error') {
-      return { success: false, error: status.error || status.message };
+      return { success: false, error: status.error || status.message || 'Agent job failed' };
     }
   }
 
@@ -516,52 +657,32 @@ async function pollForResult<T>(
 // JUDGE AGENT FUNCTIONS
 // ============================================================================
 
-export interface GenerateVerdictRequest {
-  experiment_id: string;
-  protein_target: string;
-  scenarios: Array<{
-    scenario_id: string;
-    scaffold: string;
-    smiles: string;
-    binding_affinity: number;
-    herg_flag: boolean;
-    sa_score: number;
-    cost_usd: number;
-  }>;
-  decision_criteria: {
-    herg_veto: boolean;
-    potency_threshold: number;
-    sa_threshold: number;
-  };
-  goal?: string;
-  constraints?: string[];
-}
-
-export interface GenerateVerdictResponse {
-  success: boolean;
-  verdict: {
-    winner: Record<string, unknown> | null;
-    selected: Array<Record<string, unknown>>;
-    rejected: Array<Record<string, unknown>>;
-  };
-  executive_summary: string;
-  comparative_analysis: string;
-  data_source: string;
-  confidence: string;
-}
-
 /**
  * Call Judge agent to generate verdict
  * Uses polling pattern for long-running operations
  */
 export async function generateVerdict(
-  request: GenerateVerdictRequest
+  request: GenerateVerdictRequest,
+  options: AgentCallOptions = {}
 ): Promise<{ success: boolean; data?: GenerateVerdictResponse; error?: string }> {
+  // Agents without async jobs only offer the synchronous call
+  if (!hasCapability(AGENTS.JUDGE, 'async_jobs')) {
+    return callAgent<GenerateVerdictResponse>(
+      AGENTS.JUDGE,
+      '/generate_verdict',
+      request as unknown as Record<string, unknown>,
+      'POST',
+      { ...options, contract: GenerateVerdictResponseSchema }
+    );
+  }
+
   // Try polling pattern first
-  const startResult = await callAgent<{ job_id: string; status: string }>(
+  const startResult = await callAgent<AgentJob>(
     AGENTS.JUDGE,
     '/start_verdict',
-    request as unknown as Record<string, unknown>
+    request as unknown as Record<string, unknown>,
+    'POST',
+    { ...options, contract: AgentJobSchema, idempotent: false }
   );
 
   if (startResult.success && startResult.data?.job_id) {
@@ -570,16 +691,24 @@ export async function generateVerdict(
       AGENTS.JUDGE,
       `/verdict_status/${startResult.data.job_id}`,
       60, // max attempts
-      2000 // poll interval ms
+      2000, // poll interval ms
+      { ...options, contract: GenerateVerdictResponseSchema }
     );
   }
 
+  // Cancelled, or the circuit is open: the synchronous call would fail too
+  if (options.signal?.aborted || !isAgentAvailable(AGENTS.JUDGE)) {
+    return { success: false, error: startResult.error };
+  }
+
   // Fallback to synchronous call (may timeout)
   console.log('[Judge] Polling not available, trying synchronous call');
   return callAgent<GenerateVerdictResponse>(
     AGENTS.JUDGE,
     '/generate_verdict',
-    request as unknown as Record<string, unknown>
+    request as unknown as Record<string, unknown>,
+    'POST',
+    { ...options, contract: GenerateVerdictResponseSchema }
   );
 }
 
@@ -592,7 +721,8 @@ export async function reevaluateWithCriteria(
   decisionCriteria: Record<string, unknown>,
   proteinTarget?: string,
   goal?: string,
-  constraints?: string[]
+  constraints?: string[],
+  options: AgentCallOptions = {}
 ): Promise<{ success: boolean; data?: GenerateVerdictResponse; error?: string }> {
   return callAgent<GenerateVerdictResponse>(
     AGENTS.JUDGE,
@@ -604,7 +734,9 @@ export async function reevaluateWithCriteria(
       decision_criteria: decisionCriteria,
       goal,
       constraints,
-    }
+    },
+    'POST',
+    options
   );
 }
 
@@ -636,14 +768,16 @@ export async function traceDesignChange(
 }
 
 /**
- * Trace a report edit (Results page chat)
+ * Trace a report edit (Results page chat). `promptVersion` names the prompt
+ * template behind a locally generated edit.
  */
 export async function traceReportEdit(
   experimentId: string,
   editInstruction: string,
   originalReport: Record<string, unknown>,
   updatedReport: Record<string, unknown>,
-  changedFields?: string[]
+  changedFields?: string[],
+  promptVersion?: string
 ): Promise<{ success: boolean; trace_id?: string; error?: string }> {
   return callAgent(
     AGENTS.SIMULATOR,
@@ -654,6 +788,7 @@ export async function traceReportEdit(
       original_report: originalReport,
       updated_report: updatedReport,
       changed_fields: changedFields,
+      ...(promptVersion ? { prompt_version: promptVersion } : {}),
     }
   );
 }
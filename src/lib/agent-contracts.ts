@@ -0,0 +1,248 @@
+/**
+ * SimuLab Agent Contracts
+ *
+ * TypeBox schemas for the Orchestrator, Simulator and Judge requests and
+ * responses. The TypeScript types in ./agent-client are derived from them, and
+ * every agent response is checked against its schema before use: a mismatch
+ * fails the call with a contract-violation error, so routes take their local
+ * fallback instead of crashing on (or silently passing on) malformed output.
+ *
+ * Fields the app reads are required; bookkeeping fields (success,
+ * data_source, confidence, usage) are optional, and values a Python agent may
+ * send as null are nullable. Extra fields are allowed.
+ */
+
+import { Type, type Static, type TSchema } from '@sinclair/typebox';
+import { Value } from '@sinclair/typebox/value';
+
+const Maybe = <T extends TSchema>(schema: T) => Type.Optional(Type.Union([schema, Type.Null()]));
+
+const JsonObject = Type.Record(Type.String(), Type.Unknown());
+
+// -----------------------------------------------------------------------------
+// Shared
+// -----------------------------------------------------------------------------
+
+/** Reply to /start_design and /start_verdict */
+export const AgentJobSchema = Type.Object({
+  job_id: Maybe(Type.String()),
+  status: Maybe(Type.String()),
+});
+
+/** Tokens (and optionally cost) an agent spent on a reply; charged to the run (see lib/usage-ledger) */
+export const AgentUsageSchema = Type.Object({
+  prompt_tokens: Maybe(Type.Number()),
+  completion_tokens: Maybe(Type.Number()),
+  total_tokens: Maybe(Type.Number()),
+  model: Maybe(Type.String()),
+  cost_usd: Maybe(Type.Number()),
+});
+
+/** Reply to a job status poll; `data` is checked against the job's own contract once completed */
+export const AgentJobStatusSchema = Type.Object({
+  status: Type.String(),
+  progress: Maybe(Type.Number()),
+  message: Maybe(Type.String()),
+  data: Type.Optional(Type.Unknown()),
+  error: Maybe(Type.String()),
+});
+
+// -----------------------------------------------------------------------------
+// Simulator
+// -----------------------------------------------------------------------------
+
+const MoleculeScenarioSchema = Type.Object({
+  scenario_id: Type.String(),
+  smiles: Type.String(),
+  scaffold: Type.String(),
+});
+
+export const EvaluateMoleculesRequestSchema = Type.Object({
+  experiment_id: Type.String(),
+  protein_target: Type.String(),
+  scenarios: Type.Array(MoleculeScenarioSchema),
+});
+
+const DockingSchema = Type.Object({
+  binding_affinity_kcal_per_mol: Type.Number(),
+  potency_pass: Type.Boolean(),
+});
+
+/** Reply to /evaluate_molecule (one molecule) */
+export const EvaluateMoleculeResultSchema = Type.Object({
+  success: Type.Optional(Type.Boolean()),
+  smiles: Maybe(Type.String()),
+  protein_target: Maybe(Type.String()),
+  metrics: Type.Object({
+    docking: DockingSchema,
+    admet: Type.Object({
+      toxicity_risk: Type.String(),
+      toxicity_prob: Maybe(Type.Number()),
+      herg_flag: Type.Boolean(),
+      is_safe: Type.Boolean(),
+    }),
+    synthesis: Type.Object({
+      sa_score: Type.Number(),
+      num_steps: Maybe(Type.Number()),
+      estimated_cost_usd: Type.Number(),
+    }),
+    _source: Maybe(Type.String()),
+  }),
+  usage: Maybe(AgentUsageSchema),
+});
+
+/** One molecule as returned by evaluateMolecules */
+export const EvaluatedMoleculeSchema = Type.Object({
+  scenario_id: Type.String(),
+  smiles: Type.String(),
+  scaffold: Type.String(),
+  docking: DockingSchema,
+  admet: Type.Object({
+    toxicity_risk: Type.String(),
+    toxicity_prob: Maybe(Type.Number()),
+    herg_flag: Type.Boolean(),
+    is_safe: Type.Boolean(),
+  }),
+  synthesis: Type.Object({
+    sa_score: Type.Number(),
+    num_steps: Maybe(Type.Number()),
+    estimated_cost_usd: Type.Number(),
+  }),
+  data_source: Type.String(),
+  confidence: Type.String(),
+  /** Response cache outcome for this molecule (see lib/response-cache) */
+  cache: Type.Optional(Type.String()),
+  usage: Maybe(AgentUsageSchema),
+});
+
+/** A molecule the Simulator could not evaluate, with the reason */
+export const FailedMoleculeSchema = Type.Object({
+  scenario_id: Type.String(),
+  smiles: Type.String(),
+  scaffold: Type.String(),
+  error: Type.String(),
+});
+
+export const EvaluateMoleculesResponseSchema = Type.Object({
+  success: Type.Boolean(),
+  experiment_id: Type.String(),
+  results: Type.Array(EvaluatedMoleculeSchema),
+  failed: Type.Array(FailedMoleculeSchema),
+});
+
+export const ProcessEditRequestSchema = Type.Object({
+  experiment_id: Type.String(),
+  edit_instruction: Type.String(),
+  current_report: JsonObject,
+});
+
+export const ProcessEditResponseSchema = Type.Object({
+  success: Type.Optional(Type.Boolean()),
+  updated_report: JsonObject,
+  summary: Maybe(Type.String()),
+  changes: Maybe(Type.Array(Type.String())),
+  usage: Maybe(AgentUsageSchema),
+});
+
+// -----------------------------------------------------------------------------
+// Orchestrator
+// -----------------------------------------------------------------------------
+
+export const DesignExperimentRequestSchema = Type.Object({
+  prompt: Type.String(),
+  constraints: Type.Optional(Type.String()),
+});
+
+export const DesignExperimentResponseSchema = Type.Object({
+  success: Type.Optional(Type.Boolean()),
+  goal: Type.String(),
+  protein_target: Type.String(),
+  constraints: Type.Array(Type.String()),
+  scenarios: Type.Array(Type.Object({
+    scenario_id: Type.String(),
+    scaffold: Type.String(),
+    smiles: Type.String(),
+    rationale: Type.Optional(Type.String()),
+  })),
+  suggested_num_scenarios: Maybe(Type.Number()),
+  data_source: Maybe(Type.String()),
+  confidence: Maybe(Type.String()),
+  usage: Maybe(AgentUsageSchema),
+});
+
+// -----------------------------------------------------------------------------
+// Judge
+// -----------------------------------------------------------------------------
+
+export const GenerateVerdictRequestSchema = Type.Object({
+  experiment_id: Type.String(),
+  protein_target: Type.String(),
+  scenarios: Type.Array(Type.Object({
+    scenario_id: Type.String(),
+    scaffold: Type.String(),
+    smiles: Type.String(),
+    binding_affinity: Type.Number(),
+    herg_flag: Type.Boolean(),
+    toxicity_prob: Type.Optional(Type.Number()),
+    sa_score: Type.Number(),
+    num_steps: Type.Optional(Type.Number()),
+    cost_usd: Type.Number(),
+  })),
+  decision_criteria: Type.Object({
+    herg_veto: Type.Boolean(),
+    potency_threshold: Type.Number(),
+    sa_threshold: Type.Number(),
+    steps_threshold: Type.Optional(Type.Number()),
+    scoring_strategy: Type.Optional(Type.String()),
+    /** Drug-likeness filter modes ('off' | 'soft' | 'hard') keyed by filter id */
+    rule_filters: Type.Optional(Type.Record(Type.String(), Type.String())),
+  }),
+  goal: Type.Optional(Type.String()),
+  constraints: Type.Optional(Type.Array(Type.String())),
+});
+
+export const GenerateVerdictResponseSchema = Type.Object({
+  success: Type.Optional(Type.Boolean()),
+  verdict: Type.Object({
+    winner: Type.Union([JsonObject, Type.Null()]),
+    selected: Type.Array(JsonObject),
+    rejected: Type.Array(JsonObject),
+  }),
+  executive_summary: Type.String(),
+  comparative_analysis: Type.String(),
+  data_source: Maybe(Type.String()),
+  confidence: Maybe(Type.String()),
+  usage: Maybe(AgentUsageSchema),
+});
+
+export type AgentJob = Static<typeof AgentJobSchema>;
+export type AgentJobStatus = Static<typeof AgentJobStatusSchema>;
+export type EvaluateMoleculesRequest = Static<typeof EvaluateMoleculesRequestSchema>;
+export type EvaluateMoleculeResult = Static<typeof EvaluateMoleculeResultSchema>;
+export type EvaluatedMolecule = Static<typeof EvaluatedMoleculeSchema>;
+export type FailedMolecule = Static<typeof FailedMoleculeSchema>;
+export type EvaluateMoleculesResponse = Static<typeof EvaluateMoleculesResponseSchema>;
+export type ProcessEditRequest = Static<typeof ProcessEditRequestSchema>;
+export type ProcessEditResponse = Static<typeof ProcessEditResponseSchema>;
+export type DesignExperimentRequest = Static<typeof DesignExperimentRequestSchema>;
+export type DesignExperimentResponse = Static<typeof DesignExperimentResponseSchema>;
+export type GenerateVerdictRequest = Static<typeof GenerateVerdictRequestSchema>;
+export type GenerateVerdictResponse = Static<typeof GenerateVerdictResponseSchema>;
+
+/**
+ * Check an agent payload against its contract. The error names the call and
+ * the first few offending paths, e.g.
+ * "simulab-judge /generate_verdict violated its contract: /verdict/selected Expected array".
+ */
+export function checkContract<S extends TSchema>(
+  schema: S,
+  value: unknown,
+  label: string
+): { success: true; data: Static<S> } | { success: false; error: string } {
+  if (Value.Check(schema, value)) return { success: true, data: value };
+
+  const problems = [...Value.Errors(schema, value)];
+  const shown = problems.slice(0, 3).map(e => `${e.path || '/'} ${e.message}`);
+  const more = problems.length > shown.length ? ` (+${problems.length - shown.length} more)` : '';
+  return { success: false, error: `${label} violated its contract: ${shown.join('; ')}${more}` };
+}
@@ -0,0 +1,171 @@
+/**
+ * SimuLab Agent Registry
+ *
+ * The one list of agents the app knows, loaded from agents.json at the repo
+ * root: name, role, endpoints, dev URL, prod forward path, transport policy
+ * and capabilities per agent. The agent client and transport, the health,
+ * debug and create routes, the mock agent server and the UI agent panel all
+ * read it, so re-pointing an agent is a one-file change.
+ *
+ * Roles 'orchestrator', 'simulator' and 'judge' name the agents the client
+ * calls (exactly one each), under the names in AGENTS below that the code is
+ * typed against; renaming one means changing AGENTS too. 'tool' entries are
+ * sub-agents deployed under a `parent`; they are health-checked and listed
+ * but never called directly, so their names stay plain strings.
+ * Endpoints take path parameters as `{name}`, e.g. "/design_status/{job_id}",
+ * and the client refuses calls to an endpoint its agent does not list.
+ *
+ * Server-side, <ROLE>_PORT (e.g. SIMULATOR_PORT) replaces the port of an
+ * agent's dev URL; timeout and retry overrides are in ./agent-transport.
+ *
+ * Client-safe.
+ */
+
+import { Type, type Static } from '@sinclair/typebox';
+import { checkContract } from './agent-contracts';
+import registryFile from '../../agents.json';
+
+const AgentRoleSchema = Type.Union([
+  Type.Literal('orchestrator'),
+  Type.Literal('simulator'),
+  Type.Literal('judge'),
+  Type.Literal('tool'),
+]);
+
+export const AgentDefinitionSchema = Type.Object({
+  name: Type.String({ pattern: '^[a-z0-9][a-z0-9_-]*$' }),
+  role: AgentRoleSchema,
+  /** Display name in the UI */
+  label: Type.String(),
+  description: Type.Optional(Type.String()),
+  /** Model the agent runs on, for display */
+  model: Type.Optional(Type.String()),
+  provider: Type.Optional(Type.String()),
+  /** 'tool' agents: the agent they were consolidated into */
+  parent: Type.Optional(Type.String()),
+  endpoints: Type.Optional(Type.Array(Type.String())),
+  /** AGENT_MODE=dev base URL */
+  dev_url: Type.Optional(Type.String()),
+  /** AGENT_MODE=prod path under the AgentEx base URL */
+  prod_path: Type.Optional(Type.String()),
+  /** Per-attempt timeout */
+  timeout_ms: Type.Optional(Type.Number({ minimum: 0 })),
+  retries: Type.Optional(Type.Integer({ minimum: 0 })),
+  backoff_ms: Type.Optional(Type.Number({ minimum: 0 })),
+  max_backoff_ms: Type.Optional(Type.Number({ minimum: 0 })),
+  capabilities: Type.Array(Type.String()),
+});
+
+const AgentRegistrySchema = Type.Object({
+  agents: Type.Array(AgentDefinitionSchema),
+});
+
+export type AgentDefinition = Static<typeof AgentDefinitionSchema>;
+
+export type AgentRole = AgentDefinition['role'];
+
+/** Roles the client calls */
+export type CallableRole = Exclude<AgentRole, 'tool'>;
+
+/** Names of the called agents, by role */
+export const AGENTS = {
+  ORCHESTRATOR: 'simulab-orchestrator',
+  SIMULATOR: 'simulab-simulator',
+  JUDGE: 'simulab-judge',
+} as const;
+
+export type AgentName = typeof AGENTS[keyof typeof AGENTS];
+
+const AGENT_FOR_ROLE: Record<CallableRole, AgentName> = {
+  orchestrator: AGENTS.ORCHESTRATOR,
+  simulator: AGENTS.SIMULATOR,
+  judge: AGENTS.JUDGE,
+};
+
+const CALLABLE_ROLES = Object.keys(AGENT_FOR_ROLE) as CallableRole[];
+
+/**
+ * Check agents.json: the schema, unique names, one agent per callable role
+ * named as in AGENTS with the URLs and endpoints a call needs, and parents
+ * that exist
+ */
+function loadRegistry(): AgentDefinition[] {
+  const checked = checkContract(AgentRegistrySchema, registryFile, 'agents.json');
+  if (!checked.success) throw new Error(checked.error);
+  const agents = checked.data.agents;
+
+  const names = new Set<string>();
+  for (const agent of agents) {
+    if (names.has(agent.name)) throw new Error(`agents.json: duplicate agent ${agent.name}`);
+    names.add(agent.name);
+  }
+  for (const role of CALLABLE_ROLES) {
+    const matches = agents.filter(a => a.role === role);
+    if (matches.length !== 1) throw new Error(`agents.json: expected one ${role} agent, found ${matches.length}`);
+    const [agent] = matches;
+    if (agent.name !== AGENT_FOR_ROLE[role]) {
+      throw new Error(`agents.json: the ${role} agent must be named ${AGENT_FOR_ROLE[role]}, found ${agent.name}`);
+    }
+    if (!agent.dev_url || !agent.prod_path || !agent.endpoints?.length) {
+      throw new Error(`agents.json: ${agent.name} needs dev_url, prod_path and endpoints`);
+    }
+  }
+  for (const agent of agents) {
+    if (agent.parent && !names.has(agent.parent)) {
+      throw new Error(`agents.json: ${agent.name} has unknown parent ${agent.parent}`);
+    }
+  }
+  return agents;
+}
+
+const REGISTRY = loadRegistry();
+
+export function listAgents(): AgentDefinition[] {
+  return REGISTRY;
+}
+
+export function getAgent(name: string): AgentDefinition | undefined {
+  return REGISTRY.find(a => a.name === name);
+}
+
+export function agentForRole(role: CallableRole): AgentDefinition {
+  return REGISTRY.find(a => a.role === role)!;
+}
+
+/**
+ * Whether a name read from outside the code (a config or script file) is one
+ * of the called agents
+ */
+export function isAgentName(name: string): name is AgentName {
+  return (Object.values(AGENTS) as string[]).includes(name);
+}
+
+export function hasCapability(agent: AgentName, capability: string): boolean {
+  return getAgent(agent)?.capabilities.includes(capability) ?? false;
+}
+
+/**
+ * Whether `endpoint` (e.g. "/design_status/job-1") matches one the agent lists
+ */
+export function isDeclaredEndpoint(agent: AgentName, endpoint: string): boolean {
+  const path = endpoint.split('?')[0];
+  return (getAgent(agent)?.endpoints || []).some(template => {
+    const pattern = template
+      .split(/\{[^}]+\}/)
+      .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]+');
+    return new RegExp(`^${pattern}$`).test(path);
+  });
+}
+
+/**
+ * Dev-mode base URL of an agent, with the <ROLE>_PORT override applied
+ */
+export function getAgentDevUrl(agent: AgentDefinition): string | null {
+  if (!agent.dev_url) return null;
+  const port = typeof process !== 'undefined' ? process.env[`${agent.role.toUpperCase()}_PORT`] : undefined;
+  if (!port) return agent.dev_url.replace(/\/+$/, '');
+  const url = new URL(agent.dev_url);
+  url.port = port;
+  return url.toString().replace(/\/+$/, '');
+}
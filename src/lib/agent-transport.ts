@@ -0,0 +1,286 @@
+/**
+ * SimuLab Agent Transport
+ *
+ * The HTTP layer under ./agent-client: per-agent timeouts, retries with
+ * exponential backoff for retryable failures, a per-agent circuit breaker,
+ * and cancellation through an AbortSignal (routes pass the incoming
+ * request's signal, so a closed browser tab stops agent work).
+ *
+ * Retryable: network errors, timeouts and 408/425/429/5xx (honouring
+ * Retry-After). Any other status is returned at once and counts as the agent
+ * being reachable. Calls marked non-idempotent (those that start a job) are
+ * only retried when the connection itself failed, so the agent never gets
+ * the same job twice. After SIMULAB_AGENT_BREAKER_THRESHOLD consecutive failed
+ * calls (default 5) an agent's circuit opens and calls fail immediately, so
+ * routes drop to their local fallback, until SIMULAB_AGENT_BREAKER_COOLDOWN_MS
+ * (default 30 s) has passed and a single probe call is let through.
+ *
+ * Policies come from the agent's entry in ./agent-registry and can be
+ * overridden for every agent (SIMULAB_AGENT_TIMEOUT_MS, SIMULAB_AGENT_RETRIES)
+ * or one agent by role (e.g. SIMULAB_SIMULATOR_TIMEOUT_MS,
+ * SIMULAB_JUDGE_RETRIES). The timeout covers each attempt up to the end of
+ * the response body, which is read before agentFetch returns.
+ *
+ * Server-only.
+ */
+
+import { getAgent, type AgentName } from './agent-registry';
+
+export interface AgentPolicy {
+  /** Per-attempt timeout */
+  timeoutMs: number;
+  /** Attempts after the first for retryable failures */
+  retries: number;
+  /** First retry delay; doubles per retry (with jitter) up to maxBackoffMs */
+  backoffMs: number;
+  maxBackoffMs: number;
+}
+
+export type AgentFetchResult =
+  /** `response` has its body buffered, so reading it cannot stall */
+  | { ok: true; response: Response }
+  | {
+      ok: false;
+      error: string;
+      /** Last HTTP status, when the agent answered */
+      status?: number;
+      /** Last response, so callers can report the agent's error body */
+      response?: Response;
+      /** The caller's signal fired; nothing more should be done for this request */
+      aborted?: boolean;
+      /** Rejected without a request because the agent's circuit is open */
+      circuitOpen?: boolean;
+    };
+
+export type CircuitStatus = 'closed' | 'open' | 'half_open';
+
+/** For registry entries that leave part of the policy out */
+const DEFAULT_POLICY: AgentPolicy = { timeoutMs: 45_000, retries: 1, backoffMs: 1_000, maxBackoffMs: 8_000 };
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// Statuses whose Response cannot carry a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+// fetch() failures raised before the request reached the agent
+const CONNECT_ERRORS = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH', 'UND_ERR_CONNECT_TIMEOUT']);
+
+function isConnectFailure(error: unknown): boolean {
+  const { code, cause } = (error ?? {}) as { code?: string; cause?: { code?: string } };
+  return CONNECT_ERRORS.has(cause?.code ?? code ?? '');
+}
+
+function envNumber(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+const BREAKER_THRESHOLD = Math.max(1, envNumber('SIMULAB_AGENT_BREAKER_THRESHOLD') ?? 5);
+const BREAKER_COOLDOWN_MS = envNumber('SIMULAB_AGENT_BREAKER_COOLDOWN_MS') ?? 30_000;
+
+/**
+ * Effective policy for an agent: its registry entry, then SIMULAB_AGENT_* and
+ * SIMULAB_<ROLE>_* overrides, then the per-call override
+ */
+export function getAgentPolicy(agent: AgentName, override: Partial<AgentPolicy> = {}): AgentPolicy {
+  const definition = getAgent(agent);
+  const key = (definition?.role ?? agent).toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+  const base: AgentPolicy = {
+    timeoutMs: definition?.timeout_ms ?? DEFAULT_POLICY.timeoutMs,
+    retries: definition?.retries ?? DEFAULT_POLICY.retries,
+    backoffMs: definition?.backoff_ms ?? DEFAULT_POLICY.backoffMs,
+    maxBackoffMs: definition?.max_backoff_ms ?? DEFAULT_POLICY.maxBackoffMs,
+  };
+  return {
+    timeoutMs: envNumber(`SIMULAB_${key}_TIMEOUT_MS`) ?? envNumber('SIMULAB_AGENT_TIMEOUT_MS') ?? base.timeoutMs,
+    retries: envNumber(`SIMULAB_${key}_RETRIES`) ?? envNumber('SIMULAB_AGENT_RETRIES') ?? base.retries,
+    backoffMs: base.backoffMs,
+    maxBackoffMs: base.maxBackoffMs,
+    ...override,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Circuit breaker
+// -----------------------------------------------------------------------------
+interface Circuit {
+  failures: number;
+  openedAt: number | null;
+  /** A half-open probe is in flight; other calls keep failing fast */
+  probing: boolean;
+}
+
+const circuits = new Map<AgentName, Circuit>();
+
+function circuitFor(agent: AgentName): Circuit {
+  let circuit = circuits.get(agent);
+  if (!circuit) {
+    circuit = { failures: 0, openedAt: null, probing: false };
+    circuits.set(agent, circuit);
+  }
+  return circuit;
+}
+
+function statusOf(circuit: Circuit): CircuitStatus {
+  if (circuit.openedAt === null) return 'closed';
+  return Date.now() - circuit.openedAt >= BREAKER_COOLDOWN_MS ? 'half_open' : 'open';
+}
+
+function recordSuccess(agent: AgentName): void {
+  const circuit = circuitFor(agent);
+  if (circuit.openedAt !== null) console.log(`[${agent}] Circuit closed`);
+  circuit.failures = 0;
+  circuit.openedAt = null;
+  circuit.probing = false;
+}
+
+function recordFailure(agent: AgentName): void {
+  const circuit = circuitFor(agent);
+  circuit.failures++;
+  circuit.probing = false;
+  if (circuit.openedAt !== null || circuit.failures >= BREAKER_THRESHOLD) {
+    circuit.openedAt = Date.now();
+    console.warn(`[${agent}] Circuit open after ${circuit.failures} failed call(s); failing fast for ${BREAKER_COOLDOWN_MS / 1000}s`);
+  }
+}
+
+/**
+ * Breaker state for one agent, e.g. for the debug route
+ */
+export function getCircuitState(agent: AgentName): { status: CircuitStatus; failures: number; retry_at: string | null } {
+  const circuit = circuitFor(agent);
+  const status = statusOf(circuit);
+  return {
+    status,
+    failures: circuit.failures,
+    retry_at: status === 'open' && circuit.openedAt !== null ? new Date(circuit.openedAt + BREAKER_COOLDOWN_MS).toISOString() : null,
+  };
+}
+
+/**
+ * False while the agent's circuit is open, so callers can skip straight to
+ * their fallback
+ */
+export function isAgentAvailable(agent: AgentName): boolean {
+  const circuit = circuitFor(agent);
+  const status = statusOf(circuit);
+  return status === 'closed' || (status === 'half_open' && !circuit.probing);
+}
+
+/** Close every circuit (e.g. after redeploying the agents) */
+export function resetCircuits(): void {
+  circuits.clear();
+}
+
+// -----------------------------------------------------------------------------
+// Fetch with timeout, retries and cancellation
+// -----------------------------------------------------------------------------
+
+/**
+ * Wait `ms`, resolving false early if the signal fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  if (signal?.aborted) return Promise.resolve(false);
+  return new Promise(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function retryDelay(policy: AgentPolicy, attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(seconds) && seconds >= 0) return Math.min(seconds * 1000, policy.maxBackoffMs);
+  const exponential = Math.min(policy.backoffMs * 2 ** attempt, policy.maxBackoffMs);
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * fetch() for agent endpoints. Never throws: failures, timeouts, an open
+ * circuit and cancellation all come back as `{ ok: false }`. Pass
+ * `idempotent: false` for calls that must not reach the agent twice.
+ */
+export async function agentFetch(
+  agent: AgentName,
+  url: string,
+  init: RequestInit,
+  options: { signal?: AbortSignal; policy?: Partial<AgentPolicy>; idempotent?: boolean } = {}
+): Promise<AgentFetchResult> {
+  const { signal, idempotent = true } = options;
+  const cancelled = { ok: false as const, error: 'Request cancelled', aborted: true };
+  if (signal?.aborted) return cancelled;
+
+  const circuit = circuitFor(agent);
+  if (!isAgentAvailable(agent)) {
+    const { retry_at } = getCircuitState(agent);
+    return { ok: false, error: `${agent} circuit open${retry_at ? ` until ${retry_at}` : ''}`, circuitOpen: true };
+  }
+  if (statusOf(circuit) === 'half_open') circuit.probing = true;
+
+  const policy = getAgentPolicy(agent, options.policy);
+  let lastError = 'Unknown error';
+  let lastResponse: Response | undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let retryAfter: string | null = null;
+    let retryable = idempotent;
+
+    try {
+      const fetched = await fetch(url, { ...init, signal: controller.signal });
+      // Read the body under the same timeout and cancellation as the headers
+      const text = await fetched.text();
+      const response = new Response(NULL_BODY_STATUSES.has(fetched.status) ? null : text, {
+        status: fetched.status,
+        statusText: fetched.statusText,
+        headers: fetched.headers,
+      });
+      if (response.ok) {
+        recordSuccess(agent);
+        return { ok: true, response };
+      }
+      if (!RETRYABLE_STATUSES.has(response.status)) {
+        // The agent answered; a client error says nothing about its health
+        recordSuccess(agent);
+        return { ok: false, error: `Agent error: ${response.status}`, status: response.status, response };
+      }
+      lastError = `Agent error: ${response.status}`;
+      lastResponse = response;
+      retryAfter = response.headers.get('retry-after');
+    } catch (error) {
+      if (signal?.aborted) {
+        circuit.probing = false;
+        return cancelled;
+      }
+      lastError = controller.signal.aborted
+        ? `Timed out after ${policy.timeoutMs} ms`
+        : error instanceof Error ? error.message : String(error);
+      lastResponse = undefined;
+      retryable ||= isConnectFailure(error);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (attempt >= policy.retries || !retryable) break;
+
+    const delay = retryDelay(policy, attempt, retryAfter);
+    console.warn(`[${agent}] ${lastError}; retry ${attempt + 1}/${policy.retries} in ${delay} ms`);
+    if (!(await sleep(delay, signal))) {
+      circuit.probing = false;
+      return cancelled;
+    }
+  }
+
+  recordFailure(agent);
+  return { ok: false, error: lastError, status: lastResponse?.status, response: lastResponse };
+}
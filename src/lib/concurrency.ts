@@ -0,0 +1,49 @@
+/**
+ * SimuLab Concurrency Pool
+ *
+ * Maps async work over a list with at most `limit` tasks in flight, so large
+ * screens don't open hundreds of agent or LLM calls at once. Items start in
+ * input order; outcomes come back in input order, settled like
+ * Promise.allSettled.
+ */
+
+/**
+ * Run `worker` over `items`, `limit` at a time. Once the signal fires, items
+ * not yet started are rejected without running.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<PromiseSettledResult<R>[]> {
+  const outcomes: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const drain = async () => {
+    while (next < items.length) {
+      const index = next++;
+      if (signal?.aborted) {
+        outcomes[index] = { status: 'rejected', reason: new Error('Request cancelled') };
+        continue;
+      }
+      try {
+        outcomes[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        outcomes[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: lanes }, drain));
+  return outcomes;
+}
+
+/**
+ * Clamp a requested pool size to 1..max, falling back when absent or invalid
+ */
+export function resolveConcurrency(requested: unknown, fallback: number, max = 32): number {
+  const value = typeof requested === 'number' && Number.isFinite(requested) ? Math.floor(requested) : fallback;
+  return Math.max(1, Math.min(max, value));
+}
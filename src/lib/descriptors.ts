@@ -0,0 +1,474 @@
+/**
+ * SimuLab Local Descriptor Engine
+ *
+ * Deterministic, offline descriptors computed from the parsed SMILES graph
+ * (see ./smiles): molecular weight, a Crippen-style cLogP approximation, Ertl
+ * TPSA, H-bond donors/acceptors, rotatable bonds, ring counts and a
+ * complexity-based SA score approximation.
+ *
+ * `estimateLocalMetrics` turns descriptors into the Simulator's
+ * docking / ADMET / synthesis shape for `data_source: "local_descriptors"`.
+ * Binding affinity is a target-agnostic size/lipophilicity estimate and hERG
+ * uses the basic-amine + lipophilicity rule of thumb; neither replaces docking
+ * or an ADMET model, but both are reproducible and chemically grounded.
+ */
+
+import { parseSmiles, perceiveAromaticity, SmilesAtom, SmilesBondOrder, SmilesMolecule } from './smiles';
+import { estimateCostFromSa } from './scoring';
+
+export interface MolecularDescriptors {
+  formula: string;
+  molecular_weight: number;
+  heavy_atoms: number;
+  clogp: number;
+  tpsa: number;
+  hbd: number;
+  hba: number;
+  rotatable_bonds: number;
+  ring_count: number;
+  aromatic_ring_count: number;
+  fraction_csp3: number;
+  stereocenters: number;
+  formal_charge: number;
+  /** Aliphatic amines likely protonated at physiological pH */
+  basic_nitrogens: number;
+  sa_score: number;
+}
+
+export interface LocalMetrics {
+  docking: {
+    binding_affinity_kcal_per_mol: number;
+    potency_pass: boolean;
+  };
+  admet: {
+    toxicity_risk: 'LOW' | 'MED' | 'HIGH';
+    toxicity_prob: number;
+    herg_flag: boolean;
+    is_safe: boolean;
+  };
+  synthesis: {
+    sa_score: number;
+    num_steps: number;
+    estimated_cost_usd: number;
+  };
+}
+
+const ATOMIC_MASS: Record<string, number> = {
+  H: 1.008, Li: 6.94, B: 10.81, C: 12.011, N: 14.007, O: 15.999, F: 18.998, Na: 22.99, Mg: 24.305,
+  Al: 26.982, Si: 28.085, P: 30.974, S: 32.06, Cl: 35.45, K: 39.098, Ca: 40.078, Fe: 55.845,
+  Co: 58.933, Ni: 58.693, Cu: 63.546, Zn: 65.38, As: 74.922, Se: 78.971, Br: 79.904, Ru: 101.07,
+  Pd: 106.42, Ag: 107.87, Sn: 118.71, Te: 127.6, I: 126.904, Pt: 195.08, Au: 196.97, Hg: 200.59,
+};
+
+const HETERO = new Set(['N', 'O', 'S', 'P', 'F', 'Cl', 'Br', 'I']);
+const COMMON_ELEMENTS = new Set(['C', 'N', 'O', 'S', 'F', 'Cl', 'Br']);
+
+interface Neighbor {
+  atom: number;
+  order: SmilesBondOrder;
+  ring: boolean;
+}
+
+interface Graph {
+  atoms: SmilesAtom[];
+  neighbors: Neighbor[][];
+  rings: number[][];
+}
+
+function round(value: number, digits = 2): number {
+  return Number(value.toFixed(digits));
+}
+
+function buildGraph(molecule: SmilesMolecule): Graph {
+  const neighbors = molecule.atoms.map(() => [] as Neighbor[]);
+  for (const b of molecule.bonds) {
+    neighbors[b.from].push({ atom: b.to, order: b.order, ring: b.ring });
+    neighbors[b.to].push({ atom: b.from, order: b.order, ring: b.ring });
+  }
+  return { atoms: molecule.atoms, neighbors, rings: findRings(molecule, neighbors) };
+}
+
+/**
+ * Smallest set of smallest rings: shortest cycle through each ring bond,
+ * kept when linearly independent (GF(2) over bonds) of the smaller ones
+ */
+function findRings(molecule: SmilesMolecule, neighbors: Neighbor[][]): number[][] {
+  const { atoms, bonds } = molecule;
+  const bondIndex = new Map<string, number>();
+  bonds.forEach((b, idx) => {
+    bondIndex.set(`${b.from}-${b.to}`, idx);
+    bondIndex.set(`${b.to}-${b.from}`, idx);
+  });
+
+  const candidates = new Map<string, number[]>();
+  bonds.forEach(b => {
+    if (!b.ring) return;
+    // BFS from b.from to b.to over ring bonds, excluding b itself
+    const parent = new Map<number, number>([[b.from, -1]]);
+    const queue = [b.from];
+    while (queue.length && !parent.has(b.to)) {
+      const atom = queue.shift()!;
+      for (const n of neighbors[atom]) {
+        if (!n.ring || parent.has(n.atom) || (atom === b.from && n.atom === b.to)) continue;
+        parent.set(n.atom, atom);
+        queue.push(n.atom);
+      }
+    }
+    if (!parent.has(b.to)) return;
+    const path: number[] = [];
+    for (let at = b.to; at !== -1; at = parent.get(at)!) path.push(at);
+    candidates.set([...path].sort((x, y) => x - y).join(','), path);
+  });
+
+  const cyclomatic = bonds.length - atoms.length + countComponents(atoms.length, neighbors);
+  const basis: { pivot: number; bonds: Set<number> }[] = [];
+  const rings: number[][] = [];
+  for (const ring of Array.from(candidates.values()).sort((a, b) => a.length - b.length)) {
+    if (rings.length >= cyclomatic) break;
+    let vector = new Set(ring.map((atom, i) => bondIndex.get(`${atom}-${ring[(i + 1) % ring.length]}`)!));
+    for (const row of basis) {
+      if (!vector.has(row.pivot)) continue;
+      const next = new Set(vector);
+      row.bonds.forEach(bond => (next.has(bond) ? next.delete(bond) : next.add(bond)));
+      vector = next;
+    }
+    if (vector.size === 0) continue;
+    basis.push({ pivot: Math.min(...Array.from(vector)), bonds: vector });
+    rings.push(ring);
+  }
+  return rings;
+}
+
+function countComponents(count: number, neighbors: Neighbor[][]): number {
+  const seen = new Array<boolean>(count).fill(false);
+  let components = 0;
+  for (let start = 0; start < count; start++) {
+    if (seen[start]) continue;
+    components++;
+    const stack = [start];
+    seen[start] = true;
+    while (stack.length) {
+      for (const n of neighbors[stack.pop()!]) {
+        if (!seen[n.atom]) {
+          seen[n.atom] = true;
+          stack.push(n.atom);
+        }
+      }
+    }
+  }
+  return components;
+}
+
+function isCarbonyl(graph: Graph, atom: number): boolean {
+  return graph.neighbors[atom].some(n => n.order === 2 && (graph.atoms[n.atom].symbol === 'O' || graph.atoms[n.atom].symbol === 'S'));
+}
+
+function isAmideNitrogen(graph: Graph, atom: number): boolean {
+  return graph.neighbors[atom].some(n => graph.atoms[n.atom].symbol === 'C' && isCarbonyl(graph, n.atom));
+}
+
+/**
+ * Aliphatic amine nitrogen likely to be protonated at physiological pH
+ */
+function isBasicAmine(graph: Graph, atom: number): boolean {
+  const a = graph.atoms[atom];
+  if (a.symbol !== 'N' || a.aromatic || a.charge < 0) return false;
+  if (a.charge > 0) return a.hydrogens > 0 || graph.neighbors[atom].every(n => n.order === 1);
+  return graph.neighbors[atom].every(n => n.order === 1
+    && graph.atoms[n.atom].symbol === 'C'
+    && !graph.atoms[n.atom].aromatic
+    && !isCarbonyl(graph, n.atom)
+    && !graph.neighbors[n.atom].some(m => m.order !== 1));
+}
+
+/**
+ * Crippen-style atom contribution (heavy atom plus its attached hydrogens)
+ */
+function crippenContribution(graph: Graph, atom: number): number {
+  const a = graph.atoms[atom];
+  const nbrs = graph.neighbors[atom];
+  const heteroNeighbors = nbrs.filter(n => HETERO.has(graph.atoms[n.atom].symbol)).length;
+
+  switch (a.symbol) {
+    case 'C': {
+      const hydrogens = a.hydrogens * 0.123;
+      if (a.aromatic) {
+        if (a.hydrogens > 0) return 0.1581 + hydrogens;
+        if (nbrs.filter(n => n.order === 'aromatic').length === 3) return 0.2955;
+        return heteroNeighbors > 0 ? 0.2 : 0.136;
+      }
+      if (nbrs.some(n => n.order === 3)) return 0.0017 + hydrogens;
+      if (nbrs.some(n => n.order === 2 && HETERO.has(graph.atoms[n.atom].symbol))) return -0.2783 + hydrogens;
+      if (nbrs.some(n => n.order === 2)) return 0.1551 + hydrogens;
+      const primary = nbrs.length <= 2;
+      if (heteroNeighbors > 0) return (primary ? -0.2035 : -0.2051) + hydrogens;
+      return (primary ? 0.1441 : 0) + hydrogens;
+    }
+    case 'N': {
+      if (a.charge > 0) return -1.95 + a.hydrogens * 0.2142;
+      if (a.aromatic) return a.hydrogens > 0 ? -0.3 + 0.2142 : -0.4806;
+      if (nbrs.some(n => n.order === 3)) return -0.3;
+      if (nbrs.some(n => n.order === 2)) return -0.45 + a.hydrogens * 0.2142;
+      const base = a.hydrogens >= 2 ? -1.019 : a.hydrogens === 1 ? -0.7096 : -0.3187;
+      return base + a.hydrogens * 0.2142;
+    }
+    case 'O': {
+      if (a.charge < 0) return -1.0;
+      if (a.aromatic) return 0.1552;
+      if (nbrs.some(n => n.order === 2)) return -0.1526;
+      if (a.hydrogens > 0) {
+        const acid = nbrs.some(n => isCarbonyl(graph, n.atom));
+        return -0.2893 + (acid ? 0.298 : -0.2677);
+      }
+      return nbrs.some(n => graph.atoms[n.atom].aromatic) ? 0.1552 : -0.0684;
+    }
+    case 'S': return a.aromatic ? 0.6237 : nbrs.some(n => n.order === 2) ? -0.0024 : 0.6482;
+    case 'P': return 0.8612;
+    case 'F': return 0.4202;
+    case 'Cl': return 0.6895;
+    case 'Br': return 0.8456;
+    case 'I': return 0.8857;
+    default: return -0.3;
+  }
+}
+
+/**
+ * Ertl TPSA contribution for N and O atoms
+ */
+function tpsaContribution(graph: Graph, atom: number, inSmallRing: boolean): number {
+  const a = graph.atoms[atom];
+  const nbrs = graph.neighbors[atom];
+  const single = nbrs.filter(n => n.order === 1).length;
+  const double = nbrs.filter(n => n.order === 2).length;
+  const triple = nbrs.filter(n => n.order === 3).length;
+  const aromatic = nbrs.filter(n => n.order === 'aromatic').length;
+  const h = a.hydrogens;
+
+  if (a.symbol === 'N') {
+    if (a.aromatic) {
+      if (a.charge > 0) return h > 0 ? 14.14 : single > 0 ? 3.88 : 4.1;
+      if (h > 0) return 15.79;
+      if (aromatic === 3) return 4.41;
+      if (single > 0) return 4.93;
+      if (double > 0) return 8.39;
+      return 12.89;
+    }
+    if (a.charge > 0) {
+      if (h === 3) return 27.64;
+      if (h === 2) return double ? 25.59 : 16.61;
+      if (h === 1) return double ? 13.97 : 4.44;
+      if (triple) return 4.36;
+      return double ? 3.01 : 0;
+    }
+    if (h === 2) return 26.02;
+    if (h === 1) return double ? 23.85 : inSmallRing ? 21.94 : 12.03;
+    if (triple) return double ? 13.6 : 23.79;
+    if (double === 2 || (double === 1 && single === 1 && nbrs.length === 3)) return 11.68;
+    if (double) return 12.36;
+    return inSmallRing ? 3.01 : 3.24;
+  }
+
+  if (a.symbol === 'O') {
+    if (a.aromatic) return 13.14;
+    if (a.charge < 0) return 23.06;
+    if (double) return 17.07;
+    if (h > 0) return 20.23;
+    return inSmallRing ? 12.53 : 9.23;
+  }
+  return 0;
+}
+
+function isRotatable(graph: Graph, from: number, to: number): boolean {
+  const heavyDegree = (atom: number) => graph.neighbors[atom].length;
+  if (heavyDegree(from) < 2 || heavyDegree(to) < 2) return false;
+  const hasTriple = (atom: number) => graph.neighbors[atom].some(n => n.order === 3);
+  if (hasTriple(from) || hasTriple(to)) return false;
+  // Amide C-N bonds are effectively planar
+  const amide = (c: number, n: number) => graph.atoms[c].symbol === 'C' && graph.atoms[n].symbol === 'N' && isCarbonyl(graph, c);
+  return !amide(from, to) && !amide(to, from);
+}
+
+/**
+ * sp3 carbons with four distinct substituent environments (explicit or not)
+ */
+function countStereocenters(graph: Graph): number {
+  return graph.atoms.filter((a, idx) => {
+    if (a.chiral) return true;
+    if (a.symbol !== 'C' || a.aromatic || a.hydrogens > 1) return false;
+    const nbrs = graph.neighbors[idx];
+    if (nbrs.length + a.hydrogens !== 4 || nbrs.some(n => n.order !== 1)) return false;
+    const environments = nbrs.map(n => {
+      const b = graph.atoms[n.atom];
+      const second = graph.neighbors[n.atom].filter(m => m.atom !== idx).map(m => graph.atoms[m.atom].symbol).sort().join('');
+      return `${b.symbol}${b.aromatic ? 'a' : ''}${b.hydrogens}:${second}`;
+    });
+    if (a.hydrogens === 1) environments.push('H');
+    return new Set(environments).size === 4;
+  }).length;
+}
+
+/**
+ * Complexity-based SA score approximation (1 = trivial, 10 = very hard)
+ */
+function approximateSaScore(graph: Graph, heavyAtoms: number, stereocenters: number, fractionCsp3: number): number {
+  const ringsOf = graph.atoms.map((_, idx) => graph.rings.filter(r => r.includes(idx)));
+  let spiro = 0;
+  let bridgeheads = 0;
+  ringsOf.forEach(rings => {
+    if (rings.length < 2) return;
+    const shared = Math.max(...rings.flatMap((r1, i) => rings.slice(i + 1).map(r2 => r1.filter(x => r2.includes(x)).length)));
+    if (shared === 1) spiro++;
+    else if (shared > 2) bridgeheads++;
+  });
+  const macrocycles = graph.rings.filter(r => r.length > 8).length;
+  const unusual = graph.atoms.filter(a => !COMMON_ELEMENTS.has(a.symbol) || a.charge !== 0 || a.isotope !== null).length;
+
+  const score = 1
+    + 0.3 * Math.log2(heavyAtoms / 10 + 1)
+    + 0.45 * Math.min(stereocenters, 8)
+    + 0.5 * spiro
+    + 0.35 * bridgeheads
+    + 1.0 * Math.min(macrocycles, 2)
+    + 0.25 * unusual
+    + 0.5 * fractionCsp3;
+  return round(Math.min(10, Math.max(1, score)), 2);
+}
+
+function hillFormula(counts: Map<string, number>): string {
+  const order = Array.from(counts.keys()).sort((a, b) => {
+    const rank = (s: string) => (s === 'C' ? 0 : s === 'H' ? 1 : 2);
+    return rank(a) - rank(b) || a.localeCompare(b);
+  });
+  return order.map(s => `${s}${counts.get(s)! > 1 ? counts.get(s) : ''}`).join('');
+}
+
+/**
+ * Compute descriptors for a parsed molecule. Kekulé-drawn rings are perceived
+ * as aromatic first, so both spellings of a molecule describe the same way.
+ */
+export function computeDescriptors(molecule: SmilesMolecule): MolecularDescriptors {
+  const perceived = perceiveAromaticity(molecule);
+  const graph = buildGraph(perceived);
+  const { atoms } = graph;
+  const smallRingAtoms = new Set(graph.rings.filter(r => r.length === 3).flat());
+
+  const counts = new Map<string, number>();
+  let weight = 0;
+  let clogp = 0;
+  let tpsa = 0;
+  let hbd = 0;
+  let hba = 0;
+  let carbons = 0;
+  let sp3Carbons = 0;
+  let charge = 0;
+
+  atoms.forEach((a, idx) => {
+    if (a.symbol !== '*') {
+      counts.set(a.symbol, (counts.get(a.symbol) ?? 0) + 1);
+      weight += a.isotope ?? ATOMIC_MASS[a.symbol] ?? 0;
+    }
+    if (a.hydrogens) {
+      counts.set('H', (counts.get('H') ?? 0) + a.hydrogens);
+      weight += a.hydrogens * ATOMIC_MASS.H;
+    }
+    charge += a.charge;
+    clogp += crippenContribution(graph, idx);
+    tpsa += tpsaContribution(graph, idx, smallRingAtoms.has(idx));
+
+    if ((a.symbol === 'N' || a.symbol === 'O') && a.hydrogens > 0) hbd++;
+    if (a.symbol === 'O' && a.charge <= 0) hba++;
+    if (a.symbol === 'N' && a.charge <= 0 && !(a.aromatic && a.hydrogens > 0) && !isAmideNitrogen(graph, idx)
+      && !graph.neighbors[idx].some(n => atoms[n.atom].aromatic && !a.aromatic)) hba++;
+
+    if (a.symbol === 'C') {
+      carbons++;
+      if (!a.aromatic && graph.neighbors[idx].every(n => n.order === 1)) sp3Carbons++;
+    }
+  });
+
+  const rotatable = perceived.bonds.filter(b => b.order === 1 && !b.ring && isRotatable(graph, b.from, b.to)).length;
+  const fractionCsp3 = carbons ? sp3Carbons / carbons : 0;
+  const stereocenters = countStereocenters(graph);
+  const heavyAtoms = atoms.filter(a => a.symbol !== 'H' && a.symbol !== '*').length;
+
+  return {
+    formula: hillFormula(counts),
+    molecular_weight: round(weight, 2),
+    heavy_atoms: heavyAtoms,
+    clogp: round(clogp, 2),
+    tpsa: round(tpsa, 2),
+    hbd,
+    hba,
+    rotatable_bonds: rotatable,
+    ring_count: graph.rings.length,
+    aromatic_ring_count: graph.rings.filter(r => r.every(idx => atoms[idx].aromatic)).length,
+    fraction_csp3: round(fractionCsp3, 3),
+    stereocenters,
+    formal_charge: charge,
+    basic_nitrogens: atoms.filter((_, idx) => isBasicAmine(graph, idx)).length,
+    sa_score: approximateSaScore(graph, heavyAtoms, stereocenters, fractionCsp3),
+  };
+}
+
+/**
+ * Parse and describe a SMILES string; null if it does not parse
+ */
+export function descriptorsFromSmiles(smiles: string): MolecularDescriptors | null {
+  const { molecule } = parseSmiles(smiles.trim());
+  return molecule ? computeDescriptors(molecule) : null;
+}
+
+/**
+ * Offline Simulator: map descriptors onto docking / ADMET / synthesis metrics
+ */
+export function estimateLocalMetrics(
+  descriptors: MolecularDescriptors,
+  options: { potencyThreshold?: number } = {}
+): LocalMetrics {
+  const { heavy_atoms: ha, clogp, tpsa, hbd, hba, aromatic_ring_count: aromaticRings, sa_score: sa } = descriptors;
+  const potencyThreshold = options.potencyThreshold ?? -7;
+
+  // Size-driven ligand-efficiency curve plus lipophilic and polar contact terms
+  const affinity = -(3 + 0.22 * ha - 0.0018 * ha * ha
+    + 0.25 * Math.min(aromaticRings, 4)
+    + 0.15 * Math.min(Math.max(clogp, 0), 5)
+    + 0.1 * Math.min(hbd + hba, 10));
+  const binding = round(Math.min(-4, Math.max(-13, affinity)), 2);
+
+  // hERG: lipophilic base, or very lipophilic polyaromatic
+  const herg = (descriptors.basic_nitrogens > 0 && clogp >= 3.7) || (clogp >= 5 && aromaticRings >= 3);
+  // Pfizer 3/75 rule: cLogP > 3 and TPSA < 75 raises toxicity odds
+  const toxicityProb = round(Math.min(0.95, 0.1 + (clogp > 3 ? 0.25 : 0) + (tpsa < 75 ? 0.2 : 0) + (herg ? 0.3 : 0)), 2);
+  const toxicityRisk = toxicityProb >= 0.6 ? 'HIGH' : toxicityProb >= 0.35 ? 'MED' : 'LOW';
+
+  const steps = Math.max(2, Math.min(12, Math.round(2 + (sa - 1) * 1.2 + 0.3 * descriptors.ring_count)));
+
+  return {
+    docking: {
+      binding_affinity_kcal_per_mol: binding,
+      potency_pass: binding < potencyThreshold,
+    },
+    admet: {
+      toxicity_risk: toxicityRisk,
+      toxicity_prob: toxicityProb,
+      herg_flag: herg,
+      is_safe: !herg && toxicityRisk === 'LOW',
+    },
+    synthesis: {
+      sa_score: sa,
+      num_steps: steps,
+      estimated_cost_usd: estimateCostFromSa(sa),
+    },
+  };
+}
+
+/**
+ * SMILES → descriptors + local metrics in one call; null if it does not parse
+ */
+export function simulateLocally(
+  smiles: string,
+  options: { potencyThreshold?: number } = {}
+): { descriptors: MolecularDescriptors; metrics: LocalMetrics } | null {
+  const descriptors = descriptorsFromSmiles(smiles);
+  return descriptors ? { descriptors, metrics: estimateLocalMetrics(descriptors, options) } : null;
+}
@@ -0,0 +1,250 @@
+/**
+ * SimuLab Experiment Store
+ *
+ * File-backed repository of SimuLab runs. Each experiment is one JSON file
+ * under SIMULAB_DATA_DIR/experiments (default: ./.simulab-data/experiments),
+ * holding the refined design, decision criteria, per-scenario metrics, the
+ * Judge verdict, report edits, reviewer feedback and the token/cost ledger of
+ * the agent and LLM calls behind it (see ./usage-ledger).
+ *
+ * Server-only: imported by the /api/simulab/experiments routes.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { UsageEntry } from './usage-ledger';
+
+export interface ExperimentRecord {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  /** Set when the record was created via duplicate */
+  duplicated_from?: string;
+  task_id?: string | null;
+  protein_target?: string;
+  goal?: string;
+  constraints?: string[];
+  /** Orchestrator output (goal, constraints, scenarios, data_source, ...) */
+  design?: Record<string, unknown> | null;
+  criteria?: Record<string, unknown> | null;
+  /** Local reference dataset the run was checked against; null = Google Sheet */
+  reference_dataset?: string | null;
+  scenarios?: Array<Record<string, unknown>>;
+  /** Metrics keyed by scenario_id ({ docking, admet, synthesis }) */
+  metrics?: Record<string, Record<string, unknown>>;
+  winners?: Array<Record<string, unknown>>;
+  rejected?: Array<Record<string, unknown>>;
+  /** Structured Judge report (winner / selected / rejected / analysis) */
+  verdict?: Record<string, unknown> | null;
+  edits?: Array<Record<string, unknown>>;
+  feedback?: Record<string, unknown>;
+  /** Agent and LLM calls made for this run, appended by appendExperimentUsage */
+  usage?: UsageEntry[];
+}
+
+export type ExperimentInput = Partial<Omit<ExperimentRecord, 'id' | 'created_at' | 'updated_at'>>;
+
+export interface ExperimentSummary {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  protein_target?: string;
+  goal?: string;
+  num_scenarios: number;
+  winner_id: string | null;
+  duplicated_from?: string;
+  /** Estimated spend of the recorded calls */
+  cost_usd: number;
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,80}$/;
+
+// Per-experiment write queue so concurrent PATCHes don't clobber each other
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function getExperimentsDir(): string {
+  const base = process.env.SIMULAB_DATA_DIR || path.join(process.cwd(), '.simulab-data');
+  return path.join(base, 'experiments');
+}
+
+function getExperimentPath(id: string): string {
+  return path.join(getExperimentsDir(), `${id}.json`);
+}
+
+/**
+ * Experiment ids double as file names, so only allow a safe character set
+ */
+export function isValidExperimentId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+export function generateExperimentId(): string {
+  return `exp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function enqueueWrite<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = writeQueues.get(id) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  writeQueues.set(id, next);
+  next.finally(() => {
+    if (writeQueues.get(id) === next) writeQueues.delete(id);
+  }).catch(() => undefined);
+  return next;
+}
+
+async function writeRecord(record: ExperimentRecord): Promise<void> {
+  const dir = getExperimentsDir();
+  await fs.mkdir(dir, { recursive: true });
+  const target = getExperimentPath(record.id);
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(record, null, 2), 'utf8');
+  await fs.rename(tmp, target);
+}
+
+async function readRecord(id: string): Promise<ExperimentRecord | null> {
+  try {
+    const raw = await fs.readFile(getExperimentPath(id), 'utf8');
+    return JSON.parse(raw) as ExperimentRecord;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+function summarize(record: ExperimentRecord): ExperimentSummary {
+  const winner = record.verdict?.winner as Record<string, unknown> | null | undefined;
+  return {
+    id: record.id,
+    name: record.name,
+    created_at: record.created_at,
+    updated_at: record.updated_at,
+    protein_target: record.protein_target,
+    goal: record.goal,
+    num_scenarios: record.scenarios?.length ?? Object.keys(record.metrics || {}).length,
+    winner_id: (winner?.scenario_id as string) || null,
+    duplicated_from: record.duplicated_from,
+    cost_usd: Math.round((record.usage || []).reduce((sum, e) => sum + e.cost_usd, 0) * 1_000_000) / 1_000_000,
+  };
+}
+
+/**
+ * List experiments, most recently updated first
+ */
+export async function listExperiments(filter?: { protein_target?: string }): Promise<ExperimentSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getExperimentsDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const summaries: ExperimentSummary[] = [];
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+    const id = file.slice(0, -'.json'.length);
+    if (!isValidExperimentId(id)) continue;
+    try {
+      const record = await readRecord(id);
+      if (record) summaries.push(summarize(record));
+    } catch (error) {
+      console.warn(`[SimuLab/Experiments] Skipping unreadable experiment ${id}:`, error);
+    }
+  }
+
+  const target = filter?.protein_target?.toLowerCase();
+  return summaries
+    .filter(s => !target || (s.protein_target || '').toLowerCase() === target)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
+
+export async function getExperiment(id: string): Promise<ExperimentRecord | null> {
+  if (!isValidExperimentId(id)) return null;
+  return readRecord(id);
+}
+
+/**
+ * Create a new experiment from the given fields
+ */
+export async function createExperiment(input: ExperimentInput): Promise<ExperimentRecord> {
+  const now = new Date().toISOString();
+  const id = generateExperimentId();
+  const record: ExperimentRecord = {
+    ...input,
+    id,
+    name: input.name || `${input.protein_target || 'Experiment'} · ${now.slice(0, 16).replace('T', ' ')}`,
+    created_at: now,
+    updated_at: now,
+  };
+  await enqueueWrite(id, () => writeRecord(record));
+  return record;
+}
+
+/**
+ * Shallow-merge fields into an existing experiment. Returns null if missing.
+ * The usage ledger is only ever appended to (appendExperimentUsage), so a
+ * patch cannot replace it.
+ */
+export async function updateExperiment(id: string, patch: ExperimentInput): Promise<ExperimentRecord | null> {
+  if (!isValidExperimentId(id)) return null;
+  return enqueueWrite(id, async () => {
+    const existing = await readRecord(id);
+    if (!existing) return null;
+    const updated: ExperimentRecord = {
+      ...existing,
+      ...patch,
+      id: existing.id,
+      created_at: existing.created_at,
+      usage: existing.usage,
+      updated_at: new Date().toISOString(),
+    };
+    await writeRecord(updated);
+    return updated;
+  });
+}
+
+/**
+ * Append usage entries to an experiment's ledger. Returns false if missing.
+ */
+export async function appendExperimentUsage(id: string, entries: UsageEntry[]): Promise<boolean> {
+  if (!isValidExperimentId(id)) return false;
+  return enqueueWrite(id, async () => {
+    const existing = await readRecord(id);
+    if (!existing) return false;
+    await writeRecord({ ...existing, usage: [...(existing.usage || []), ...entries] });
+    return true;
+  });
+}
+
+/**
+ * Copy an experiment under a new id (edits, feedback and usage are not carried over)
+ */
+export async function duplicateExperiment(id: string, name?: string): Promise<ExperimentRecord | null> {
+  const source = await getExperiment(id);
+  if (!source) return null;
+  // createExperiment assigns a fresh id and timestamps
+  return createExperiment({
+    ...source,
+    edits: [],
+    feedback: {},
+    usage: [],
+    name: name || `${source.name} (copy)`,
+    duplicated_from: source.id,
+    task_id: null,
+  });
+}
+
+export async function deleteExperiment(id: string): Promise<boolean> {
+  if (!isValidExperimentId(id)) return false;
+  return enqueueWrite(id, async () => {
+    try {
+      await fs.unlink(getExperimentPath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,202 @@
+/**
+ * SimuLab Drug-likeness Filters
+ *
+ * Rule-based filters run on the parsed molecule (see ./smiles):
+ * - Lipinski Ro5: MW ≤ 500, cLogP ≤ 5, HBD ≤ 5, HBA ≤ 10 (one breach allowed)
+ * - Veber: rotatable bonds ≤ 10, TPSA ≤ 140 Å²
+ * - Ghose: MW 160–480, cLogP −0.4–5.6, 20–70 atoms (molar refractivity is
+ *   not computed locally and is not checked)
+ * - PAINS / Brenk: substructure alerts (see ./substructure). Both lists are
+ *   representative families, not the full published SMARTS sets.
+ *
+ * Each filter is configured per run as 'off', 'soft' (penalises the safety
+ * objective) or 'hard' (vetoes the candidate) via `admet.filters` in the
+ * decision criteria; the scoring engine applies them.
+ */
+
+import { parseSmiles, perceiveAromaticity, SmilesMolecule } from './smiles';
+import { computeDescriptors, MolecularDescriptors } from './descriptors';
+import { compileQuery, hasSubstructure, SubstructureQuery } from './substructure';
+
+export type FilterId = 'lipinski' | 'veber' | 'ghose' | 'pains' | 'brenk';
+
+export type FilterMode = 'off' | 'soft' | 'hard';
+
+export const FILTERS: Array<{ id: FilterId; label: string; description: string }> = [
+  { id: 'lipinski', label: 'Lipinski Ro5', description: 'MW ≤ 500, cLogP ≤ 5, HBD ≤ 5, HBA ≤ 10 (≤ 1 breach)' },
+  { id: 'veber', label: 'Veber', description: 'Rotatable bonds ≤ 10, TPSA ≤ 140 Å²' },
+  { id: 'ghose', label: 'Ghose', description: 'MW 160–480, cLogP −0.4–5.6, 20–70 atoms' },
+  { id: 'pains', label: 'PAINS', description: 'Pan-assay interference substructures' },
+  { id: 'brenk', label: 'Brenk', description: 'Reactive / toxicophore substructures' },
+];
+
+export const FILTER_MODES: FilterMode[] = ['off', 'soft', 'hard'];
+
+export const DEFAULT_FILTER_MODES: Record<FilterId, FilterMode> = {
+  lipinski: 'soft',
+  veber: 'soft',
+  ghose: 'off',
+  pains: 'soft',
+  brenk: 'off',
+};
+
+export interface FilterResult {
+  filter: FilterId;
+  label: string;
+  passed: boolean;
+  /** Human-readable breaches ('MW 612.7 > 500', 'quinone') */
+  violations: string[];
+}
+
+export interface FilterViolation {
+  filter: FilterId;
+  label: string;
+  mode: Exclude<FilterMode, 'off'>;
+  message: string;
+}
+
+interface Alert {
+  name: string;
+  patterns: string[];
+}
+
+const PAINS_ALERTS: Alert[] = [
+  { name: 'quinone', patterns: ['O=C1C=CC(=O)C=C1', 'O=C1C(=O)C=CC=C1'] },
+  { name: 'catechol', patterns: ['[OH]c1ccccc1[OH]'] },
+  { name: 'ene-rhodanine', patterns: ['S=C1SC(=C)C(=O)N1'] },
+  { name: 'azo', patterns: ['*N=N*'] },
+  { name: 'acyl hydrazone', patterns: ['O=CNN=C'] },
+  { name: 'dialkylaniline', patterns: ['CN(C)c1ccccc1'] },
+  { name: 'phenolic Mannich base', patterns: ['[OH]c1ccccc1CN'] },
+  { name: '2-aminothiophene', patterns: ['Nc1sccc1'] },
+  { name: 'ene-cyano', patterns: ['C=C(C#N)C#N'] },
+];
+
+const BRENK_ALERTS: Alert[] = [
+  { name: 'nitro', patterns: ['[N+](=O)[O-]'] },
+  { name: 'aldehyde', patterns: ['[CH]=O'] },
+  { name: 'acyl halide', patterns: ['O=CCl', 'O=CBr'] },
+  { name: 'sulfonyl halide', patterns: ['O=S(=O)Cl'] },
+  { name: 'alkyl halide', patterns: ['[CH2]Cl', '[CH2]Br', '[CH2]I'] },
+  { name: 'epoxide / aziridine', patterns: ['C1OC1', 'C1NC1'] },
+  { name: 'thiol', patterns: ['[SH]'] },
+  { name: 'iso(thio)cyanate', patterns: ['N=C=O', 'N=C=S'] },
+  { name: 'peroxide', patterns: ['OO'] },
+  { name: 'disulfide', patterns: ['SS'] },
+  { name: 'azide', patterns: ['N=[N+]=[N-]'] },
+  { name: 'hydrazine', patterns: ['[NH]N'] },
+  { name: 'Michael acceptor', patterns: ['C=CC=O'] },
+  { name: 'anhydride', patterns: ['O=COC=O'] },
+  { name: 'thiocarbonyl', patterns: ['C=S'] },
+];
+
+// Compiled on first use so importing the module stays cheap
+let compiledAlerts: Map<FilterId, Array<{ name: string; queries: SubstructureQuery[] }>> | null = null;
+
+function getAlerts(filter: 'pains' | 'brenk'): Array<{ name: string; queries: SubstructureQuery[] }> {
+  if (!compiledAlerts) {
+    const compile = (alerts: Alert[]) => alerts.map(a => ({ name: a.name, queries: a.patterns.map(compileQuery) }));
+    compiledAlerts = new Map([
+      ['pains', compile(PAINS_ALERTS)],
+      ['brenk', compile(BRENK_ALERTS)],
+    ]);
+  }
+  return compiledAlerts.get(filter)!;
+}
+
+function matchAlerts(molecule: SmilesMolecule, filter: 'pains' | 'brenk'): string[] {
+  return getAlerts(filter)
+    .filter(alert => alert.queries.some(q => hasSubstructure(molecule, q)))
+    .map(alert => alert.name);
+}
+
+function ruleBreaches(filter: 'lipinski' | 'veber' | 'ghose', d: MolecularDescriptors, molecule: SmilesMolecule): string[] {
+  const breaches: string[] = [];
+  const above = (name: string, value: number, max: number) => {
+    if (value > max) breaches.push(`${name} ${value} > ${max}`);
+  };
+  const outside = (name: string, value: number, min: number, max: number) => {
+    if (value < min || value > max) breaches.push(`${name} ${value} outside ${min}–${max}`);
+  };
+
+  if (filter === 'lipinski') {
+    above('MW', d.molecular_weight, 500);
+    above('cLogP', d.clogp, 5);
+    above('HBD', d.hbd, 5);
+    above('HBA', d.hba, 10);
+  } else if (filter === 'veber') {
+    above('rotatable bonds', d.rotatable_bonds, 10);
+    above('TPSA', d.tpsa, 140);
+  } else {
+    const atoms = molecule.atoms.reduce((sum, a) => sum + 1 + a.hydrogens, 0);
+    outside('MW', d.molecular_weight, 160, 480);
+    outside('cLogP', d.clogp, -0.4, 5.6);
+    outside('atoms', atoms, 20, 70);
+  }
+  return breaches;
+}
+
+/**
+ * Run every filter against a parsed molecule
+ */
+export function runFilters(molecule: SmilesMolecule, descriptors?: MolecularDescriptors): FilterResult[] {
+  const d = descriptors ?? computeDescriptors(molecule);
+  // Alerts are written aromatic; Kekulé input must match them too
+  const perceived = perceiveAromaticity(molecule);
+  return FILTERS.map(({ id, label }) => {
+    let violations: string[];
+    if (id === 'pains' || id === 'brenk') {
+      violations = matchAlerts(perceived, id);
+    } else {
+      violations = ruleBreaches(id, d, molecule);
+    }
+    // Lipinski tolerates a single breach
+    const passed = id === 'lipinski' ? violations.length <= 1 : violations.length === 0;
+    return { filter: id, label, passed, violations };
+  });
+}
+
+/**
+ * Fill in defaults for filter modes coming from a request body
+ */
+export function resolveFilterModes(modes?: Partial<Record<FilterId, FilterMode>>): Record<FilterId, FilterMode> {
+  const resolved = { ...DEFAULT_FILTER_MODES };
+  for (const { id } of FILTERS) {
+    const mode = modes?.[id];
+    if (mode && FILTER_MODES.includes(mode)) resolved[id] = mode;
+  }
+  return resolved;
+}
+
+const violationCache = new Map<string, FilterResult[] | null>();
+const VIOLATION_CACHE_LIMIT = 500;
+
+/**
+ * Failed filters for a SMILES under the given modes ('off' filters are
+ * skipped). Empty or unparsable SMILES yield no violations; invalid input is
+ * rejected upstream by the SMILES validator.
+ */
+export function evaluateFilters(
+  smiles: string | null | undefined,
+  modes: Record<FilterId, FilterMode>
+): FilterViolation[] {
+  const key = (smiles || '').trim();
+  if (!key || FILTERS.every(f => modes[f.id] === 'off')) return [];
+
+  let results = violationCache.get(key);
+  if (results === undefined) {
+    const { molecule } = parseSmiles(key);
+    results = molecule ? runFilters(molecule) : null;
+    if (violationCache.size >= VIOLATION_CACHE_LIMIT) violationCache.clear();
+    violationCache.set(key, results);
+  }
+  if (!results) return [];
+
+  const violations: FilterViolation[] = [];
+  for (const r of results) {
+    const mode = modes[r.filter];
+    if (r.passed || mode === 'off') continue;
+    violations.push({ filter: r.filter, label: r.label, mode, message: `${r.label}: ${r.violations.join(', ')}` });
+  }
+  return violations;
+}
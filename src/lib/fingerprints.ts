@@ -0,0 +1,130 @@
+/**
+ * SimuLab Molecular Fingerprints
+ *
+ * Circular (Morgan / ECFP-style) fingerprints over the parsed SMILES graph
+ * (see ./smiles) and Tanimoto similarity between them. Atom invariants are
+ * element, heavy-atom degree, hydrogen count, charge, aromaticity and ring
+ * membership; each iteration hashes an atom's identifier with its bonded
+ * neighbours' identifiers, and every identifier is folded into a fixed-width
+ * bit vector. Radius 2 corresponds to ECFP4.
+ *
+ * Stereo is ignored (the parser drops it). Rings are run through
+ * `perceiveAromaticity` first, so Kekulé and aromatic spellings of benzene-
+ * and pyrrole-like rings fingerprint identically.
+ */
+
+import { parseSmiles, perceiveAromaticity, SmilesBondOrder, SmilesMolecule } from './smiles';
+
+export interface Fingerprint {
+  bits: number;
+  /** Bit vector packed into 32-bit words */
+  words: Uint32Array;
+}
+
+export interface FingerprintOptions {
+  radius?: number;
+  bits?: number;
+}
+
+export const DEFAULT_FINGERPRINT_RADIUS = 2;
+export const DEFAULT_FINGERPRINT_BITS = 2048;
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+function hashInts(values: number[]): number {
+  let hash = FNV_OFFSET;
+  for (const value of values) {
+    for (let shift = 0; shift < 32; shift += 8) {
+      hash ^= (value >>> shift) & 0xff;
+      hash = Math.imul(hash, FNV_PRIME);
+    }
+  }
+  return hash >>> 0;
+}
+
+function hashString(text: string): number {
+  return hashInts(Array.from(text, ch => ch.charCodeAt(0)));
+}
+
+function bondCode(order: SmilesBondOrder): number {
+  return order === 'aromatic' ? 5 : order;
+}
+
+function popcount(word: number): number {
+  let v = word - ((word >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24);
+}
+
+/**
+ * Morgan fingerprint of a parsed molecule
+ */
+export function computeFingerprint(molecule: SmilesMolecule, options: FingerprintOptions = {}): Fingerprint {
+  const radius = options.radius ?? DEFAULT_FINGERPRINT_RADIUS;
+  const bits = options.bits ?? DEFAULT_FINGERPRINT_BITS;
+  const words = new Uint32Array(Math.ceil(bits / 32));
+  const setBit = (id: number) => {
+    const bit = id % bits;
+    words[bit >>> 5] |= 1 << (bit & 31);
+  };
+
+  const { atoms, bonds } = perceiveAromaticity(molecule);
+  const neighbors = atoms.map(() => [] as Array<{ atom: number; order: SmilesBondOrder }>);
+  const inRing = atoms.map(() => false);
+  for (const b of bonds) {
+    neighbors[b.from].push({ atom: b.to, order: b.order });
+    neighbors[b.to].push({ atom: b.from, order: b.order });
+    if (b.ring) {
+      inRing[b.from] = true;
+      inRing[b.to] = true;
+    }
+  }
+
+  let ids = atoms.map((a, idx) => hashInts([
+    hashString(a.symbol),
+    neighbors[idx].length,
+    a.hydrogens,
+    a.charge + 8,
+    a.aromatic ? 1 : 0,
+    inRing[idx] ? 1 : 0,
+  ]));
+  ids.forEach(setBit);
+
+  for (let iteration = 1; iteration <= radius; iteration++) {
+    ids = ids.map((id, idx) => {
+      const environment = neighbors[idx]
+        .map(n => [bondCode(n.order), ids[n.atom]])
+        .sort((x, y) => x[0] - y[0] || x[1] - y[1])
+        .flat();
+      return hashInts([iteration, id, ...environment]);
+    });
+    ids.forEach(setBit);
+  }
+
+  return { bits, words };
+}
+
+/**
+ * Parse and fingerprint a SMILES string; null if it does not parse
+ */
+export function fingerprintFromSmiles(smiles: string, options: FingerprintOptions = {}): Fingerprint | null {
+  const { molecule } = parseSmiles(smiles.trim());
+  return molecule ? computeFingerprint(molecule, options) : null;
+}
+
+/**
+ * Tanimoto (Jaccard) similarity in [0, 1]; fingerprints must share a width
+ */
+export function tanimoto(a: Fingerprint, b: Fingerprint): number {
+  if (a.bits !== b.bits) {
+    throw new Error(`Fingerprint widths differ (${a.bits} vs ${b.bits})`);
+  }
+  let both = 0;
+  let either = 0;
+  for (let i = 0; i < a.words.length; i++) {
+    both += popcount(a.words[i] & b.words[i]);
+    either += popcount(a.words[i] | b.words[i]);
+  }
+  return either === 0 ? 0 : both / either;
+}
@@ -0,0 +1,453 @@
+/**
+ * SimuLab LLM Client
+ *
+ * The one way routes talk to a language model. A provider turns chat messages
+ * into text; `completeJson` asks for a JSON object, extracts it (tolerating
+ * code fences and surrounding prose), checks it against a TypeBox schema (see
+ * ./llm-contracts) and, when the reply does not parse or match, asks again
+ * with the problems quoted (SIMULAB_LLM_JSON_RETRIES, default 1). Every result
+ * carries the token usage of all its attempts.
+ *
+ * Providers (SIMULAB_LLM_PROVIDER):
+ * - openai: api.openai.com with OPENAI_API_KEY; the default when a key is set
+ * - openai_compatible: any /chat/completions server at SIMULAB_LLM_BASE_URL,
+ *   e.g. a local llama.cpp or vLLM server; the default when the URL is set.
+ *   SIMULAB_LLM_API_KEY (or OPENAI_API_KEY) is sent when present
+ * - recorded: replays the responses in the JSON file at SIMULAB_LLM_RECORDINGS,
+ *   for deterministic offline runs and tests (see RecordedResponse)
+ *
+ * The model is SIMULAB_LLM_MODEL, then OPENAI_MODEL, then gpt-4o. Each call is
+ * limited to SIMULAB_LLM_TIMEOUT_MS (default 120 s). JSON mode
+ * (`response_format`) is requested unless SIMULAB_LLM_JSON_MODE=off, for
+ * servers that reject it. With no provider configured `getLlmProvider()` is
+ * null and routes take their heuristic fallbacks.
+ *
+ * Validated `completeJson` results are kept in ./response-cache, keyed by
+ * provider, model, prompt version and the normalized request; a hit costs no
+ * tokens and reports `cache: 'hit'` with empty usage.
+ *
+ * A request's `meter` (see ./usage-ledger) is charged with every call's usage
+ * and can refuse calls once the run's budget is spent; the call then fails
+ * with "Run budget exceeded" and routes take their heuristic fallbacks.
+ *
+ * A request's `span` (see ./span-recorder) gets a 'generation' child span per
+ * call, with the model, prompt version, cache outcome and tokens.
+ *
+ * Server-only.
+ */
+
+import { promises as fs } from 'fs';
+import type { Static, TSchema } from '@sinclair/typebox';
+import { checkContract } from './agent-contracts';
+import { withCache, type CacheMode, type CacheStatus } from './response-cache';
+import type { SpanHandle } from './span-recorder';
+
+export type LlmProviderName = 'openai' | 'openai_compatible' | 'recorded';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface LlmRequest {
+  /** Names the call in logs, errors and recordings, e.g. 'refine.goal' */
+  label: string;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the provider for a JSON object (set by completeJson) */
+  json?: boolean;
+  signal?: AbortSignal;
+  /** Rendered prompt id (`verdict@v2`), part of the cache key */
+  promptVersion?: string;
+  /** Response cache mode for completeJson (default: 'default') */
+  cache?: CacheMode;
+  /** Usage meter charged with the call and consulted for the run budget */
+  meter?: LlmMeter;
+  /** Span the call is traced under */
+  span?: SpanHandle;
+}
+
+/** Token accounting hook for LlmRequest (implemented in ./usage-ledger) */
+export interface LlmMeter {
+  /** False once the run budget is spent */
+  allows(): boolean;
+  charge(label: string, model: string, usage: LlmUsage, cache?: CacheStatus): void;
+}
+
+export interface LlmCompletion {
+  content: string;
+  usage: LlmUsage;
+  model: string;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+}
+
+export type LlmResult<T> =
+  | { success: true; data: T; usage: LlmUsage; model: string; provider: LlmProviderName; cache?: CacheStatus }
+  | { success: false; error: string; usage: LlmUsage; model?: string; provider?: LlmProviderName; cache?: CacheStatus };
+
+/**
+ * One entry of a SIMULAB_LLM_RECORDINGS file (a JSON array). The first entry
+ * whose `label` and `match` fit the request answers it; `content` may be the
+ * reply text or a JSON value. Usage is estimated from the text when omitted.
+ */
+export interface RecordedResponse {
+  /** Request label to answer; any label when omitted */
+  label?: string;
+  /** Substring that must appear in one of the request's messages */
+  match?: string;
+  content: unknown;
+  usage?: Partial<LlmUsage>;
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+const BUDGET_EXCEEDED = 'Run budget exceeded';
+
+export const EMPTY_USAGE: LlmUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+function envNumber(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+export function addUsage(a: LlmUsage, b: Partial<LlmUsage> | null | undefined): LlmUsage {
+  const prompt = a.prompt_tokens + (b?.prompt_tokens ?? 0);
+  const completion = a.completion_tokens + (b?.completion_tokens ?? 0);
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: a.total_tokens + (b?.total_tokens ?? (b?.prompt_tokens ?? 0) + (b?.completion_tokens ?? 0)),
+  };
+}
+
+/** Rough token count (~4 characters per token) for providers that report none */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// -----------------------------------------------------------------------------
+// Providers
+// -----------------------------------------------------------------------------
+
+function chatCompletionsProvider(
+  name: 'openai' | 'openai_compatible',
+  baseUrl: string,
+  apiKey: string | undefined,
+  model: string
+): LlmProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const timeoutMs = envNumber('SIMULAB_LLM_TIMEOUT_MS') ?? DEFAULT_TIMEOUT_MS;
+  const jsonMode = process.env.SIMULAB_LLM_JSON_MODE !== 'off';
+
+  return {
+    name,
+    model,
+    async complete(request) {
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      request.signal?.addEventListener('abort', onAbort, { once: true });
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model,
+            messages: request.messages,
+            temperature: request.temperature ?? 0.2,
+            max_tokens: request.maxTokens ?? 1000,
+            ...(request.json && jsonMode ? { response_format: { type: 'json_object' } } : {}),
+          }),
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          const error = await response.text().catch(() => '');
+          throw new Error(`LLM call failed (${response.status}): ${error.slice(0, 500)}`);
+        }
+
+        const data = await response.json();
+        const content = data?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string' || !content) {
+          throw new Error('No content in LLM response');
+        }
+        const usage = data?.usage
+          ? addUsage(EMPTY_USAGE, data.usage)
+          : addUsage(EMPTY_USAGE, {
+              prompt_tokens: estimateTokens(request.messages.map(m => m.content).join('\n')),
+              completion_tokens: estimateTokens(content),
+            });
+        return { content, usage, model: typeof data?.model === 'string' ? data.model : model };
+      } catch (error) {
+        if (controller.signal.aborted && !request.signal?.aborted) {
+          throw new Error(`LLM call timed out after ${timeoutMs} ms`);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', onAbort);
+      }
+    },
+  };
+}
+
+const recordingsCache = new Map<string, Promise<RecordedResponse[]>>();
+
+async function loadRecordings(file: string): Promise<RecordedResponse[]> {
+  let pending = recordingsCache.get(file);
+  if (!pending) {
+    pending = fs.readFile(file, 'utf8').then(raw => {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) throw new Error(`${file} must hold a JSON array of recorded responses`);
+      return parsed as RecordedResponse[];
+    });
+    recordingsCache.set(file, pending);
+    pending.catch(() => recordingsCache.delete(file));
+  }
+  return pending;
+}
+
+function recordedProvider(file: string, model: string): LlmProvider {
+  return {
+    name: 'recorded',
+    model,
+    async complete(request) {
+      const recordings = await loadRecordings(file);
+      const text = request.messages.map(m => m.content).join('\n');
+      const hit = recordings.find(r =>
+        (!r.label || r.label === request.label) && (!r.match || text.includes(r.match))
+      );
+      if (!hit) throw new Error(`No recorded response for ${request.label} in ${file}`);
+
+      const content = typeof hit.content === 'string' ? hit.content : JSON.stringify(hit.content);
+      const usage = addUsage(EMPTY_USAGE, {
+        prompt_tokens: hit.usage?.prompt_tokens ?? estimateTokens(text),
+        completion_tokens: hit.usage?.completion_tokens ?? estimateTokens(content),
+        total_tokens: hit.usage?.total_tokens,
+      });
+      return { content, usage, model };
+    },
+  };
+}
+
+/**
+ * Model name used for new calls (for logs and `model_used` fields)
+ */
+export function getLlmModel(): string {
+  return process.env.SIMULAB_LLM_MODEL || process.env.OPENAI_MODEL || 'gpt-4o';
+}
+
+/**
+ * The configured provider, or null when none is (routes then use heuristics)
+ */
+export function getLlmProvider(): LlmProvider | null {
+  const apiKey = process.env.SIMULAB_LLM_API_KEY || process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY;
+  const baseUrl = process.env.SIMULAB_LLM_BASE_URL;
+  const recordings = process.env.SIMULAB_LLM_RECORDINGS;
+  const provider = process.env.SIMULAB_LLM_PROVIDER
+    || (baseUrl ? 'openai_compatible' : apiKey ? 'openai' : recordings ? 'recorded' : '');
+  const model = getLlmModel();
+
+  switch (provider) {
+    case 'openai':
+      return apiKey ? chatCompletionsProvider('openai', OPENAI_BASE_URL, apiKey, model) : null;
+    case 'openai_compatible':
+      return baseUrl ? chatCompletionsProvider('openai_compatible', baseUrl, apiKey, model) : null;
+    case 'recorded':
+      return recordings ? recordedProvider(recordings, model) : null;
+    default:
+      if (provider) console.warn(`[LLM] Unknown SIMULAB_LLM_PROVIDER "${provider}", LLM disabled`);
+      return null;
+  }
+}
+
+export function isLlmConfigured(): boolean {
+  return getLlmProvider() !== null;
+}
+
+/**
+ * Provider settings for the debug route (no secrets)
+ */
+export function describeLlmConfig(): Record<string, string> {
+  const provider = getLlmProvider();
+  return {
+    provider: provider?.name || '(not configured)',
+    model: provider?.model || getLlmModel(),
+    base_url: provider?.name === 'openai_compatible' ? process.env.SIMULAB_LLM_BASE_URL || '' : provider?.name === 'openai' ? OPENAI_BASE_URL : '',
+    recordings: process.env.SIMULAB_LLM_RECORDINGS || '(not set)',
+    json_mode: process.env.SIMULAB_LLM_JSON_MODE === 'off' ? 'off' : 'on',
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Calls
+// -----------------------------------------------------------------------------
+
+/**
+ * 'generation' span of one call under the request's span
+ */
+function openLlmSpan(request: LlmRequest, provider: LlmProvider): SpanHandle | undefined {
+  return request.span?.child(`llm ${request.label}`, {
+    type: 'generation',
+    input: { messages: request.messages },
+    attributes: {
+      provider: provider.name,
+      model: provider.model,
+      prompt_version: request.promptVersion ?? null,
+      temperature: request.temperature ?? null,
+    },
+  });
+}
+
+function endLlmSpan<T>(span: SpanHandle | undefined, result: LlmResult<T>): void {
+  if (!span) return;
+  span.setAttributes({ model: result.model ?? null, cache: result.cache ?? null, ...result.usage });
+  void span.end(result.success ? { data: result.data } : null, result.success ? undefined : result.error);
+}
+
+/**
+ * Free-text completion
+ */
+export async function completeText(request: LlmRequest): Promise<LlmResult<string>> {
+  const provider = getLlmProvider();
+  if (!provider) return { success: false, error: 'LLM not configured', usage: EMPTY_USAGE };
+  if (request.meter && !request.meter.allows()) return { success: false, error: BUDGET_EXCEEDED, usage: EMPTY_USAGE };
+
+  const span = openLlmSpan(request, provider);
+  try {
+    const completion = await provider.complete(request);
+    request.meter?.charge(request.label, completion.model, completion.usage);
+    const result: LlmResult<string> = { success: true, data: completion.content, usage: completion.usage, model: completion.model, provider: provider.name };
+    endLlmSpan(span, result);
+    return result;
+  } catch (error) {
+    const result: LlmResult<string> = {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      usage: EMPTY_USAGE,
+      model: provider.model,
+      provider: provider.name,
+    };
+    endLlmSpan(span, result);
+    return result;
+  }
+}
+
+/**
+ * Parse the JSON object in a model reply: code fences and text around the
+ * outermost braces are ignored
+ */
+export function extractJson(content: string): unknown {
+  let text = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  const match = text.match(/\{[\s\S]*\}/);
+  if (match) text = match[0];
+  return JSON.parse(text);
+}
+
+/**
+ * Completion that must be a JSON object matching `schema`, answered from the
+ * response cache when an identical request succeeded before
+ */
+export async function completeJson<S extends TSchema>(
+  request: LlmRequest,
+  schema: S
+): Promise<LlmResult<Static<S>>> {
+  const provider = getLlmProvider();
+  if (!provider) return { success: false, error: 'LLM not configured', usage: EMPTY_USAGE };
+  if (request.meter && !request.meter.allows()) return { success: false, error: BUDGET_EXCEEDED, usage: EMPTY_USAGE };
+
+  const span = openLlmSpan(request, provider);
+  const { value, cache } = await withCache<LlmResult<Static<S>>>(
+    {
+      kind: 'llm',
+      model: `${provider.name}:${provider.model}`,
+      prompt_version: request.promptVersion,
+      inputs: {
+        label: request.label,
+        messages: request.messages,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+      },
+    },
+    request.cache ?? 'default',
+    async () => {
+      const result = await completeJsonUncached(provider, request, schema);
+      return { value: result, store: result.success };
+    }
+  );
+  const result: LlmResult<Static<S>> = cache === 'hit' ? { ...value, usage: EMPTY_USAGE, cache } : { ...value, cache };
+  request.meter?.charge(request.label, result.model || provider.model, result.usage, cache);
+  endLlmSpan(span, result);
+  return result;
+}
+
+async function completeJsonUncached<S extends TSchema>(
+  provider: LlmProvider,
+  request: LlmRequest,
+  schema: S
+): Promise<LlmResult<Static<S>>> {
+  const attempts = 1 + (envNumber('SIMULAB_LLM_JSON_RETRIES') ?? 1);
+  let messages = request.messages;
+  let usage = EMPTY_USAGE;
+  let model = provider.model;
+  let problem = '';
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    let content: string;
+    try {
+      const completion = await provider.complete({ ...request, messages, json: true });
+      content = completion.content;
+      usage = addUsage(usage, completion.usage);
+      model = completion.model;
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        usage,
+        model,
+        provider: provider.name,
+      };
+    }
+
+    let value: unknown;
+    try {
+      value = extractJson(content);
+    } catch {
+      problem = `LLM ${request.label} did not return valid JSON`;
+    }
+    if (value !== undefined) {
+      const checked = checkContract(schema, value, `LLM ${request.label}`);
+      if (checked.success) return { success: true, data: checked.data, usage, model, provider: provider.name };
+      problem = checked.error;
+    }
+
+    if (attempt < attempts) {
+      console.warn(`[LLM] ${problem}; asking again (${attempt}/${attempts - 1})`);
+      messages = [
+        ...request.messages,
+        { role: 'assistant', content },
+        { role: 'user', content: `That reply was not usable: ${problem}. Return only the corrected JSON object.` },
+      ];
+    }
+  }
+
+  return { success: false, error: problem, usage, model, provider: provider.name };
+}
@@ -0,0 +1,75 @@
+/**
+ * SimuLab LLM Contracts
+ *
+ * TypeBox schemas for the JSON the routes' LLM fallbacks ask for. Replies are
+ * checked by ./llm-client's `completeJson`; a reply that does not match is sent
+ * back to the model once with the problems quoted, and otherwise fails the
+ * call so the route takes its heuristic fallback.
+ *
+ * Fields the routes read without a default are required; the rest are
+ * optional and nullable, as models often omit or null them. Extra fields are
+ * allowed.
+ */
+
+import { Type, type Static, type TSchema } from '@sinclair/typebox';
+
+const Maybe = <T extends TSchema>(schema: T) => Type.Optional(Type.Union([schema, Type.Null()]));
+
+const JsonObject = Type.Record(Type.String(), Type.Unknown());
+
+const ScenarioRef = Type.Object({ scenario_id: Type.String() });
+
+/** Orchestrator: goal refinement when scenarios come from the database */
+export const RefinedGoalSchema = Type.Object({
+  goal: Type.String(),
+  constraints: Maybe(Type.Array(Type.String())),
+});
+
+/** Orchestrator: scenario generation when the database has no match */
+export const GeneratedDesignSchema = Type.Object({
+  goal: Maybe(Type.String()),
+  constraints: Maybe(Type.Array(Type.String())),
+  protein_target: Maybe(Type.String()),
+  scenarios: Type.Array(Type.Object({
+    scenario_id: Maybe(Type.String()),
+    scaffold: Type.String(),
+    smiles: Type.String(),
+    rationale: Maybe(Type.String()),
+  })),
+});
+
+/** Simulator: predicted metrics for one molecule */
+export const PredictedMetricsSchema = Type.Object({
+  binding_affinity_kcal_per_mol: Type.Number(),
+  potency_pass: Maybe(Type.Boolean()),
+  toxicity_risk: Type.String(),
+  toxicity_prob: Maybe(Type.Number()),
+  herg_flag: Type.Boolean(),
+  is_safe: Maybe(Type.Boolean()),
+  sa_score: Type.Number(),
+  num_steps: Maybe(Type.Number()),
+  estimated_cost_usd: Maybe(Type.Number()),
+});
+
+/** Judge: verdict over all scenarios; also the shape of an edited report */
+export const LlmVerdictSchema = Type.Object({
+  executive_summary: Type.String(),
+  winner: Type.Union([Type.Intersect([ScenarioRef, JsonObject]), Type.Null()]),
+  selected: Type.Array(Type.Intersect([ScenarioRef, JsonObject])),
+  rejected: Type.Array(Type.Intersect([ScenarioRef, JsonObject])),
+  comparative_analysis: Maybe(Type.String()),
+  recommendation: Maybe(Type.String()),
+});
+
+/** Report generator: narrative per scenario, merged with the measured metrics */
+export const LlmReportSchema = Type.Object({
+  executive_summary: Type.String(),
+  scenarios: Type.Array(Type.Intersect([ScenarioRef, JsonObject])),
+  comparative_analysis: Maybe(Type.String()),
+});
+
+export type RefinedGoal = Static<typeof RefinedGoalSchema>;
+export type GeneratedDesign = Static<typeof GeneratedDesignSchema>;
+export type PredictedMetrics = Static<typeof PredictedMetricsSchema>;
+export type LlmVerdict = Static<typeof LlmVerdictSchema>;
+export type LlmReport = Static<typeof LlmReportSchema>;
@@ -0,0 +1,256 @@
+/**
+ * SimuLab Molfile / SDF Reader & Writer
+ *
+ * Converts between MDL V2000 molblocks and the parsed SMILES graph (see
+ * ./smiles) so reference datasets can be exchanged as SD files:
+ * - reading keeps element, formal charge (atom block or 'M  CHG'), isotope
+ *   ('M  ISO') and bond order; explicit hydrogens are folded into their
+ *   heavy atom and the rest are implied from the default valences
+ * - writing emits zero coordinates; aromatic bonds are written as type 4
+ *
+ * Stereo, query bonds and V3000 blocks are not supported.
+ */
+
+import { canonicalizeSmiles, SmilesAtom, SmilesBond, SmilesBondOrder, SmilesMolecule, writeCanonicalSmiles } from './smiles';
+
+export interface SdfRecord {
+  /** First line of the molblock */
+  title: string;
+  /** Canonical SMILES for the molblock; null when it could not be read */
+  smiles: string | null;
+  /** Data items ('> <NAME>') in file order */
+  fields: Record<string, string>;
+  errors: string[];
+}
+
+// Same valence table as the SMILES parser, for implicit hydrogens
+const DEFAULT_VALENCES: Record<string, number[]> = {
+  B: [3], C: [4], N: [3, 5], O: [2], P: [3, 5], S: [2, 4, 6],
+  F: [1], Cl: [1, 3, 5, 7], Br: [1, 3, 5, 7], I: [1, 3, 5, 7],
+  Si: [4], Se: [2, 4, 6], As: [3, 5], Te: [2, 4, 6],
+};
+
+// Atom-block charge codes (4 is a doublet radical, read as neutral)
+const CHARGE_CODES: Record<number, number> = { 1: 3, 2: 2, 3: 1, 4: 0, 5: -1, 6: -2, 7: -3 };
+
+function implicitHydrogens(symbol: string, charge: number, used: number, aromatic: boolean): number | null {
+  const base = DEFAULT_VALENCES[symbol];
+  if (!base) return 0;
+  const shift = symbol === 'C' || symbol === 'Si' ? -Math.abs(charge) : symbol === 'B' ? -charge : charge;
+  const target = base.map(v => v + shift).find(v => v >= used);
+  if (target === undefined) return null;
+  const free = target - used;
+  return free - (aromatic && free >= 1 ? 1 : 0);
+}
+
+/**
+ * Read a V2000 molblock into a canonical SMILES string
+ */
+export function molBlockToSmiles(block: string): { smiles: string | null; title: string; errors: string[] } {
+  const lines = block.replace(/\r/g, '').split('\n');
+  const title = (lines[0] || '').trim();
+  const counts = lines[3] || '';
+  if (/V3000/i.test(counts)) return { smiles: null, title, errors: ['V3000 molblocks are not supported'] };
+
+  const numAtoms = parseInt(counts.slice(0, 3), 10);
+  const numBonds = parseInt(counts.slice(3, 6), 10);
+  if (isNaN(numAtoms) || isNaN(numBonds) || lines.length < 4 + numAtoms + numBonds) {
+    return { smiles: null, title, errors: ['Malformed counts line'] };
+  }
+
+  const errors: string[] = [];
+  const atoms: Array<{ symbol: string; charge: number; isotope: number | null }> = [];
+  for (let i = 0; i < numAtoms; i++) {
+    const parts = lines[4 + i].trim().split(/\s+/);
+    const symbol = parts[3] || '';
+    if (!/^[A-Z][a-z]?$/.test(symbol)) errors.push(`Atom ${i + 1}: unsupported symbol '${symbol}'`);
+    atoms.push({ symbol, charge: CHARGE_CODES[parseInt(parts[5] || '0', 10)] ?? 0, isotope: null });
+  }
+
+  const bonds: Array<{ from: number; to: number; order: SmilesBondOrder }> = [];
+  for (let i = 0; i < numBonds; i++) {
+    const parts = lines[4 + numAtoms + i].trim().split(/\s+/);
+    const from = parseInt(parts[0], 10) - 1;
+    const to = parseInt(parts[1], 10) - 1;
+    const type = parseInt(parts[2], 10);
+    if (!(from >= 0 && from < numAtoms && to >= 0 && to < numAtoms) || from === to) {
+      errors.push(`Bond ${i + 1}: invalid atom reference`);
+    } else if (type >= 1 && type <= 3) {
+      bonds.push({ from, to, order: type as 1 | 2 | 3 });
+    } else if (type === 4) {
+      bonds.push({ from, to, order: 'aromatic' });
+    } else {
+      errors.push(`Bond ${i + 1}: query bond type ${parts[2]} is not supported`);
+    }
+  }
+
+  // Properties block; 'M  CHG' resets all atom-block charges
+  let chargesReset = false;
+  for (const line of lines.slice(4 + numAtoms + numBonds)) {
+    if (line.startsWith('M  END')) break;
+    const kind = line.slice(0, 6);
+    if (kind !== 'M  CHG' && kind !== 'M  ISO') continue;
+    const values = line.slice(6).trim().split(/\s+/).map(v => parseInt(v, 10));
+    if (kind === 'M  CHG' && !chargesReset) {
+      atoms.forEach(a => { a.charge = 0; });
+      chargesReset = true;
+    }
+    for (let j = 1; j + 1 < values.length; j += 2) {
+      const atom = atoms[values[j] - 1];
+      if (!atom) continue;
+      if (kind === 'M  CHG') atom.charge = values[j + 1];
+      else atom.isotope = values[j + 1];
+    }
+  }
+  if (errors.length > 0) return { smiles: null, title, errors };
+
+  // Fold plain explicit hydrogens into their neighbour's count
+  const explicitH = atoms.map(() => 0);
+  const dropped = new Set<number>();
+  atoms.forEach((atom, idx) => {
+    if (atom.symbol !== 'H' || atom.charge !== 0 || atom.isotope !== null) return;
+    const attached = bonds.filter(b => b.from === idx || b.to === idx);
+    if (attached.length !== 1 || attached[0].order !== 1) return;
+    const other = attached[0].from === idx ? attached[0].to : attached[0].from;
+    if (atoms[other].symbol === 'H') return;
+    explicitH[other]++;
+    dropped.add(idx);
+  });
+
+  const remap = new Map<number, number>();
+  atoms.forEach((_, idx) => {
+    if (!dropped.has(idx)) remap.set(idx, remap.size);
+  });
+  const keptBonds = bonds.filter(b => !dropped.has(b.from) && !dropped.has(b.to));
+  const aromatic = atoms.map((_, idx) => keptBonds.some(b => b.order === 'aromatic' && (b.from === idx || b.to === idx)));
+  const bondSums = atoms.map(() => 0);
+  for (const b of keptBonds) {
+    const valence = b.order === 'aromatic' ? 1 : b.order;
+    bondSums[b.from] += valence;
+    bondSums[b.to] += valence;
+  }
+
+  const molAtoms: SmilesAtom[] = [];
+  atoms.forEach((atom, idx) => {
+    if (dropped.has(idx)) return;
+    const implicit = implicitHydrogens(atom.symbol, atom.charge, bondSums[idx] + explicitH[idx], aromatic[idx]);
+    if (implicit === null) {
+      errors.push(`Atom ${idx + 1}: valence exceeded for ${atom.symbol}`);
+      return;
+    }
+    molAtoms.push({
+      index: remap.get(idx)!,
+      symbol: atom.symbol,
+      text: atom.symbol,
+      aromatic: aromatic[idx],
+      bracket: true,
+      isotope: atom.isotope,
+      charge: atom.charge,
+      hydrogens: explicitH[idx] + implicit,
+      chiral: null,
+      atomClass: null,
+      position: idx,
+    });
+  });
+  if (errors.length > 0) return { smiles: null, title, errors };
+
+  const molBonds: SmilesBond[] = keptBonds.map(b => ({
+    from: remap.get(b.from)!,
+    to: remap.get(b.to)!,
+    order: b.order,
+    symbol: null,
+    ring: false,
+    position: 0,
+  }));
+
+  // Ring flags are unset here, so round-trip through the parser to get the
+  // canonical form and a full valence / kekulization check
+  const written = writeCanonicalSmiles({ atoms: molAtoms, bonds: molBonds });
+  const smiles = canonicalizeSmiles(written);
+  if (!smiles) return { smiles: null, title, errors: [`Structure does not form a valid molecule (${written})`] };
+  return { smiles, title, errors: [] };
+}
+
+/**
+ * Split an SD file into records (molblock + data items)
+ */
+export function parseSdf(text: string): SdfRecord[] {
+  const records: SdfRecord[] = [];
+  const chunks = text.replace(/\r/g, '').split(/^\$\$\$\$[^\n]*$/m);
+  for (const chunk of chunks) {
+    const body = chunk.replace(/^\n/, '');
+    if (!body.trim()) continue;
+
+    const end = body.indexOf('M  END');
+    const block = end >= 0 ? body.slice(0, end + 'M  END'.length) : body;
+    const { smiles, title, errors } = end >= 0
+      ? molBlockToSmiles(block)
+      : { smiles: null, title: body.split('\n')[0].trim(), errors: ['Missing M  END'] };
+
+    // Data items run from a '> <NAME>' header to the next blank line
+    const fields: Record<string, string> = {};
+    let name: string | null = null;
+    let value: string[] = [];
+    const flush = () => {
+      if (name !== null) fields[name] = value.join('\n').trim();
+      name = null;
+      value = [];
+    };
+    const data = end >= 0 ? body.slice(end + 'M  END'.length) : '';
+    for (const line of data.split('\n')) {
+      const header = /^>.*<([^>]+)>/.exec(line);
+      if (header) {
+        flush();
+        name = header[1].trim();
+      } else if (name !== null) {
+        if (line.trim()) value.push(line);
+        else flush();
+      }
+    }
+    flush();
+    records.push({ title, smiles, fields, errors });
+  }
+  return records;
+}
+
+function pad(value: string | number, width: number, right = false): string {
+  const text = String(value);
+  return right ? text.padEnd(width) : text.padStart(width);
+}
+
+/**
+ * V2000 molblock with zero coordinates for a parsed molecule
+ */
+export function writeMolBlock(molecule: SmilesMolecule, title = ''): string {
+  const lines = [title.replace(/\n/g, ' '), '  SimuLab', ''];
+  lines.push(`${pad(molecule.atoms.length, 3)}${pad(molecule.bonds.length, 3)}  0  0  0  0  0  0  0  0999 V2000`);
+  for (const atom of molecule.atoms) {
+    lines.push(`    0.0000    0.0000    0.0000 ${pad(atom.symbol, 3, true)} 0  0  0  0  0  0  0  0  0  0  0  0`);
+  }
+  for (const bond of molecule.bonds) {
+    const type = bond.order === 'aromatic' ? 4 : bond.order;
+    lines.push(`${pad(bond.from + 1, 3)}${pad(bond.to + 1, 3)}${pad(type, 3)}  0`);
+  }
+  const charged = molecule.atoms.filter(a => a.charge !== 0);
+  for (let i = 0; i < charged.length; i += 8) {
+    const group = charged.slice(i, i + 8);
+    lines.push(`M  CHG${pad(group.length, 3)}${group.map(a => `${pad(a.index + 1, 4)}${pad(a.charge, 4)}`).join('')}`);
+  }
+  const labelled = molecule.atoms.filter(a => a.isotope !== null);
+  for (let i = 0; i < labelled.length; i += 8) {
+    const group = labelled.slice(i, i + 8);
+    lines.push(`M  ISO${pad(group.length, 3)}${group.map(a => `${pad(a.index + 1, 4)}${pad(a.isotope!, 4)}`).join('')}`);
+  }
+  lines.push('M  END');
+  return lines.join('\n');
+}
+
+/**
+ * One SD record: molblock, data items and the '$$$$' terminator
+ */
+export function writeSdfRecord(molecule: SmilesMolecule, title: string, fields: Record<string, string>): string {
+  const data = Object.entries(fields)
+    .map(([name, value]) => `> <${name}>\n${value}\n`)
+    .join('\n');
+  return `${writeMolBlock(molecule, title)}\n${data}\n$$$$\n`;
+}
@@ -0,0 +1,69 @@
+/**
+ * SimuLab NDJSON Streams
+ *
+ * Newline-delimited JSON for routes that report progress while they work:
+ * one JSON object per line, written as soon as it is produced. The writer is
+ * used by API routes, the reader by the UI. Client-safe.
+ */
+
+/**
+ * Response whose body is the events `produce` sends. The stream closes when
+ * `produce` settles; a throw is sent as `{ type: 'error', error }`.
+ */
+export function ndjsonResponse<E>(
+  produce: (send: (event: E) => void) => Promise<void>,
+  onError?: (error: unknown) => string
+): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (event: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          // Client went away; routes stop work through request.signal
+        }
+      };
+
+      try {
+        await produce(write);
+      } catch (error) {
+        write({ type: 'error', error: onError ? onError(error) : error instanceof Error ? error.message : 'Unknown error' });
+      }
+      try {
+        controller.close();
+      } catch {
+        // Already cancelled by the client
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+/**
+ * Read an NDJSON response, calling `onEvent` for each line as it arrives
+ */
+export async function readNdjson<E>(response: Response, onEvent: (event: E) => void): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('Response has no body to stream');
+
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line) as E);
+    }
+    if (done) return;
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * SimuLab Pipeline Store
+ *
+ * File-backed state of server-side pipeline jobs: one JSON file per job under
+ * SIMULAB_DATA_DIR/pipelines (default: ./.simulab-data/pipelines). A job runs
+ * refine → metrics → verdict → report; the output of every finished step is
+ * kept as a checkpoint, so a job that was cancelled, failed or lost with its
+ * server process resumes from the first unfinished step, and a reloaded page
+ * can reattach to it by id.
+ *
+ * A running job refreshes `heartbeat_at` while it works. A job still marked
+ * running whose heartbeat is older than PIPELINE_STALE_MS is reported as
+ * 'interrupted'.
+ *
+ * Server-only: imported by the /api/simulab/pipeline routes.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { CacheMode, CacheStatus } from './response-cache';
+import type { UsageEntry } from './usage-ledger';
+
+export type PipelineStep = 'refine' | 'metrics' | 'verdict' | 'report';
+
+export const PIPELINE_STEPS: PipelineStep[] = ['refine', 'metrics', 'verdict', 'report'];
+
+export type PipelineStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface PipelineStepState {
+  /** 'skipped': the job was started with this step's output (e.g. a reviewed design) */
+  status: 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+  started_at?: string;
+  finished_at?: string;
+  error?: string;
+}
+
+export interface PipelineInput {
+  prompt?: string;
+  constraints?: string;
+  protein_target?: string;
+  /** Local reference dataset id; null = Google Sheet */
+  reference_dataset?: string | null;
+  decision_criteria?: Record<string, unknown>;
+  /** Orchestrator output to start from; the refine step is skipped when given */
+  design?: Record<string, unknown> | null;
+  /** Experiment record the report step updates; a new one is created when absent */
+  experiment_id?: string | null;
+  /** Response cache mode passed to every step (see ./response-cache) */
+  cache?: CacheMode;
+  /** Run budget in USD passed to every step (see ./usage-ledger) */
+  budget_usd?: number | null;
+}
+
+export interface PipelineCheckpoints {
+  /** refine: Orchestrator output */
+  design?: Record<string, unknown>;
+  /** metrics: generate-metrics response (results, invalid_scenarios, failed, ...) */
+  metrics?: Record<string, unknown>;
+  winners?: Array<Record<string, unknown>>;
+  rejected?: Array<Record<string, unknown>>;
+  /** verdict: reason response (structured report, data_source, ...) */
+  verdict?: Record<string, unknown>;
+  /** report: experiment record holding the finished run */
+  experiment_id?: string;
+  /** Token usage of steps that ran before the experiment existed; recorded on it by the report step */
+  usage?: UsageEntry[];
+}
+
+export interface PipelineStageEntry {
+  at: string;
+  step: PipelineStep;
+  stage: string;
+  message: string;
+}
+
+export interface PipelineJob {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  status: PipelineStatus;
+  error: string | null;
+  input: PipelineInput;
+  current_step: PipelineStep | null;
+  steps: Record<PipelineStep, PipelineStepState>;
+  checkpoints: PipelineCheckpoints;
+  /** Latest stage message, for one-line progress displays */
+  message: string | null;
+  /** Most recent stage events (see ./stage-events), oldest first */
+  stages: PipelineStageEntry[];
+  /** Simulator status per scenario while the metrics step runs */
+  scenario_statuses: Record<string, 'pending' | 'running' | 'complete' | 'error'>;
+  /** Response cache outcome per evaluated scenario (absent in jobs from older versions) */
+  scenario_cache?: Record<string, CacheStatus>;
+  /** Number of times the job was started (1 + resumes) */
+  runs: number;
+  heartbeat_at: string | null;
+}
+
+export const PIPELINE_STALE_MS = 30_000;
+
+const MAX_STAGES = 50;
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,80}$/;
+
+// Per-job write queue so stage events and heartbeats don't clobber each other
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function getPipelinesDir(): string {
+  const base = process.env.SIMULAB_DATA_DIR || path.join(process.cwd(), '.simulab-data');
+  return path.join(base, 'pipelines');
+}
+
+function getPipelinePath(id: string): string {
+  return path.join(getPipelinesDir(), `${id}.json`);
+}
+
+export function isValidPipelineId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+function generatePipelineId(): string {
+  return `pipe-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function enqueueWrite<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = writeQueues.get(id) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  writeQueues.set(id, next);
+  next.finally(() => {
+    if (writeQueues.get(id) === next) writeQueues.delete(id);
+  }).catch(() => undefined);
+  return next;
+}
+
+async function writeJob(job: PipelineJob): Promise<void> {
+  const dir = getPipelinesDir();
+  await fs.mkdir(dir, { recursive: true });
+  const target = getPipelinePath(job.id);
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(job, null, 2), 'utf8');
+  await fs.rename(tmp, target);
+}
+
+async function readJob(id: string): Promise<PipelineJob | null> {
+  try {
+    const raw = await fs.readFile(getPipelinePath(id), 'utf8');
+    return JSON.parse(raw) as PipelineJob;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Status as seen by readers: a running job without a recent heartbeat was
+ * lost with its server process
+ */
+function withLiveStatus(job: PipelineJob): PipelineJob {
+  if (job.status !== 'running') return job;
+  const heartbeat = Date.parse(job.heartbeat_at || job.updated_at);
+  return Date.now() - heartbeat > PIPELINE_STALE_MS ? { ...job, status: 'interrupted' } : job;
+}
+
+/**
+ * Whether a job can be (re)started by the resume endpoint
+ */
+export function isResumable(job: PipelineJob): boolean {
+  return job.status === 'failed' || job.status === 'cancelled' || job.status === 'interrupted';
+}
+
+export async function getPipelineJob(id: string): Promise<PipelineJob | null> {
+  if (!isValidPipelineId(id)) return null;
+  const job = await readJob(id);
+  return job && withLiveStatus(job);
+}
+
+/**
+ * Create a queued job. A given design is stored as the refine checkpoint.
+ */
+export async function createPipelineJob(input: PipelineInput): Promise<PipelineJob> {
+  const now = new Date().toISOString();
+  const steps = Object.fromEntries(PIPELINE_STEPS.map(step => [step, { status: 'pending' }])) as Record<PipelineStep, PipelineStepState>;
+  const checkpoints: PipelineCheckpoints = {};
+  if (input.design) {
+    steps.refine = { status: 'skipped', finished_at: now };
+    checkpoints.design = input.design;
+  }
+
+  const job: PipelineJob = {
+    id: generatePipelineId(),
+    created_at: now,
+    updated_at: now,
+    status: 'queued',
+    error: null,
+    input,
+    current_step: null,
+    steps,
+    checkpoints,
+    message: null,
+    stages: [],
+    scenario_statuses: {},
+    scenario_cache: {},
+    runs: 0,
+    heartbeat_at: null,
+  };
+  await enqueueWrite(job.id, () => writeJob(job));
+  return job;
+}
+
+/**
+ * Apply `mutate` to the stored job and save it. Returns null if missing.
+ */
+export async function updatePipelineJob(id: string, mutate: (job: PipelineJob) => void): Promise<PipelineJob | null> {
+  if (!isValidPipelineId(id)) return null;
+  return enqueueWrite(id, async () => {
+    const job = await readJob(id);
+    if (!job) return null;
+    mutate(job);
+    job.updated_at = new Date().toISOString();
+    if (job.stages.length > MAX_STAGES) job.stages = job.stages.slice(-MAX_STAGES);
+    await writeJob(job);
+    return job;
+  });
+}
+
+/**
+ * Mark a queued or running job cancelled; the runner aborts its step at the
+ * next heartbeat. Returns the job and whether it was cancelled now.
+ */
+export async function cancelPipelineJob(id: string): Promise<{ job: PipelineJob; cancelled: boolean } | null> {
+  let cancelled = false;
+  const job = await updatePipelineJob(id, j => {
+    if (j.status !== 'queued' && j.status !== 'running') return;
+    j.status = 'cancelled';
+    j.message = 'Cancelling...';
+    cancelled = true;
+  });
+  return job && { job: withLiveStatus(job), cancelled };
+}
+
+/**
+ * Queue a failed, cancelled or interrupted job to run again from its
+ * checkpoints. Returns the job and whether it was queued now.
+ */
+export async function queuePipelineResume(id: string): Promise<{ job: PipelineJob; queued: boolean } | null> {
+  let queued = false;
+  const job = await updatePipelineJob(id, j => {
+    if (!isResumable(withLiveStatus(j))) return;
+    j.status = 'queued';
+    j.error = null;
+    j.message = 'Resuming...';
+    queued = true;
+  });
+  return job && { job: withLiveStatus(job), queued };
+}
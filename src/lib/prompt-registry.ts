@@ -0,0 +1,222 @@
+/**
+ * SimuLab Prompt Registry
+ *
+ * Named, versioned prompt templates for every LLM call, loaded from
+ * SIMULAB_PROMPTS_DIR (default: ./prompts). One file per version,
+ * `<name>.v<version>.md`: a frontmatter block (name, version, description,
+ * variables) followed by a `## system` and a `## user` section, with
+ * `{{variable}}` placeholders. The variables each prompt takes are typed in
+ * PromptVariables, and rendering fails on a placeholder the template does not
+ * declare or a declared variable the caller did not pass.
+ *
+ * The highest version of a prompt is used unless SIMULAB_PROMPT_VERSIONS pins
+ * one, e.g. `verdict=2,edit=1`; `verdict=1|2` picks one of the listed versions
+ * at random per call (an A/B split). Rendered prompts carry their id
+ * (`verdict@v2`), which routes report as `prompt_version` in their results
+ * and traces.
+ *
+ * Templates are read once per process in production and on every call
+ * otherwise, so edits show up without a restart during development.
+ *
+ * Server-only.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LlmMessage } from './llm-client';
+
+type PromptValue = string | number | boolean;
+
+/** Variables of each prompt, by name */
+export interface PromptVariables {
+  'refine.goal': { prompt: string; constraints_line: string; protein_target: string; scenario_summary: string };
+  'refine.scenarios': { prompt: string; constraints_line: string; protein_target: string };
+  'metrics.molecule': {
+    smiles: string;
+    scaffold: string;
+    protein_target: string;
+    potency_threshold: PromptValue;
+    herg_veto: string;
+    sa_hard_fail: PromptValue;
+  };
+  verdict: { criteria_text: string; protein_target: string; scenario_details: string };
+  edit: {
+    total_scenarios: number;
+    winner_id: string;
+    selected_ids: string;
+    rejected_ids: string;
+    edit_instruction: string;
+    current_report: string;
+  };
+  report: {
+    protein_target: string;
+    goal: string;
+    constraints: string;
+    scenarios_json: string;
+    potency_min: PromptValue;
+    potency_max: PromptValue;
+    toxicity_min: PromptValue;
+    toxicity_max: PromptValue;
+    herg_veto: string;
+    ideal_sa_max: PromptValue;
+    ideal_steps_max: PromptValue;
+    winners: string;
+    rejected: string;
+  };
+}
+
+export type PromptName = keyof PromptVariables;
+
+export interface PromptTemplate {
+  name: string;
+  version: number;
+  description: string;
+  variables: string[];
+  system: string;
+  user: string;
+  file: string;
+}
+
+export interface RenderedPrompt {
+  name: PromptName;
+  version: number;
+  /** `<name>@v<version>`, recorded as `prompt_version` */
+  id: string;
+  messages: LlmMessage[];
+}
+
+const FILE_PATTERN = /^([a-z0-9_.-]+)\.v(\d+)\.md$/;
+
+const PLACEHOLDER = /\{\{\s*([a-z0-9_]+)\s*\}\}/gi;
+
+let cached: Promise<PromptTemplate[]> | null = null;
+
+function getPromptsDir(): string {
+  return process.env.SIMULAB_PROMPTS_DIR || path.join(process.cwd(), 'prompts');
+}
+
+/**
+ * Parse one template file. Throws with the file name on a malformed file.
+ */
+function parseTemplate(file: string, raw: string): PromptTemplate {
+  const match = raw.replace(/\r\n/g, '\n').match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+  if (!match) throw new Error(`Prompt ${file}: missing frontmatter`);
+
+  const meta: Record<string, string> = {};
+  for (const line of match[1].split('\n')) {
+    const idx = line.indexOf(':');
+    if (idx > 0) meta[line.slice(0, idx).trim()] = line.slice(idx + 1).trim();
+  }
+
+  const sections: Record<string, string> = {};
+  let current: string | null = null;
+  for (const line of match[2].split('\n')) {
+    const heading = line.match(/^## (system|user)\s*$/);
+    if (heading) {
+      current = heading[1];
+      sections[current] = '';
+    } else if (current) {
+      sections[current] += `${line}\n`;
+    }
+  }
+
+  const version = Number(meta.version);
+  if (!meta.name || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Prompt ${file}: frontmatter needs a name and a positive integer version`);
+  }
+  if (sections.system === undefined || sections.user === undefined) {
+    throw new Error(`Prompt ${file}: needs a "## system" and a "## user" section`);
+  }
+
+  const template: PromptTemplate = {
+    name: meta.name,
+    version,
+    description: meta.description || '',
+    variables: (meta.variables || '').split(',').map(v => v.trim()).filter(Boolean),
+    system: sections.system.trim(),
+    user: sections.user.trim(),
+    file,
+  };
+
+  const undeclared = [...`${template.system}\n${template.user}`.matchAll(PLACEHOLDER)]
+    .map(m => m[1])
+    .filter(v => !template.variables.includes(v));
+  if (undeclared.length > 0) {
+    throw new Error(`Prompt ${file}: undeclared variables ${[...new Set(undeclared)].join(', ')}`);
+  }
+  return template;
+}
+
+async function loadTemplates(): Promise<PromptTemplate[]> {
+  const dir = getPromptsDir();
+  const files = (await fs.readdir(dir)).filter(f => FILE_PATTERN.test(f));
+  const templates = await Promise.all(files.map(async file => {
+    const template = parseTemplate(file, await fs.readFile(path.join(dir, file), 'utf8'));
+    const [, name, version] = file.match(FILE_PATTERN) as RegExpMatchArray;
+    if (template.name !== name || template.version !== Number(version)) {
+      throw new Error(`Prompt ${file}: frontmatter says ${template.name} v${template.version}`);
+    }
+    return template;
+  }));
+  return templates.sort((a, b) => a.name.localeCompare(b.name) || a.version - b.version);
+}
+
+/**
+ * Every template on disk, sorted by name then version
+ */
+export async function listPrompts(): Promise<PromptTemplate[]> {
+  if (process.env.NODE_ENV !== 'production') return loadTemplates();
+  if (!cached) {
+    cached = loadTemplates();
+    cached.catch(() => { cached = null; });
+  }
+  return cached;
+}
+
+/**
+ * Versions SIMULAB_PROMPT_VERSIONS allows for a prompt, or null for "latest"
+ */
+function pinnedVersions(name: string): number[] | null {
+  for (const entry of (process.env.SIMULAB_PROMPT_VERSIONS || '').split(',')) {
+    const [key, value] = entry.split('=').map(s => s.trim());
+    if (key !== name || !value) continue;
+    const versions = value.split('|').map(Number).filter(v => Number.isInteger(v) && v > 0);
+    if (versions.length > 0) return versions;
+  }
+  return null;
+}
+
+/**
+ * Pick the version of `name` to use (see the module doc) and fill in its
+ * variables. Throws when the template or a variable is missing.
+ */
+export async function renderPrompt<N extends PromptName>(
+  name: N,
+  variables: PromptVariables[N],
+  options: { version?: number } = {}
+): Promise<RenderedPrompt> {
+  const candidates = (await listPrompts()).filter(t => t.name === name);
+  if (candidates.length === 0) throw new Error(`No prompt template named ${name} in ${getPromptsDir()}`);
+
+  const pinned = options.version !== undefined ? [options.version] : pinnedVersions(name);
+  const version = pinned
+    ? pinned[Math.floor(Math.random() * pinned.length)]
+    : Math.max(...candidates.map(t => t.version));
+  const template = candidates.find(t => t.version === version);
+  if (!template) throw new Error(`Prompt ${name} has no version ${version}`);
+
+  const values = variables as unknown as Record<string, PromptValue | undefined>;
+  const missing = template.variables.filter(v => values[v] === undefined);
+  if (missing.length > 0) throw new Error(`Prompt ${name}@v${version} is missing variables ${missing.join(', ')}`);
+
+  const fill = (text: string) => text.replace(PLACEHOLDER, (_, key: string) => String(values[key]));
+  return {
+    name,
+    version,
+    id: `${name}@v${version}`,
+    messages: [
+      { role: 'system', content: fill(template.system) },
+      { role: 'user', content: fill(template.user) },
+    ],
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * SimuLab Metric Provenance
+ *
+ * Per-field record of where each Simulator metric came from: the deployed
+ * agent, the LLM, the heuristic generator, local descriptors or a reference
+ * row (with its id and, for local datasets, the dataset version). When a
+ * reference value replaces a generated one that disagrees, the generated
+ * value is kept alongside it. A field no source reported (e.g. a route length
+ * the model left out) stays undefined and is marked `missing`.
+ *
+ * The map mirrors the metrics shape (docking / admet / synthesis) so the UI
+ * can carry each group's provenance next to its values. Client-safe.
+ */
+
+export type MetricOrigin = 'agent' | 'llm' | 'heuristic' | 'local_descriptors' | 'reference';
+
+export type MetricValue = number | boolean | string;
+
+export interface ReferenceProvenance {
+  row_id: string;
+  /** Reference source, e.g. 'public_csv', 'snapshot' or 'dataset' */
+  source: string;
+  dataset_id?: string;
+  dataset_version?: number;
+  /** How the row was matched: exact, canonical, similarity or scaffold */
+  method: string;
+  similarity: number | null;
+}
+
+export interface MetricProvenance {
+  origin: MetricOrigin;
+  /** Set when the value was computed from another field (e.g. potency_pass from binding affinity) */
+  derived_from?: string;
+  /** Set when the source reported no value; the metric is left undefined */
+  missing?: boolean;
+  /** Reference row behind a 'reference' value */
+  reference?: ReferenceProvenance;
+  /** Generated value this one replaced, kept when the two disagree */
+  replaced?: { origin: MetricOrigin; value: MetricValue };
+}
+
+export const METRIC_FIELDS = {
+  docking: ['binding_affinity_kcal_per_mol', 'potency_pass'],
+  admet: ['toxicity_risk', 'toxicity_prob', 'herg_flag', 'is_safe'],
+  synthesis: ['sa_score', 'num_steps', 'estimated_cost_usd'],
+} as const;
+
+export type MetricGroup = keyof typeof METRIC_FIELDS;
+
+export type MetricProvenanceMap = {
+  [G in MetricGroup]: Record<(typeof METRIC_FIELDS)[G][number], MetricProvenance>;
+};
+
+export const METRIC_ORIGIN_LABELS: Record<MetricOrigin, string> = {
+  agent: 'Simulator agent',
+  llm: 'LLM',
+  heuristic: 'Heuristic',
+  local_descriptors: 'Local descriptors',
+  reference: 'Reference',
+};
+
+/**
+ * The same origin for every field; `derived` marks fields computed from
+ * another one (field → source field), `missing` fields the source left out
+ */
+export function uniformProvenance(
+  origin: MetricOrigin,
+  derived: Record<string, string> = {},
+  missing: readonly string[] = []
+): MetricProvenanceMap {
+  const entry = (field: string): MetricProvenance => {
+    if (missing.includes(field)) return { origin, missing: true };
+    return derived[field] ? { origin, derived_from: derived[field] } : { origin };
+  };
+  const group = <F extends string>(fields: readonly F[]) =>
+    Object.fromEntries(fields.map(field => [field, entry(field)])) as Record<F, MetricProvenance>;
+  return {
+    docking: group(METRIC_FIELDS.docking),
+    admet: group(METRIC_FIELDS.admet),
+    synthesis: group(METRIC_FIELDS.synthesis),
+  };
+}
+
+/**
+ * Provenance of a final value given where it came from (`source`) and the
+ * generated value it stands in for. Agreeing values keep the generated
+ * provenance unless a reference backs them; disagreeing ones record the
+ * generated value under `replaced`, unless there was none.
+ */
+export function trackReplacement(
+  value: MetricValue | undefined,
+  source: MetricProvenance,
+  generatedValue: MetricValue | undefined,
+  generated: MetricProvenance
+): MetricProvenance {
+  if (value === generatedValue) return source.origin === 'reference' ? source : generated;
+  if (generatedValue === undefined) return source;
+  return { ...source, replaced: { origin: generated.origin, value: generatedValue } };
+}
+
+/**
+ * Short description, e.g. "Reference 7 (ds-abc v3, similarity 0.82)",
+ * "LLM (from herg_flag)" or "Not reported by LLM"
+ */
+export function describeProvenance(provenance: MetricProvenance): string {
+  const parts: string[] = [];
+  const ref = provenance.reference;
+  if (provenance.origin === 'reference' && ref) {
+    parts.push(ref.dataset_id ? `${ref.dataset_id} v${ref.dataset_version}` : ref.source);
+    if (ref.method !== 'exact') {
+      parts.push(ref.similarity != null ? `${ref.method} ${ref.similarity.toFixed(2)}` : ref.method);
+    }
+  }
+  if (provenance.derived_from) parts.push(`from ${provenance.derived_from}`);
+
+  const label = provenance.origin === 'reference' && ref ? `Reference ${ref.row_id}` : METRIC_ORIGIN_LABELS[provenance.origin];
+  if (provenance.missing) return `Not reported by ${label}`;
+  const text = parts.length > 0 ? `${label} (${parts.join(', ')})` : label;
+  const replaced = provenance.replaced
+    ? `; ${METRIC_ORIGIN_LABELS[provenance.replaced.origin]} gave ${String(provenance.replaced.value)}`
+    : '';
+  return text + replaced;
+}
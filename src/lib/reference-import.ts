@@ -0,0 +1,386 @@
+/**
+ * SimuLab Reference Data Import & Export
+ *
+ * Turns uploaded CSV, XLSX, SDF and JSON files into validated reference rows
+ * (`SheetScenario`) and writes rows back out as CSV, SDF or JSON. Columns are
+ * matched by exact field name first (so exports re-import cleanly), then by
+ * loose header patterns shared with the live Google Sheet providers (see
+ * ./reference-provider). SD files take each row's fields from the data items
+ * and the SMILES from a SMILES item or, failing that, from the molblock (see
+ * ./molfile).
+ *
+ * Invalid rows are reported with their 1-based source row and dropped; the
+ * caller decides whether a partial import is acceptable.
+ */
+
+import { parseSmiles, formatSmilesError } from './smiles';
+import { parseSdf, writeSdfRecord } from './molfile';
+import { readXlsxRows, XlsxLimitError } from './xlsx';
+
+export interface SheetScenario {
+  scenario_id: string;
+  protein_target: string;
+  scaffold_hypothesis: string;
+  smiles: string;
+  pdb_id: string;
+  reference_binding_affinity: number | null;
+  reference_herg_flag: boolean | null;
+  reference_sa_score: number | null;
+  /** Synthesis route length, when the sheet has a steps column */
+  reference_num_steps?: number | null;
+  target_result: string;
+  result_category: string;
+}
+
+export type ReferenceFileFormat = 'csv' | 'xlsx' | 'sdf' | 'json';
+
+export const REFERENCE_FILE_FORMATS: ReferenceFileFormat[] = ['csv', 'xlsx', 'sdf', 'json'];
+
+export interface ReferenceRowIssue {
+  /** 1-based row in the source (data rows for CSV/XLSX, records for SDF/JSON); 0 for the whole file */
+  row: number;
+  field: keyof SheetScenario | null;
+  message: string;
+}
+
+export interface ReferenceImportResult {
+  rows: SheetScenario[];
+  issues: ReferenceRowIssue[];
+  /** Data rows read from the file, before validation */
+  total: number;
+}
+
+type ReferenceField = keyof SheetScenario;
+
+// Loose header patterns, tried in this order on columns not matched exactly
+// ('category' before 'result' so "Result Category" is not taken as the result)
+const COLUMN_PATTERNS: Array<[ReferenceField, string[]]> = [
+  ['scenario_id', ['scenario']],
+  ['protein_target', ['protein']],
+  ['scaffold_hypothesis', ['scaffold', 'hypothesis']],
+  ['smiles', ['smiles']],
+  ['pdb_id', ['pdb']],
+  ['reference_binding_affinity', ['affinity', 'Δg', 'dg', 'delta g']],
+  ['reference_herg_flag', ['herg']],
+  ['reference_sa_score', ['sa score', 'sa', 'synthesis']],
+  ['reference_num_steps', ['steps']],
+  ['result_category', ['category']],
+  ['target_result', ['final result', 'target final', 'result']],
+];
+
+// Schema order, used for exports
+const REFERENCE_FIELDS: ReferenceField[] = [
+  'scenario_id', 'protein_target', 'scaffold_hypothesis', 'smiles', 'pdb_id', 'reference_binding_affinity',
+  'reference_herg_flag', 'reference_sa_score', 'reference_num_steps', 'target_result', 'result_category',
+];
+
+const PDB_ID_PATTERN = /^[0-9][A-Za-z0-9]{3}$/;
+
+/**
+ * Guess the format from a file name (and content type for uploads)
+ */
+export function detectReferenceFormat(filename: string, contentType?: string): ReferenceFileFormat | null {
+  const ext = filename.toLowerCase().split('.').pop() || '';
+  if (ext === 'csv' || ext === 'tsv' || contentType === 'text/csv') return 'csv';
+  if (ext === 'xlsx' || contentType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') return 'xlsx';
+  if (ext === 'sdf' || ext === 'sd' || ext === 'mol') return 'sdf';
+  if (ext === 'json' || contentType === 'application/json') return 'json';
+  return null;
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines.
+ * Tab-separated input is detected from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.slice(0, source.indexOf('\n') >= 0 ? source.indexOf('\n') : source.length);
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(current.trim());
+      current = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(current.trim());
+      rows.push(row);
+      row = [];
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current || row.length > 0) {
+    row.push(current.trim());
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell !== ''));
+}
+
+/**
+ * Map header names to reference fields: exact field names win, then the
+ * loose patterns claim the remaining columns in pattern order
+ */
+export function mapReferenceColumns(headers: string[]): Partial<Record<ReferenceField, number>> {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const columns: Partial<Record<ReferenceField, number>> = {};
+  const claimed = new Set<number>();
+
+  for (const field of REFERENCE_FIELDS) {
+    const idx = normalized.indexOf(field);
+    if (idx >= 0) {
+      columns[field] = idx;
+      claimed.add(idx);
+    }
+  }
+  for (const [field, patterns] of COLUMN_PATTERNS) {
+    if (columns[field] !== undefined) continue;
+    const idx = normalized.findIndex((h, i) => !claimed.has(i) && patterns.some(p => h.includes(p.toLowerCase())));
+    if (idx >= 0) {
+      columns[field] = idx;
+      claimed.add(idx);
+    }
+  }
+  return columns;
+}
+
+function parseNumberCell(value: unknown): { value: number | null; ok: boolean } {
+  if (value === null || value === undefined || String(value).trim() === '') return { value: null, ok: true };
+  const num = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isFinite(num) ? { value: num, ok: true } : { value: null, ok: false };
+}
+
+function parseFlagCell(value: unknown): { value: boolean | null; ok: boolean } {
+  if (value === null || value === undefined || String(value).trim() === '') return { value: null, ok: true };
+  if (typeof value === 'boolean') return { value, ok: true };
+  const str = String(value).toLowerCase().trim();
+  if (['yes', 'true', '1', 'unsafe', 'veto', 'flagged'].includes(str)) return { value: true, ok: true };
+  if (['no', 'false', '0', 'safe', 'clear'].includes(str)) return { value: false, ok: true };
+  return { value: null, ok: false };
+}
+
+function textCell(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+/**
+ * Validate one record (field name → raw value) against the SheetScenario
+ * schema. Returns the typed row, or null with the reasons it was rejected.
+ */
+export function validateReferenceRecord(
+  record: Partial<Record<ReferenceField, unknown>>,
+  rowNumber: number
+): { row: SheetScenario | null; issues: ReferenceRowIssue[] } {
+  const issues: ReferenceRowIssue[] = [];
+  const fail = (field: ReferenceField | null, message: string) => issues.push({ row: rowNumber, field, message });
+
+  const smiles = textCell(record.smiles);
+  const proteinTarget = textCell(record.protein_target);
+  if (!proteinTarget) fail('protein_target', 'Protein target is required');
+  if (!smiles) {
+    fail('smiles', 'SMILES is required');
+  } else {
+    const { errors } = parseSmiles(smiles);
+    if (errors.length > 0) fail('smiles', `Invalid SMILES: ${formatSmilesError(errors[0])}`);
+  }
+
+  const pdbId = textCell(record.pdb_id).toUpperCase();
+  if (pdbId && !PDB_ID_PATTERN.test(pdbId)) fail('pdb_id', `PDB id '${pdbId}' is not a 4-character PDB code`);
+
+  const affinity = parseNumberCell(record.reference_binding_affinity);
+  if (!affinity.ok) fail('reference_binding_affinity', `Binding affinity '${textCell(record.reference_binding_affinity)}' is not a number`);
+
+  const herg = parseFlagCell(record.reference_herg_flag);
+  if (!herg.ok) fail('reference_herg_flag', `hERG flag '${textCell(record.reference_herg_flag)}' is not yes/no`);
+
+  const sa = parseNumberCell(record.reference_sa_score);
+  if (!sa.ok) fail('reference_sa_score', `SA score '${textCell(record.reference_sa_score)}' is not a number`);
+  else if (sa.value !== null && (sa.value < 1 || sa.value > 10)) fail('reference_sa_score', `SA score ${sa.value} outside 1–10`);
+
+  const steps = parseNumberCell(record.reference_num_steps);
+  if (!steps.ok) fail('reference_num_steps', `Step count '${textCell(record.reference_num_steps)}' is not a number`);
+  else if (steps.value !== null && (steps.value < 0 || !Number.isInteger(steps.value))) {
+    fail('reference_num_steps', `Step count ${steps.value} is not a non-negative integer`);
+  }
+
+  if (issues.length > 0) return { row: null, issues };
+  return {
+    row: {
+      scenario_id: textCell(record.scenario_id) || String(rowNumber),
+      protein_target: proteinTarget,
+      scaffold_hypothesis: textCell(record.scaffold_hypothesis),
+      smiles,
+      pdb_id: pdbId,
+      reference_binding_affinity: affinity.value,
+      reference_herg_flag: herg.value,
+      reference_sa_score: sa.value,
+      reference_num_steps: steps.value,
+      target_result: textCell(record.target_result),
+      result_category: textCell(record.result_category),
+    },
+    issues,
+  };
+}
+
+/**
+ * Validate a batch of records; rows are numbered from 1 and blank rows are
+ * skipped (but keep their number)
+ */
+export function validateReferenceRecords(records: Array<Partial<Record<ReferenceField, unknown>>>): ReferenceImportResult {
+  const rows: SheetScenario[] = [];
+  const issues: ReferenceRowIssue[] = [];
+  let total = 0;
+  records.forEach((record, idx) => {
+    if (Object.values(record).every(value => textCell(value) === '')) return;
+    total++;
+    const result = validateReferenceRecord(record, idx + 1);
+    if (result.row) rows.push(result.row);
+    issues.push(...result.issues);
+  });
+  return { rows, issues, total };
+}
+
+function recordsFromTable(table: string[][]): Array<Partial<Record<ReferenceField, unknown>>> {
+  if (table.length < 2) return [];
+  const columns = mapReferenceColumns(table[0]);
+  return table.slice(1).map(cells => {
+    const record: Partial<Record<ReferenceField, unknown>> = {};
+    for (const [field, idx] of Object.entries(columns) as Array<[ReferenceField, number]>) {
+      record[field] = cells[idx];
+    }
+    return record;
+  });
+}
+
+/**
+ * Lenient counterpart of validateReferenceRecords for the live sheet, which
+ * is curated upstream: every row with a protein target or SMILES is kept and
+ * unreadable values become null instead of rejecting the row.
+ */
+export function readReferenceTable(table: string[][]): SheetScenario[] {
+  const rows: SheetScenario[] = [];
+  recordsFromTable(table).forEach((record, idx) => {
+    const proteinTarget = textCell(record.protein_target);
+    const smiles = textCell(record.smiles);
+    if (!proteinTarget && !smiles) return;
+    rows.push({
+      scenario_id: textCell(record.scenario_id) || `Scenario_${idx + 1}`,
+      protein_target: proteinTarget,
+      scaffold_hypothesis: textCell(record.scaffold_hypothesis),
+      smiles,
+      pdb_id: textCell(record.pdb_id),
+      reference_binding_affinity: parseNumberCell(record.reference_binding_affinity).value,
+      reference_herg_flag: parseFlagCell(record.reference_herg_flag).value,
+      reference_sa_score: parseNumberCell(record.reference_sa_score).value,
+      reference_num_steps: parseNumberCell(record.reference_num_steps).value,
+      target_result: textCell(record.target_result),
+      result_category: textCell(record.result_category),
+    });
+  });
+  return rows;
+}
+
+function recordsFromSdf(text: string): { records: Array<Partial<Record<ReferenceField, unknown>>>; issues: ReferenceRowIssue[] } {
+  const issues: ReferenceRowIssue[] = [];
+  const records = parseSdf(text).map((sdf, idx) => {
+    const names = Object.keys(sdf.fields);
+    const columns = mapReferenceColumns(names);
+    const record: Partial<Record<ReferenceField, unknown>> = {};
+    for (const [field, col] of Object.entries(columns) as Array<[ReferenceField, number]>) {
+      record[field] = sdf.fields[names[col]];
+    }
+    if (!textCell(record.smiles)) {
+      record.smiles = sdf.smiles ?? '';
+      // Only worth reporting when the molblock was the sole structure source
+      sdf.errors.forEach(message => issues.push({ row: idx + 1, field: 'smiles', message: `Molblock: ${message}` }));
+    }
+    if (!textCell(record.scenario_id) && sdf.title) record.scenario_id = sdf.title;
+    return record;
+  });
+  return { records, issues };
+}
+
+/**
+ * Parse and validate an uploaded reference file. Throws when the file
+ * itself cannot be read (corrupt workbook, malformed JSON); a workbook past
+ * the reader's size limits is rejected with a single file-level issue.
+ */
+export function importReferenceFile(
+  content: Buffer,
+  format: ReferenceFileFormat,
+  options: { sheet?: string } = {}
+): ReferenceImportResult {
+  if (format === 'xlsx') {
+    let table: string[][];
+    try {
+      table = readXlsxRows(content, options.sheet);
+    } catch (error) {
+      if (!(error instanceof XlsxLimitError)) throw error;
+      return { rows: [], issues: [{ row: 0, field: null, message: error.message }], total: 0 };
+    }
+    return validateReferenceRecords(recordsFromTable(table));
+  }
+
+  const text = content.toString('utf8');
+  if (format === 'csv') return validateReferenceRecords(recordsFromTable(parseCsv(text)));
+
+  if (format === 'sdf') {
+    const { records, issues } = recordsFromSdf(text);
+    const result = validateReferenceRecords(records);
+    // Molblock errors explain the missing SMILES; list them first per row
+    const merged = [...issues, ...result.issues].sort((a, b) => a.row - b.row);
+    return { ...result, issues: merged };
+  }
+
+  const parsed = JSON.parse(text) as unknown;
+  const list = Array.isArray(parsed) ? parsed : (parsed as { rows?: unknown })?.rows;
+  if (!Array.isArray(list)) throw new Error('JSON must be an array of rows or an object with a rows array');
+  return validateReferenceRecords(list.map(item => (item && typeof item === 'object' ? item : {}) as Partial<Record<ReferenceField, unknown>>));
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows for download. Columns use the exact field names so the
+ * output re-imports without column guessing.
+ */
+export function exportReferenceRows(rows: SheetScenario[], format: Exclude<ReferenceFileFormat, 'xlsx'>): string {
+  if (format === 'json') return JSON.stringify(rows, null, 2);
+
+  if (format === 'csv') {
+    const lines = [REFERENCE_FIELDS.join(',')];
+    for (const row of rows) lines.push(REFERENCE_FIELDS.map(field => csvCell(row[field])).join(','));
+    return lines.join('\n') + '\n';
+  }
+
+  return rows.map(row => {
+    const { molecule } = parseSmiles(row.smiles);
+    const fields: Record<string, string> = {};
+    for (const field of REFERENCE_FIELDS) {
+      const value = row[field];
+      if (value !== null && value !== undefined && value !== '') fields[field] = String(value);
+    }
+    // Rows are validated on import, so an unparsable SMILES means a hand edit; emit an empty molblock
+    return writeSdfRecord(molecule ?? { atoms: [], bonds: [] }, row.scenario_id, fields);
+  }).join('');
+}
@@ -0,0 +1,307 @@
+/**
+ * SimuLab Reference Data Providers
+ *
+ * One interface over every source of the shared reference table (the
+ * SimuLab Google Sheet and its stand-ins), plus the TTL cache the API routes
+ * read through:
+ *
+ *   local_file      - SIMULAB_REFERENCE_FILE (CSV, XLSX, SDF or JSON, validated like an import;
+ *                     SIMULAB_REFERENCE_FILE_SHEET picks the XLSX worksheet)
+ *   public_csv      - public CSV export of SIMULAB_GOOGLE_SHEET_ID / SIMULAB_GOOGLE_SHEET_GID
+ *   service_account - Sheets API with GOOGLE_APPLICATION_CREDENTIALS_JSON
+ *   api_key         - Sheets API with GOOGLE_SHEETS_API_KEY
+ *   snapshot        - the bundled copy in ./reference-snapshot
+ *
+ * Configured providers are tried in that order (or the order given in
+ * SIMULAB_REFERENCE_SOURCES) and the first non-empty result is cached for
+ * SIMULAB_REFERENCE_TTL_SECONDS (default 600). A snapshot result, or stale
+ * rows kept because every live source failed, is retried after a minute.
+ * Every load is stamped with a `ReferenceFreshness` that routes return
+ * alongside their results.
+ *
+ * Server-only: imported by the sheet data module and the /api/simulab/sheets
+ * routes. Local datasets (./reference-store) bypass this cache.
+ */
+
+import { promises as fs } from 'fs';
+import crypto from 'crypto';
+import { SheetScenario, detectReferenceFormat, importReferenceFile, parseCsv, readReferenceTable } from './reference-import';
+import { REFERENCE_SNAPSHOT } from './reference-snapshot';
+
+export type ReferenceSourceKind = 'local_file' | 'public_csv' | 'service_account' | 'api_key' | 'snapshot';
+
+export interface ReferenceProvider {
+  kind: ReferenceSourceKind;
+  /** Whether the environment has what this backend needs */
+  isConfigured(): boolean;
+  /** Rows from the source; throws when the source cannot be read */
+  load(): Promise<SheetScenario[]>;
+}
+
+export interface ReferenceFreshness {
+  /** Where the rows came from; 'dataset' for a local reference dataset */
+  source: ReferenceSourceKind | 'dataset';
+  /** When the rows were read from the source (dataset: when the version was saved) */
+  loaded_at: string;
+  /** When the cache will reload them; null for datasets, which do not expire */
+  expires_at: string | null;
+  /** True when a reload failed and these are older rows kept in its place */
+  stale: boolean;
+  row_count: number;
+  dataset_id?: string;
+  dataset_version?: number;
+}
+
+export interface ReferenceData {
+  rows: SheetScenario[];
+  freshness: ReferenceFreshness;
+}
+
+// Public SimuLab sheet: https://docs.google.com/spreadsheets/d/17bd4GhtN66ekoWxff1qaGNa_SWuYPThR6zgEu215ZWQ/edit
+const SHEET_ID = process.env.SIMULAB_GOOGLE_SHEET_ID || '17bd4GhtN66ekoWxff1qaGNa_SWuYPThR6zgEu215ZWQ';
+const SHEET_TAB = process.env.SIMULAB_GOOGLE_SHEET_TAB || 'demo';
+const SHEET_GID = process.env.SIMULAB_GOOGLE_SHEET_GID || '2021329128';
+
+const ENV_TTL_SECONDS = Number(process.env.SIMULAB_REFERENCE_TTL_SECONDS);
+
+/** How long a live load is served before the next request reloads it */
+export const REFERENCE_TTL_MS = (ENV_TTL_SECONDS >= 0 ? ENV_TTL_SECONDS : 600) * 1000;
+
+// Snapshot and stale results retry the live sources sooner
+const RETRY_MS = Math.min(REFERENCE_TTL_MS, 60 * 1000);
+
+const DEFAULT_ORDER: ReferenceSourceKind[] = ['local_file', 'public_csv', 'service_account', 'api_key', 'snapshot'];
+
+// -----------------------------------------------------------------------------
+// Google service account auth
+// -----------------------------------------------------------------------------
+interface ServiceAccountCredentials {
+  client_email: string;
+  private_key: string;
+}
+
+function base64url(input: string | Buffer): string {
+  return (typeof input === 'string' ? Buffer.from(input) : input).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+}
+
+/**
+ * Signed JWT for the OAuth jwt-bearer grant (read-only Sheets scope, 1 hour)
+ */
+function createGoogleJWT(credentials: ServiceAccountCredentials): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({
+    iss: credentials.client_email,
+    scope: 'https://www.googleapis.com/auth/spreadsheets.readonly',
+    aud: 'https://oauth2.googleapis.com/token',
+    iat: now,
+    exp: now + 3600,
+  }));
+  const signature = crypto.createSign('RSA-SHA256').update(`${header}.${payload}`).sign(credentials.private_key);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+async function getGoogleAccessToken(credentials: ServiceAccountCredentials): Promise<string> {
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: createGoogleJWT(credentials),
+    }),
+  });
+  if (!response.ok) throw new Error(`Failed to get access token: ${await response.text()}`);
+  const data = await response.json();
+  return data.access_token;
+}
+
+async function readSheetValues(init: { query?: string; headers?: Record<string, string> }): Promise<SheetScenario[]> {
+  const url = `https://sheets.googleapis.com/v4/spreadsheets/${SHEET_ID}/values/${encodeURIComponent(SHEET_TAB)}!A:Z${init.query ?? ''}`;
+  const response = await fetch(url, { headers: init.headers });
+  if (!response.ok) throw new Error(`Sheets API ${response.status}: ${(await response.text()).slice(0, 200)}`);
+  const data = await response.json() as { values?: unknown[][] };
+  return readReferenceTable((data.values || []).map(row => row.map(cell => String(cell ?? ''))));
+}
+
+// -----------------------------------------------------------------------------
+// Providers
+// -----------------------------------------------------------------------------
+const localFileProvider: ReferenceProvider = {
+  kind: 'local_file',
+  isConfigured: () => !!process.env.SIMULAB_REFERENCE_FILE,
+  async load() {
+    const file = process.env.SIMULAB_REFERENCE_FILE as string;
+    const format = detectReferenceFormat(file);
+    if (!format) throw new Error(`Unrecognized reference file type: ${file}`);
+    const result = importReferenceFile(await fs.readFile(file), format, { sheet: process.env.SIMULAB_REFERENCE_FILE_SHEET || undefined });
+    if (result.issues.length > 0) {
+      console.warn(`[SimuLab/Reference] ${file}: dropped ${result.total - result.rows.length} invalid row(s); first: row ${result.issues[0].row} ${result.issues[0].message}`);
+    }
+    return result.rows;
+  },
+};
+
+const publicCsvProvider: ReferenceProvider = {
+  kind: 'public_csv',
+  isConfigured: () => true,
+  async load() {
+    const csvUrl = `https://docs.google.com/spreadsheets/d/${SHEET_ID}/export?format=csv&gid=${encodeURIComponent(SHEET_GID)}`;
+    const response = await fetch(csvUrl, {
+      method: 'GET',
+      redirect: 'follow',
+      headers: { Accept: 'text/csv,text/plain,*/*', 'User-Agent': 'SimuLab/1.0' },
+    });
+    if (!response.ok) throw new Error(`CSV export ${response.status} ${response.statusText}`);
+    const text = await response.text();
+    // A sign-in or error page means the sheet is not public
+    if (text.trim().startsWith('<')) throw new Error('CSV export returned HTML instead of CSV');
+    return readReferenceTable(parseCsv(text));
+  },
+};
+
+const serviceAccountProvider: ReferenceProvider = {
+  kind: 'service_account',
+  isConfigured: () => !!process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON,
+  async load() {
+    const credentials = JSON.parse(process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON as string) as ServiceAccountCredentials;
+    const accessToken = await getGoogleAccessToken(credentials);
+    return readSheetValues({ headers: { Authorization: `Bearer ${accessToken}` } });
+  },
+};
+
+const apiKeyProvider: ReferenceProvider = {
+  kind: 'api_key',
+  isConfigured: () => !!process.env.GOOGLE_SHEETS_API_KEY,
+  load: () => readSheetValues({ query: `?key=${encodeURIComponent(process.env.GOOGLE_SHEETS_API_KEY as string)}` }),
+};
+
+const snapshotProvider: ReferenceProvider = {
+  kind: 'snapshot',
+  isConfigured: () => true,
+  load: async () => REFERENCE_SNAPSHOT,
+};
+
+const PROVIDERS: Record<ReferenceSourceKind, ReferenceProvider> = {
+  local_file: localFileProvider,
+  public_csv: publicCsvProvider,
+  service_account: serviceAccountProvider,
+  api_key: apiKeyProvider,
+  snapshot: snapshotProvider,
+};
+
+/**
+ * Providers in the order they are tried, skipping unconfigured ones.
+ * SIMULAB_REFERENCE_SOURCES (e.g. "local_file,snapshot") restricts and
+ * reorders them; the snapshot is always last so a load never comes back empty.
+ */
+export function getReferenceProviders(): ReferenceProvider[] {
+  const requested = (process.env.SIMULAB_REFERENCE_SOURCES || '')
+    .split(',')
+    .map(s => s.trim())
+    .filter((s): s is ReferenceSourceKind => s in PROVIDERS);
+  const order = requested.length > 0 ? requested : DEFAULT_ORDER;
+  const providers = Array.from(new Set(order)).map(kind => PROVIDERS[kind]).filter(p => p.isConfigured());
+  return providers.some(p => p.kind === 'snapshot') ? providers : [...providers, snapshotProvider];
+}
+
+// -----------------------------------------------------------------------------
+// TTL cache
+// -----------------------------------------------------------------------------
+let cache: (ReferenceData & { expiresAt: number }) | null = null;
+let pending: Promise<ReferenceData> | null = null;
+// Bumped on invalidation so a load started before it is not cached
+let generation = 0;
+
+async function loadFromProviders(): Promise<ReferenceData> {
+  const started = generation;
+  let loaded: { kind: ReferenceSourceKind; rows: SheetScenario[] } | null = null;
+  for (const provider of getReferenceProviders()) {
+    try {
+      const rows = await provider.load();
+      if (rows.length > 0) {
+        loaded = { kind: provider.kind, rows };
+        break;
+      }
+      console.warn(`[SimuLab/Reference] ${provider.kind}: no rows`);
+    } catch (error) {
+      console.warn(`[SimuLab/Reference] ${provider.kind} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const now = Date.now();
+  let entry: ReferenceData & { expiresAt: number };
+  if (loaded && loaded.kind !== 'snapshot') {
+    entry = {
+      rows: loaded.rows,
+      expiresAt: now + REFERENCE_TTL_MS,
+      freshness: {
+        source: loaded.kind,
+        loaded_at: new Date(now).toISOString(),
+        expires_at: new Date(now + REFERENCE_TTL_MS).toISOString(),
+        stale: false,
+        row_count: loaded.rows.length,
+      },
+    };
+    console.log(`[SimuLab/Reference] Loaded ${loaded.rows.length} rows from ${loaded.kind}`);
+  } else if (cache && cache.freshness.source !== 'snapshot') {
+    // Keep the last live rows rather than drop back to the snapshot
+    entry = {
+      ...cache,
+      expiresAt: now + RETRY_MS,
+      freshness: { ...cache.freshness, expires_at: new Date(now + RETRY_MS).toISOString(), stale: true },
+    };
+    console.warn(`[SimuLab/Reference] Live sources failed, keeping ${entry.rows.length} rows from ${entry.freshness.loaded_at}`);
+  } else {
+    const rows = loaded?.rows ?? REFERENCE_SNAPSHOT;
+    entry = {
+      rows,
+      expiresAt: now + RETRY_MS,
+      freshness: {
+        source: 'snapshot',
+        loaded_at: new Date(now).toISOString(),
+        expires_at: new Date(now + RETRY_MS).toISOString(),
+        stale: false,
+        row_count: rows.length,
+      },
+    };
+    console.warn('[SimuLab/Reference] Using bundled snapshot');
+  }
+
+  if (started === generation) cache = entry;
+  return { rows: entry.rows, freshness: entry.freshness };
+}
+
+/**
+ * Shared reference rows, reloaded once the TTL has passed. Concurrent
+ * callers share one load.
+ */
+export async function getReferenceData(): Promise<ReferenceData> {
+  if (cache && cache.expiresAt > Date.now()) return { rows: cache.rows, freshness: cache.freshness };
+  if (!pending) {
+    const load: Promise<ReferenceData> = loadFromProviders().finally(() => {
+      if (pending === load) pending = null;
+    });
+    pending = load;
+  }
+  return pending;
+}
+
+/**
+ * Rows currently cached, expired or not, for synchronous lookups; null
+ * before the first load or after invalidation
+ */
+export function getCachedReferenceData(): ReferenceData | null {
+  return cache ? { rows: cache.rows, freshness: cache.freshness } : null;
+}
+
+/**
+ * Drop the cache so the next request reloads from the providers. Returns
+ * the freshness of the dropped rows, if any.
+ */
+export function invalidateReferenceCache(): ReferenceFreshness | null {
+  const dropped = cache?.freshness ?? null;
+  cache = null;
+  pending = null;
+  generation++;
+  return dropped;
+}
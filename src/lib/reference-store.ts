@@ -0,0 +1,284 @@
+/**
+ * SimuLab Reference Dataset Store
+ *
+ * File-backed, versioned reference datasets: named collections of
+ * `SheetScenario` rows that stand in for the Google Sheet as ground truth.
+ * Each dataset is one JSON file under SIMULAB_DATA_DIR/datasets (default:
+ * ./.simulab-data/datasets). Every import, edit or restore appends a new
+ * version with its full row set, so earlier versions stay available for
+ * export and rollback; `current_version` is what experiments read.
+ *
+ * Server-only: imported by the /api/simulab/datasets routes and the sheet
+ * data module.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ReferenceFileFormat, ReferenceRowIssue, SheetScenario } from './reference-import';
+
+export type ReferenceVersionSource = 'import' | 'edit' | 'restore';
+
+export interface ReferenceDatasetVersion {
+  version: number;
+  created_at: string;
+  source: ReferenceVersionSource;
+  /** Uploaded file name and format, for imports */
+  filename?: string;
+  format?: ReferenceFileFormat;
+  /** Version copied by a restore */
+  restored_from?: number;
+  note?: string;
+  rows: SheetScenario[];
+  /** Rows rejected by validation (kept for the import report) */
+  issues: ReferenceRowIssue[];
+}
+
+export interface ReferenceDataset {
+  id: string;
+  name: string;
+  description?: string;
+  created_at: string;
+  updated_at: string;
+  /** 0 until the first import */
+  current_version: number;
+  versions: ReferenceDatasetVersion[];
+}
+
+export type ReferenceVersionSummary = Omit<ReferenceDatasetVersion, 'rows' | 'issues'> & {
+  num_rows: number;
+  num_issues: number;
+};
+
+export interface ReferenceDatasetSummary {
+  id: string;
+  name: string;
+  description?: string;
+  created_at: string;
+  updated_at: string;
+  current_version: number;
+  num_versions: number;
+  num_rows: number;
+  protein_targets: string[];
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,80}$/;
+
+// Per-dataset write queue so concurrent imports don't clobber each other
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function getDatasetsDir(): string {
+  const base = process.env.SIMULAB_DATA_DIR || path.join(process.cwd(), '.simulab-data');
+  return path.join(base, 'datasets');
+}
+
+function getDatasetPath(id: string): string {
+  return path.join(getDatasetsDir(), `${id}.json`);
+}
+
+/**
+ * Dataset ids double as file names, so only allow a safe character set
+ */
+export function isValidDatasetId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+export function generateDatasetId(): string {
+  return `ds-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function enqueueWrite<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = writeQueues.get(id) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  writeQueues.set(id, next);
+  next.finally(() => {
+    if (writeQueues.get(id) === next) writeQueues.delete(id);
+  }).catch(() => undefined);
+  return next;
+}
+
+async function writeDataset(dataset: ReferenceDataset): Promise<void> {
+  const dir = getDatasetsDir();
+  await fs.mkdir(dir, { recursive: true });
+  const target = getDatasetPath(dataset.id);
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(dataset, null, 2), 'utf8');
+  await fs.rename(tmp, target);
+}
+
+async function readDataset(id: string): Promise<ReferenceDataset | null> {
+  try {
+    const raw = await fs.readFile(getDatasetPath(id), 'utf8');
+    return JSON.parse(raw) as ReferenceDataset;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+function currentRows(dataset: ReferenceDataset): SheetScenario[] {
+  return dataset.versions.find(v => v.version === dataset.current_version)?.rows || [];
+}
+
+function summarize(dataset: ReferenceDataset): ReferenceDatasetSummary {
+  const rows = currentRows(dataset);
+  return {
+    id: dataset.id,
+    name: dataset.name,
+    description: dataset.description,
+    created_at: dataset.created_at,
+    updated_at: dataset.updated_at,
+    current_version: dataset.current_version,
+    num_versions: dataset.versions.length,
+    num_rows: rows.length,
+    protein_targets: Array.from(new Set(rows.map(r => r.protein_target))).sort(),
+  };
+}
+
+/**
+ * Version metadata without the row payload
+ */
+export function summarizeVersion(version: ReferenceDatasetVersion): ReferenceVersionSummary {
+  const { rows, issues, ...meta } = version;
+  return { ...meta, num_rows: rows.length, num_issues: issues.length };
+}
+
+/**
+ * List datasets, most recently updated first
+ */
+export async function listDatasets(): Promise<ReferenceDatasetSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getDatasetsDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const summaries: ReferenceDatasetSummary[] = [];
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+    const id = file.slice(0, -'.json'.length);
+    if (!isValidDatasetId(id)) continue;
+    try {
+      const dataset = await readDataset(id);
+      if (dataset) summaries.push(summarize(dataset));
+    } catch (error) {
+      console.warn(`[SimuLab/Datasets] Skipping unreadable dataset ${id}:`, error);
+    }
+  }
+  return summaries.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
+
+export async function getDataset(id: string): Promise<ReferenceDataset | null> {
+  if (!isValidDatasetId(id)) return null;
+  return readDataset(id);
+}
+
+/**
+ * Rows of one version (the current one by default). Null if the dataset or
+ * version does not exist.
+ */
+export async function getDatasetRows(id: string, version?: number): Promise<SheetScenario[] | null> {
+  const dataset = await getDataset(id);
+  if (!dataset) return null;
+  const wanted = version ?? dataset.current_version;
+  const found = dataset.versions.find(v => v.version === wanted);
+  if (found) return found.rows;
+  // A dataset with no imports yet is empty rather than missing
+  return version === undefined ? [] : null;
+}
+
+/**
+ * Create an empty dataset; rows arrive through addDatasetVersion
+ */
+export async function createDataset(input: { name?: string; description?: string }): Promise<ReferenceDataset> {
+  const now = new Date().toISOString();
+  const id = generateDatasetId();
+  const dataset: ReferenceDataset = {
+    id,
+    name: input.name?.trim() || `Reference set · ${now.slice(0, 16).replace('T', ' ')}`,
+    description: input.description?.trim() || undefined,
+    created_at: now,
+    updated_at: now,
+    current_version: 0,
+    versions: [],
+  };
+  await enqueueWrite(id, () => writeDataset(dataset));
+  return dataset;
+}
+
+/**
+ * Rename or re-describe a dataset. Returns null if missing.
+ */
+export async function updateDatasetInfo(
+  id: string,
+  patch: { name?: string; description?: string }
+): Promise<ReferenceDataset | null> {
+  if (!isValidDatasetId(id)) return null;
+  return enqueueWrite(id, async () => {
+    const existing = await readDataset(id);
+    if (!existing) return null;
+    const updated: ReferenceDataset = {
+      ...existing,
+      name: patch.name?.trim() || existing.name,
+      description: patch.description !== undefined ? patch.description.trim() || undefined : existing.description,
+      updated_at: new Date().toISOString(),
+    };
+    await writeDataset(updated);
+    return updated;
+  });
+}
+
+/**
+ * Append a version and make it current. Rows must already be validated.
+ */
+export async function addDatasetVersion(
+  id: string,
+  input: Omit<ReferenceDatasetVersion, 'version' | 'created_at' | 'issues'> & { issues?: ReferenceRowIssue[] }
+): Promise<{ dataset: ReferenceDataset; version: ReferenceDatasetVersion } | null> {
+  if (!isValidDatasetId(id)) return null;
+  return enqueueWrite(id, async () => {
+    const existing = await readDataset(id);
+    if (!existing) return null;
+    const now = new Date().toISOString();
+    const version: ReferenceDatasetVersion = {
+      ...input,
+      version: existing.versions.reduce((max, v) => Math.max(max, v.version), 0) + 1,
+      created_at: now,
+      issues: input.issues || [],
+    };
+    const updated: ReferenceDataset = {
+      ...existing,
+      current_version: version.version,
+      versions: [...existing.versions, version],
+      updated_at: now,
+    };
+    await writeDataset(updated);
+    return { dataset: updated, version };
+  });
+}
+
+/**
+ * Copy an earlier version forward as the new current version
+ */
+export async function restoreDatasetVersion(
+  id: string,
+  version: number
+): Promise<{ dataset: ReferenceDataset; version: ReferenceDatasetVersion } | null> {
+  const rows = await getDatasetRows(id, version);
+  if (!rows) return null;
+  return addDatasetVersion(id, { source: 'restore', restored_from: version, rows, note: `Restored version ${version}` });
+}
+
+export async function deleteDataset(id: string): Promise<boolean> {
+  if (!isValidDatasetId(id)) return false;
+  return enqueueWrite(id, async () => {
+    try {
+      await fs.unlink(getDatasetPath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  });
+}
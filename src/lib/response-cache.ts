@@ -0,0 +1,221 @@
+/**
+ * SimuLab Response Cache
+ *
+ * Content-addressed cache for LLM completions and idempotent agent calls: one
+ * JSON file per entry under SIMULAB_DATA_DIR/cache (default:
+ * ./.simulab-data/cache), named by the SHA-256 of the call's model, prompt
+ * version and normalized inputs (object keys sorted, whitespace runs in
+ * strings collapsed, undefined fields dropped). Re-running a step whose
+ * prompts did not change, e.g. regenerating after a criteria change that does
+ * not reach the Simulator's prompt, is then answered from disk with the same
+ * values as before.
+ *
+ * Entries expire after SIMULAB_CACHE_TTL_SECONDS (default 7 days);
+ * SIMULAB_CACHE=off disables the cache. Per call, mode 'bypass' neither reads
+ * nor writes and 'refresh' skips the read but stores the new value. Routes
+ * take the mode from the request body's `cache` field and report the outcome
+ * ('hit' | 'miss' | 'bypass' | 'refresh' | 'off') in their response metadata.
+ *
+ * Server-only.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type CacheMode = 'default' | 'bypass' | 'refresh';
+
+export type CacheStatus = 'hit' | 'miss' | 'bypass' | 'refresh' | 'off';
+
+export interface CacheKeyParts {
+  /** 'llm' or 'agent' */
+  kind: string;
+  /** LLM model, or agent name and endpoint */
+  model: string;
+  prompt_version?: string | null;
+  inputs: unknown;
+}
+
+interface CacheEntry<T> {
+  key: string;
+  kind: string;
+  model: string;
+  prompt_version: string | null;
+  created_at: string;
+  expires_at: string;
+  value: T;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  expired: number;
+}
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+function getCacheDir(): string {
+  const base = process.env.SIMULAB_DATA_DIR || path.join(process.cwd(), '.simulab-data');
+  return path.join(base, 'cache');
+}
+
+function getEntryPath(key: string): string {
+  return path.join(getCacheDir(), key.slice(0, 2), `${key}.json`);
+}
+
+export function getCacheTtlMs(): number {
+  const value = Number(process.env.SIMULAB_CACHE_TTL_SECONDS);
+  return (process.env.SIMULAB_CACHE_TTL_SECONDS !== undefined && Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+export function isCacheEnabled(): boolean {
+  return process.env.SIMULAB_CACHE !== 'off';
+}
+
+/**
+ * Read a request's `cache` field; anything unrecognized is 'default'
+ */
+export function resolveCacheMode(value: unknown): CacheMode {
+  return value === 'bypass' || value === 'refresh' ? value : 'default';
+}
+
+/**
+ * Canonical form of a key's inputs: equal for requests that only differ in
+ * key order, whitespace or undefined fields
+ */
+export function normalizeInputs(value: unknown): unknown {
+  if (typeof value === 'string') return value.replace(/\s+/g, ' ').trim();
+  if (Array.isArray(value)) return value.map(normalizeInputs);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter(k => (value as Record<string, unknown>)[k] !== undefined)
+        .sort()
+        .map(k => [k, normalizeInputs((value as Record<string, unknown>)[k])])
+    );
+  }
+  return value;
+}
+
+export function cacheKey(parts: CacheKeyParts): string {
+  return createHash('sha256')
+    .update(JSON.stringify(normalizeInputs({ ...parts, prompt_version: parts.prompt_version ?? null })))
+    .digest('hex');
+}
+
+async function readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+  try {
+    const raw = await fs.readFile(getEntryPath(key), 'utf8');
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    return Date.parse(entry.expires_at) > Date.now() ? entry : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    console.warn(`[Cache] Unreadable entry ${key}, ignoring:`, error);
+    return null;
+  }
+}
+
+async function writeEntry<T>(key: string, parts: CacheKeyParts, value: T): Promise<void> {
+  const now = Date.now();
+  const entry: CacheEntry<T> = {
+    key,
+    kind: parts.kind,
+    model: parts.model,
+    prompt_version: parts.prompt_version ?? null,
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + getCacheTtlMs()).toISOString(),
+    value,
+  };
+  const target = getEntryPath(key);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.${Math.random().toString(36).slice(2, 8)}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(entry), 'utf8');
+  await fs.rename(tmp, target);
+}
+
+/**
+ * Answer from the cache, or run `compute` and store its value when it says
+ * so (failed or unusable results are not cached). Cache read and write
+ * errors are logged and treated as misses.
+ */
+export async function withCache<T>(
+  parts: CacheKeyParts,
+  mode: CacheMode,
+  compute: () => Promise<{ value: T; store: boolean }>
+): Promise<{ value: T; cache: CacheStatus }> {
+  if (!isCacheEnabled() || mode === 'bypass') {
+    const { value } = await compute();
+    return { value, cache: isCacheEnabled() ? 'bypass' : 'off' };
+  }
+
+  const key = cacheKey(parts);
+  if (mode !== 'refresh') {
+    const entry = await readEntry<T>(key);
+    if (entry) return { value: entry.value, cache: 'hit' };
+  }
+
+  const { value, store } = await compute();
+  if (store) {
+    await writeEntry(key, parts, value).catch(error => {
+      console.warn(`[Cache] Failed to store ${parts.kind} ${parts.model} entry:`, error);
+    });
+  }
+  return { value, cache: mode === 'refresh' ? 'refresh' : 'miss' };
+}
+
+async function listEntryFiles(): Promise<string[]> {
+  const dir = getCacheDir();
+  let shards: string[];
+  try {
+    shards = await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  const files = await Promise.all(shards.map(async shard => {
+    const names = await fs.readdir(path.join(dir, shard)).catch(() => [] as string[]);
+    return names
+      .filter(name => KEY_PATTERN.test(name.replace(/\.json$/, '')))
+      .map(name => path.join(dir, shard, name));
+  }));
+  return files.flat();
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+  const stats: CacheStats = { entries: 0, bytes: 0, expired: 0 };
+  for (const file of await listEntryFiles()) {
+    try {
+      const raw = await fs.readFile(file, 'utf8');
+      stats.entries += 1;
+      stats.bytes += Buffer.byteLength(raw);
+      if (Date.parse((JSON.parse(raw) as CacheEntry<unknown>).expires_at) <= Date.now()) stats.expired += 1;
+    } catch {
+      // Removed or half-written meanwhile
+    }
+  }
+  return stats;
+}
+
+/**
+ * Delete every entry (or only expired ones). Returns the number removed.
+ */
+export async function clearCache(options: { expiredOnly?: boolean } = {}): Promise<number> {
+  let removed = 0;
+  for (const file of await listEntryFiles()) {
+    if (options.expiredOnly) {
+      const raw = await fs.readFile(file, 'utf8').catch(() => null);
+      if (raw === null) continue;
+      try {
+        if (Date.parse((JSON.parse(raw) as CacheEntry<unknown>).expires_at) > Date.now()) continue;
+      } catch {
+        // Corrupt entries are removed too
+      }
+    }
+    await fs.unlink(file).then(() => { removed += 1; }, () => undefined);
+  }
+  return removed;
+}
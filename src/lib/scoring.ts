@@ -0,0 +1,462 @@
+/**
+ * SimuLab Scoring Engine
+ *
+ * Shared multi-objective scoring for Judge verdicts, the Simulator's
+ * heuristic winner check and the report's Calculation Breakdown. Every
+ * caller applies the same hard-fail vetoes and the same ranking strategy,
+ * so the winner picked on the server is the winner explained in the UI.
+ *
+ * Strategies:
+ * - weighted_sum:  min-max normalised objectives combined with weights
+ * - lexicographic: objectives compared in priority order (potency first)
+ * - desirability:  weighted geometric mean of per-objective desirabilities
+ * - pareto:        non-dominated sorting, ties broken by weighted sum
+ *
+ * Desirabilities come from the ideal bands in the decision criteria: a value
+ * inside its band scores 1 and decays linearly to 0 at the hard-fail limit,
+ * so editing the bands re-ranks the passing pool without changing vetoes.
+ * Binders stronger than the ideal ΔG band score 1 as well, unless
+ * `docking.penalizeOverPotency` opts into a mild decay.
+ *
+ * Drug-likeness filters (./filters) run on the candidate's SMILES: 'hard'
+ * failures veto, 'soft' failures scale the safety desirability down.
+ *
+ * A metric no source reported is left undefined on the candidate: it never
+ * vetoes, and an unreported ΔG, SA score or cost scores 0 on its objective.
+ *
+ * Safe to import from both route handlers and client components.
+ */
+
+import { evaluateFilters, resolveFilterModes, FilterId, FilterMode } from './filters';
+
+export type ScoringStrategy = 'weighted_sum' | 'lexicographic' | 'desirability' | 'pareto';
+
+export type ObjectiveKey = 'potency' | 'safety' | 'synthesis' | 'cost';
+
+export const SCORING_STRATEGIES: Array<{ value: ScoringStrategy; label: string }> = [
+  { value: 'desirability', label: 'Desirability' },
+  { value: 'lexicographic', label: 'Lexicographic' },
+  { value: 'weighted_sum', label: 'Weighted sum' },
+  { value: 'pareto', label: 'Pareto front' },
+];
+
+export const OBJECTIVES: ObjectiveKey[] = ['potency', 'safety', 'synthesis', 'cost'];
+
+export const DEFAULT_STRATEGY: ScoringStrategy = 'desirability';
+
+export const DEFAULT_WEIGHTS: Record<ObjectiveKey, number> = {
+  potency: 0.5,
+  safety: 0.2,
+  synthesis: 0.2,
+  cost: 0.1,
+};
+
+// Cost has no band in the decision criteria; fixed anchors instead
+const COST_TARGET_USD = 500;
+const COST_CEILING_USD = 5000;
+// Floor of the opt-in penalty for binders stronger than the ideal band
+const OVER_POTENCY_FLOOR = 0.5;
+// Safety desirability multiplier per failed soft filter
+const SOFT_FILTER_PENALTY = 0.85;
+
+/**
+ * Decision criteria as sent by the UI. Mirrors `DecisionCriteria` in the
+ * SimuLab page with every field optional, plus the ranking configuration.
+ */
+export interface ScoringCriteria {
+  docking?: {
+    idealMin?: number;
+    idealMax?: number;
+    hardFailThreshold?: number;
+    /** Decay potency desirability below the ideal band (off by default) */
+    penalizeOverPotency?: boolean;
+  };
+  admet?: {
+    idealMin?: number;
+    idealMax?: number;
+    hardFailHERG?: boolean;
+    filters?: Partial<Record<FilterId, FilterMode>>;
+  };
+  synthesis?: { idealSaMax?: number; idealStepsMax?: number; hardFailSa?: number; hardFailSteps?: number };
+  scoring?: {
+    strategy?: ScoringStrategy;
+    weights?: Partial<Record<ObjectiveKey, number>>;
+    priority?: ObjectiveKey[];
+  };
+}
+
+export interface ResolvedCriteria {
+  potencyThreshold: number;
+  hergVeto: boolean;
+  filters: Record<FilterId, FilterMode>;
+  saThreshold: number;
+  stepsThreshold: number;
+  idealPotency: { min: number; max: number };
+  overPotencyPenalty: boolean;
+  idealToxicity: { min: number; max: number };
+  idealSaMax: number;
+  idealStepsMax: number;
+  strategy: ScoringStrategy;
+  weights: Record<ObjectiveKey, number>;
+  priority: ObjectiveKey[];
+}
+
+/** Minimal metric shape the engine needs from a candidate */
+export interface ScoringCandidate {
+  scenario_id: string;
+  /** Enables the drug-likeness filters when present */
+  smiles?: string;
+  binding_affinity?: number;
+  herg_flag?: boolean;
+  sa_score?: number;
+  cost_usd?: number;
+  toxicity_prob?: number;
+  num_steps?: number;
+}
+
+export interface Veto {
+  objective: ObjectiveKey;
+  label: string;
+  message: string;
+}
+
+export interface ScoredCandidate<T extends ScoringCandidate = ScoringCandidate> {
+  candidate: T;
+  passed: boolean;
+  vetoes: Veto[];
+  /** Per-objective desirability in [0, 1] (1 = ideal) */
+  objectives: Record<ObjectiveKey, number>;
+  score: number;
+  /** 1-based rank among passing candidates, null when vetoed */
+  rank: number | null;
+  /** Pareto front index (1 = non-dominated), only set by the pareto strategy */
+  front?: number;
+  explanation: string;
+}
+
+export interface ScoringResult<T extends ScoringCandidate = ScoringCandidate> {
+  strategy: ScoringStrategy;
+  winner: ScoredCandidate<T> | null;
+  /** Passing candidates in rank order (winner first) */
+  passing: ScoredCandidate<T>[];
+  rejected: ScoredCandidate<T>[];
+}
+
+/**
+ * Fill in defaults for criteria coming from a request body
+ */
+export function resolveCriteria(criteria?: ScoringCriteria | Record<string, unknown>): ResolvedCriteria {
+  const c = (criteria || {}) as ScoringCriteria;
+  const strategy = SCORING_STRATEGIES.some(s => s.value === c.scoring?.strategy)
+    ? (c.scoring?.strategy as ScoringStrategy)
+    : DEFAULT_STRATEGY;
+  const priority = (c.scoring?.priority || []).filter(k => OBJECTIVES.includes(k));
+
+  const idealMin = c.docking?.idealMin ?? -12;
+  const idealMax = c.docking?.idealMax ?? -8;
+  const toxMin = c.admet?.idealMin ?? 0;
+  const toxMax = c.admet?.idealMax ?? 0.3;
+
+  return {
+    potencyThreshold: c.docking?.hardFailThreshold ?? -7,
+    hergVeto: c.admet?.hardFailHERG !== false,
+    filters: resolveFilterModes(c.admet?.filters),
+    saThreshold: c.synthesis?.hardFailSa ?? 6,
+    stepsThreshold: c.synthesis?.hardFailSteps ?? 7,
+    idealPotency: { min: Math.min(idealMin, idealMax), max: Math.max(idealMin, idealMax) },
+    overPotencyPenalty: c.docking?.penalizeOverPotency === true,
+    idealToxicity: { min: Math.min(toxMin, toxMax), max: Math.max(toxMin, toxMax) },
+    idealSaMax: c.synthesis?.idealSaMax ?? 4,
+    idealStepsMax: c.synthesis?.idealStepsMax ?? 5,
+    strategy,
+    weights: { ...DEFAULT_WEIGHTS, ...(c.scoring?.weights || {}) },
+    priority: [...priority, ...OBJECTIVES.filter(k => !priority.includes(k))],
+  };
+}
+
+/**
+ * Estimated synthesis cost when the candidate carries none
+ */
+export function estimateCostFromSa(saScore: number): number {
+  return Math.round(700 + saScore * 300);
+}
+
+/**
+ * Hard-fail checks, in the order they are reported
+ */
+export function evaluateVetoes(
+  candidate: ScoringCandidate,
+  criteria: ResolvedCriteria
+): Veto[] {
+  const vetoes: Veto[] = [];
+
+  if (candidate.binding_affinity != null && candidate.binding_affinity > criteria.potencyThreshold) {
+    vetoes.push({
+      objective: 'potency',
+      label: 'Potency Fail',
+      message: `Potency Fail (ΔG ${candidate.binding_affinity} > ${criteria.potencyThreshold} kcal/mol)`,
+    });
+  }
+  if (criteria.hergVeto && candidate.herg_flag) {
+    vetoes.push({
+      objective: 'safety',
+      label: 'Safety Veto',
+      message: 'Safety Veto (hERG cardiac toxicity flag)',
+    });
+  }
+  for (const violation of evaluateFilters(candidate.smiles, criteria.filters)) {
+    if (violation.mode !== 'hard') continue;
+    vetoes.push({
+      objective: 'safety',
+      label: 'Filter Veto',
+      message: `Filter Veto (${violation.message})`,
+    });
+  }
+  if (candidate.sa_score != null && candidate.sa_score > criteria.saThreshold) {
+    vetoes.push({
+      objective: 'synthesis',
+      label: 'Cost Veto',
+      message: `Cost Veto (SA Score ${candidate.sa_score} > ${criteria.saThreshold})`,
+    });
+  }
+  // Step count is only checked when a source actually reported it
+  if (candidate.num_steps != null && candidate.num_steps > criteria.stepsThreshold) {
+    vetoes.push({
+      objective: 'synthesis',
+      label: 'Route Veto',
+      message: `Route Veto (${candidate.num_steps} synthesis steps > ${criteria.stepsThreshold})`,
+    });
+  }
+
+  return vetoes;
+}
+
+/**
+ * Join veto messages into a single rejection reason
+ */
+export function formatRejectionReason(vetoes: Veto[]): string {
+  return vetoes.map(v => v.message).join('; ');
+}
+
+function ramp(value: number, zeroAt: number, oneAt: number): number {
+  if (zeroAt === oneAt) return value === oneAt ? 1 : 0;
+  const t = (value - zeroAt) / (oneAt - zeroAt);
+  return Math.min(1, Math.max(0, t));
+}
+
+/**
+ * Desirability for a "smaller is better" value with an ideal ceiling
+ */
+function upperBandDesirability(value: number, idealMax: number, failAt: number): number {
+  if (value <= idealMax) return 1;
+  return failAt > idealMax ? ramp(value, failAt, idealMax) : 0;
+}
+
+/**
+ * Potency desirability: 1 inside the ideal ΔG band and for stronger binders,
+ * linear to 0 at the hard-fail threshold; stronger binders decay mildly only
+ * when the criteria opt into the over-potency penalty
+ */
+function potencyDesirability(ba: number, criteria: ResolvedCriteria): number {
+  const { min, max } = criteria.idealPotency;
+  if (ba > max) {
+    return criteria.potencyThreshold > max ? ramp(ba, criteria.potencyThreshold, max) : 0;
+  }
+  if (ba >= min || !criteria.overPotencyPenalty) return 1;
+  const width = Math.max(max - min, 1);
+  return Math.max(OVER_POTENCY_FLOOR, 1 - (1 - OVER_POTENCY_FLOOR) * ((min - ba) / width));
+}
+
+/**
+ * Safety desirability: 1 while toxicity probability is inside the ideal band,
+ * linear to 0 at probability 1, scaled down per failed soft filter. A hERG
+ * flag always scores 0 (even when the veto is disabled it should never help
+ * a candidate rank higher).
+ */
+function safetyDesirability(candidate: ScoringCandidate, criteria: ResolvedCriteria): number {
+  if (candidate.herg_flag) return 0;
+  const softFailures = evaluateFilters(candidate.smiles, criteria.filters).filter(v => v.mode === 'soft').length;
+  const penalty = Math.pow(SOFT_FILTER_PENALTY, softFailures);
+  if (candidate.toxicity_prob == null) return penalty;
+  const prob = Math.min(1, Math.max(0, candidate.toxicity_prob));
+  return upperBandDesirability(prob, criteria.idealToxicity.max, 1) * penalty;
+}
+
+/**
+ * Per-objective desirability in [0, 1]
+ */
+export function computeObjectives(
+  candidate: ScoringCandidate,
+  criteria: ResolvedCriteria
+): Record<ObjectiveKey, number> {
+  const { binding_affinity: ba, sa_score: sa } = candidate;
+  const cost = candidate.cost_usd ?? (sa == null ? null : estimateCostFromSa(sa));
+  const saDesirability = sa == null ? 0 : upperBandDesirability(sa, criteria.idealSaMax, criteria.saThreshold);
+  const synthesis = candidate.num_steps == null
+    ? saDesirability
+    : Math.sqrt(saDesirability * upperBandDesirability(candidate.num_steps, criteria.idealStepsMax, criteria.stepsThreshold));
+
+  return {
+    potency: ba == null ? 0 : potencyDesirability(ba, criteria),
+    safety: safetyDesirability(candidate, criteria),
+    synthesis,
+    cost: cost == null ? 0 : ramp(cost, COST_CEILING_USD, COST_TARGET_USD),
+  };
+}
+
+/**
+ * Round desirabilities for JSON payloads
+ */
+export function roundObjectives(objectives: Record<ObjectiveKey, number>): Record<ObjectiveKey, number> {
+  return {
+    potency: Number(objectives.potency.toFixed(3)),
+    safety: Number(objectives.safety.toFixed(3)),
+    synthesis: Number(objectives.synthesis.toFixed(3)),
+    cost: Number(objectives.cost.toFixed(3)),
+  };
+}
+
+function totalWeight(weights: Record<ObjectiveKey, number>): number {
+  return OBJECTIVES.reduce((sum, k) => sum + Math.max(0, weights[k]), 0) || 1;
+}
+
+function weightedSum(values: Record<ObjectiveKey, number>, weights: Record<ObjectiveKey, number>): number {
+  const total = totalWeight(weights);
+  return OBJECTIVES.reduce((sum, k) => sum + values[k] * Math.max(0, weights[k]), 0) / total;
+}
+
+/**
+ * Min-max normalise each objective across the pool (1 = best in pool)
+ */
+function normaliseAcrossPool(pool: Array<Record<ObjectiveKey, number>>): Array<Record<ObjectiveKey, number>> {
+  const out = pool.map(() => ({ potency: 1, safety: 1, synthesis: 1, cost: 1 }));
+  for (const k of OBJECTIVES) {
+    const values = pool.map(p => p[k]);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    pool.forEach((p, i) => {
+      out[i][k] = max === min ? 1 : (p[k] - min) / (max - min);
+    });
+  }
+  return out;
+}
+
+function dominates(a: Record<ObjectiveKey, number>, b: Record<ObjectiveKey, number>): boolean {
+  let strictlyBetter = false;
+  for (const k of OBJECTIVES) {
+    if (a[k] < b[k]) return false;
+    if (a[k] > b[k]) strictlyBetter = true;
+  }
+  return strictlyBetter;
+}
+
+/**
+ * Non-dominated sorting; returns the 1-based front of each entry
+ */
+function paretoFronts(pool: Array<Record<ObjectiveKey, number>>): number[] {
+  const fronts = new Array<number>(pool.length).fill(0);
+  let remaining = pool.map((_, i) => i);
+  let front = 1;
+  while (remaining.length > 0) {
+    const current = remaining.filter(i => !remaining.some(j => j !== i && dominates(pool[j], pool[i])));
+    current.forEach(i => { fronts[i] = front; });
+    remaining = remaining.filter(i => !current.includes(i));
+    front++;
+  }
+  return fronts;
+}
+
+function describeTerms(values: Record<ObjectiveKey, number>, weights: Record<ObjectiveKey, number>): string {
+  return OBJECTIVES
+    .filter(k => weights[k] > 0)
+    .map(k => `${k} ${values[k].toFixed(2)}×${weights[k]}`)
+    .join(', ');
+}
+
+/**
+ * Apply vetoes, then rank the passing candidates with the configured strategy
+ */
+export function scoreCandidates<T extends ScoringCandidate>(
+  candidates: T[],
+  criteria?: ScoringCriteria | Record<string, unknown>,
+  strategyOverride?: ScoringStrategy
+): ScoringResult<T> {
+  const resolved = resolveCriteria(criteria);
+  const strategy = strategyOverride || resolved.strategy;
+  const { weights, priority } = resolved;
+
+  const scored: ScoredCandidate<T>[] = candidates.map(candidate => {
+    const vetoes = evaluateVetoes(candidate, resolved);
+    return {
+      candidate,
+      passed: vetoes.length === 0,
+      vetoes,
+      objectives: computeObjectives(candidate, resolved),
+      score: 0,
+      rank: null,
+      explanation: vetoes.length > 0 ? formatRejectionReason(vetoes) : '',
+    };
+  });
+
+  const passing = scored.filter(s => s.passed);
+  const rejected = scored.filter(s => !s.passed);
+
+  if (strategy === 'weighted_sum' || strategy === 'pareto') {
+    const normalised = normaliseAcrossPool(passing.map(s => s.objectives));
+    const fronts = strategy === 'pareto' ? paretoFronts(passing.map(s => s.objectives)) : [];
+    passing.forEach((s, i) => {
+      s.score = weightedSum(normalised[i], weights);
+      if (strategy === 'pareto') {
+        s.front = fronts[i];
+        s.explanation = `Pareto front ${fronts[i]}; tie-break weighted sum ${s.score.toFixed(2)} (${describeTerms(normalised[i], weights)})`;
+      } else {
+        s.explanation = `Weighted sum ${s.score.toFixed(2)} (${describeTerms(normalised[i], weights)}, normalised across passing pool)`;
+      }
+    });
+  } else if (strategy === 'desirability') {
+    const total = totalWeight(weights);
+    passing.forEach(s => {
+      s.score = OBJECTIVES.reduce(
+        (product, k) => product * Math.pow(Math.max(s.objectives[k], 1e-6), Math.max(0, weights[k]) / total),
+        1
+      );
+      s.explanation = `Overall desirability ${s.score.toFixed(2)} (${describeTerms(s.objectives, weights)}, weighted geometric mean)`;
+    });
+  } else {
+    passing.forEach(s => {
+      s.score = s.objectives[priority[0]];
+      s.explanation = `Ranked by ${priority.join(' → ')}; ${priority[0]} desirability ${s.score.toFixed(2)}`;
+    });
+  }
+
+  passing.forEach(s => {
+    const soft = evaluateFilters(s.candidate.smiles, resolved.filters).filter(v => v.mode === 'soft');
+    if (soft.length > 0) s.explanation += `; soft filter alerts: ${soft.map(v => v.message).join('; ')}`;
+  });
+
+  passing.sort((a, b) => {
+    let res = 0;
+    if (strategy === 'lexicographic') {
+      for (const k of priority) {
+        res = b.objectives[k] - a.objectives[k];
+        if (Math.abs(res) > 1e-9) break;
+        res = 0;
+      }
+    } else {
+      if (strategy === 'pareto') res = (a.front ?? 0) - (b.front ?? 0);
+      if (res === 0) res = b.score - a.score;
+    }
+    // Deterministic tie-breaks: stronger binding, then scenario id
+    if (res === 0) res = (a.candidate.binding_affinity ?? 0) - (b.candidate.binding_affinity ?? 0);
+    if (res === 0) res = a.candidate.scenario_id.localeCompare(b.candidate.scenario_id);
+    return res;
+  });
+  passing.forEach((s, i) => { s.rank = i + 1; });
+
+  return {
+    strategy,
+    winner: passing[0] || null,
+    passing,
+    rejected,
+  };
+}
@@ -0,0 +1,918 @@
+/**
+ * SimuLab SMILES Parser & Validator
+ *
+ * Dependency-free tokenizer and parser for the OpenSMILES subset that reaches
+ * SimuLab from the Orchestrator, the LLM fallback and the scenario editor.
+ * Checks branch and ring-closure balancing, valences and aromaticity (every
+ * aromatic system must be kekulizable), and writes a canonical SMILES string.
+ *
+ * Error positions are 0-based character offsets into the input string.
+ * The canonical form keeps tetrahedral chirality (@, @@) and double-bond
+ * marks (/, \), rewritten relative to the canonical atom order; other chiral
+ * classes are copied as written. `writeCanonicalSmiles` keeps aromaticity as
+ * written, while `canonicalizeSmiles` perceives it first, so Kekulé and
+ * aromatic spellings of a ring give the same string.
+ *
+ * Shared by the /api/simulab routes and the client-side scenario editor.
+ */
+
+export type SmilesTokenType = 'atom' | 'bond' | 'branch_open' | 'branch_close' | 'ring' | 'dot';
+
+export interface SmilesToken {
+  type: SmilesTokenType;
+  text: string;
+  position: number;
+}
+
+export interface SmilesError {
+  position: number;
+  message: string;
+}
+
+export interface SmilesAtom {
+  index: number;
+  /** Element symbol, capitalized ('C', 'Cl', '*') */
+  symbol: string;
+  /** Token as written ('c', '[nH]', 'Cl') */
+  text: string;
+  aromatic: boolean;
+  bracket: boolean;
+  isotope: number | null;
+  charge: number;
+  /** Explicit (bracket atoms) or implicit hydrogen count */
+  hydrogens: number;
+  chiral: string | null;
+  /** Neighbours in the order written around a chiral atom (-1 = its H) */
+  chiralNeighbors?: number[];
+  atomClass: number | null;
+  position: number;
+}
+
+export type SmilesBondOrder = 1 | 2 | 3 | 4 | 'aromatic';
+
+export interface SmilesBond {
+  from: number;
+  to: number;
+  order: SmilesBondOrder;
+  /** Bond character as written, null when implicit */
+  symbol: string | null;
+  ring: boolean;
+  position: number;
+}
+
+export interface SmilesMolecule {
+  atoms: SmilesAtom[];
+  bonds: SmilesBond[];
+}
+
+export interface SmilesValidation {
+  valid: boolean;
+  smiles: string;
+  canonical: string | null;
+  errors: SmilesError[];
+  molecule: SmilesMolecule | null;
+}
+
+// Atomic number = index + 1
+const ELEMENTS = [
+  'H', 'He', 'Li', 'Be', 'B', 'C', 'N', 'O', 'F', 'Ne', 'Na', 'Mg', 'Al', 'Si', 'P', 'S', 'Cl', 'Ar',
+  'K', 'Ca', 'Sc', 'Ti', 'V', 'Cr', 'Mn', 'Fe', 'Co', 'Ni', 'Cu', 'Zn', 'Ga', 'Ge', 'As', 'Se', 'Br', 'Kr',
+  'Rb', 'Sr', 'Y', 'Zr', 'Nb', 'Mo', 'Tc', 'Ru', 'Rh', 'Pd', 'Ag', 'Cd', 'In', 'Sn', 'Sb', 'Te', 'I', 'Xe',
+  'Cs', 'Ba', 'La', 'Ce', 'Pr', 'Nd', 'Pm', 'Sm', 'Eu', 'Gd', 'Tb', 'Dy', 'Ho', 'Er', 'Tm', 'Yb', 'Lu',
+  'Hf', 'Ta', 'W', 'Re', 'Os', 'Ir', 'Pt', 'Au', 'Hg', 'Tl', 'Pb', 'Bi', 'Po', 'At', 'Rn',
+  'Fr', 'Ra', 'Ac', 'Th', 'Pa', 'U', 'Np', 'Pu', 'Am', 'Cm', 'Bk', 'Cf', 'Es', 'Fm', 'Md', 'No', 'Lr',
+  'Rf', 'Db', 'Sg', 'Bh', 'Hs', 'Mt', 'Ds', 'Rg', 'Cn', 'Nh', 'Fl', 'Mc', 'Lv', 'Ts', 'Og',
+];
+
+const ORGANIC_SUBSET = new Set(['B', 'C', 'N', 'O', 'P', 'S', 'F', 'Cl', 'Br', 'I']);
+const AROMATIC_ORGANIC = new Set(['b', 'c', 'n', 'o', 'p', 's']);
+const AROMATIC_BRACKET = new Set(['b', 'c', 'n', 'o', 'p', 's', 'se', 'as', 'te']);
+const BOND_CHARS = '-=#$:/\\';
+
+// Allowed neutral valences; elements not listed are not valence-checked
+const VALENCES: Record<string, number[]> = {
+  H: [1], B: [3], C: [4], N: [3, 5], O: [2], P: [3, 5], S: [2, 4, 6],
+  F: [1], Cl: [1, 3, 5, 7], Br: [1, 3, 5, 7], I: [1, 3, 5, 7],
+  Si: [4], Se: [2, 4, 6], As: [3, 5], Te: [2, 4, 6],
+};
+
+const BRACKET_PATTERN = /^\[(\d+)?(\*|[A-Z][a-z]?|se|as|te|[bcnops])(@@|@(?:TH[12]|AL[12]|SP[123]|TB\d{1,2}|OH\d{1,2})?)?(H\d*)?([+-]+\d*)?(?::(\d+))?\]$/;
+
+// Give up on pathological aromatic systems rather than reject them
+const KEKULIZE_STEP_LIMIT = 100000;
+
+function atomicNumber(symbol: string): number {
+  return symbol === '*' ? 0 : ELEMENTS.indexOf(symbol) + 1;
+}
+
+function bondValence(order: SmilesBondOrder): number {
+  return order === 'aromatic' ? 1 : order;
+}
+
+/**
+ * Valences an element may take at the given formal charge (isoelectronic shift)
+ */
+function allowedValences(symbol: string, charge: number): number[] | null {
+  const base = VALENCES[symbol];
+  if (!base) return null;
+  if (charge === 0) return base;
+  let shifted: number[];
+  if (symbol === 'C' || symbol === 'Si') {
+    shifted = base.map(v => v - Math.abs(charge));
+  } else if (symbol === 'B') {
+    shifted = base.map(v => v - charge);
+  } else {
+    shifted = base.map(v => v + charge);
+  }
+  return shifted.filter(v => v >= 0);
+}
+
+/**
+ * Split a SMILES string into atom, bond, branch, ring-closure and dot tokens
+ */
+export function tokenizeSmiles(smiles: string): { tokens: SmilesToken[]; errors: SmilesError[] } {
+  const tokens: SmilesToken[] = [];
+  const errors: SmilesError[] = [];
+  let i = 0;
+
+  while (i < smiles.length) {
+    const ch = smiles[i];
+
+    if (ch === '[') {
+      const end = smiles.indexOf(']', i);
+      if (end === -1) {
+        errors.push({ position: i, message: "Unterminated bracket atom '['" });
+        break;
+      }
+      tokens.push({ type: 'atom', text: smiles.slice(i, end + 1), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    const two = smiles.slice(i, i + 2);
+    if (two === 'Cl' || two === 'Br') {
+      tokens.push({ type: 'atom', text: two, position: i });
+      i += 2;
+      continue;
+    }
+
+    if (ORGANIC_SUBSET.has(ch) || AROMATIC_ORGANIC.has(ch) || ch === '*') {
+      tokens.push({ type: 'atom', text: ch, position: i });
+    } else if (BOND_CHARS.includes(ch)) {
+      tokens.push({ type: 'bond', text: ch, position: i });
+    } else if (ch === '(') {
+      tokens.push({ type: 'branch_open', text: ch, position: i });
+    } else if (ch === ')') {
+      tokens.push({ type: 'branch_close', text: ch, position: i });
+    } else if (ch === '.') {
+      tokens.push({ type: 'dot', text: ch, position: i });
+    } else if (ch >= '0' && ch <= '9') {
+      tokens.push({ type: 'ring', text: ch, position: i });
+    } else if (ch === '%') {
+      const digits = smiles.slice(i + 1, i + 3);
+      if (!/^\d\d$/.test(digits)) {
+        errors.push({ position: i, message: "Ring bond '%' must be followed by two digits" });
+        i += 1;
+        continue;
+      }
+      tokens.push({ type: 'ring', text: `%${digits}`, position: i });
+      i += 3;
+      continue;
+    } else if (ch === ']') {
+      errors.push({ position: i, message: "Unexpected ']' without matching '['" });
+    } else {
+      errors.push({ position: i, message: `Unexpected character '${ch}'` });
+    }
+    i += 1;
+  }
+
+  return { tokens, errors };
+}
+
+function parseCharge(text: string | undefined): number | null {
+  if (!text) return 0;
+  const signs = text.replace(/\d+$/, '');
+  const digits = text.slice(signs.length);
+  if (!/^(\++|-+)$/.test(signs)) return null;
+  if (digits && signs.length > 1) return null;
+  const magnitude = digits ? parseInt(digits, 10) : signs.length;
+  return signs[0] === '+' ? magnitude : -magnitude;
+}
+
+function parseAtomToken(token: SmilesToken, index: number, errors: SmilesError[]): SmilesAtom | null {
+  const base = { index, text: token.text, position: token.position };
+
+  if (!token.text.startsWith('[')) {
+    const aromatic = AROMATIC_ORGANIC.has(token.text);
+    return {
+      ...base,
+      symbol: aromatic ? token.text.toUpperCase() : token.text,
+      aromatic,
+      bracket: false,
+      isotope: null,
+      charge: 0,
+      hydrogens: 0,
+      chiral: null,
+      atomClass: null,
+    };
+  }
+
+  const match = BRACKET_PATTERN.exec(token.text);
+  if (!match) {
+    errors.push({ position: token.position, message: `Invalid bracket atom '${token.text}'` });
+    return null;
+  }
+  const [, isotope, rawSymbol, chiral, hydrogens, chargeText, atomClass] = match;
+  const aromatic = AROMATIC_BRACKET.has(rawSymbol);
+  const symbol = aromatic ? rawSymbol[0].toUpperCase() + rawSymbol.slice(1) : rawSymbol;
+
+  if (symbol !== '*' && !ELEMENTS.includes(symbol)) {
+    errors.push({ position: token.position + 1 + (isotope?.length ?? 0), message: `Unknown element '${rawSymbol}'` });
+    return null;
+  }
+  const charge = parseCharge(chargeText);
+  if (charge === null) {
+    errors.push({ position: token.position, message: `Invalid charge '${chargeText}' in '${token.text}'` });
+    return null;
+  }
+
+  return {
+    ...base,
+    symbol,
+    aromatic,
+    bracket: true,
+    isotope: isotope ? parseInt(isotope, 10) : null,
+    charge,
+    hydrogens: hydrogens ? (hydrogens.length > 1 ? parseInt(hydrogens.slice(1), 10) : 1) : 0,
+    chiral: chiral || null,
+    atomClass: atomClass ? parseInt(atomClass, 10) : null,
+  };
+}
+
+function orderFromSymbol(symbol: string): SmilesBondOrder {
+  switch (symbol) {
+    case '=': return 2;
+    case '#': return 3;
+    case '$': return 4;
+    case ':': return 'aromatic';
+    default: return 1;
+  }
+}
+
+/**
+ * Mark ring bonds (every bond that is not a bridge)
+ */
+function perceiveRings(atoms: SmilesAtom[], bonds: SmilesBond[]): void {
+  const adjacency = atoms.map(() => [] as { neighbor: number; bond: number }[]);
+  bonds.forEach((b, idx) => {
+    adjacency[b.from].push({ neighbor: b.to, bond: idx });
+    adjacency[b.to].push({ neighbor: b.from, bond: idx });
+  });
+
+  const discovery = new Array<number>(atoms.length).fill(-1);
+  const low = new Array<number>(atoms.length).fill(0);
+  let time = 0;
+
+  const visit = (atom: number, parentBond: number) => {
+    discovery[atom] = low[atom] = time++;
+    for (const { neighbor, bond } of adjacency[atom]) {
+      if (bond === parentBond) continue;
+      if (discovery[neighbor] === -1) {
+        visit(neighbor, bond);
+        low[atom] = Math.min(low[atom], low[neighbor]);
+        bonds[bond].ring = low[neighbor] <= discovery[atom];
+      } else {
+        low[atom] = Math.min(low[atom], discovery[neighbor]);
+        bonds[bond].ring = true;
+      }
+    }
+  };
+
+  atoms.forEach((_, idx) => {
+    if (discovery[idx] === -1) visit(idx, -1);
+  });
+}
+
+/**
+ * Resolve implicit hydrogens, check valences, and return which aromatic atoms
+ * still need a double bond in a Kekulé structure
+ */
+function assignValences(atoms: SmilesAtom[], bonds: SmilesBond[], errors: SmilesError[]): boolean[] {
+  const bondSums = atoms.map(() => 0);
+  for (const b of bonds) {
+    bondSums[b.from] += bondValence(b.order);
+    bondSums[b.to] += bondValence(b.order);
+  }
+
+  return atoms.map((atom, idx) => {
+    const allowed = allowedValences(atom.symbol, atom.charge);
+    if (!allowed) return false;
+
+    const used = bondSums[idx] + (atom.bracket ? atom.hydrogens : 0);
+    const target = allowed.find(v => v >= used);
+    if (target === undefined) {
+      errors.push({
+        position: atom.position,
+        message: `Valence error: '${atom.text}' has ${used} bonds (allowed: ${allowed.join(', ') || 'none'})`,
+      });
+      return false;
+    }
+
+    const free = target - used;
+    const needsPi = atom.aromatic && free >= 1;
+    if (!atom.bracket) {
+      atom.hydrogens = free - (needsPi ? 1 : 0);
+    }
+    return needsPi;
+  });
+}
+
+/**
+ * Check that every aromatic system admits a perfect matching of double bonds
+ */
+function checkKekulization(atoms: SmilesAtom[], bonds: SmilesBond[], needsPi: boolean[], errors: SmilesError[]): void {
+  const neighbors = atoms.map(() => [] as number[]);
+  for (const b of bonds) {
+    if (b.order !== 'aromatic' || !needsPi[b.from] || !needsPi[b.to]) continue;
+    neighbors[b.from].push(b.to);
+    neighbors[b.to].push(b.from);
+  }
+
+  const seen = new Array<boolean>(atoms.length).fill(false);
+  for (let start = 0; start < atoms.length; start++) {
+    if (!needsPi[start] || seen[start]) continue;
+
+    const component: number[] = [];
+    const stack = [start];
+    seen[start] = true;
+    while (stack.length) {
+      const atom = stack.pop()!;
+      component.push(atom);
+      for (const n of neighbors[atom]) {
+        if (!seen[n]) {
+          seen[n] = true;
+          stack.push(n);
+        }
+      }
+    }
+
+    const matched = new Set<number>();
+    let steps = 0;
+    const match = (): boolean => {
+      if (++steps > KEKULIZE_STEP_LIMIT) return true;
+      // Most-constrained atom first keeps the search shallow for fused rings
+      let pick = -1;
+      let options: number[] = [];
+      for (const atom of component) {
+        if (matched.has(atom)) continue;
+        const free = neighbors[atom].filter(n => !matched.has(n));
+        if (pick === -1 || free.length < options.length) {
+          pick = atom;
+          options = free;
+        }
+      }
+      if (pick === -1) return true;
+      for (const partner of options) {
+        matched.add(pick);
+        matched.add(partner);
+        if (match()) return true;
+        matched.delete(pick);
+        matched.delete(partner);
+      }
+      return false;
+    };
+
+    if (component.length % 2 === 1 || !match()) {
+      const first = Math.min(...component);
+      errors.push({
+        position: atoms[first].position,
+        message: `Cannot kekulize aromatic system starting at '${atoms[first].text}' (check aromatic atoms and [nH] hydrogens)`,
+      });
+    }
+  }
+}
+
+/**
+ * Parse a SMILES string into atoms and bonds. Returns a null molecule with
+ * positioned errors when the string is not a valid molecule.
+ */
+export function parseSmiles(smiles: string): { molecule: SmilesMolecule | null; errors: SmilesError[] } {
+  if (!smiles) {
+    return { molecule: null, errors: [{ position: 0, message: 'Empty SMILES string' }] };
+  }
+
+  const { tokens, errors } = tokenizeSmiles(smiles);
+  if (errors.length) return { molecule: null, errors };
+
+  const atoms: SmilesAtom[] = [];
+  const bonds: SmilesBond[] = [];
+  const branches: { atom: number; position: number }[] = [];
+  const openRings = new Map<string, { atom: number; bond: SmilesToken | null; position: number; slot: number }>();
+  // Neighbours of each atom in written order; ring bonds hold their slot from the opening digit
+  const written: number[][] = [];
+  const rooted: boolean[] = [];
+  let previousAtom: number | null = null;
+  let pendingBond: SmilesToken | null = null;
+  let previousToken: SmilesToken | null = null;
+
+  const bonded = (a: number, b: number) => bonds.some(x => (x.from === a && x.to === b) || (x.from === b && x.to === a));
+  const addBond = (from: number, to: number, bond: SmilesToken | null, position: number) => {
+    const order = bond ? orderFromSymbol(bond.text) : (atoms[from].aromatic && atoms[to].aromatic ? 'aromatic' : 1);
+    bonds.push({ from, to, order, symbol: bond?.text ?? null, ring: false, position: bond?.position ?? position });
+  };
+  const followsAtom = () => previousToken !== null && ['atom', 'ring', 'branch_close'].includes(previousToken.type);
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'atom': {
+        const atom = parseAtomToken(token, atoms.length, errors);
+        if (!atom) break;
+        atoms.push(atom);
+        written.push([]);
+        rooted.push(previousAtom === null);
+        if (previousAtom !== null) {
+          addBond(previousAtom, atom.index, pendingBond, token.position);
+          written[previousAtom].push(atom.index);
+          written[atom.index].push(previousAtom);
+        }
+        previousAtom = atom.index;
+        pendingBond = null;
+        break;
+      }
+      case 'bond':
+        if (previousAtom === null || !(followsAtom() || previousToken?.type === 'branch_open')) {
+          errors.push({ position: token.position, message: `Bond '${token.text}' has no preceding atom` });
+        } else if (pendingBond) {
+          errors.push({ position: token.position, message: `Consecutive bonds '${pendingBond.text}${token.text}'` });
+        }
+        pendingBond = token;
+        break;
+      case 'branch_open':
+        if (previousAtom === null || !followsAtom()) {
+          errors.push({ position: token.position, message: "Branch '(' must follow an atom" });
+        } else if (pendingBond) {
+          errors.push({ position: pendingBond.position, message: "Bond must be placed inside the branch, e.g. 'C(=O)'" });
+          pendingBond = null;
+        }
+        branches.push({ atom: previousAtom ?? -1, position: token.position });
+        break;
+      case 'branch_close': {
+        const open = branches.pop();
+        if (!open) {
+          errors.push({ position: token.position, message: "Unmatched ')'" });
+          break;
+        }
+        if (previousToken?.type === 'branch_open') {
+          errors.push({ position: open.position, message: "Empty branch '()'" });
+        } else if (pendingBond) {
+          errors.push({ position: pendingBond.position, message: `Dangling bond '${pendingBond.text}' before ')'` });
+        }
+        pendingBond = null;
+        previousAtom = open.atom >= 0 ? open.atom : null;
+        break;
+      }
+      case 'ring': {
+        const label = token.text.replace('%', '');
+        if (previousAtom === null || !(followsAtom() || previousToken?.type === 'bond')) {
+          errors.push({ position: token.position, message: `Ring bond ${label} has no preceding atom` });
+          pendingBond = null;
+          break;
+        }
+        const open = openRings.get(label);
+        if (!open) {
+          openRings.set(label, { atom: previousAtom, bond: pendingBond, position: token.position, slot: written[previousAtom].length });
+          written[previousAtom].push(-1);
+        } else {
+          openRings.delete(label);
+          if (open.atom === previousAtom) {
+            errors.push({ position: token.position, message: `Ring bond ${label} closes on the same atom` });
+          } else if (bonded(open.atom, previousAtom)) {
+            errors.push({ position: token.position, message: `Ring bond ${label} duplicates an existing bond` });
+          } else if (open.bond && pendingBond && open.bond.text !== pendingBond.text
+            && !('/\\'.includes(open.bond.text) && '/\\'.includes(pendingBond.text))) {
+            errors.push({ position: token.position, message: `Conflicting bond symbols '${open.bond.text}' and '${pendingBond.text}' for ring bond ${label}` });
+          } else {
+            addBond(open.atom, previousAtom, open.bond ?? pendingBond, open.position);
+            written[open.atom][open.slot] = previousAtom;
+            written[previousAtom].push(open.atom);
+          }
+        }
+        pendingBond = null;
+        break;
+      }
+      case 'dot':
+        if (!followsAtom()) {
+          errors.push({ position: token.position, message: "Dot '.' must follow an atom" });
+        } else if (pendingBond) {
+          errors.push({ position: pendingBond.position, message: `Dangling bond '${pendingBond.text}' before '.'` });
+        }
+        pendingBond = null;
+        previousAtom = null;
+        break;
+    }
+    previousToken = token;
+  }
+
+  if (pendingBond) {
+    errors.push({ position: pendingBond.position, message: `Dangling bond '${pendingBond.text}' at end of SMILES` });
+  }
+  if (previousToken?.type === 'dot') {
+    errors.push({ position: previousToken.position, message: "Dot '.' at end of SMILES" });
+  }
+  for (const open of branches) {
+    errors.push({ position: open.position, message: "Unclosed branch '('" });
+  }
+  for (const [label, open] of openRings) {
+    errors.push({ position: open.position, message: `Unclosed ring bond ${label}` });
+  }
+  if (errors.length) return { molecule: null, errors: errors.sort((a, b) => a.position - b.position) };
+
+  for (const atom of atoms) {
+    if (!atom.chiral) continue;
+    // An atom's own H follows the atom it is bonded from, or leads when there is none
+    const order = [...written[atom.index]];
+    if (atom.hydrogens > 0) order.splice(rooted[atom.index] ? 0 : 1, 0, -1);
+    atom.chiralNeighbors = order;
+  }
+
+  perceiveRings(atoms, bonds);
+
+  for (const bond of bonds) {
+    if (bond.order !== 'aromatic' || bond.ring) continue;
+    if (bond.symbol === ':') {
+      errors.push({ position: bond.position, message: "Aromatic bond ':' outside a ring" });
+    } else {
+      // Implicit bond between aromatic atoms of different rings (e.g. biphenyl)
+      bond.order = 1;
+    }
+  }
+  for (const atom of atoms) {
+    if (atom.aromatic && !bonds.some(b => b.ring && (b.from === atom.index || b.to === atom.index))) {
+      errors.push({ position: atom.position, message: `Aromatic atom '${atom.text}' is not in a ring` });
+    }
+  }
+  if (errors.length) return { molecule: null, errors: errors.sort((a, b) => a.position - b.position) };
+
+  const needsPi = assignValences(atoms, bonds, errors);
+  if (!errors.length) checkKekulization(atoms, bonds, needsPi, errors);
+  if (errors.length) return { molecule: null, errors: errors.sort((a, b) => a.position - b.position) };
+
+  return { molecule: { atoms, bonds }, errors: [] };
+}
+
+/**
+ * Iteratively refine atom ranks from local invariants until stable, breaking
+ * remaining ties by index
+ */
+function rankAtoms(molecule: SmilesMolecule): number[] {
+  const { atoms, bonds } = molecule;
+  const neighbors = atoms.map(() => [] as { atom: number; order: string }[]);
+  for (const b of bonds) {
+    neighbors[b.from].push({ atom: b.to, order: String(b.order) });
+    neighbors[b.to].push({ atom: b.from, order: String(b.order) });
+  }
+  const inRing = atoms.map(a => bonds.some(b => b.ring && (b.from === a.index || b.to === a.index)));
+
+  const densify = (keys: string[]): number[] => {
+    const sorted = Array.from(new Set(keys)).sort();
+    return keys.map(k => sorted.indexOf(k));
+  };
+  const pad = (n: number) => String(n).padStart(5, '0');
+
+  let ranks = densify(atoms.map(a => [
+    pad(atomicNumber(a.symbol)), a.aromatic ? 1 : 0, pad(neighbors[a.index].length), pad(a.hydrogens),
+    pad(a.charge + 50), pad(a.isotope ?? 0), inRing[a.index] ? 1 : 0,
+  ].join('|')));
+
+  const refine = (current: number[]): number[] => {
+    let classes = new Set(current).size;
+    for (;;) {
+      const next = densify(atoms.map(a => pad(current[a.index]) + '|' + neighbors[a.index]
+        .map(n => `${pad(current[n.atom])}:${n.order}`)
+        .sort()
+        .join(',')));
+      const nextClasses = new Set(next).size;
+      current = next;
+      if (nextClasses === classes) return current;
+      classes = nextClasses;
+    }
+  };
+
+  ranks = refine(ranks);
+  while (new Set(ranks).size < atoms.length) {
+    const counts = new Map<number, number>();
+    ranks.forEach(r => counts.set(r, (counts.get(r) ?? 0) + 1));
+    const tied = Math.min(...Array.from(counts.entries()).filter(([, c]) => c > 1).map(([r]) => r));
+    const chosen = ranks.indexOf(tied);
+    ranks = refine(ranks.map((r, idx) => r * 2 + (r === tied && idx !== chosen ? 1 : 0)));
+  }
+  return ranks;
+}
+
+function writeAtom(atom: SmilesAtom, bondSum: number, chiral: string | null): string {
+  const symbol = atom.aromatic ? atom.symbol.toLowerCase() : atom.symbol;
+  const organic = atom.aromatic ? AROMATIC_ORGANIC.has(symbol) : ORGANIC_SUBSET.has(symbol) || symbol === '*';
+
+  if (organic && chiral === null && atom.charge === 0 && atom.isotope === null && atom.atomClass === null) {
+    if (symbol === '*') {
+      if (atom.hydrogens === 0) return '*';
+    } else {
+      // Plain form only if it implies the same hydrogen count
+      const allowed = allowedValences(atom.symbol, 0) ?? [];
+      const target = allowed.find(v => v >= bondSum);
+      if (target !== undefined) {
+        const free = target - bondSum;
+        const implicit = free - (atom.aromatic && free >= 1 ? 1 : 0);
+        if (implicit === atom.hydrogens) return symbol;
+      }
+    }
+  }
+
+  const hydrogens = atom.hydrogens ? `H${atom.hydrogens > 1 ? atom.hydrogens : ''}` : '';
+  const charge = atom.charge === 0 ? '' : `${atom.charge > 0 ? '+' : '-'}${Math.abs(atom.charge) > 1 ? Math.abs(atom.charge) : ''}`;
+  const atomClass = atom.atomClass !== null ? `:${atom.atomClass}` : '';
+  return `[${atom.isotope ?? ''}${symbol}${chiral ?? ''}${hydrogens}${charge}${atomClass}]`;
+}
+
+function writeBond(bond: SmilesBond, atoms: SmilesAtom[]): string {
+  const bothAromatic = atoms[bond.from].aromatic && atoms[bond.to].aromatic;
+  switch (bond.order) {
+    case 2: return '=';
+    case 3: return '#';
+    case 4: return '$';
+    case 'aromatic': return bothAromatic ? '' : ':';
+    // Implicit bonds between aromatic atoms read back as aromatic
+    default: return bothAromatic ? '-' : '';
+  }
+}
+
+/**
+ * Chiral mark for an atom written with its neighbours in `order`: @ / @@
+ * flipped when `order` is an odd permutation of the input's, other classes
+ * unchanged
+ */
+function writeChirality(atom: SmilesAtom, order: number[]): string | null {
+  if (!atom.chiral) return null;
+  const tetrahedral: Record<string, string> = { '@': '@', '@TH1': '@', '@@': '@@', '@TH2': '@@' };
+  const base = tetrahedral[atom.chiral];
+  const input = atom.chiralNeighbors ?? [];
+  if (!base) return atom.chiral;
+  if (input.length !== order.length || !order.every(n => input.includes(n))) return null;
+  const positions = order.map(n => input.indexOf(n));
+  let swaps = 0;
+  for (let i = 0; i < positions.length; i++) {
+    for (let j = i + 1; j < positions.length; j++) {
+      if (positions[i] > positions[j]) swaps++;
+    }
+  }
+  return swaps % 2 === 0 ? base : (base === '@' ? '@@' : '@');
+}
+
+/**
+ * Write a canonical SMILES for a parsed molecule
+ */
+export function writeCanonicalSmiles(molecule: SmilesMolecule): string {
+  const { atoms, bonds } = molecule;
+  if (atoms.length === 0) return '';
+  const ranks = rankAtoms(molecule);
+
+  const adjacency = atoms.map(() => [] as { atom: number; bond: number }[]);
+  const bondSums = atoms.map(() => 0);
+  bonds.forEach((b, idx) => {
+    adjacency[b.from].push({ atom: b.to, bond: idx });
+    adjacency[b.to].push({ atom: b.from, bond: idx });
+    bondSums[b.from] += bondValence(b.order);
+    bondSums[b.to] += bondValence(b.order);
+  });
+  adjacency.forEach(list => list.sort((a, b) => ranks[a.atom] - ranks[b.atom]));
+
+  // '/' and '\' bonds next to the same double bond (or chain of them) form
+  // one group; its marks are flipped together so the first one written is '/'
+  const directional = (idx: number) => bonds[idx].order === 1 && (bonds[idx].symbol === '/' || bonds[idx].symbol === '\\');
+  const groups = bonds.map((_, idx) => idx);
+  const find = (idx: number): number => (groups[idx] === idx ? idx : (groups[idx] = find(groups[idx])));
+  const marked = new Set<number>();
+  bonds.forEach(b => {
+    if (b.order !== 2) return;
+    const around = [...adjacency[b.from], ...adjacency[b.to]].map(n => n.bond).filter(directional);
+    around.forEach(idx => {
+      marked.add(idx);
+      groups[find(idx)] = find(around[0]);
+    });
+  });
+  const flipped = new Map<number, boolean>();
+  const writeBondFrom = (idx: number, from: number): string => {
+    const bond = bonds[idx];
+    if (!marked.has(idx)) return writeBond(bond, atoms);
+    // A mark reads from the atom before it: the closing atom when written at the closing digit
+    const writtenFrom = bond.position > atoms[bond.to].position ? bond.to : bond.from;
+    const mark = (from === writtenFrom) === (bond.symbol === '/') ? '/' : '\\';
+    const group = find(idx);
+    if (!flipped.has(group)) flipped.set(group, mark === '\\');
+    return flipped.get(group) ? (mark === '/' ? '\\' : '/') : mark;
+  };
+
+  // Pass 1: spanning tree in rank order; non-tree bonds become ring closures
+  const visited = new Array<boolean>(atoms.length).fill(false);
+  const seenBonds = new Set<number>();
+  const children = atoms.map(() => [] as { atom: number; bond: number }[]);
+  const opens = atoms.map(() => [] as number[]);
+  const closes = atoms.map(() => [] as number[]);
+  const parents = atoms.map(() => -1);
+
+  const walk = (atom: number) => {
+    visited[atom] = true;
+    for (const { atom: next, bond } of adjacency[atom]) {
+      if (seenBonds.has(bond)) continue;
+      seenBonds.add(bond);
+      if (visited[next]) {
+        opens[next].push(bond);
+        closes[atom].push(bond);
+      } else {
+        children[atom].push({ atom: next, bond });
+        parents[next] = atom;
+        walk(next);
+      }
+    }
+  };
+
+  // Pass 2: emit atoms, ring-closure digits and branches
+  const digits = new Map<number, number>();
+  const inUse = new Set<number>();
+  const digitText = (d: number) => (d < 10 ? String(d) : `%${d}`);
+
+  const other = (bond: number, atom: number) => (bonds[bond].from === atom ? bonds[bond].to : bonds[bond].from);
+
+  const emit = (atom: number): string => {
+    // Neighbours in output order: parent, own H, ring closures, ring openings, branches
+    const order = [
+      ...(parents[atom] >= 0 ? [parents[atom]] : []),
+      ...(atoms[atom].hydrogens > 0 ? [-1] : []),
+      ...closes[atom].map(bond => other(bond, atom)),
+      ...opens[atom].map(bond => other(bond, atom)),
+      ...children[atom].map(child => child.atom),
+    ];
+    let out = writeAtom(atoms[atom], bondSums[atom], writeChirality(atoms[atom], order));
+    for (const bond of closes[atom]) {
+      const d = digits.get(bond)!;
+      inUse.delete(d);
+      out += digitText(d);
+    }
+    for (const bond of opens[atom]) {
+      let d = 1;
+      while (inUse.has(d)) d++;
+      inUse.add(d);
+      digits.set(bond, d);
+      out += writeBondFrom(bond, atom) + digitText(d);
+    }
+    children[atom].forEach(({ atom: child, bond }, idx) => {
+      const branch = writeBondFrom(bond, atom) + emit(child);
+      out += idx < children[atom].length - 1 ? `(${branch})` : branch;
+    });
+    return out;
+  };
+
+  const fragments: string[] = [];
+  const byRank = atoms.map(a => a.index).sort((a, b) => ranks[a] - ranks[b]);
+  for (const first of byRank) {
+    if (visited[first]) continue;
+    // Start each fragment at its lowest-ranked terminal atom when it has one
+    const component = new Set([first]);
+    const queue = [first];
+    while (queue.length) {
+      for (const { atom } of adjacency[queue.shift()!]) {
+        if (!component.has(atom)) {
+          component.add(atom);
+          queue.push(atom);
+        }
+      }
+    }
+    const start = byRank.find(idx => component.has(idx) && adjacency[idx].length <= 1) ?? first;
+    walk(start);
+    fragments.push(emit(start));
+  }
+  return fragments.join('.');
+}
+
+/**
+ * Copy of the molecule with Kekulé-drawn aromatic rings marked aromatic.
+ * Perceived ring by ring: six-membered C/N rings with three alternating
+ * double bonds, and five-membered rings with two ring double bonds plus one
+ * N/O/S lone-pair donor. Larger and non-classical systems are left as written.
+ */
+export function perceiveAromaticity(molecule: SmilesMolecule): SmilesMolecule {
+  const atoms = molecule.atoms.map(a => ({ ...a }));
+  const bonds = molecule.bonds.map(b => ({ ...b }));
+  const adjacency = atoms.map(() => [] as { atom: number; bond: number }[]);
+  bonds.forEach((b, idx) => {
+    if (!b.ring) return;
+    adjacency[b.from].push({ atom: b.to, bond: idx });
+    adjacency[b.to].push({ atom: b.from, bond: idx });
+  });
+
+  // Simple 5- and 6-membered cycles, each found once from its lowest atom
+  const cycles = new Map<string, { atoms: number[]; bonds: number[] }>();
+  const walk = (start: number, path: number[], pathBonds: number[]) => {
+    const current = path[path.length - 1];
+    for (const { atom, bond } of adjacency[current]) {
+      if (atom === start && path.length >= 5 && bond !== pathBonds[pathBonds.length - 1]) {
+        const ringBonds = [...pathBonds, bond];
+        cycles.set([...ringBonds].sort((x, y) => x - y).join(','), { atoms: [...path], bonds: ringBonds });
+      } else if (atom > start && !path.includes(atom) && path.length < 6) {
+        walk(start, [...path, atom], [...pathBonds, bond]);
+      }
+    }
+  };
+  atoms.forEach((_, idx) => walk(idx, [idx], []));
+
+  const doubleBondsOf = (atom: number) => molecule.bonds.filter(b => b.order === 2 && (b.from === atom || b.to === atom));
+  // Its only double bond lies in the ring (rules out exocyclic C=O)
+  const pairedIn = (ring: { bonds: number[] }, atom: number) => {
+    const doubles = doubleBondsOf(atom);
+    return doubles.length === 1 && ring.bonds.includes(molecule.bonds.indexOf(doubles[0]));
+  };
+  const isCN = (atom: number) => atoms[atom].symbol === 'C' || atoms[atom].symbol === 'N';
+
+  // Repeat so rings fused to an already perceived ring are picked up too
+  const pending = Array.from(cycles.values()).filter(ring => !ring.atoms.every(idx => atoms[idx].aromatic));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let r = pending.length - 1; r >= 0; r--) {
+      const ring = pending[r];
+      const open = ring.atoms.filter(idx => !atoms[idx].aromatic);
+      let aromatic = false;
+      if (ring.atoms.length === 6) {
+        aromatic = ring.atoms.every(isCN) && open.every(idx => pairedIn(ring, idx));
+      } else {
+        const donors = open.filter(idx => doubleBondsOf(idx).length === 0);
+        const donor = donors.length === 1 ? atoms[donors[0]] : null;
+        aromatic = donor !== null && ['N', 'O', 'S'].includes(donor.symbol) && donor.charge === 0
+          && open.filter(idx => idx !== donors[0]).every(idx => isCN(idx) && pairedIn(ring, idx));
+      }
+      if (!aromatic) continue;
+      ring.atoms.forEach(idx => { atoms[idx].aromatic = true; });
+      ring.bonds.forEach(idx => { bonds[idx].order = 'aromatic'; });
+      pending.splice(r, 1);
+      changed = true;
+    }
+  }
+
+  return { atoms, bonds };
+}
+
+/**
+ * Validate a SMILES string and canonicalize it when valid
+ */
+export function validateSmiles(smiles: string): SmilesValidation {
+  const { molecule, errors } = parseSmiles(smiles);
+  return {
+    valid: molecule !== null,
+    smiles,
+    canonical: molecule ? writeCanonicalSmiles(perceiveAromaticity(molecule)) : null,
+    errors,
+    molecule,
+  };
+}
+
+/**
+ * Canonical SMILES with aromaticity perceived, or null if the input does not
+ * parse
+ */
+export function canonicalizeSmiles(smiles: string): string | null {
+  const { molecule } = parseSmiles(smiles);
+  return molecule ? writeCanonicalSmiles(perceiveAromaticity(molecule)) : null;
+}
+
+/**
+ * Human-readable error with a 1-based column, e.g. "Unclosed ring bond 1 (col 2)"
+ */
+export function formatSmilesError(error: SmilesError): string {
+  return `${error.message} (col ${error.position + 1})`;
+}
+
+/**
+ * Split items into those with a valid (or absent) SMILES and those to reject.
+ * `trusted` lets callers skip curated reference SMILES.
+ */
+export function partitionBySmiles<T extends { smiles?: string | null }>(
+  items: T[],
+  trusted?: (smiles: string) => boolean
+): { valid: T[]; invalid: Array<T & { errors: SmilesError[]; rejection_reason: string }> } {
+  const valid: T[] = [];
+  const invalid: Array<T & { errors: SmilesError[]; rejection_reason: string }> = [];
+  for (const item of items) {
+    const smiles = (item.smiles || '').trim();
+    if (!smiles || trusted?.(smiles)) {
+      valid.push(item);
+      continue;
+    }
+    const { errors } = parseSmiles(smiles);
+    if (errors.length === 0) {
+      valid.push(item);
+    } else {
+      invalid.push({ ...item, errors, rejection_reason: `Invalid SMILES: ${formatSmilesError(errors[0])}` });
+    }
+  }
+  return { valid, invalid };
+}
@@ -0,0 +1,202 @@
+/**
+ * SimuLab Span Recorder
+ *
+ * In-process tracing that needs no SGP backend. A span has a name, a type, an
+ * optional parent, attributes and an input; it is ended with its output or
+ * its error. Spans are kept in ./span-store, so local LLM and heuristic runs
+ * leave a trace just like agent calls, and GET /api/simulab/spans serves them
+ * to the trace viewer.
+ *
+ * Routes open a root span with startRouteSpan, which joins the trace named by
+ * `?trace_id=` (under `?parent_span_id=`) when the caller passes one, as the
+ * pipeline runner does. The span is handed down the way the usage meter is:
+ * `span` in ./llm-client requests and ./agent-client call options makes each
+ * call a child span. endRouteSpan closes it with the response status and sets
+ * the X-SimuLab-Trace-Id response header.
+ *
+ * Recording never fails a request: store errors are logged and dropped.
+ * SIMULAB_TRACING=off turns recording off; spans are then no-ops.
+ *
+ * Server-only.
+ */
+
+import { randomUUID } from 'crypto';
+import { isValidTraceId, writeSpan, type SpanRecord, type SpanType } from './span-store';
+
+export type { SpanRecord, SpanType } from './span-store';
+
+export interface SpanOptions {
+  type?: SpanType;
+  input?: Record<string, unknown>;
+  attributes?: Record<string, unknown>;
+}
+
+export interface StartSpanOptions extends SpanOptions {
+  /** Trace to join; a new one is started when absent or invalid */
+  traceId?: string | null;
+  parentId?: string | null;
+}
+
+export interface SpanHandle {
+  readonly id: string;
+  readonly traceId: string;
+  /** False when tracing is off */
+  readonly recording: boolean;
+  setAttributes(attributes: Record<string, unknown>): void;
+  /** Start a span under this one, in the same trace */
+  child(name: string, options?: SpanOptions): SpanHandle;
+  /** Close the span, resolving once it is stored; later calls are ignored */
+  end(output?: Record<string, unknown> | null, error?: unknown): Promise<void>;
+}
+
+export const TRACE_HEADER = 'X-SimuLab-Trace-Id';
+
+/** Inputs and outputs larger than this (as JSON) are stored as a preview */
+const MAX_PAYLOAD_CHARS = 16_000;
+
+export function isSpanRecordingEnabled(): boolean {
+  return process.env.SIMULAB_TRACING !== 'off';
+}
+
+function clip(payload: Record<string, unknown> | null | undefined): Record<string, unknown> | null {
+  if (!payload) return null;
+  const json = JSON.stringify(payload);
+  if (json.length <= MAX_PAYLOAD_CHARS) return payload;
+  return { truncated: true, preview: json.slice(0, MAX_PAYLOAD_CHARS) };
+}
+
+function store(record: SpanRecord): Promise<void> {
+  return writeSpan(record).catch(error => {
+    console.warn(`[Tracing] Could not record span ${record.name}:`, error);
+  });
+}
+
+function openSpan(name: string, traceId: string, parentId: string | null, options: SpanOptions): SpanHandle {
+  const record: SpanRecord = {
+    id: randomUUID(),
+    trace_id: traceId,
+    parent_id: parentId,
+    name,
+    type: options.type || 'default',
+    start_time: new Date().toISOString(),
+    end_time: null,
+    input: clip(options.input),
+    output: null,
+    data: { ...options.attributes },
+  };
+  void store(record);
+
+  let ended = false;
+  return {
+    id: record.id,
+    traceId,
+    recording: true,
+    setAttributes(attributes) {
+      if (!ended) Object.assign(record.data, attributes);
+    },
+    child(childName, childOptions = {}) {
+      return openSpan(childName, traceId, record.id, childOptions);
+    },
+    end(output, error) {
+      if (ended) return Promise.resolve();
+      ended = true;
+      record.end_time = new Date().toISOString();
+      record.output = clip(output);
+      record.data.status = error ? 'error' : 'ok';
+      if (error) record.data.error = error instanceof Error ? error.message : String(error);
+      return store(record);
+    },
+  };
+}
+
+const NOOP_SPAN: SpanHandle = {
+  id: '',
+  traceId: '',
+  recording: false,
+  setAttributes() {},
+  child: () => NOOP_SPAN,
+  end: () => Promise.resolve(),
+};
+
+/**
+ * Start a span: a root span of a new trace, or a span in `traceId` under
+ * `parentId`
+ */
+export function startSpan(name: string, options: StartSpanOptions = {}): SpanHandle {
+  if (!isSpanRecordingEnabled()) return NOOP_SPAN;
+  const { traceId, parentId, ...spanOptions } = options;
+  const joined = traceId && isValidTraceId(traceId) ? traceId : null;
+  return openSpan(name, joined || randomUUID(), joined ? parentId || null : null, spanOptions);
+}
+
+/**
+ * Run `work` in a child span of `parent`; the span ends with
+ * `describe(result)` as its output, or with the error `work` throws
+ */
+export async function withChildSpan<T>(
+  parent: SpanHandle,
+  name: string,
+  options: SpanOptions,
+  work: () => T | Promise<T>,
+  describe?: (result: T) => Record<string, unknown> | null
+): Promise<T> {
+  const span = parent.child(name, options);
+  try {
+    const result = await work();
+    void span.end(describe ? describe(result) : null);
+    return result;
+  } catch (error) {
+    void span.end(null, error);
+    throw error;
+  }
+}
+
+/**
+ * Root span of a route request, in the caller's trace when the URL names one
+ */
+export function startRouteSpan(name: string, request: Request, options: SpanOptions = {}): SpanHandle {
+  const url = new URL(request.url);
+  return startSpan(name, {
+    type: 'processing',
+    ...options,
+    traceId: url.searchParams.get('trace_id'),
+    parentId: url.searchParams.get('parent_span_id'),
+    attributes: { route: url.pathname, ...options.attributes },
+  });
+}
+
+/**
+ * Set the trace id header on a response
+ */
+export function withTraceHeader(span: SpanHandle, response: Response): Response {
+  if (span.recording) response.headers.set(TRACE_HEADER, span.traceId);
+  return response;
+}
+
+/**
+ * End a route's root span with its response: the status, and the body's
+ * `error` for 4xx/5xx responses and for routes that report failures with a
+ * 200. An NDJSON stream ends the span when the stream closes.
+ */
+export async function endRouteSpan(span: SpanHandle, pending: Response | Promise<Response>): Promise<Response> {
+  let response: Response;
+  try {
+    response = await pending;
+  } catch (error) {
+    await span.end(null, error);
+    throw error;
+  }
+
+  if (response.body && response.headers.get('content-type')?.includes('ndjson')) {
+    const status = response.status;
+    const body = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      flush: () => span.end({ status, streamed: true }),
+    }));
+    response = new Response(body, { status, statusText: response.statusText, headers: response.headers });
+  } else {
+    const body = await response.clone().json().catch(() => null) as { error?: unknown } | null;
+    const error = body?.error || (response.status >= 400 ? `HTTP ${response.status}` : undefined);
+    await span.end({ status: response.status }, error);
+  }
+  return withTraceHeader(span, response);
+}
@@ -0,0 +1,181 @@
+/**
+ * SimuLab Span Store
+ *
+ * Local traces: one NDJSON file per trace under SIMULAB_DATA_DIR/spans
+ * (default: ./.simulab-data/spans). ./span-recorder appends a line when a span
+ * starts and another when it ends; reading a trace keeps the last line per
+ * span id, so a span still in flight is listed with `end_time: null`.
+ * Records have the `Span` shape the trace viewer's GanttChart renders.
+ *
+ * Only the newest SIMULAB_TRACE_RETENTION traces (default 200) are kept; older
+ * files are removed when a new trace starts.
+ *
+ * Server-only: imported by ./span-recorder and the spans routes.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type SpanType =
+  | 'query'
+  | 'search'
+  | 'knowledge'
+  | 'auth'
+  | 'processing'
+  | 'generation'
+  | 'reasoning'
+  | 'cache'
+  | 'default';
+
+export interface SpanRecord {
+  id: string;
+  trace_id: string;
+  parent_id: string | null;
+  name: string;
+  type: SpanType;
+  start_time: string;
+  /** null while the span is open */
+  end_time: string | null;
+  input: Record<string, unknown> | null;
+  output: Record<string, unknown> | null;
+  /** Attributes, plus `status` ('ok' | 'error') and `error` once ended */
+  data: Record<string, unknown>;
+}
+
+export interface TraceSummary {
+  trace_id: string;
+  /** Name of the first root span */
+  name: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  span_count: number;
+  error_count: number;
+}
+
+const DEFAULT_RETENTION = 200;
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,80}$/;
+
+// Per-trace write queue so start and end lines of concurrent spans don't interleave
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function getSpansDir(): string {
+  const base = process.env.SIMULAB_DATA_DIR || path.join(process.cwd(), '.simulab-data');
+  return path.join(base, 'spans');
+}
+
+function getTracePath(traceId: string): string {
+  return path.join(getSpansDir(), `${traceId}.ndjson`);
+}
+
+export function isValidTraceId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+function getRetention(): number {
+  const value = Number(process.env.SIMULAB_TRACE_RETENTION);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_RETENTION;
+}
+
+function enqueueWrite<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = writeQueues.get(id) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  writeQueues.set(id, next);
+  next.finally(() => {
+    if (writeQueues.get(id) === next) writeQueues.delete(id);
+  }).catch(() => undefined);
+  return next;
+}
+
+/**
+ * Remove the oldest trace files beyond the retention limit
+ */
+async function pruneTraces(): Promise<void> {
+  const dir = getSpansDir();
+  const files = (await fs.readdir(dir)).filter(f => f.endsWith('.ndjson'));
+  const retention = getRetention();
+  if (files.length <= retention) return;
+
+  const stats = await Promise.all(files.map(async file => {
+    const stat = await fs.stat(path.join(dir, file)).catch(() => null);
+    return { file, mtime: stat?.mtimeMs ?? 0 };
+  }));
+  stats.sort((a, b) => b.mtime - a.mtime);
+  await Promise.all(stats.slice(retention).map(({ file }) => fs.rm(path.join(dir, file), { force: true })));
+}
+
+/**
+ * Append the current state of a span to its trace
+ */
+export async function writeSpan(span: SpanRecord): Promise<void> {
+  if (!isValidTraceId(span.trace_id)) throw new Error(`Invalid trace id: ${span.trace_id}`);
+  const line = JSON.stringify(span) + '\n';
+  const created = await enqueueWrite(span.trace_id, async () => {
+    await fs.mkdir(getSpansDir(), { recursive: true });
+    const target = getTracePath(span.trace_id);
+    const isNew = await fs.access(target).then(() => false, () => true);
+    await fs.appendFile(target, line, 'utf8');
+    return isNew;
+  });
+  if (created) await pruneTraces();
+}
+
+/**
+ * Spans of a trace in start order (null if the trace is unknown)
+ */
+export async function getTraceSpans(traceId: string): Promise<SpanRecord[] | null> {
+  if (!isValidTraceId(traceId)) return null;
+  let raw: string;
+  try {
+    raw = await fs.readFile(getTracePath(traceId), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  const spans = new Map<string, SpanRecord>();
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const span = JSON.parse(line) as SpanRecord;
+      spans.set(span.id, span);
+    } catch {
+      // A line cut short by a crash; the span's other line still counts
+    }
+  }
+  return [...spans.values()].sort((a, b) => a.start_time.localeCompare(b.start_time));
+}
+
+/**
+ * Stored traces, newest first
+ */
+export async function listTraces(limit = 50): Promise<TraceSummary[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(getSpansDir())).filter(f => f.endsWith('.ndjson'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const traces = await Promise.all(files.map(async file => {
+    const spans = await getTraceSpans(file.slice(0, -'.ndjson'.length));
+    if (!spans?.length) return null;
+    const root = spans.find(s => !s.parent_id) || spans[0];
+    const ends = spans.map(s => s.end_time);
+    const summary: TraceSummary = {
+      trace_id: root.trace_id,
+      name: root.name,
+      start_time: spans[0].start_time,
+      end_time: ends.includes(null) ? null : (ends as string[]).sort().at(-1) ?? null,
+      span_count: spans.length,
+      error_count: spans.filter(s => s.data.status === 'error').length,
+    };
+    return summary;
+  }));
+
+  return traces
+    .filter((t): t is TraceSummary => t !== null)
+    .sort((a, b) => (b.start_time || '').localeCompare(a.start_time || ''))
+    .slice(0, limit);
+}
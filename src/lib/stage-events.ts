@@ -0,0 +1,108 @@
+/**
+ * SimuLab Stage Events
+ *
+ * Real progress for the streaming variants (`?stream=1`) of the refine,
+ * generate-metrics and reason routes. A handler reports what it is doing
+ * through a StageEmitter; streamStages writes each stage as an NDJSON line the
+ * moment it happens and ends with a `result` line carrying the status and body
+ * the plain POST would have returned. fetchWithStages is the client side: a
+ * fetch() that reports stages and resolves with that final response;
+ * readStages does the same for a response already in hand (the pipeline
+ * runner calls the route handlers in-process).
+ *
+ * Client-safe.
+ */
+
+import { ndjsonResponse, readNdjson } from './ndjson';
+
+export type PipelineStage =
+  /** Reference rows loaded (or served from cache) */
+  | 'reference_loaded'
+  | 'agent_started'
+  /** Status of a long-running agent job, with `progress` when the agent reports it */
+  | 'agent_progress'
+  | 'agent_done'
+  | 'agent_failed'
+  /** LLM, heuristic or local-descriptor fallback engaged */
+  | 'fallback'
+  /** Database cross-check finished */
+  | 'cross_check'
+  /** Results answered from the response cache (see ./response-cache) */
+  | 'cache'
+  /** One scenario evaluated */
+  | 'scenario';
+
+export interface StageEvent {
+  type: 'stage';
+  stage: PipelineStage;
+  message: string;
+  agent?: string;
+  /** 0-100 */
+  progress?: number;
+  scenario_id?: string;
+}
+
+export interface StageResult {
+  type: 'result';
+  status: number;
+  body: unknown;
+}
+
+export type StageStreamEvent = StageEvent | StageResult | { type: 'error'; error: string };
+
+export type StageEmitter = (
+  stage: PipelineStage,
+  message: string,
+  details?: Pick<StageEvent, 'agent' | 'progress' | 'scenario_id'>
+) => void;
+
+/** Emitter for plain (non-streaming) requests */
+export const noStages: StageEmitter = () => {};
+
+/**
+ * Run a route handler, streaming its stages and then its response
+ */
+export function streamStages(handler: (emit: StageEmitter) => Promise<Response>): Response {
+  return ndjsonResponse<StageStreamEvent>(async send => {
+    const response = await handler((stage, message, details) => send({ type: 'stage', stage, message, ...details }));
+    const body = await response.json().catch(() => null);
+    send({ type: 'result', status: response.status, body });
+  });
+}
+
+/**
+ * fetch() against a route's streaming variant. `onStage` sees each stage as
+ * it arrives; the returned Response holds the route's final status and body,
+ * so callers read it exactly as they would the plain POST.
+ */
+export async function fetchWithStages(
+  url: string,
+  init: RequestInit,
+  onStage: (event: StageEvent) => void
+): Promise<Response> {
+  const res = await fetch(`${url}${url.includes('?') ? '&' : '?'}stream=1`, init);
+  return readStages(res, onStage);
+}
+
+/**
+ * Consume a streaming variant's response, reporting its stages and resolving
+ * with the final status and body as a plain JSON Response
+ */
+export async function readStages(res: Response, onStage: (event: StageEvent) => void): Promise<Response> {
+  // Errors raised before the handler runs (bad JSON, 404 dataset...) come back as plain JSON
+  if (!res.headers.get('content-type')?.includes('ndjson')) return res;
+
+  let result: StageResult | null = null;
+  await readNdjson<StageStreamEvent>(res, event => {
+    if (event.type === 'stage') onStage(event);
+    else if (event.type === 'result') result = event;
+    else if (event.type === 'error') throw new Error(event.error);
+  });
+
+  const final = result as StageResult | null;
+  if (!final) throw new Error('Stream ended before the response arrived');
+  return new Response(JSON.stringify(final.body), {
+    status: final.status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * SimuLab Substructure Matching
+ *
+ * Subgraph isomorphism over parsed SMILES graphs (see ./smiles). Query
+ * patterns are written as SMILES with a small set of SMARTS-like semantics:
+ * - '*' matches any atom
+ * - organic-subset atoms match element and aromaticity only
+ * - bracket atoms additionally require their charge and at least their
+ *   hydrogen count ('[CH]=O' is an aldehyde, '[OH]' a free hydroxyl)
+ * - bonds match by order; aromatic bonds only match aromatic bonds
+ *
+ * Aromaticity is taken as written: a Kekulé target ('C1=CC=CC=C1') only
+ * matches an aromatic query ('c1ccccc1') after `perceiveAromaticity`.
+ */
+
+import { parseSmiles, SmilesBondOrder, SmilesMolecule } from './smiles';
+
+export interface SubstructureQuery {
+  pattern: string;
+  molecule: SmilesMolecule;
+}
+
+interface Adjacency {
+  atom: number;
+  order: SmilesBondOrder;
+}
+
+function adjacency(molecule: SmilesMolecule): Adjacency[][] {
+  const out = molecule.atoms.map(() => [] as Adjacency[]);
+  for (const b of molecule.bonds) {
+    out[b.from].push({ atom: b.to, order: b.order });
+    out[b.to].push({ atom: b.from, order: b.order });
+  }
+  return out;
+}
+
+/**
+ * Parse a query pattern; throws on an invalid pattern since queries are
+ * authored alongside the code, not supplied by users
+ */
+export function compileQuery(pattern: string): SubstructureQuery {
+  const { molecule, errors } = parseSmiles(pattern);
+  if (!molecule) {
+    throw new Error(`Invalid substructure pattern '${pattern}': ${errors[0]?.message ?? 'unknown error'}`);
+  }
+  return { pattern, molecule };
+}
+
+function atomMatches(query: SmilesMolecule['atoms'][number], target: SmilesMolecule['atoms'][number]): boolean {
+  if (query.symbol === '*') return true;
+  if (query.symbol !== target.symbol || query.aromatic !== target.aromatic) return false;
+  if (!query.bracket) return true;
+  return query.charge === target.charge && target.hydrogens >= query.hydrogens;
+}
+
+/**
+ * All distinct mappings of query atoms onto target atoms (up to `limit`).
+ * Each mapping lists the target atom index for every query atom.
+ */
+export function findSubstructureMatches(
+  target: SmilesMolecule,
+  query: SubstructureQuery,
+  limit = Infinity
+): number[][] {
+  const q = query.molecule;
+  if (q.atoms.length === 0 || q.atoms.length > target.atoms.length) return [];
+
+  const qAdj = adjacency(q);
+  const tAdj = adjacency(target);
+
+  // Visit query atoms in BFS order so every atom after the first of its
+  // component has an already-mapped neighbour to anchor on
+  const order: number[] = [];
+  const seen = new Set<number>();
+  for (let start = 0; start < q.atoms.length; start++) {
+    if (seen.has(start)) continue;
+    seen.add(start);
+    const queue = [start];
+    while (queue.length) {
+      const current = queue.shift()!;
+      order.push(current);
+      for (const n of qAdj[current]) {
+        if (!seen.has(n.atom)) {
+          seen.add(n.atom);
+          queue.push(n.atom);
+        }
+      }
+    }
+  }
+
+  const mapping = new Array<number>(q.atoms.length).fill(-1);
+  const used = new Set<number>();
+  const matches: number[][] = [];
+  const keys = new Set<string>();
+
+  const consistent = (qi: number, ti: number): boolean => {
+    if (!atomMatches(q.atoms[qi], target.atoms[ti])) return false;
+    if (tAdj[ti].length < qAdj[qi].length) return false;
+    return qAdj[qi].every(n => {
+      const mapped = mapping[n.atom];
+      if (mapped === -1) return true;
+      const bond = tAdj[ti].find(t => t.atom === mapped);
+      return bond !== undefined && bond.order === n.order;
+    });
+  };
+
+  const extend = (depth: number): void => {
+    if (matches.length >= limit) return;
+    if (depth === order.length) {
+      // Symmetric queries map the same atom set several ways; keep one
+      const key = [...mapping].sort((a, b) => a - b).join(',');
+      if (!keys.has(key)) {
+        keys.add(key);
+        matches.push([...mapping]);
+      }
+      return;
+    }
+    const qi = order[depth];
+    const anchor = qAdj[qi].find(n => mapping[n.atom] !== -1);
+    const candidates = anchor
+      ? tAdj[mapping[anchor.atom]].map(n => n.atom)
+      : target.atoms.map(a => a.index);
+    for (const ti of candidates) {
+      if (used.has(ti) || !consistent(qi, ti)) continue;
+      mapping[qi] = ti;
+      used.add(ti);
+      extend(depth + 1);
+      used.delete(ti);
+      mapping[qi] = -1;
+    }
+  };
+
+  extend(0);
+  return matches;
+}
+
+/**
+ * True if the query occurs anywhere in the target
+ */
+export function hasSubstructure(target: SmilesMolecule, query: SubstructureQuery): boolean {
+  return findSubstructureMatches(target, query, 1).length > 0;
+}
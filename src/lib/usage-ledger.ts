@@ -0,0 +1,261 @@
+/**
+ * SimuLab Usage Ledger
+ *
+ * Token and cost accounting per experiment. Each route opens a UsageMeter for
+ * its stage (design, metrics, verdict, report, edits) and passes it to every
+ * LLM call (`meter` in ./llm-client requests); agent replies that report a
+ * `usage` block are charged to it too. When the request names an
+ * `experiment_id` that exists, `finish()` appends the calls to that
+ * experiment's `usage` entries (see ./experiment-store); otherwise the caller
+ * gets them back unrecorded (`recorded: false`) to attach later, as the
+ * pipeline runner and the page do for a design made before its experiment.
+ *
+ * Dollar figures are estimates: tokens times the per-1M-token price of the
+ * model (longest matching prefix in DEFAULT_PRICES, overridden or extended by
+ * SIMULAB_LLM_PRICES, e.g. `{"llama-3.1-8b": {"input": 0, "output": 0}}`).
+ * Agents may report their own `cost_usd`. Models without a price count as $0
+ * and are listed in the summary's `unpriced_models`.
+ *
+ * Budget: a run (one experiment) may spend at most `budget_usd` from the
+ * request, else SIMULAB_RUN_BUDGET_USD; unset means unlimited. Once the
+ * experiment's recorded spend plus this request's reaches it, the meter
+ * refuses further agent and LLM calls and routes take their heuristic
+ * fallbacks.
+ *
+ * Server-only.
+ */
+
+import { appendExperimentUsage, getExperiment } from './experiment-store';
+import type { LlmMeter, LlmUsage } from './llm-client';
+import type { CacheStatus } from './response-cache';
+
+export type UsageStage = 'design' | 'metrics' | 'verdict' | 'report' | 'edits';
+
+export const USAGE_STAGES: UsageStage[] = ['design', 'metrics', 'verdict', 'report', 'edits'];
+
+export interface UsageEntry {
+  at: string;
+  stage: UsageStage;
+  source: 'llm' | 'agent';
+  /** LLM request label, or agent name and endpoint */
+  label: string;
+  model: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  /** The call was answered from the response cache (no tokens spent) */
+  cached?: boolean;
+}
+
+/** `usage` block an agent may add to its reply */
+export interface AgentUsage {
+  prompt_tokens?: number | null;
+  completion_tokens?: number | null;
+  total_tokens?: number | null;
+  model?: string | null;
+  cost_usd?: number | null;
+}
+
+export interface UsageTotals {
+  calls: number;
+  cached_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  by_stage: Record<UsageStage, UsageTotals>;
+  /** Models charged at $0 because no price is known for them */
+  unpriced_models: string[];
+}
+
+/** What a route reports about its own calls, as `usage` in its response */
+export interface RunUsageReport {
+  stage: UsageStage;
+  experiment_id: string | null;
+  entries: UsageEntry[];
+  totals: UsageTotals;
+  /** Experiment spend including this request */
+  spent_usd: number;
+  budget_usd: number | null;
+  budget_exceeded: boolean;
+  /** The entries were appended to the experiment */
+  recorded: boolean;
+}
+
+export interface UsageMeter extends LlmMeter {
+  stage: UsageStage;
+  /** Charge an agent call; replies without a usage block cost nothing */
+  chargeAgent(label: string, usage: AgentUsage | null | undefined, cache?: CacheStatus): void;
+  /** Record the calls (see the module doc) and report them */
+  finish(): Promise<RunUsageReport>;
+}
+
+/** USD per 1M tokens */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+};
+
+function getPrices(): Record<string, ModelPrice> {
+  const raw = process.env.SIMULAB_LLM_PRICES;
+  if (!raw) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...(JSON.parse(raw) as Record<string, ModelPrice>) };
+  } catch {
+    console.warn('[Usage] SIMULAB_LLM_PRICES is not valid JSON, using default prices');
+    return DEFAULT_PRICES;
+  }
+}
+
+function priceFor(model: string | null): ModelPrice | null {
+  if (!model) return null;
+  const prices = getPrices();
+  const key = Object.keys(prices)
+    .filter(k => model === k || model.startsWith(`${k}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : null;
+}
+
+/**
+ * Estimated USD for a call, or null when the model has no known price
+ */
+export function estimateCostUsd(model: string | null, usage: Pick<LlmUsage, 'prompt_tokens' | 'completion_tokens'>): number | null {
+  const price = priceFor(model);
+  if (!price) return null;
+  return (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+}
+
+const round = (usd: number) => Math.round(usd * 1_000_000) / 1_000_000;
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, cached_calls: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost_usd: 0 };
+}
+
+function addEntry(totals: UsageTotals, entry: UsageEntry): UsageTotals {
+  return {
+    calls: totals.calls + 1,
+    cached_calls: totals.cached_calls + (entry.cached ? 1 : 0),
+    prompt_tokens: totals.prompt_tokens + entry.prompt_tokens,
+    completion_tokens: totals.completion_tokens + entry.completion_tokens,
+    total_tokens: totals.total_tokens + entry.total_tokens,
+    cost_usd: round(totals.cost_usd + entry.cost_usd),
+  };
+}
+
+export function summarizeUsage(entries: UsageEntry[]): UsageSummary {
+  const byStage = Object.fromEntries(USAGE_STAGES.map(stage => [stage, emptyTotals()])) as Record<UsageStage, UsageTotals>;
+  let total = emptyTotals();
+  const unpriced = new Set<string>();
+  for (const entry of entries) {
+    total = addEntry(total, entry);
+    if (byStage[entry.stage]) byStage[entry.stage] = addEntry(byStage[entry.stage], entry);
+    if (entry.total_tokens > 0 && entry.source === 'llm' && !priceFor(entry.model)) unpriced.add(entry.model || '(unknown)');
+  }
+  return { total, by_stage: byStage, unpriced_models: [...unpriced].sort() };
+}
+
+/**
+ * Run budget in USD: the request's `budget_usd`, else SIMULAB_RUN_BUDGET_USD,
+ * else null (unlimited)
+ */
+export function resolveRunBudget(requested?: unknown): number | null {
+  if (typeof requested === 'number' && Number.isFinite(requested) && requested >= 0) return requested;
+  const value = Number(process.env.SIMULAB_RUN_BUDGET_USD);
+  return process.env.SIMULAB_RUN_BUDGET_USD && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Meter for one route call. Reads the experiment's recorded spend (when
+ * `experimentId` names one) so the budget covers the whole run.
+ */
+export async function openUsageMeter(
+  stage: UsageStage,
+  options: { experimentId?: string | null; budgetUsd?: unknown } = {}
+): Promise<UsageMeter> {
+  const experimentId = options.experimentId || null;
+  const budgetUsd = resolveRunBudget(options.budgetUsd);
+  const experiment = experimentId ? await getExperiment(experimentId).catch(() => null) : null;
+  const priorUsd = experiment ? summarizeUsage(experiment.usage || []).total.cost_usd : 0;
+  const entries: UsageEntry[] = [];
+  let exceeded = false;
+
+  const spent = () => round(priorUsd + entries.reduce((sum, e) => sum + e.cost_usd, 0));
+  const push = (entry: Omit<UsageEntry, 'at' | 'stage'>) => {
+    entries.push({ at: new Date().toISOString(), stage, ...entry });
+  };
+
+  return {
+    stage,
+    allows() {
+      if (budgetUsd !== null && spent() >= budgetUsd) {
+        if (!exceeded) console.warn(`[Usage] Run budget of $${budgetUsd} reached ($${spent()} spent), switching ${stage} to heuristics`);
+        exceeded = true;
+      }
+      return !exceeded;
+    },
+    charge(label, model, usage, cache) {
+      push({
+        source: 'llm',
+        label,
+        model,
+        ...usage,
+        cost_usd: round(estimateCostUsd(model, usage) ?? 0),
+        ...(cache === 'hit' ? { cached: true } : {}),
+      });
+    },
+    chargeAgent(label, usage, cache) {
+      if (cache === 'hit') {
+        push({ source: 'agent', label, model: null, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost_usd: 0, cached: true });
+        return;
+      }
+      if (!usage) return;
+      const promptTokens = usage.prompt_tokens ?? 0;
+      const completionTokens = usage.completion_tokens ?? 0;
+      const tokens = { prompt_tokens: promptTokens, completion_tokens: completionTokens };
+      push({
+        source: 'agent',
+        label,
+        model: usage.model ?? null,
+        ...tokens,
+        total_tokens: usage.total_tokens ?? promptTokens + completionTokens,
+        cost_usd: round(usage.cost_usd ?? estimateCostUsd(usage.model ?? null, tokens) ?? 0),
+      });
+    },
+    async finish() {
+      let recorded = false;
+      if (experiment && entries.length > 0) {
+        recorded = await appendExperimentUsage(experiment.id, entries).catch(error => {
+          console.warn(`[Usage] Could not record ${stage} usage on ${experiment.id}:`, error);
+          return false;
+        });
+      }
+      return {
+        stage,
+        experiment_id: experiment?.id ?? null,
+        entries,
+        totals: summarizeUsage(entries).total,
+        spent_usd: spent(),
+        budget_usd: budgetUsd,
+        budget_exceeded: exceeded,
+        recorded,
+      };
+    },
+  };
+}
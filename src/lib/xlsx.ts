@@ -0,0 +1,193 @@
+/**
+ * SimuLab XLSX Reader
+ *
+ * Minimal reader for Office Open XML workbooks: unzips the archive (stored
+ * and deflate entries, no ZIP64 or encryption), resolves the shared-string
+ * table and returns one worksheet as a grid of cell text. Numbers are kept
+ * as written in the sheet XML; dates, formulas and styles are not evaluated
+ * (formula cells yield their cached value).
+ *
+ * Only the entries needed for the sheet are inflated, each capped at
+ * MAX_ENTRY_BYTES, and cell references past MAX_ROWS / MAX_COLUMNS are
+ * refused, so a crafted workbook cannot exhaust memory; both throw
+ * `XlsxLimitError`.
+ *
+ * Server-only: uses node:zlib.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+export const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+export const MAX_ROWS = 100000;
+export const MAX_COLUMNS = 1024;
+
+/** The workbook is readable but larger than the reader accepts */
+export class XlsxLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxLimitError';
+  }
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  size: number;
+  data: Buffer;
+}
+
+function readZipEntries(buffer: Buffer): Map<string, ZipEntry> {
+  // End-of-central-directory record sits within the last 64 KiB + 22 bytes
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive (no end-of-central-directory record)');
+
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  if (count === 0xffff || offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) throw new Error('Corrupt ZIP central directory');
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) throw new Error(`Corrupt ZIP entry: ${name}`);
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    // Other compression methods never appear in workbooks; skip the entry
+    if (method === 0 || method === 8) {
+      entries.set(name, { name, method, size, data: buffer.subarray(dataStart, dataStart + compressedSize) });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Text of one entry, inflated on demand; undefined when the archive lacks it
+ */
+function readEntry(entries: Map<string, ZipEntry>, name: string): string | undefined {
+  const entry = entries.get(name);
+  if (!entry) return undefined;
+  const tooLarge = () => new XlsxLimitError(`Workbook entry ${name} is larger than ${MAX_ENTRY_BYTES / 1024 / 1024} MiB`);
+  if (entry.size > MAX_ENTRY_BYTES || (entry.method === 0 && entry.data.length > MAX_ENTRY_BYTES)) throw tooLarge();
+  if (entry.method === 0) return entry.data.toString('utf8');
+  try {
+    // The declared size can lie; maxOutputLength stops the inflate itself
+    return inflateRawSync(entry.data, { maxOutputLength: MAX_ENTRY_BYTES }).toString('utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') throw tooLarge();
+    throw error;
+  }
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[entity];
+  });
+}
+
+// Concatenated <t> runs of a shared or inline string (rich text has several)
+function textRuns(xml: string): string {
+  const runs: string[] = [];
+  const pattern = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) runs.push(decodeXml(match[1]));
+  return runs.join('');
+}
+
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function attribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}="([^"]*)"`).exec(attributes);
+  return match ? match[1] : null;
+}
+
+function resolveSheetPath(entries: Map<string, ZipEntry>, sheetName?: string): string {
+  const workbook = readEntry(entries, 'xl/workbook.xml') || '';
+  const sheets = Array.from(workbook.matchAll(/<sheet\b([^>]*)\/?>/g)).map(m => ({
+    name: decodeXml(attribute(m[1], 'name') || ''),
+    rel: attribute(m[1], 'r:id'),
+  }));
+  const sheet = sheetName ? sheets.find(s => s.name === sheetName) : sheets[0];
+  if (sheetName && !sheet) {
+    throw new Error(`Worksheet '${sheetName}' not found (available: ${sheets.map(s => s.name).join(', ') || 'none'})`);
+  }
+
+  const rels = readEntry(entries, 'xl/_rels/workbook.xml.rels') || '';
+  for (const m of rels.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    if (sheet?.rel && attribute(m[1], 'Id') === sheet.rel) {
+      const target = attribute(m[1], 'Target') || '';
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return 'xl/worksheets/sheet1.xml';
+}
+
+/**
+ * Cell text of one worksheet (the first by default), row-major. Empty cells
+ * are '' and rows are padded to the widest row.
+ */
+export function readXlsxRows(buffer: Buffer, sheetName?: string): string[][] {
+  const entries = readZipEntries(buffer);
+  const sheetPath = resolveSheetPath(entries, sheetName);
+  const sheetXml = readEntry(entries, sheetPath);
+  if (!sheetXml) throw new Error(`Workbook has no worksheet at ${sheetPath}`);
+
+  const sharedXml = readEntry(entries, 'xl/sharedStrings.xml') || '';
+  const shared = Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map(m => textRuns(m[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = parseInt(attribute(rowMatch[1], 'r') || '', 10);
+    const cells: string[] = [];
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = /^([A-Z]+)\d+$/.exec(attribute(cellMatch[1], 'r') || '');
+      const col = ref ? columnIndex(ref[1]) : cells.length;
+      if (col >= MAX_COLUMNS) throw new XlsxLimitError(`Worksheet has more than ${MAX_COLUMNS} columns`);
+      const type = attribute(cellMatch[1], 't');
+      const inner = cellMatch[2] || '';
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(inner)?.[1];
+
+      let value = '';
+      if (type === 's') value = shared[parseInt(raw || '', 10)] ?? '';
+      else if (type === 'inlineStr') value = textRuns(inner);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (raw !== undefined) value = decodeXml(raw);
+
+      while (cells.length < col) cells.push('');
+      cells[col] = value;
+    }
+    // Honour row numbers so blank rows keep their position
+    const index = isNaN(rowNumber) ? rows.length : rowNumber - 1;
+    if (index >= MAX_ROWS) throw new XlsxLimitError(`Worksheet has more than ${MAX_ROWS} rows`);
+    while (rows.length < index) rows.push([]);
+    rows[index] = cells;
+  }
+
+  const width = Math.max(0, ...rows.map(r => r.length));
+  return rows.map(r => [...r, ...new Array<string>(width - r.length).fill('')]);
+}
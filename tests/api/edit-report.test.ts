@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { installFakeFetch, type FakeFetch } from '../support/fake-fetch';
+import { PROMPTS, STRUCTURED_REPORT } from '../support/fixtures';
+import { callRoute, normalize } from '../support/routes';
+
+/** The route, imported after the test's env stubs so module-level settings see them */
+async function importRoute() {
+  vi.resetModules();
+  return (await import('@/app/api/simulab/edit-report/route')).POST;
+}
+
+const SIMULATOR = 'simulab-simulator';
+
+const INSTRUCTION = 'Make Acetanilide the winner despite the hERG flag';
+
+/** STRUCTURED_REPORT with the two scenarios swapped */
+const SWAPPED_REPORT = {
+  executive_summary: 'Acetanilide leads the EGFR screen at the user\'s request.',
+  winner: { ...STRUCTURED_REPORT.rejected[0], rejection_reason: undefined },
+  selected: [],
+  rejected: [{ ...STRUCTURED_REPORT.winner, rejection_reason: 'Demoted by the user' }],
+};
+
+describe('POST /api/simulab/edit-report', () => {
+  let fake: FakeFetch;
+
+  beforeEach(() => {
+    fake = installFakeFetch();
+  });
+
+  it('applies the agent edit and summarizes what changed', async () => {
+    vi.stubEnv('AGENT_MODE', 'dev');
+    fake.agent(SIMULATOR, '/process_edit', { body: { updated_report: SWAPPED_REPORT, summary: 'Swapped winner' } });
+
+    const { status, body } = await callRoute(await importRoute(), 'edit-report', {
+      structuredReport: STRUCTURED_REPORT,
+      editInstruction: INSTRUCTION,
+      context: { taskId: 'task-1' },
+    });
+
+    expect(status).toBe(200);
+    expect(fake.targets()).toEqual([`${SIMULATOR} /process_edit`]);
+    expect(fake.calls[0].body).toMatchObject({ experiment_id: 'task-1', edit_instruction: INSTRUCTION });
+    expect(body._via).toBe('deployed_agent');
+    expect(normalize({ summary: body.summary, winner: body.updatedReport.winner.scenario_id })).toMatchSnapshot();
+  });
+
+  it('falls back to the LLM when the agent fails and traces the edit', async () => {
+    vi.stubEnv('AGENT_MODE', 'dev');
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    fake.agent(SIMULATOR, '/process_edit', { status: 503, body: { error: 'down' } });
+    fake.agent(SIMULATOR, '/trace/report_edit', { body: { success: true, trace_id: 'trace-1' } });
+    fake.llm(SWAPPED_REPORT, PROMPTS.edit);
+
+    const { status, body } = await callRoute(await importRoute(), 'edit-report', {
+      structuredReport: STRUCTURED_REPORT,
+      editInstruction: INSTRUCTION,
+    });
+
+    expect(status).toBe(200);
+    // The trace is sent without waiting for it
+    await vi.waitFor(() => expect(fake.targets()).toHaveLength(3));
+    expect(fake.targets()).toEqual([`${SIMULATOR} /process_edit`, 'openai', `${SIMULATOR} /trace/report_edit`]);
+    expect(fake.calls[2].body).toMatchObject({ edit_instruction: INSTRUCTION, prompt_version: 'edit@v1' });
+    expect(normalize({
+      summary: body.summary,
+      winner: body.updatedReport.winner.scenario_id,
+      prompt_version: body.prompt_version,
+      _via: body._via,
+      _agent_error: body._agent_error,
+    })).toMatchSnapshot();
+  });
+
+  it('reports that nothing can apply the edit without an agent or LLM', async () => {
+    const { status, body } = await callRoute(await importRoute(), 'edit-report', {
+      structuredReport: STRUCTURED_REPORT,
+      editInstruction: INSTRUCTION,
+    });
+
+    expect(status).toBe(200);
+    expect(fake.calls).toEqual([]);
+    expect(body.updatedReport).toBeNull();
+    expect(body.error).toMatch(/LLM not configured/);
+  });
+
+  it('rejects an empty instruction', async () => {
+    const { status, body } = await callRoute(await importRoute(), 'edit-report', { structuredReport: STRUCTURED_REPORT, editInstruction: '  ' });
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('Edit instruction is required');
+  });
+});
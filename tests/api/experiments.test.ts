@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { PATCH } from '@/app/api/simulab/experiments/[id]/route';
+import { appendExperimentUsage, createExperiment, getExperiment } from '@/lib/experiment-store';
+import type { UsageEntry } from '@/lib/usage-ledger';
+
+const ENTRY: UsageEntry = {
+  at: '2026-01-01T00:00:00.000Z',
+  stage: 'metrics',
+  source: 'llm',
+  label: 'metrics.molecule',
+  model: 'gpt-4o-mini',
+  prompt_tokens: 900,
+  completion_tokens: 300,
+  total_tokens: 1200,
+  cost_usd: 0.0003,
+};
+
+/** PATCH a raw body to the experiment route */
+async function patch(id: string, body: string) {
+  const request = new NextRequest(`http://localhost/api/simulab/experiments/${id}`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json' },
+    body,
+  });
+  const response = await PATCH(request, { params: Promise.resolve({ id }) });
+  return { status: response.status, body: await response.json() };
+}
+
+describe('PATCH /api/simulab/experiments/:id', () => {
+  it('merges fields but leaves the usage ledger alone', async () => {
+    const { id } = await createExperiment({ protein_target: 'EGFR', goal: 'Find a safe EGFR inhibitor' });
+    await appendExperimentUsage(id, [ENTRY]);
+
+    const { status, body } = await patch(id, JSON.stringify({ goal: 'Find a potent EGFR inhibitor', usage: [] }));
+
+    expect(status).toBe(200);
+    expect(body.experiment).toMatchObject({ protein_target: 'EGFR', goal: 'Find a potent EGFR inhibitor', usage: [ENTRY] });
+    expect((await getExperiment(id))?.usage).toEqual([ENTRY]);
+  });
+
+  it('rejects malformed JSON and non-object bodies', async () => {
+    const { id } = await createExperiment({ protein_target: 'EGFR' });
+
+    expect(await patch(id, '{"goal": ')).toEqual({ status: 400, body: { success: false, error: 'Expected a JSON object' } });
+    expect((await patch(id, '[1, 2]')).status).toBe(400);
+  });
+
+  it('reports unknown experiments', async () => {
+    const { status } = await patch('exp_0000000000000_missing', '{}');
+
+    expect(status).toBe(404);
+  });
+});
@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { installFakeFetch, type FakeFetch } from '../support/fake-fetch';
+import { agentMetrics, BCR_ABL_SCENARIOS, DECISION_CRITERIA, EGFR_SCENARIOS, llmMetrics, PROMPTS } from '../support/fixtures';
+import { callRoute, normalize } from '../support/routes';
+
+/** The route, imported after the test's env stubs so module-level settings see them */
+async function importRoute() {
+  vi.resetModules();
+  return (await import('@/app/api/simulab/generate-metrics/route')).POST;
+}
+
+const SIMULATOR = 'simulab-simulator';
+
+interface ScenarioResult {
+  scenario_id: string;
+  metrics: Record<string, unknown>;
+  is_winner: boolean;
+  rejection_reason?: string;
+  rank?: number | null;
+  reference_match?: { method?: string } | null;
+  provenance: Record<string, unknown>;
+  data_source: string;
+}
+
+function resultSummary(body: { results: ScenarioResult[]; failed: unknown[]; source: string; _via: string }) {
+  return normalize({
+    source: body.source,
+    _via: body._via,
+    failed: body.failed,
+    results: body.results.map(r => ({
+      scenario_id: r.scenario_id,
+      data_source: r.data_source,
+      is_winner: r.is_winner,
+      rank: r.rank,
+      rejection_reason: r.rejection_reason,
+      metrics: r.metrics,
+      reference_match: r.reference_match?.method ?? null,
+      provenance: r.provenance,
+    })),
+  });
+}
+
+describe('POST /api/simulab/generate-metrics', () => {
+  let fake: FakeFetch;
+
+  beforeEach(() => {
+    fake = installFakeFetch();
+  });
+
+  it('takes the agent metrics as reported, leaving unreported fields undefined', async () => {
+    vi.stubEnv('AGENT_MODE', 'dev');
+    fake.agent(SIMULATOR, '/evaluate_molecule', ({ smiles }) => ({
+      body: smiles === EGFR_SCENARIOS[0].smiles ? agentMetrics(-9.4, false, 2.7, 0.15) : agentMetrics(-8.1, true, 3.3),
+    }));
+
+    const { status, body } = await callRoute(await importRoute(), 'generate-metrics', {
+      scenarios: EGFR_SCENARIOS,
+      protein_target: 'EGFR',
+      decision_criteria: DECISION_CRITERIA,
+    });
+
+    expect(status).toBe(200);
+    expect(fake.targets()).toEqual([`${SIMULATOR} /evaluate_molecule`, `${SIMULATOR} /evaluate_molecule`]);
+    const [clean, blocker] = body.results as ScenarioResult[];
+    expect(blocker.metrics).toMatchObject({ admet: { herg_flag: true }, synthesis: { sa_score: 3.3 } });
+    expect((blocker.metrics.admet as Record<string, unknown>).toxicity_prob).toBeUndefined();
+    // Winners among agent results are the Judge's call
+    expect(clean.is_winner).toBe(false);
+    expect(resultSummary(body)).toMatchSnapshot();
+  });
+
+  it('falls back to the LLM when the agent fails and overrides reference matches with measured values', async () => {
+    vi.stubEnv('AGENT_MODE', 'dev');
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    fake.agent(SIMULATOR, '/evaluate_molecule', { status: 503, body: { error: 'down' } });
+    // The LLM calls the reference winner a potent hERG blocker; the database says otherwise
+    fake.llm(llmMetrics(-10.5, true, 2.2), PROMPTS.metrics);
+
+    const { status, body } = await callRoute(await importRoute(), 'generate-metrics', {
+      scenarios: [BCR_ABL_SCENARIOS[0]],
+      protein_target: 'BCR-ABL',
+      decision_criteria: DECISION_CRITERIA,
+    });
+
+    expect(status).toBe(200);
+    expect(fake.targets()).toEqual([`${SIMULATOR} /evaluate_molecule`, 'openai']);
+    const [result] = body.results as ScenarioResult[];
+    expect(result.data_source).toBe('llm_validated');
+    expect(result.metrics).toMatchObject({
+      docking: { binding_affinity_kcal_per_mol: -8.8 },
+      // The row measures hERG only; the LLM's toxicity estimate is kept
+      admet: { herg_flag: false, toxicity_prob: 0.7, toxicity_risk: 'HIGH' },
+      synthesis: { sa_score: 3.1 },
+    });
+    expect(resultSummary(body)).toMatchSnapshot();
+  });
+
+  it('keeps LLM metrics for unknown targets', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    fake.llm({ ...llmMetrics(-9.0, false, 2.9), toxicity_prob: 0 }, PROMPTS.metrics);
+
+    const { status, body } = await callRoute(await importRoute(), 'generate-metrics', {
+      scenarios: [{ ...EGFR_SCENARIOS[0], smiles: BCR_ABL_SCENARIOS[0].smiles }],
+      protein_target: 'EGFR',
+      decision_criteria: DECISION_CRITERIA,
+    });
+
+    expect(status).toBe(200);
+    expect(fake.targets()).toEqual(['openai']);
+    const [result] = body.results as ScenarioResult[];
+    expect(result.data_source).toBe('llm');
+    expect(result.reference_match).toBeNull();
+    expect(result.metrics).toMatchObject({ docking: { binding_affinity_kcal_per_mol: -9 }, admet: { toxicity_prob: 0 } });
+  });
+
+  it('computes metrics from local descriptors without an agent or LLM', async () => {
+    const { status, body } = await callRoute(await importRoute(), 'generate-metrics', {
+      scenarios: EGFR_SCENARIOS,
+      protein_target: 'EGFR',
+      decision_criteria: DECISION_CRITERIA,
+    });
+
+    expect(status).toBe(200);
+    expect(fake.calls).toEqual([]);
+    expect(body._via).toBe('local_descriptors');
+    expect(resultSummary(body)).toMatchSnapshot();
+  });
+
+  it('fails scenarios without a SMILES instead of asking the LLM when it is ruled out', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    const scenarios = [...EGFR_SCENARIOS.slice(0, 1), { scenario_id: 'scenario_3', scaffold: 'Quinazoline' }];
+
+    for (const [mode, reason] of [
+      [{ simulator_mode: 'local_descriptors' }, 'Local descriptor mode'],
+      [{ budget_usd: 0 }, 'Run budget exceeded'],
+    ] as const) {
+      const { status, body } = await callRoute(await importRoute(), 'generate-metrics', {
+        scenarios,
+        protein_target: 'EGFR',
+        decision_criteria: DECISION_CRITERIA,
+        ...mode,
+      });
+
+      expect(status).toBe(200);
+      expect(body.results.map((r: ScenarioResult) => [r.scenario_id, r.data_source])).toEqual([['scenario_1', 'local_descriptors']]);
+      expect(body.failed).toEqual([{
+        scenario_id: 'scenario_3',
+        smiles: '',
+        scaffold: 'Quinazoline',
+        error: `${reason}: no SMILES to compute local descriptors from`,
+      }]);
+    }
+    expect(fake.calls).toEqual([]);
+  });
+
+  it('rejects requests whose SMILES are all invalid before calling anything', async () => {
+    vi.stubEnv('AGENT_MODE', 'dev');
+    const { status, body } = await callRoute(await importRoute(), 'generate-metrics', {
+      scenarios: [{ scenario_id: 'scenario_1', scaffold: 'Broken', smiles: 'C1CC(' }],
+      protein_target: 'EGFR',
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('All scenarios have invalid SMILES');
+    expect(fake.calls).toEqual([]);
+  });
+});
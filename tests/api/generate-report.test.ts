@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { installFakeFetch, type FakeFetch } from '../support/fake-fetch';
+import { DECISION_CRITERIA, EGFR_METRICS, EGFR_SCENARIOS, PROMPTS } from '../support/fixtures';
+import { callRoute, normalize } from '../support/routes';
+
+/** The route, imported after the test's env stubs so module-level settings see them */
+async function importRoute() {
+  vi.resetModules();
+  return (await import('@/app/api/simulab/generate-report/route')).POST;
+}
+
+const REPORT_REQUEST = {
+  scenarios: EGFR_SCENARIOS,
+  scenarioMetrics: EGFR_METRICS,
+  winners: [{ scenario_id: 'scenario_1' }],
+  rejected: [{ scenario_id: 'scenario_2', veto_reason: 'Safety Veto (hERG cardiac toxicity flag)' }],
+  context: { protein_target: 'EGFR', goal: 'Find a safe EGFR inhibitor', constraints: ['No hERG liability'] },
+  decisionCriteria: DECISION_CRITERIA,
+};
+
+const LLM_REPORT = {
+  executive_summary: 'Quinoline is the only safe EGFR lead.',
+  target_protein: 'EGFR',
+  goal_achieved: true,
+  goal_summary: 'One lead found.',
+  scenarios: [
+    { scenario_id: 'scenario_1', pros: ['Clean hERG profile'], cons: ['Moderate potency'] },
+    { scenario_id: 'scenario_2', pros: ['Strong binder'] },
+  ],
+  comparative_analysis: 'Potency traded for safety.',
+  winner_justification: 'Only candidate without a veto.',
+  recommendations: ['Profile kinase selectivity'],
+  next_steps: ['Synthesize analogues'],
+};
+
+describe('POST /api/simulab/generate-report', () => {
+  let fake: FakeFetch;
+
+  beforeEach(() => {
+    fake = installFakeFetch();
+  });
+
+  it('merges the LLM narrative with the measured metrics', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    fake.llm(LLM_REPORT, PROMPTS.report);
+
+    const { status, body } = await callRoute(await importRoute(), 'generate-report', REPORT_REQUEST);
+
+    expect(status).toBe(200);
+    expect(fake.targets()).toEqual(['openai']);
+    expect(body.source).toBe('llm');
+    const [lead, blocker] = body.report.scenarios;
+    expect(lead.metrics.num_steps).toBe(4);
+    // No route length was reported for the blocker, and none is made up
+    expect(blocker.metrics).not.toHaveProperty('num_steps');
+    // Missing LLM cons are filled in from the metrics
+    expect(blocker.cons).toContain('hERG cardiac toxicity flag');
+    expect(normalize(body.report)).toMatchSnapshot();
+  });
+
+  it('uses the fallback report when the LLM call fails', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    fake.llmError(500, PROMPTS.report);
+
+    const { status, body } = await callRoute(await importRoute(), 'generate-report', REPORT_REQUEST);
+
+    expect(status).toBe(200);
+    expect(fake.targets()).toEqual(['openai']);
+    expect(body.source).toBe('fallback');
+    expect(body.error).toMatch(/^LLM error: .*500/);
+  });
+
+  it('builds the fallback report without an LLM', async () => {
+    const { status, body } = await callRoute(await importRoute(), 'generate-report', REPORT_REQUEST);
+
+    expect(status).toBe(200);
+    expect(fake.calls).toEqual([]);
+    expect(body.source).toBe('fallback');
+    expect(normalize(body.report)).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { installFakeFetch, type FakeFetch } from '../support/fake-fetch';
+import { DECISION_CRITERIA, EGFR_METRICS, EGFR_SCENARIOS } from '../support/fixtures';
+
+/** The runner and job store, imported after the test's env stubs so module-level settings see them */
+async function importPipeline() {
+  vi.resetModules();
+  const { runPipeline } = await import('@/app/api/simulab/pipeline/runner');
+  return { runPipeline, ...await import('@/lib/pipeline-store') };
+}
+
+describe('runPipeline', () => {
+  let fake: FakeFetch;
+
+  beforeEach(() => {
+    fake = installFakeFetch();
+  });
+
+  it('judges only the scenarios with metric results and records the others as failed', async () => {
+    const { runPipeline, createPipelineJob, getPipelineJob, updatePipelineJob } = await importPipeline();
+    const job = await createPipelineJob({
+      protein_target: 'EGFR',
+      decision_criteria: DECISION_CRITERIA,
+      design: { protein_target: 'EGFR', goal: 'Find a safe EGFR inhibitor', scenarios: EGFR_SCENARIOS },
+    });
+    // A metrics checkpoint that lost scenario_2
+    await updatePipelineJob(job.id, j => {
+      j.steps.metrics = { status: 'done', finished_at: new Date().toISOString() };
+      j.checkpoints.metrics = { results: [{ ...EGFR_SCENARIOS[0], metrics: EGFR_METRICS.scenario_1 }] };
+      j.checkpoints.winners = [EGFR_SCENARIOS[0]];
+      j.checkpoints.rejected = [];
+    });
+
+    await runPipeline(job.id);
+
+    const finished = await getPipelineJob(job.id);
+    expect(finished).toMatchObject({ status: 'completed', steps: { verdict: { status: 'done' }, report: { status: 'done' } } });
+    expect(fake.calls).toEqual([]);
+    expect(finished!.scenario_statuses).toMatchObject({ scenario_2: 'error' });
+    expect(finished!.checkpoints.rejected).toEqual([
+      { scenario_id: 'scenario_2', smiles: EGFR_SCENARIOS[1].smiles, scaffold: 'Acetanilide', veto_reason: 'Evaluation failed: no metric results' },
+    ]);
+    const verdict = finished!.checkpoints.verdict!.structured as { winner: { scenario_id: string } };
+    expect(verdict.winner.scenario_id).toBe('scenario_1');
+  });
+
+  it('fails the verdict step when no scenario has metric results', async () => {
+    const { runPipeline, createPipelineJob, getPipelineJob, updatePipelineJob } = await importPipeline();
+    const job = await createPipelineJob({
+      protein_target: 'EGFR',
+      design: { protein_target: 'EGFR', scenarios: EGFR_SCENARIOS },
+    });
+    await updatePipelineJob(job.id, j => {
+      j.steps.metrics = { status: 'done', finished_at: new Date().toISOString() };
+      j.checkpoints.metrics = { results: [], failed: [] };
+    });
+
+    await runPipeline(job.id);
+
+    expect(await getPipelineJob(job.id)).toMatchObject({
+      status: 'failed',
+      error: 'No scenario has metric results to judge',
+      steps: { verdict: { status: 'failed' } },
+    });
+  });
+});
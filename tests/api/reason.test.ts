@@ -0,0 +1,168 @@
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { installFakeFetch, type FakeFetch } from '../support/fake-fetch';
+import { BCR_ABL_SCENARIOS, DECISION_CRITERIA, EGFR_METRICS, EGFR_SCENARIOS, HERG_WINNER_VERDICT, PROMPTS } from '../support/fixtures';
+import { callRoute, normalize, type RouteResponse } from '../support/routes';
+
+/** The route, imported after the test's env stubs so module-level settings see them */
+async function importRoute() {
+  vi.resetModules();
+  return (await import('@/app/api/simulab/reason/route')).POST;
+}
+
+const JUDGE = 'simulab-judge';
+
+const EGFR_REQUEST = {
+  scenarios: EGFR_SCENARIOS,
+  scenarioMetrics: EGFR_METRICS,
+  context: { protein_target: 'EGFR', goal: 'Find a safe EGFR inhibitor' },
+  decisionCriteria: DECISION_CRITERIA,
+};
+
+/** Ids per bucket, and what the route says about how it got there */
+function verdictSummary(body: RouteResponse['body']) {
+  const ids = (list: Array<{ scenario_id: string }> = []) => list.map(s => s.scenario_id);
+  return normalize({
+    winner: body.structured.winner?.scenario_id ?? null,
+    selected: ids(body.structured.selected),
+    rejected: ids(body.structured.rejected),
+    data_source: body.data_source,
+    confidence: body.confidence,
+    validation_notes: body.validation_notes,
+    _via: body._via,
+  });
+}
+
+describe('POST /api/simulab/reason', () => {
+  let fake: FakeFetch;
+
+  beforeEach(() => {
+    fake = installFakeFetch();
+  });
+
+  it('post-checks the agent verdict against the scoring engine vetoes', async () => {
+    vi.stubEnv('AGENT_MODE', 'dev');
+    fake.agent(JUDGE, '/generate_verdict', {
+      body: {
+        verdict: HERG_WINNER_VERDICT,
+        executive_summary: 'Acetanilide wins on potency.',
+        comparative_analysis: 'Acetanilide binds tighter.',
+      },
+    });
+
+    const { status, body } = await callRoute(await importRoute(), 'reason', EGFR_REQUEST);
+
+    expect(status).toBe(200);
+    expect(fake.targets()).toEqual([`${JUDGE} /start_verdict`, `${JUDGE} /generate_verdict`]);
+    const sent = fake.calls[1].body as { scenarios: Array<{ scenario_id: string; num_steps?: number }> };
+    expect(sent.scenarios.map(s => s.num_steps)).toEqual([4, undefined]);
+    expect(body.structured.winner.scenario_id).toBe('scenario_1');
+    expect(body.data_source).toBe('agent_validated');
+    expect(verdictSummary(body)).toMatchSnapshot();
+  });
+
+  it('re-ranks the agent verdict with the scoring engine and annotates its candidates', async () => {
+    vi.stubEnv('AGENT_MODE', 'dev');
+    fake.agent(JUDGE, '/generate_verdict', {
+      body: { verdict: HERG_WINNER_VERDICT, executive_summary: 'Acetanilide wins.', comparative_analysis: 'Acetanilide binds tighter.' },
+    });
+
+    // With the hERG veto off the blocker passes, but scores lowest on safety
+    const { status, body } = await callRoute(await importRoute(), 'reason', {
+      ...EGFR_REQUEST,
+      decisionCriteria: { ...DECISION_CRITERIA, admet: { hardFailHERG: false } },
+    });
+
+    expect(status).toBe(200);
+    const sent = fake.calls[1].body as { scenarios: Array<{ toxicity_prob?: number }> };
+    expect(sent.scenarios.map(s => s.toxicity_prob)).toEqual([0.12, 0.71]);
+    const { winner, selected } = body.structured;
+    expect(winner).toMatchObject({ scenario_id: 'scenario_1', rank: 1, desirability: { safety: 1 } });
+    expect(winner.rationale).toMatch(/^Ranked above scenario_2 by the scoring engine/);
+    expect(selected).toMatchObject([{ scenario_id: 'scenario_2', rank: 2, reason: 'Strongest binder' }]);
+    expect(selected[0].score).toBeLessThan(winner.score);
+    expect(body.validation_notes).toEqual(['Winner changed to scenario_1: ranked above scenario_2 by the scoring engine']);
+  });
+
+  it('post-checks the LLM verdict the same way when no reference row matches', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    fake.llm({ executive_summary: 'Acetanilide wins on potency.', ...HERG_WINNER_VERDICT }, PROMPTS.verdict);
+
+    const { status, body } = await callRoute(await importRoute(), 'reason', EGFR_REQUEST);
+
+    expect(status).toBe(200);
+    expect(fake.targets()).toEqual(['openai']);
+    expect(body.structured.winner.scenario_id).toBe('scenario_1');
+    expect(body.data_source).toBe('llm_validated');
+    expect(verdictSummary(body)).toMatchSnapshot();
+  });
+
+  it('falls back to the LLM when the agent fails and overrides its verdict with reference outcomes', async () => {
+    vi.stubEnv('AGENT_MODE', 'dev');
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    fake.agent(JUDGE, '/start_verdict', { status: 503, body: { error: 'down' } });
+    fake.agent(JUDGE, '/generate_verdict', { status: 503, body: { error: 'down' } });
+    // The LLM prefers the reference reject
+    fake.llm({
+      executive_summary: 'Pyrrolo-pyrimidine wins.',
+      winner: { scenario_id: 'scenario_2' },
+      selected: [{ scenario_id: 'scenario_1' }],
+      rejected: [],
+    }, PROMPTS.verdict);
+
+    const { status, body } = await callRoute(await importRoute(), 'reason', {
+      scenarios: BCR_ABL_SCENARIOS,
+      scenarioMetrics: {
+        scenario_1: { docking: { binding_affinity_kcal_per_mol: -8.8 }, admet: { herg_flag: false }, synthesis: { sa_score: 3.1 } },
+        scenario_2: { docking: { binding_affinity_kcal_per_mol: -11.5 }, admet: { herg_flag: true }, synthesis: { sa_score: 4.5 } },
+      },
+      context: { protein_target: 'BCR-ABL' },
+      decisionCriteria: DECISION_CRITERIA,
+    });
+
+    expect(status).toBe(200);
+    expect(fake.targets()).toEqual([`${JUDGE} /start_verdict`, `${JUDGE} /generate_verdict`, 'openai']);
+    expect(body.structured.winner.scenario_id).toBe('scenario_1');
+    expect(verdictSummary(body)).toMatchSnapshot();
+  });
+
+  it('ranks with the scoring engine without an agent or LLM', async () => {
+    const { status, body } = await callRoute(await importRoute(), 'reason', EGFR_REQUEST);
+
+    expect(status).toBe(200);
+    expect(fake.calls).toEqual([]);
+    expect(body.data_source).toBe('heuristic');
+    expect(verdictSummary(body)).toMatchSnapshot();
+  });
+
+  it('fills values a matched reference row lacks from the scenario metrics', async () => {
+    const file = path.join(process.env.SIMULAB_DATA_DIR!, 'reference.json');
+    writeFileSync(file, JSON.stringify([
+      { scenario_id: 'ref_1', protein_target: 'BCR-ABL', scaffold_hypothesis: 'Pyrazolo-pyridine', smiles: BCR_ABL_SCENARIOS[0].smiles, reference_herg_flag: false },
+    ]));
+    vi.stubEnv('SIMULAB_REFERENCE_FILE', file);
+    vi.stubEnv('SIMULAB_REFERENCE_SOURCES', 'local_file');
+
+    const { status, body } = await callRoute(await importRoute(), 'reason', {
+      scenarios: BCR_ABL_SCENARIOS.slice(0, 1),
+      scenarioMetrics: { scenario_1: { admet: { toxicity_risk: 'MED', toxicity_prob: 0.2, herg_flag: true }, synthesis: { sa_score: 6.5 } } },
+      context: { protein_target: 'BCR-ABL' },
+      decisionCriteria: DECISION_CRITERIA,
+    });
+
+    expect(status).toBe(200);
+    expect(body.structured.winner).toBeNull();
+    const [rejected] = body.structured.rejected;
+    expect(rejected).toMatchObject({ scenario_id: 'scenario_1', herg_flag: false, toxicity_risk: 'MED', sa_score: 6.5 });
+    expect(rejected.binding_affinity).toBeUndefined();
+    expect(rejected.rejection_reason).toBe('Cost Veto (SA Score 6.5 > 6)');
+  });
+
+  it('rejects requests without scenarios', async () => {
+    const { status, body } = await callRoute(await importRoute(), 'reason', { scenarios: [] });
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('No scenarios to judge');
+  });
+});
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { installFakeFetch, type FakeFetch } from '../support/fake-fetch';
+import { PROMPTS } from '../support/fixtures';
+import { callRoute, normalize } from '../support/routes';
+
+/** The route, imported after the test's env stubs so module-level settings see them */
+async function importRoute() {
+  vi.resetModules();
+  return (await import('@/app/api/simulab/refine/route')).POST;
+}
+
+const ORCHESTRATOR = 'simulab-orchestrator';
+
+const AGENT_DESIGN = {
+  goal: 'Find a selective BCR-ABL inhibitor',
+  protein_target: 'BCR-ABL',
+  constraints: ['No hERG liability'],
+  scenarios: [{ scenario_id: 'scenario_1', scaffold: 'Imidazo-pyridine', smiles: 'c1ccn2ccnc2c1', rationale: 'Hinge binder' }],
+};
+
+const LLM_DESIGN = {
+  goal: 'Find a potent EGFR inhibitor',
+  constraints: ['Oral dosing'],
+  scenarios: [
+    { scaffold: 'Quinoline', smiles: 'c1ccc2ncccc2c1', rationale: 'Flat hinge binder' },
+    { scaffold: 'Broken ring', smiles: 'C1CC(', rationale: 'Unparseable' },
+  ],
+};
+
+function designSummary(body: Record<string, unknown>) {
+  const { goal, constraints, protein_target, scenarios, model_used, data_source, confidence, notice, invalid_scenarios, prompt_version } = body;
+  return normalize({ goal, constraints, protein_target, scenarios, model_used, data_source, confidence, notice, invalid_scenarios, prompt_version });
+}
+
+describe('POST /api/simulab/refine', () => {
+  let fake: FakeFetch;
+
+  beforeEach(() => {
+    fake = installFakeFetch();
+  });
+
+  it('replaces the agent design with database scenarios for a known target', async () => {
+    vi.stubEnv('AGENT_MODE', 'dev');
+    fake.agent(ORCHESTRATOR, '/design_experiment', { body: AGENT_DESIGN });
+
+    const { status, body } = await callRoute(await importRoute(), 'refine', { prompt: 'Design BCR-ABL inhibitors' });
+
+    expect(status).toBe(200);
+    // No async job endpoint answers, so the client falls back to the synchronous call
+    expect(fake.targets()).toEqual([`${ORCHESTRATOR} /start_design`, `${ORCHESTRATOR} /design_experiment`]);
+    expect(body.model_used).toBe('agent+database');
+    expect(body.scenarios.map((s: { smiles: string }) => s.smiles)).not.toContain('c1ccn2ccnc2c1');
+    expect(designSummary(body)).toMatchSnapshot();
+  });
+
+  it('falls back to LLM scenarios when the agent fails, dropping invalid SMILES', async () => {
+    vi.stubEnv('AGENT_MODE', 'dev');
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    fake.agent(ORCHESTRATOR, '/start_design', { status: 503, body: { error: 'down' } });
+    fake.agent(ORCHESTRATOR, '/design_experiment', { status: 503, body: { error: 'down' } });
+    fake.llm(LLM_DESIGN, PROMPTS.refineScenarios);
+
+    const { status, body } = await callRoute(await importRoute(), 'refine', { prompt: 'Design EGFR inhibitors' });
+
+    expect(status).toBe(200);
+    expect(fake.targets()).toEqual([`${ORCHESTRATOR} /start_design`, `${ORCHESTRATOR} /design_experiment`, 'openai']);
+    expect(body.data_source).toBe('llm');
+    expect(body.scenarios).toHaveLength(1);
+    expect(designSummary(body)).toMatchSnapshot();
+  });
+
+  it('refines only the goal with the LLM when the database knows the target', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    fake.llm({ goal: 'Identify a BCR-ABL lead without cardiac risk', constraints: ['Avoid hERG'] }, PROMPTS.refineGoal);
+
+    const { status, body } = await callRoute(await importRoute(), 'refine', { prompt: 'Design BCR-ABL inhibitors', constraints: 'Avoid hERG' });
+
+    expect(status).toBe(200);
+    expect(fake.targets()).toEqual(['openai']);
+    expect(designSummary(body)).toMatchSnapshot();
+  });
+
+  it('uses the database scenarios and the prompt as the goal without an agent or LLM', async () => {
+    const { status, body } = await callRoute(await importRoute(), 'refine', { prompt: 'Design T-Kinase inhibitors', constraints: 'Oral; low cost' });
+
+    expect(status).toBe(200);
+    expect(fake.calls).toEqual([]);
+    expect(designSummary(body)).toMatchSnapshot();
+  });
+
+  it('fails without an LLM when the database has no scenarios for the target', async () => {
+    const { status, body } = await callRoute(await importRoute(), 'refine', { prompt: 'Design EGFR inhibitors' });
+
+    expect(status).toBe(500);
+    expect(body.error).toMatch(/not configured/);
+    expect(fake.calls).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const JUDGE = 'simulab-judge';
+// Retry without waiting
+const FAST = { retries: 2, backoffMs: 1, maxBackoffMs: 1 };
+
+/** The transport, imported after the test's env stubs so the breaker settings see them */
+async function importTransport() {
+  vi.resetModules();
+  return import('@/lib/agent-transport');
+}
+
+/** fetch stub answering with the given statuses (or errors) in turn */
+function stubFetch(...replies: Array<number | Error>) {
+  const fetch = vi.fn(async () => {
+    const reply = replies.length > 1 ? replies.shift()! : replies[0];
+    if (reply instanceof Error) throw reply;
+    return new Response(JSON.stringify({ status: reply }), { status: reply });
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('agentFetch retries', () => {
+  it('retries retryable statuses until the agent answers', async () => {
+    const { agentFetch } = await importTransport();
+    const fetch = stubFetch(503, 429, 200);
+
+    const result = await agentFetch(JUDGE, 'http://judge/generate_verdict', { method: 'POST' }, { policy: FAST });
+
+    expect(result.ok).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns other client errors at once without counting a failure', async () => {
+    const { agentFetch, getCircuitState } = await importTransport();
+    const fetch = stubFetch(422);
+
+    const result = await agentFetch(JUDGE, 'http://judge/generate_verdict', { method: 'POST' }, { policy: FAST });
+
+    expect(result).toMatchObject({ ok: false, error: 'Agent error: 422', status: 422 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(getCircuitState(JUDGE).failures).toBe(0);
+  });
+
+  it('reports the last failure once retries run out', async () => {
+    const { agentFetch } = await importTransport();
+    const fetch = stubFetch(new TypeError('fetch failed'));
+
+    const result = await agentFetch(JUDGE, 'http://judge/generate_verdict', { method: 'POST' }, { policy: FAST });
+
+    expect(result).toMatchObject({ ok: false, error: 'fetch failed' });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('times out an attempt that does not answer', async () => {
+    const { agentFetch } = await importTransport();
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    })));
+
+    const result = await agentFetch(JUDGE, 'http://judge/generate_verdict', {}, { policy: { retries: 0, timeoutMs: 10 } });
+
+    expect(result).toMatchObject({ ok: false, error: 'Timed out after 10 ms' });
+  });
+
+  it('times out an agent that stalls after the headers', async () => {
+    const { agentFetch } = await importTransport();
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => new Response(new ReadableStream({
+      start(stream) {
+        stream.enqueue(new TextEncoder().encode('{"verdict":'));
+        init.signal!.addEventListener('abort', () => stream.error(new DOMException('aborted', 'AbortError')));
+      },
+    }))));
+
+    const result = await agentFetch(JUDGE, 'http://judge/generate_verdict', {}, { policy: { retries: 0, timeoutMs: 10 } });
+
+    expect(result).toMatchObject({ ok: false, error: 'Timed out after 10 ms' });
+  });
+
+  it('retries a non-idempotent call only when it could not connect', async () => {
+    const { agentFetch } = await importTransport();
+    const refused = new TypeError('fetch failed', { cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }) });
+    const start = () => agentFetch(JUDGE, 'http://judge/start_verdict', { method: 'POST' }, { policy: FAST, idempotent: false });
+
+    let fetch = stubFetch(503, 200);
+    expect(await start()).toMatchObject({ ok: false, status: 503 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    fetch = stubFetch(new TypeError('fetch failed'), 200);
+    expect(await start()).toMatchObject({ ok: false, error: 'fetch failed' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    fetch = stubFetch(refused, 200);
+    expect((await start()).ok).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when the caller cancels', async () => {
+    const { agentFetch } = await importTransport();
+    const fetch = stubFetch(503);
+    const controller = new AbortController();
+
+    const pending = agentFetch(JUDGE, 'http://judge/generate_verdict', {}, {
+      signal: controller.signal,
+      policy: { retries: 2, backoffMs: 60_000, maxBackoffMs: 60_000 },
+    });
+    // Cancel during the backoff after the first 503
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    expect(await pending).toEqual({ ok: false, error: 'Request cancelled', aborted: true });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('agentFetch circuit breaker', () => {
+  it('opens after consecutive failures, fails fast, then lets one probe through after the cooldown', async () => {
+    vi.stubEnv('SIMULAB_AGENT_BREAKER_THRESHOLD', '2');
+    vi.stubEnv('SIMULAB_AGENT_BREAKER_COOLDOWN_MS', '30000');
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-01-01T00:00:00Z') });
+    const { agentFetch, getCircuitState, isAgentAvailable } = await importTransport();
+    const fetch = stubFetch(503, 503, 200);
+    const call = () => agentFetch(JUDGE, 'http://judge/generate_verdict', {}, { policy: { retries: 0 } });
+
+    await call();
+    expect(getCircuitState(JUDGE)).toEqual({ status: 'closed', failures: 1, retry_at: null });
+    await call();
+    expect(getCircuitState(JUDGE)).toEqual({ status: 'open', failures: 2, retry_at: '2026-01-01T00:00:30.000Z' });
+    expect(isAgentAvailable(JUDGE)).toBe(false);
+
+    expect(await call()).toMatchObject({ ok: false, circuitOpen: true });
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:30Z'));
+    expect(getCircuitState(JUDGE).status).toBe('half_open');
+    expect((await call()).ok).toBe(true);
+    expect(getCircuitState(JUDGE)).toEqual({ status: 'closed', failures: 0, retry_at: null });
+  });
+
+  it('keeps other agents available while one circuit is open', async () => {
+    vi.stubEnv('SIMULAB_AGENT_BREAKER_THRESHOLD', '1');
+    const { agentFetch, isAgentAvailable, resetCircuits } = await importTransport();
+    stubFetch(503);
+
+    await agentFetch(JUDGE, 'http://judge/generate_verdict', {}, { policy: { retries: 0 } });
+
+    expect(isAgentAvailable(JUDGE)).toBe(false);
+    expect(isAgentAvailable('simulab-simulator')).toBe(true);
+    resetCircuits();
+    expect(isAgentAvailable(JUDGE)).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { descriptorsFromSmiles, estimateLocalMetrics } from '@/lib/descriptors';
+
+describe('descriptorsFromSmiles', () => {
+  it('computes composition, polarity and ring counts', () => {
+    expect(descriptorsFromSmiles('CCO')).toMatchObject({
+      formula: 'C2H6O',
+      molecular_weight: 46.07,
+      heavy_atoms: 3,
+      tpsa: 20.23,
+      hbd: 1,
+      hba: 1,
+      ring_count: 0,
+      fraction_csp3: 1,
+    });
+    expect(descriptorsFromSmiles('Cc1ccccc1')).toMatchObject({
+      formula: 'C7H8',
+      molecular_weight: 92.14,
+      ring_count: 1,
+      aromatic_ring_count: 1,
+      rotatable_bonds: 0,
+    });
+  });
+
+  it('describes Kekulé and aromatic spellings the same way', () => {
+    expect(descriptorsFromSmiles('CC1=CC=CC=C1')).toEqual(descriptorsFromSmiles('Cc1ccccc1'));
+
+    const imatinib = descriptorsFromSmiles('Cc1ccc(NC(=O)c2ccc(CN3CCN(C)CC3)cc2)cc1Nc1nccc(-c2cccnc2)n1');
+    expect(imatinib).toMatchObject({ formula: 'C29H31N7O', aromatic_ring_count: 4 });
+    expect(descriptorsFromSmiles('CC1=C(C=C(C=C1)NC(=O)C2=CC=C(C=C2)CN3CCN(CC3)C)NC4=NC=CC(=N4)C5=CN=CC=C5')).toEqual(imatinib);
+  });
+
+  it('returns null for unparsable SMILES', () => {
+    expect(descriptorsFromSmiles('C1CC')).toBeNull();
+  });
+});
+
+describe('estimateLocalMetrics', () => {
+  it('derives docking, ADMET and synthesis estimates from the descriptors', () => {
+    expect(estimateLocalMetrics(descriptorsFromSmiles('CC(=O)Nc1ccc(O)cc1')!)).toEqual({
+      docking: { binding_affinity_kcal_per_mol: -5.93, potency_pass: false },
+      admet: { toxicity_risk: 'LOW', toxicity_prob: 0.3, herg_flag: false, is_safe: true },
+      synthesis: { sa_score: 1.38, num_steps: 3, estimated_cost_usd: 1114 },
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTER_MODES, evaluateFilters, resolveFilterModes, runFilters } from '@/lib/filters';
+import { parseSmiles } from '@/lib/smiles';
+
+function failed(smiles: string): Record<string, string[]> {
+  const results = runFilters(parseSmiles(smiles).molecule!);
+  return Object.fromEntries(results.filter(r => !r.passed).map(r => [r.filter, r.violations]));
+}
+
+describe('runFilters', () => {
+  it('passes a small drug-like molecule on the rule filters', () => {
+    expect(failed('CC(=O)Nc1ccc(O)cc1')).toEqual({ ghose: ['MW 151.16 outside 160–480'] });
+  });
+
+  it('flags PAINS and Brenk alerts', () => {
+    expect(failed('Oc1ccccc1O')).toMatchObject({ pains: ['catechol'] });
+    expect(failed('O=[N+]([O-])c1ccccc1')).toMatchObject({ brenk: ['nitro'] });
+  });
+
+  it('matches alerts written aromatic against Kekulé input', () => {
+    expect(failed('OC1=CC=CC=C1O')).toMatchObject({ pains: ['catechol'] });
+  });
+});
+
+describe('resolveFilterModes', () => {
+  it('keeps defaults for missing or unknown modes', () => {
+    expect(resolveFilterModes({ brenk: 'hard', pains: 'sometimes' as never })).toEqual({ ...DEFAULT_FILTER_MODES, brenk: 'hard' });
+  });
+});
+
+describe('evaluateFilters', () => {
+  it('reports failed filters with their mode and skips those turned off', () => {
+    const modes = resolveFilterModes({ pains: 'hard', ghose: 'off' });
+
+    expect(evaluateFilters('Oc1ccccc1O', modes)).toEqual([
+      { filter: 'pains', label: 'PAINS', mode: 'hard', message: 'PAINS: catechol' },
+    ]);
+    expect(evaluateFilters('Oc1ccccc1O', { ...modes, pains: 'off' })).toEqual([]);
+  });
+
+  it('yields nothing for missing or unparsable SMILES', () => {
+    expect(evaluateFilters(undefined, DEFAULT_FILTER_MODES)).toEqual([]);
+    expect(evaluateFilters('C1CC', DEFAULT_FILTER_MODES)).toEqual([]);
+  });
+});
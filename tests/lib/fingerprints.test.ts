@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FINGERPRINT_BITS, fingerprintFromSmiles, tanimoto } from '@/lib/fingerprints';
+
+const PARACETAMOL = 'CC(=O)Nc1ccc(O)cc1';
+
+describe('fingerprintFromSmiles', () => {
+  it('folds into the default bit count and is independent of atom order', () => {
+    const a = fingerprintFromSmiles(PARACETAMOL)!;
+    const b = fingerprintFromSmiles('Oc1ccc(NC(C)=O)cc1')!;
+
+    expect(a.bits).toBe(DEFAULT_FINGERPRINT_BITS);
+    expect(tanimoto(a, b)).toBe(1);
+  });
+
+  it('returns null for unparsable SMILES', () => {
+    expect(fingerprintFromSmiles('C1CC')).toBeNull();
+  });
+});
+
+describe('tanimoto', () => {
+  it('scores close analogues above unrelated molecules', () => {
+    const query = fingerprintFromSmiles(PARACETAMOL)!;
+    const analogue = tanimoto(query, fingerprintFromSmiles('CC(=O)Nc1ccccc1')!);
+    const unrelated = tanimoto(query, fingerprintFromSmiles('CCCCCC')!);
+
+    expect(analogue).toBeGreaterThan(0.5);
+    expect(analogue).toBeLessThan(1);
+    expect(unrelated).toBeLessThan(0.2);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { molBlockToSmiles, parseSdf, writeMolBlock, writeSdfRecord } from '@/lib/molfile';
+import { canonicalizeSmiles, parseSmiles } from '@/lib/smiles';
+
+const molecule = (smiles: string) => parseSmiles(smiles).molecule!;
+
+// Methanol drawn with all four hydrogens explicit
+const METHANOL = [
+  'methanol',
+  '  test',
+  '',
+  '  6  5  0  0  0  0  0  0  0  0999 V2000',
+  '    0.0000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0',
+  '    0.0000    0.0000    0.0000 O   0  0  0  0  0  0  0  0  0  0  0  0',
+  '    0.0000    0.0000    0.0000 H   0  0  0  0  0  0  0  0  0  0  0  0',
+  '    0.0000    0.0000    0.0000 H   0  0  0  0  0  0  0  0  0  0  0  0',
+  '    0.0000    0.0000    0.0000 H   0  0  0  0  0  0  0  0  0  0  0  0',
+  '    0.0000    0.0000    0.0000 H   0  0  0  0  0  0  0  0  0  0  0  0',
+  '  1  2  1  0',
+  '  1  3  1  0',
+  '  1  4  1  0',
+  '  1  5  1  0',
+  '  2  6  1  0',
+  'M  END',
+].join('\n');
+
+describe('molBlockToSmiles', () => {
+  it('round-trips molecules written by writeMolBlock', () => {
+    for (const smiles of ['CC(=O)Nc1ccc(O)cc1', 'C[N+](C)(C)C', '[13CH3]O', 'c1ccncc1']) {
+      const { smiles: read, errors } = molBlockToSmiles(writeMolBlock(molecule(smiles), 'x'));
+
+      expect(errors).toEqual([]);
+      expect(read).toBe(canonicalizeSmiles(smiles));
+    }
+  });
+
+  it('folds explicit hydrogens into their heavy atom', () => {
+    expect(molBlockToSmiles(METHANOL)).toEqual({ smiles: 'CO', title: 'methanol', errors: [] });
+  });
+
+  it('reports unsupported and malformed blocks', () => {
+    expect(molBlockToSmiles('x\n\n\n  0  0  0  0  0  0  0  0  0  0999 V3000\n').errors).toEqual(['V3000 molblocks are not supported']);
+    expect(molBlockToSmiles('x\n\n\n  3  2\n').errors).toEqual(['Malformed counts line']);
+    expect(molBlockToSmiles(METHANOL.replace('  1  2  1  0', '  1  2  8  0')).errors).toEqual([
+      'Bond 1: query bond type 8 is not supported',
+    ]);
+  });
+});
+
+describe('parseSdf', () => {
+  it('splits records and reads their data items', () => {
+    const sdf = writeSdfRecord(molecule('CCO'), 'ethanol', { ID: 'ref-1', NOTES: 'two\nlines' })
+      + writeSdfRecord(molecule('c1ccccc1'), 'benzene', { ID: 'ref-2' });
+
+    expect(parseSdf(sdf)).toEqual([
+      { title: 'ethanol', smiles: 'CCO', fields: { ID: 'ref-1', NOTES: 'two\nlines' }, errors: [] },
+      { title: 'benzene', smiles: 'c1ccccc1', fields: { ID: 'ref-2' }, errors: [] },
+    ]);
+  });
+
+  it('keeps records without M  END as errors', () => {
+    expect(parseSdf('broken\nno block here\n$$$$\n')).toEqual([
+      { title: 'broken', smiles: null, fields: {}, errors: ['Missing M  END'] },
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { formatRejectionReason, resolveCriteria, scoreCandidates, type ScoringCandidate } from '@/lib/scoring';
+
+const CANDIDATES: ScoringCandidate[] = [
+  { scenario_id: 'strong', binding_affinity: -11.2, herg_flag: false, sa_score: 4.8, toxicity_prob: 0.25 },
+  { scenario_id: 'balanced', binding_affinity: -9.1, herg_flag: false, sa_score: 2.4, toxicity_prob: 0.1 },
+  { scenario_id: 'herg', binding_affinity: -12.0, herg_flag: true, sa_score: 2.0 },
+  { scenario_id: 'weak', binding_affinity: -6.2, herg_flag: false, sa_score: 2.0 },
+  { scenario_id: 'long_route', binding_affinity: -9.5, herg_flag: false, sa_score: 3.0, num_steps: 9 },
+];
+
+describe('resolveCriteria', () => {
+  it('fills defaults and orders ideal ranges', () => {
+    const resolved = resolveCriteria({ docking: { idealMin: -8, idealMax: -12 }, scoring: { priority: ['cost'] } });
+
+    expect(resolved).toMatchObject({
+      potencyThreshold: -7,
+      hergVeto: true,
+      saThreshold: 6,
+      stepsThreshold: 7,
+      idealPotency: { min: -12, max: -8 },
+      strategy: 'desirability',
+      priority: ['cost', 'potency', 'safety', 'synthesis'],
+    });
+  });
+});
+
+describe('scoreCandidates', () => {
+  it('vetoes hard fails with every reason and ranks the rest', () => {
+    const result = scoreCandidates(CANDIDATES);
+
+    expect(result.passing.map(s => [s.candidate.scenario_id, s.rank])).toEqual([
+      ['balanced', 1],
+      ['strong', 2],
+    ]);
+    expect(result.winner?.candidate.scenario_id).toBe('balanced');
+    expect(Object.fromEntries(result.rejected.map(s => [s.candidate.scenario_id, formatRejectionReason(s.vetoes)]))).toEqual({
+      herg: 'Safety Veto (hERG cardiac toxicity flag)',
+      weak: 'Potency Fail (ΔG -6.2 > -7 kcal/mol)',
+      long_route: 'Route Veto (9 synthesis steps > 7)',
+    });
+    expect(result.rejected.every(s => s.rank === null)).toBe(true);
+  });
+
+  it('honours criteria that relax a veto', () => {
+    const result = scoreCandidates(CANDIDATES, { admet: { hardFailHERG: false }, synthesis: { hardFailSteps: 10 } });
+
+    expect(result.passing.map(s => s.candidate.scenario_id)).toEqual(expect.arrayContaining(['herg', 'long_route']));
+    expect(result.rejected.map(s => s.candidate.scenario_id)).toEqual(['weak']);
+  });
+
+  it('never vetoes an unreported metric but scores it 0', () => {
+    const result = scoreCandidates([{ scenario_id: 'unmeasured', herg_flag: false, sa_score: 2.4 }]);
+
+    expect(result.rejected).toEqual([]);
+    expect(result.passing[0].objectives).toMatchObject({ potency: 0, synthesis: 1 });
+  });
+
+  it('ranks by the first priority under the lexicographic strategy', () => {
+    const result = scoreCandidates(CANDIDATES, {
+      docking: { idealMin: -12, idealMax: -10 },
+      scoring: { strategy: 'lexicographic', priority: ['potency'] },
+    });
+
+    expect(result.strategy).toBe('lexicographic');
+    expect(result.winner?.candidate.scenario_id).toBe('strong');
+  });
+
+  it('assigns Pareto fronts under the pareto strategy', () => {
+    const result = scoreCandidates(CANDIDATES, undefined, 'pareto');
+
+    // 'balanced' is as potent and safe as 'strong' and easier to make
+    expect(result.passing.map(s => [s.candidate.scenario_id, s.front])).toEqual([['balanced', 1], ['strong', 2]]);
+    expect(result.passing[0].explanation).toMatch(/^Pareto front 1; tie-break weighted sum/);
+  });
+
+  it('has no winner when every candidate is vetoed', () => {
+    const result = scoreCandidates([CANDIDATES[2], CANDIDATES[3]]);
+
+    expect(result.winner).toBeNull();
+    expect(result.passing).toEqual([]);
+  });
+});
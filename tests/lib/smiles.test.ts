@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canonicalizeSmiles,
+  formatSmilesError,
+  parseSmiles,
+  partitionBySmiles,
+  perceiveAromaticity,
+  tokenizeSmiles,
+  validateSmiles,
+  writeCanonicalSmiles,
+} from '@/lib/smiles';
+
+describe('tokenizeSmiles', () => {
+  it('splits atoms, bonds, branches and ring closures', () => {
+    const { tokens, errors } = tokenizeSmiles('C1=CC(Cl)=CC=C1[NH3+]');
+
+    expect(errors).toEqual([]);
+    expect(tokens.map(t => `${t.type}:${t.text}`)).toEqual([
+      'atom:C', 'ring:1', 'bond:=', 'atom:C', 'atom:C', 'branch_open:(', 'atom:Cl', 'branch_close:)',
+      'bond:=', 'atom:C', 'atom:C', 'bond:=', 'atom:C', 'ring:1', 'atom:[NH3+]',
+    ]);
+  });
+});
+
+describe('parseSmiles', () => {
+  it('fills in implicit hydrogens and keeps bracket atom properties', () => {
+    const { molecule, errors } = parseSmiles('C[13CH2][NH3+]');
+
+    expect(errors).toEqual([]);
+    expect(molecule!.atoms.map(a => [a.symbol, a.hydrogens, a.isotope, a.charge])).toEqual([
+      ['C', 3, null, 0],
+      ['C', 2, 13, 0],
+      ['N', 3, null, 1],
+    ]);
+  });
+
+  it.each([
+    ['C1CC', 'Unclosed ring bond 1 (col 2)'],
+    ['C(C', "Unclosed branch '(' (col 2)"],
+    ['CX', "Unexpected character 'X' (col 2)"],
+    ['C(=O)(=O)(=O)C', "Valence error: 'C' has 7 bonds (allowed: 4) (col 1)"],
+  ])('rejects %s', (smiles, message) => {
+    const { molecule, errors } = parseSmiles(smiles);
+
+    expect(molecule).toBeNull();
+    expect(formatSmilesError(errors[0])).toBe(message);
+  });
+});
+
+describe('canonicalizeSmiles', () => {
+  it('writes the same string whatever the atom order', () => {
+    expect(canonicalizeSmiles('OCC')).toBe(canonicalizeSmiles('CCO'));
+    expect(canonicalizeSmiles('c1ccccc1C')).toBe(canonicalizeSmiles('Cc1ccccc1'));
+    expect(canonicalizeSmiles('Oc1ccc(NC(C)=O)cc1')).toBe(canonicalizeSmiles('CC(=O)Nc1ccc(O)cc1'));
+  });
+
+  it('writes Kekulé and aromatic spellings the same way', () => {
+    expect(canonicalizeSmiles('C1=CC=CC=C1')).toBe('c1ccccc1');
+    expect(canonicalizeSmiles('CC1=CC=CC=C1')).toBe(canonicalizeSmiles('c1ccccc1C'));
+    expect(canonicalizeSmiles('C1=CNC=C1')).toBe(canonicalizeSmiles('c1cc[nH]c1'));
+  });
+
+  it('keeps chirality whatever the neighbour order', () => {
+    expect(canonicalizeSmiles('C[C@H](N)O')).toBe('C[C@H](N)O');
+    expect(canonicalizeSmiles('N[C@@H](C)O')).toBe('C[C@H](N)O');
+    expect(canonicalizeSmiles('[C@@H](C)(N)O')).toBe('C[C@H](N)O');
+    expect(canonicalizeSmiles('O[C@H](N)C')).toBe('C[C@@H](N)O');
+    expect(canonicalizeSmiles('O1CCCC[C@H]1C')).toBe(canonicalizeSmiles('C1CCCO[C@@H]1C'));
+    expect(canonicalizeSmiles('O1CCCC[C@H]1C')).not.toBe(canonicalizeSmiles('C[C@H]1CCCCO1'));
+  });
+
+  it('keeps double-bond geometry whatever the direction it is written in', () => {
+    expect(canonicalizeSmiles('F\\C=C\\F')).toBe('F/C=C/F');
+    expect(canonicalizeSmiles('C(\\F)=C/F')).toBe('F/C=C/F');
+    expect(canonicalizeSmiles('C(/F)=C/F')).toBe('F/C=C\\F');
+    expect(canonicalizeSmiles('CCCCCC/C=C\\1.C1')).toBe(canonicalizeSmiles('C/C=C\\CCCCCC'));
+  });
+
+  it('returns null for unparsable input', () => {
+    expect(canonicalizeSmiles('C1CC')).toBeNull();
+  });
+});
+
+describe('perceiveAromaticity', () => {
+  it('marks Kekulé benzene and pyrrole rings aromatic', () => {
+    const perceive = (smiles: string) => writeCanonicalSmiles(perceiveAromaticity(parseSmiles(smiles).molecule!));
+
+    expect(perceive('C1=CC=CC=C1')).toBe('c1ccccc1');
+    expect(perceive('C1=CNC=C1')).toBe(canonicalizeSmiles('c1cc[nH]c1'));
+  });
+
+  it('leaves rings with an exocyclic double bond alone', () => {
+    const quinone = parseSmiles('O=C1C=CC(=O)C=C1').molecule!;
+
+    expect(perceiveAromaticity(quinone).atoms.some(a => a.aromatic)).toBe(false);
+  });
+});
+
+describe('validateSmiles', () => {
+  it('reports the canonical form of valid input', () => {
+    expect(validateSmiles('OCC')).toMatchObject({ valid: true, smiles: 'OCC', canonical: 'CCO', errors: [] });
+    expect(validateSmiles('C(C')).toMatchObject({ valid: false, canonical: null, molecule: null });
+  });
+});
+
+describe('partitionBySmiles', () => {
+  it('rejects invalid SMILES with a reason and keeps missing or trusted ones', () => {
+    const { valid, invalid } = partitionBySmiles(
+      [{ id: 1, smiles: 'CCO' }, { id: 2, smiles: 'C1CC' }, { id: 3, smiles: '' }, { id: 4, smiles: 'CX' }],
+      smiles => smiles === 'CX'
+    );
+
+    expect(valid.map(s => s.id)).toEqual([1, 3, 4]);
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0]).toMatchObject({ id: 2, rejection_reason: 'Invalid SMILES: Unclosed ring bond 1 (col 2)' });
+  });
+});
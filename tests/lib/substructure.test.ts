@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseSmiles } from '@/lib/smiles';
+import { compileQuery, findSubstructureMatches, hasSubstructure } from '@/lib/substructure';
+
+const molecule = (smiles: string) => parseSmiles(smiles).molecule!;
+
+describe('hasSubstructure', () => {
+  it('matches a ring inside a larger molecule but not its saturated analogue', () => {
+    const benzene = compileQuery('c1ccccc1');
+
+    expect(hasSubstructure(molecule('CC(=O)Nc1ccc(O)cc1'), benzene)).toBe(true);
+    expect(hasSubstructure(molecule('C1CCCCC1'), benzene)).toBe(false);
+  });
+
+  it('respects bond orders', () => {
+    expect(hasSubstructure(molecule('CC(=O)N'), compileQuery('C=O'))).toBe(true);
+    expect(hasSubstructure(molecule('CCO'), compileQuery('C=O'))).toBe(false);
+  });
+
+  it('treats * as any atom', () => {
+    expect(hasSubstructure(molecule('c1ccccc1N=Nc1ccccc1'), compileQuery('*N=N*'))).toBe(true);
+  });
+});
+
+describe('findSubstructureMatches', () => {
+  it('maps query atoms onto target atoms', () => {
+    const matches = findSubstructureMatches(molecule('OCCN'), compileQuery('CN'));
+
+    expect(matches).toEqual([[2, 3]]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { importReferenceFile } from '@/lib/reference-import';
+import { MAX_ENTRY_BYTES, readXlsxRows, XlsxLimitError } from '@/lib/xlsx';
+import { buildXlsx, zipEntries } from '../support/xlsx';
+
+const HEADER = '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>';
+
+describe('readXlsxRows', () => {
+  it('resolves shared, inline, boolean and numeric cells', () => {
+    const buffer = buildXlsx({
+      Compounds: HEADER
+        + '<row r="2"><c r="A2" t="inlineStr"><is><t>CC&amp;O</t></is></c><c r="B2"><v>-9.5</v></c></row>'
+        + '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3" t="b"><v>1</v></c></row>',
+    }, ['smiles', 'value', 'c1ccccc1']);
+
+    expect(readXlsxRows(buffer)).toEqual([
+      ['smiles', 'value'],
+      ['CC&O', '-9.5'],
+      ['c1ccccc1', 'TRUE'],
+    ]);
+  });
+
+  it('keeps blank rows and columns in place and pads rows to the widest', () => {
+    const buffer = buildXlsx({
+      Sheet1: HEADER + '<row r="4"><c r="C4"><v>7</v></c></row>',
+    }, ['a', 'b']);
+
+    expect(readXlsxRows(buffer)).toEqual([
+      ['a', 'b', ''],
+      ['', '', ''],
+      ['', '', ''],
+      ['', '', '7'],
+    ]);
+  });
+
+  it('reads a named worksheet and lists the available ones when missing', () => {
+    const buffer = buildXlsx({
+      First: '<row r="1"><c r="A1"><v>1</v></c></row>',
+      Second: '<row r="1"><c r="A1"><v>2</v></c></row>',
+    });
+
+    expect(readXlsxRows(buffer, 'Second')).toEqual([['2']]);
+    expect(() => readXlsxRows(buffer, 'Third')).toThrow("Worksheet 'Third' not found (available: First, Second)");
+  });
+
+  it('reads stored (uncompressed) entries', () => {
+    const buffer = zipEntries({
+      'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1"><v>42</v></c></row></sheetData></worksheet>',
+    }, true);
+
+    expect(readXlsxRows(buffer)).toEqual([['42']]);
+  });
+
+  it('inflates only the entries it reads, each within the size limit', () => {
+    const bomb = Buffer.alloc(MAX_ENTRY_BYTES + 1);
+    const withMedia = zipEntries({
+      'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1"><v>42</v></c></row></sheetData></worksheet>',
+      'xl/media/image1.png': bomb,
+    });
+    expect(readXlsxRows(withMedia)).toEqual([['42']]);
+
+    const bombSheet = zipEntries({ 'xl/worksheets/sheet1.xml': bomb });
+    expect(() => readXlsxRows(bombSheet)).toThrow(XlsxLimitError);
+    // Same entry with its declared size understated in the central directory
+    const centralSize = bombSheet.length - 22 - 46 - 'xl/worksheets/sheet1.xml'.length + 24;
+    bombSheet.writeUInt32LE(100, centralSize);
+    expect(() => readXlsxRows(bombSheet)).toThrow('Workbook entry xl/worksheets/sheet1.xml is larger than 64 MiB');
+  });
+
+  it('refuses cell references past the row and column limits', () => {
+    expect(() => readXlsxRows(buildXlsx({ Sheet1: '<row r="1048576"><c r="A1048576"><v>1</v></c></row>' })))
+      .toThrow('Worksheet has more than 100000 rows');
+    expect(() => readXlsxRows(buildXlsx({ Sheet1: '<row r="1"><c r="XFD1"><v>1</v></c></row>' })))
+      .toThrow('Worksheet has more than 1024 columns');
+  });
+
+  it('is rejected by the importer with a file-level issue when a limit is hit', () => {
+    const result = importReferenceFile(buildXlsx({ Sheet1: HEADER + '<row r="1048576"><c r="A1048576"><v>1</v></c></row>' }, ['smiles', 'protein_target']), 'xlsx');
+
+    expect(result).toEqual({
+      rows: [],
+      issues: [{ row: 0, field: null, message: 'Worksheet has more than 100000 rows' }],
+      total: 0,
+    });
+  });
+
+  it('rejects files that are not ZIP archives', () => {
+    expect(() => readXlsxRows(Buffer.from('smiles,value\nCCO,1\n'))).toThrow('Not a ZIP archive');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Pluggable fake for the global `fetch` the routes reach the outside world
+ * through: OpenAI chat completions and the agents' dev URLs (from
+ * agents.json). Tests register replies, call a route handler, then inspect the
+ * calls in order. Anything without a reply is answered 404, which the agent
+ * client treats as a failed call and the LLM client as an error.
+ */
+
+import { vi } from 'vitest';
+import { getAgent, getAgentDevUrl, type AgentName } from '@/lib/agent-registry';
+
+export const OPENAI_COMPLETIONS_URL = 'https://api.openai.com/v1/chat/completions';
+
+export interface FakeReply {
+  status?: number;
+  body?: unknown;
+}
+
+/** A reply, or a function of the parsed request body returning one */
+type ReplySource = FakeReply | ((body: Record<string, unknown>) => FakeReply);
+
+export interface FakeCall {
+  /** "openai" or "<agent> <path>", e.g. "simulab-judge /generate_verdict"; other URLs as-is */
+  target: string;
+  method: string;
+  body: Record<string, unknown> | null;
+  status: number;
+}
+
+interface LlmReply {
+  match?: string;
+  content: unknown;
+  status?: number;
+}
+
+export interface FakeFetch {
+  calls: FakeCall[];
+  /**
+   * Answer chat completions whose prompt contains `match` (any prompt when
+   * omitted) with `content`, serialized unless it is a string. The first
+   * registered reply that matches wins.
+   */
+  llm(content: unknown, match?: string): void;
+  /** Fail chat completions whose prompt contains `match` with an HTTP status */
+  llmError(status: number, match?: string): void;
+  /** Answer an agent endpoint (the path under its dev URL, e.g. "/evaluate_molecule") */
+  agent(agent: AgentName, path: string, reply: ReplySource): void;
+  /** Targets of the calls so far, in order */
+  targets(): string[];
+}
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body ?? null), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function promptText(body: Record<string, unknown> | null): string {
+  const messages = (body?.messages || []) as Array<{ content?: string }>;
+  return messages.map(m => m.content || '').join('\n');
+}
+
+/** Split a dev URL into its agent and path, or null for other URLs */
+function agentTarget(url: string, agents: AgentName[]): { agent: AgentName; path: string } | null {
+  for (const agent of agents) {
+    const definition = getAgent(agent);
+    const base = definition ? getAgentDevUrl(definition) : null;
+    if (base && url.startsWith(base)) return { agent, path: url.slice(base.length).split('?')[0] };
+  }
+  return null;
+}
+
+/**
+ * Replace the global fetch for the current test (restored by vitest's
+ * `unstubGlobals`)
+ */
+export function installFakeFetch(): FakeFetch {
+  const calls: FakeCall[] = [];
+  const llmReplies: LlmReply[] = [];
+  const agentReplies = new Map<string, ReplySource>();
+  const agents = new Set<AgentName>();
+
+  const answer = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+    const method = init?.method || 'GET';
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) as Record<string, unknown> : null;
+    const record = (target: string, response: Response) => {
+      calls.push({ target, method, body, status: response.status });
+      return response;
+    };
+
+    if (url === OPENAI_COMPLETIONS_URL) {
+      const prompt = promptText(body);
+      const hit = llmReplies.find(r => !r.match || prompt.includes(r.match));
+      if (!hit) return record('openai', json(404, { error: 'No fake LLM reply' }));
+      if (hit.status) return record('openai', json(hit.status, { error: 'Fake LLM failure' }));
+      const content = typeof hit.content === 'string' ? hit.content : JSON.stringify(hit.content);
+      return record('openai', json(200, {
+        model: body?.model,
+        choices: [{ message: { role: 'assistant', content } }],
+        usage: { prompt_tokens: Math.ceil(prompt.length / 4), completion_tokens: Math.ceil(content.length / 4) },
+      }));
+    }
+
+    const agent = agentTarget(url, [...agents]);
+    if (agent) {
+      const target = `${agent.agent} ${agent.path}`;
+      const source = agentReplies.get(target);
+      if (!source) return record(target, json(404, { error: 'No fake agent reply' }));
+      const reply = typeof source === 'function' ? source(body || {}) : source;
+      return record(target, json(reply.status ?? 200, reply.body));
+    }
+
+    return record(url, json(404, { error: 'Unexpected request' }));
+  };
+
+  vi.stubGlobal('fetch', vi.fn(answer));
+
+  return {
+    calls,
+    llm(content, match) {
+      llmReplies.push({ content, match });
+    },
+    llmError(status, match) {
+      llmReplies.push({ content: null, match, status });
+    },
+    agent(agent, path, reply) {
+      agents.add(agent);
+      agentReplies.set(`${agent} ${path}`, reply);
+    },
+    targets: () => calls.map(c => c.target),
+  };
+}
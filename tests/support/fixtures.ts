@@ -0,0 +1,111 @@
+/**
+ * Shared inputs for the route tests: scenarios for a target the reference
+ * snapshot knows (BCR-ABL) and one it does not (EGFR), their metrics, canned
+ * agent and LLM replies, and the phrases that tell the LLM prompts apart.
+ */
+
+/** A phrase from each prompt template, for routing fake LLM replies */
+export const PROMPTS = {
+  refineGoal: "refining a user's goal",
+  refineScenarios: 'design experimental scenarios',
+  metrics: 'Simulator agent for a multi-agent',
+  verdict: 'Judge agent for a multi-agent',
+  edit: 'Edit the report based on user instructions',
+  report: 'structured drug discovery report',
+};
+
+/** Reference snapshot rows: the BCR-ABL winner and its hERG-flagged rival */
+export const BCR_ABL_SCENARIOS = [
+  { scenario_id: 'scenario_1', scaffold: 'Pyrazolo-pyridine', smiles: 'CC1=C(C)N=C(C)C=C1N' },
+  { scenario_id: 'scenario_2', scaffold: 'Pyrrolo-pyrimidine', smiles: 'CC(=O)C1=C(N)N=C(C)N=1' },
+];
+
+/** Molecules for a target without reference rows */
+export const EGFR_SCENARIOS = [
+  { scenario_id: 'scenario_1', scaffold: 'Quinoline', smiles: 'c1ccc2ncccc2c1' },
+  { scenario_id: 'scenario_2', scaffold: 'Acetanilide', smiles: 'CC(=O)Nc1ccc(O)cc1' },
+];
+
+/** Metrics for EGFR_SCENARIOS: a clean candidate and a more potent hERG blocker */
+export const EGFR_METRICS = {
+  scenario_1: {
+    docking: { binding_affinity_kcal_per_mol: -9.2, potency_pass: true },
+    admet: { toxicity_risk: 'LOW', toxicity_prob: 0.12, herg_flag: false, is_safe: true },
+    synthesis: { sa_score: 2.8, num_steps: 4, estimated_cost_usd: 1540 },
+  },
+  scenario_2: {
+    docking: { binding_affinity_kcal_per_mol: -10.1, potency_pass: true },
+    admet: { toxicity_risk: 'HIGH', toxicity_prob: 0.71, herg_flag: true, is_safe: false },
+    synthesis: { sa_score: 2.5, estimated_cost_usd: 1450 },
+  },
+};
+
+export const DECISION_CRITERIA = {
+  docking: { hardFailThreshold: -7 },
+  admet: { hardFailHERG: true },
+  synthesis: { hardFailSa: 6 },
+};
+
+/** Judge-style verdict that wrongly crowns the hERG blocker */
+export const HERG_WINNER_VERDICT = {
+  winner: { scenario_id: 'scenario_2', reason: 'Strongest binder' },
+  selected: [{ scenario_id: 'scenario_1', reason: 'Clean profile' }],
+  rejected: [],
+};
+
+/** Report as the Results page holds it, for edit requests */
+export const STRUCTURED_REPORT = {
+  executive_summary: 'Quinoline leads the EGFR screen.',
+  winner: {
+    scenario_id: 'scenario_1',
+    scaffold: 'Quinoline',
+    binding_affinity: -9.2,
+    toxicity_risk: 'LOW',
+    herg_flag: false,
+    sa_score: 2.8,
+    cost_usd: 1540,
+  },
+  selected: [],
+  rejected: [{
+    scenario_id: 'scenario_2',
+    scaffold: 'Acetanilide',
+    binding_affinity: -10.1,
+    toxicity_risk: 'HIGH',
+    herg_flag: true,
+    sa_score: 2.5,
+    cost_usd: 1450,
+    rejection_reason: 'hERG liability',
+  }],
+};
+
+/** /evaluate_molecule reply for one molecule */
+export function agentMetrics(bindingAffinity: number, hergFlag: boolean, saScore: number, toxicityProb?: number) {
+  return {
+    success: true,
+    metrics: {
+      docking: { binding_affinity_kcal_per_mol: bindingAffinity, potency_pass: bindingAffinity <= -7 },
+      admet: {
+        toxicity_risk: hergFlag ? 'HIGH' : 'LOW',
+        ...(toxicityProb === undefined ? {} : { toxicity_prob: toxicityProb }),
+        herg_flag: hergFlag,
+        is_safe: !hergFlag,
+      },
+      synthesis: { sa_score: saScore, estimated_cost_usd: Math.round(700 + 300 * saScore) },
+    },
+    usage: { prompt_tokens: 120, completion_tokens: 80, model: 'gpt-4o' },
+  };
+}
+
+/** metrics.molecule LLM reply */
+export function llmMetrics(bindingAffinity: number, hergFlag: boolean, saScore: number) {
+  return {
+    binding_affinity_kcal_per_mol: bindingAffinity,
+    potency_pass: bindingAffinity <= -7,
+    toxicity_risk: hergFlag ? 'HIGH' : 'LOW',
+    toxicity_prob: hergFlag ? 0.7 : 0.1,
+    herg_flag: hergFlag,
+    is_safe: !hergFlag,
+    sa_score: saScore,
+    estimated_cost_usd: Math.round(700 + 300 * saScore),
+  };
+}
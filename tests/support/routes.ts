@@ -0,0 +1,45 @@
+/**
+ * Calling route handlers the way Next.js does, and making their responses
+ * stable enough to snapshot.
+ */
+
+import { NextRequest } from 'next/server';
+
+type Handler = (request: NextRequest) => Promise<Response>;
+
+export interface RouteResponse {
+  status: number;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any;
+}
+
+/**
+ * POST `body` as JSON to a route handler, e.g. `callRoute(POST, 'refine', {...})`
+ */
+export async function callRoute(handler: Handler, route: string, body: unknown): Promise<RouteResponse> {
+  const request = new NextRequest(`http://localhost/api/simulab/${route}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const response = await handler(request);
+  return { status: response.status, body: await response.json() };
+}
+
+const ISO_DATE = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z/g;
+// Ids the routes build from Date.now(): judge-…, edit-…, exp-…, exp_…
+const TIMESTAMP_ID = /\b(judge|edit|exp)([-_])\d{10,}\b/g;
+
+/**
+ * Mask timestamps and time-based ids, recursively
+ */
+export function normalize<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value.replace(ISO_DATE, '<date>').replace(TIMESTAMP_ID, '$1$2<time>') as T;
+  }
+  if (Array.isArray(value)) return value.map(normalize) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, normalize(entry)])) as T;
+  }
+  return value;
+}
@@ -0,0 +1,63 @@
+/**
+ * Route test environment, applied before every test file: a scratch data
+ * directory, the bundled reference snapshot, no response cache or span
+ * recording, single-attempt agent calls, and no agent or LLM configuration
+ * leaking in from the shell. A test opts into a path with vi.stubEnv
+ * (AGENT_MODE=dev for the agents, OPENAI_API_KEY for the LLM), imports the
+ * route afresh so it reads them, and answers its calls with ./fake-fetch.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+const CLEARED = [
+  'AGENT_MODE',
+  'AGENTEX_SDK_API_KEY',
+  'SGP_API_KEY',
+  'SGP_ACCOUNT_ID',
+  'NEXT_PUBLIC_ACCOUNT_ID',
+  'OPENAI_API_KEY',
+  'NEXT_PUBLIC_OPENAI_API_KEY',
+  'OPENAI_MODEL',
+  'SIMULAB_LLM_PROVIDER',
+  'SIMULAB_LLM_BASE_URL',
+  'SIMULAB_LLM_API_KEY',
+  'SIMULAB_LLM_RECORDINGS',
+  'SIMULAB_LLM_JSON_MODE',
+  'SIMULAB_LLM_JSON_RETRIES',
+  'SIMULAB_LLM_TIMEOUT_MS',
+  'SIMULAB_PROMPT_VERSIONS',
+  'SIMULAB_PROMPTS_DIR',
+  'SIMULAB_CACHE_TTL_SECONDS',
+  'SIMULAB_LLM_PRICES',
+  'SIMULAB_RUN_BUDGET_USD',
+  'SIMULAB_TRACE_RETENTION',
+  'SIMULAB_REFERENCE_FILE',
+  'SIMULAB_SIMULATOR_MODE',
+  'SIMULAB_SIMULATOR_CONCURRENCY',
+  'SIMULAB_SIMILARITY_THRESHOLD',
+  'SIMULAB_AGENT_TIMEOUT_MS',
+  'ORCHESTRATOR_PORT',
+  'SIMULATOR_PORT',
+  'JUDGE_PORT',
+];
+
+const dataDir = mkdtempSync(path.join(os.tmpdir(), 'simulab-test-'));
+
+for (const name of CLEARED) delete process.env[name];
+Object.assign(process.env, {
+  SIMULAB_DATA_DIR: dataDir,
+  SIMULAB_REFERENCE_SOURCES: 'snapshot',
+  SIMULAB_CACHE: 'off',
+  SIMULAB_TRACING: 'off',
+  SIMULAB_LLM_MODEL: 'gpt-4o-mini',
+  SIMULAB_AGENT_RETRIES: '0',
+  // Failures are the point of several tests; keep every agent's circuit closed
+  SIMULAB_AGENT_BREAKER_THRESHOLD: '1000',
+});
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
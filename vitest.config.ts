@@ -0,0 +1,18 @@
+import path from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.join(__dirname, 'src') },
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/support/setup.ts'],
+    // vi.stubEnv / vi.stubGlobal (the fake fetch) last one test
+    unstubEnvs: true,
+    unstubGlobals: true,
+    // Routes log every step; run with --silent=false to see them
+    silent: true,
+  },
+});